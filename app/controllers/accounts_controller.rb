@@ -2,6 +2,7 @@ class AccountsController < ApplicationController
   before_action :authenticate_user!
   before_action :ensure_has_company
   before_action :set_company
+  before_action :set_account, only: [ :update ]
 
   def index
     # Check if this is an API request (JSON) or page request (HTML/Inertia)
@@ -44,7 +45,8 @@ class AccountsController < ApplicationController
 
         render inertia: "Accounts/Index", props: {
           company: { id: @company.id, name: @company.name },
-          accounts: accounts.map { |a| account_detail_json(a) }
+          accounts: accounts.map { |a| account_detail_json(a) },
+          formOptions: account_form_options_json
         }
       end
     end
@@ -75,10 +77,46 @@ class AccountsController < ApplicationController
       fiscalYears: @fiscal_years.map { |fy| fiscal_year_json(fy) },
       selectedFiscalYearId: @selected_fiscal_year_id,
       account: account_detail_json(@account),
+      editableAccount: editable_account_json(@account),
+      formOptions: account_form_options_json,
       ledgerData: @ledger_data
     }
   end
 
+  # Accounts created in the chart of accounts form; the :account_form checks
+  # keep the code within the chart's ranges (see Account)
+  def create
+    @account = @company.accounts.build(account_params)
+
+    if @account.save(context: :account_form)
+      render json: {
+        success: true,
+        account: editable_account_json(@account)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @account.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  def update
+    @account.assign_attributes(account_params)
+
+    if @account.save(context: :account_form)
+      render json: {
+        success: true,
+        account: editable_account_json(@account)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @account.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
   def ledger
     @account = @company.accounts.find(params[:id])
     fiscal_year_id = params[:fiscal_year_id]&.to_i
@@ -98,6 +136,18 @@ class AccountsController < ApplicationController
     @company = current_user.companies.first
   end
 
+  def set_account
+    @account = @company.accounts.find(params[:id])
+  end
+
+  def account_params
+    permitted = params.require(:account).permit(:code, :name, :account_type, :tax_rate, :tax_key_code, :presentation_rule, :cid)
+    %i[tax_key_code presentation_rule cid].each do |attribute|
+      permitted[attribute] = permitted[attribute].presence if permitted.key?(attribute)
+    end
+    permitted
+  end
+
   def account_json(account, from_template: false)
     {
       id: account.id,
@@ -105,6 +155,7 @@ class AccountsController < ApplicationController
       name: account.name,
       accountType: account.account_type,
       taxRate: account.tax_rate.to_f,
+      taxKeyCode: account.tax_key_code,
       fromTemplate: from_template
     }
   end
@@ -124,7 +175,7 @@ class AccountsController < ApplicationController
     # Build query with eager loading to avoid N+1
     line_items = LineItem
       .joins(:journal_entry)
-      .includes(:journal_entry, :account)
+      .includes(:account, journal_entry: [ :fiscal_year, :reversal_of, :reversal ])
       .where(account_id: account.id)
       .where(journal_entries: { company_id: @company.id })
     # .where.not(journal_entries: { posted_at: nil }) # Only posted entries (GoBD)
@@ -147,7 +198,7 @@ class AccountsController < ApplicationController
     credits = line_items.where(direction: "credit").sum(:amount)
 
     # Get semantic category and presentation rule
-    semantic_cid = AccountMap.cid_for_code(account.code)
+    semantic_cid = AccountMap.for_company(@company).cid_for_code(account.code)
 
     # rule = account.presentation_rule&.to_sym || infer_presentation_rule(account.account_type)
     # position = PresentationRule.apply(rule, debits, credits, semantic_cid)
@@ -170,7 +221,12 @@ class AccountsController < ApplicationController
           bookingDate: journal_entry.booking_date,
           description: journal_entry.description,
           postedAt: journal_entry.posted_at,
+          voucherNumber: journal_entry.voucher_number,
+          voucherNumberRangeId: journal_entry.voucher_number_range_id,
+          counterpartyVatId: journal_entry.counterparty_vat_id,
           fiscalYearClosed: journal_entry.fiscal_year.closed?,
+          reversalOf: journal_entry.reversal_of && { id: journal_entry.reversal_of.id, bookingDate: journal_entry.reversal_of.booking_date },
+          reversedBy: journal_entry.reversal && { id: journal_entry.reversal.id, bookingDate: journal_entry.reversal.booking_date },
           lineItems: items.map { |li| line_item_json(li) }
         }
       end
@@ -195,6 +251,38 @@ class AccountsController < ApplicationController
     }
   end
 
+  # All attributes of the account form, with whether its section is locked
+  def editable_account_json(account)
+    {
+      id: account.id,
+      code: account.code,
+      name: account.name,
+      accountType: account.account_type,
+      taxRate: account.tax_rate.to_f,
+      taxKeyCode: account.tax_key_code,
+      presentationRule: account.presentation_rule,
+      cid: account.cid,
+      defaultCid: AccountMap.for_company(@company).cid_for_code(account.code),
+      isSystemAccount: account.is_system_account,
+      sectionLocked: account.reported_in_closed_year?
+    }
+  end
+
+  def account_form_options_json
+    {
+      sections: AccountMap.for_company(@company).assignable_sections.map do |section|
+        { cid: section[:cid], name: section[:name], accountType: section[:account_type] }
+      end,
+      taxKeys: tax_keys_json(@company),
+      presentationRules: PresentationRule.all_rules.map do |rule_id|
+        { id: rule_id.to_s, name: PresentationRule.get(rule_id)[:name] }
+      end,
+      codeRanges: ChartOfAccounts::CUSTOM_ACCOUNT_RANGES.map do |name, range|
+        { name: name, from: range.first, to: range.last }
+      end
+    }
+  end
+
   def line_item_json(line_item)
     {
       id: line_item.id,
@@ -202,7 +290,9 @@ class AccountsController < ApplicationController
       direction: line_item.direction,
       description: line_item.description,
       accountCode: line_item.account.code,
-      accountName: line_item.account.name
+      accountName: line_item.account.name,
+      taxKeyCode: line_item.tax_key_code,
+      accountRole: AccountRoles.for_company(@company).role_for(line_item.account.code)
     }
   end
 
@@ -212,7 +302,8 @@ class AccountsController < ApplicationController
       year: fiscal_year.year,
       startDate: fiscal_year.start_date.to_s,
       endDate: fiscal_year.end_date.to_s,
-      closed: fiscal_year.closed?
+      closed: fiscal_year.closed?,
+      lockedUntil: fiscal_year.locked_until&.to_s
     }
   end
 end
@@ -35,4 +35,18 @@ class ApplicationController < ActionController::Base
 
     fiscal_years[company_id.to_s]&.to_i
   end
+
+  # Tax keys (BU-Schlüssel) of the company's chart of accounts for the booking UIs
+  def tax_keys_json(company)
+    TaxKey.for_company(company).map do |tax_key|
+      {
+        code: tax_key.code,
+        name: tax_key.name,
+        kind: tax_key.kind,
+        rate: tax_key.rate,
+        vatAccountCode: tax_key.vat_account_code,
+        reverseChargeAccountCode: tax_key.reverse_charge_account_code
+      }
+    end
+  end
 end
@@ -2,7 +2,7 @@ class BankAccountsController < ApplicationController
   before_action :authenticate_user!
   before_action :ensure_has_company
   before_action :set_company
-  before_action :set_bank_account, only: [ :show, :import_preview, :import ]
+  before_action :set_bank_account, only: [ :show, :import_preview, :import, :import_camt_preview, :import_camt, :import_sample, :apply_booking_rules, :reconciliation ]
 
   def index
     @bank_accounts = @company.bank_accounts.includes(:ledger_account)
@@ -41,9 +41,11 @@ class BankAccountsController < ApplicationController
       bankAccount: bank_account_json(@bank_account),
       transactions: @transactions.map { |tx| transaction_json(tx) },
       recentAccounts: @recent_accounts.map { |a| account_json(a) },
+      taxKeys: tax_keys_json(@company),
       fiscalYear: @current_fiscal_year ? fiscal_year_json(@current_fiscal_year) : nil,
       fiscalYears: @fiscal_years.map { |fy| fiscal_year_json(fy) },
-      selectedFiscalYearId: @selected_fiscal_year&.id
+      selectedFiscalYearId: @selected_fiscal_year&.id,
+      importProfiles: @bank_account.bank_import_profiles.order(:name).map { |profile| import_profile_json(profile) }
     }
   end
 
@@ -51,12 +53,16 @@ class BankAccountsController < ApplicationController
     csv_data = params[:csv_data]
 
     begin
-      parser = TransactionCsvParser.new(csv_data)
+      parser = statement_parser_for(csv_data, params[:profile_id])
       parsed_transactions = parser.parse
+      matches = duplicate_matches_for(parsed_transactions)
+
       render json: {
         success: true,
-        preview: parsed_transactions.first(5).map { |tx| transaction_preview_json(tx) },
-        totalCount: parsed_transactions.count
+        preview: parsed_transactions.each_with_index.map { |tx, index| import_preview_json(tx, matches[index], index) },
+        totalCount: parsed_transactions.count,
+        duplicateCount: matches.count { |match| match.status == "exact_duplicate" },
+        probableDuplicateCount: matches.count { |match| match.status == "probable_duplicate" }
       }
     rescue => e
       render json: {
@@ -70,45 +76,142 @@ class BankAccountsController < ApplicationController
     csv_data = params[:csv_data]
 
     begin
-      parser = TransactionCsvParser.new(csv_data)
+      parser = statement_parser_for(csv_data, params[:profile_id])
       parsed_transactions = parser.parse
-      import_timestamp = Time.current.iso8601
-
-      created_transactions = []
-      ActiveRecord::Base.transaction do
-        parsed_transactions.each do |tx_data|
-          transaction = @bank_account.bank_transactions.create!(
-            booking_date: tx_data.booking_date,
-            value_date: tx_data.value_date,
-            amount: tx_data.amount,
-            currency: @bank_account.currency,
-            remittance_information: tx_data.remittance_information,
-            counterparty_name: tx_data.counterparty_name,
-            counterparty_iban: tx_data.counterparty_iban,
-            status: "pending",
-            config: {
-              import: {
-                ts: import_timestamp,
-                origin: "csv-paste"
-              }
-            }
-          )
-          created_transactions << transaction
-        end
+      result = BankTransactionImporter.new(
+        bank_account: @bank_account,
+        transactions: parsed_transactions,
+        origin: import_origin_for(parser),
+        skip_indexes: skip_indexes_for(parsed_transactions)
+      ).call
+
+      if result.success?
+        record_statement_balances(parser.statements, "mt940") if parser.is_a?(Mt940StatementParser)
+
+        render json: {
+          success: true,
+          importedCount: result.imported_count,
+          skippedCount: result.skipped_count
+        }
+      else
+        render json: {
+          success: false,
+          error: result.errors.join(", ")
+        }, status: :unprocessable_entity
       end
+    rescue => e
+      render json: {
+        success: false,
+        error: e.message
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # Splits pasted CSV data into raw rows using unsaved profile settings,
+  # so the column mapper can show the sample before the profile is saved
+  def import_sample
+    profile = @bank_account.bank_import_profiles.new(
+      params.permit(:skip_lines, :has_header, :delimiter, :quote_char).to_h
+    )
+
+    render json: {
+      success: true,
+      rows: BankImportProfileParser.new(params[:csv_data], profile).sample_rows
+    }
+  rescue BankImportProfileParser::ParseError => e
+    render json: {
+      success: false,
+      error: e.message
+    }, status: :unprocessable_entity
+  end
+
+  def import_camt_preview
+    parser = CamtStatementParser.new(params[:camt_data])
+    parsed_transactions = parser.parse
+    ensure_statement_matches_account!(parser.statements)
+    matches = duplicate_matches_for(parsed_transactions)
+
+    render json: {
+      success: true,
+      preview: parsed_transactions.each_with_index.map { |tx, index| camt_transaction_preview_json(tx, matches[index], index) },
+      totalCount: parsed_transactions.count,
+      duplicateCount: matches.count { |match| match.status == "exact_duplicate" },
+      probableDuplicateCount: matches.count { |match| match.status == "probable_duplicate" },
+      statements: parser.statements.map { |statement| camt_statement_json(statement) }
+    }
+  rescue CamtStatementParser::ParseError => e
+    render json: {
+      success: false,
+      error: e.message
+    }, status: :unprocessable_entity
+  end
+
+  def import_camt
+    parser = CamtStatementParser.new(params[:camt_data])
+    parsed_transactions = parser.parse
+    ensure_statement_matches_account!(parser.statements)
+
+    result = BankTransactionImporter.new(
+      bank_account: @bank_account,
+      transactions: parsed_transactions,
+      origin: "camt-upload",
+      skip_indexes: skip_indexes_for(parsed_transactions)
+    ).call
+
+    if result.success?
+      record_statement_balances(parser.statements, "camt")
 
       render json: {
         success: true,
-        importedCount: created_transactions.count
+        importedCount: result.imported_count,
+        skippedCount: result.skipped_count
       }
-    rescue => e
+    else
       render json: {
         success: false,
-        error: e.message
+        error: result.errors.join(", ")
+      }, status: :unprocessable_entity
+    end
+  rescue CamtStatementParser::ParseError => e
+    render json: {
+      success: false,
+      error: e.message
+    }, status: :unprocessable_entity
+  end
+
+  # Creates draft journal entries for all pending transactions matching a booking rule
+  def apply_booking_rules
+    result = BookingRuleApplier.new(company: @company, bank_account: @bank_account).call
+
+    if result.success?
+      render json: {
+        success: true,
+        bookedCount: result.booked_count,
+        unmatchedCount: result.unmatched_count,
+        errors: result.errors
+      }
+    else
+      render json: {
+        success: false,
+        error: result.errors.join(", ")
       }, status: :unprocessable_entity
     end
   end
 
+  # Ledger balance vs. statement closing balances, with the transactions explaining differences
+  def reconciliation
+    rows = BankReconciliationService.new(bank_account: @bank_account).call
+
+    render inertia: "BankAccounts/Reconciliation", props: {
+      company: {
+        id: @company.id,
+        name: @company.name
+      },
+      bankAccount: bank_account_json(@bank_account),
+      rows: rows.map { |row| reconciliation_row_json(row) }
+    }
+  end
+
   private
 
   def ensure_has_company
@@ -125,6 +228,57 @@ class BankAccountsController < ApplicationController
     @bank_account = @company.bank_accounts.find(params[:id])
   end
 
+  # Pasted statement data is parsed with the selected import profile,
+  # otherwise it is detected as MT940 or auto-detected CSV
+  def statement_parser_for(data, profile_id = nil)
+    if profile_id.present?
+      BankImportProfileParser.new(data, @bank_account.bank_import_profiles.find(profile_id))
+    elsif Mt940StatementParser.mt940?(data)
+      Mt940StatementParser.new(data)
+    else
+      TransactionCsvParser.new(data)
+    end
+  end
+
+  def duplicate_matches_for(transactions)
+    BankTransactionDuplicateDetector.new(bank_account: @bank_account, transactions: transactions).detect
+  end
+
+  # Row indexes the user chose to skip in the preview.
+  # Without an explicit choice, all detected duplicates are skipped.
+  def skip_indexes_for(transactions)
+    return Array(params[:skip_indexes]) unless params[:skip_indexes].nil?
+
+    duplicate_matches_for(transactions).each_with_index.filter_map { |match, index| index if match.duplicate? }
+  end
+
+  def import_origin_for(parser)
+    case parser
+    when Mt940StatementParser then "mt940-paste"
+    when BankImportProfileParser then "csv-profile"
+    else "csv-paste"
+    end
+  end
+
+  # Refuses statements for a different account than the one being imported into
+  def ensure_statement_matches_account!(statements)
+    return if @bank_account.iban.blank?
+
+    own_iban = normalize_iban(@bank_account.iban)
+    mismatch = statements.find { |statement| statement.iban.present? && normalize_iban(statement.iban) != own_iban }
+    return unless mismatch
+
+    raise CamtStatementParser::ParseError, "Statement is for account #{mismatch.iban}, not #{@bank_account.iban}"
+  end
+
+  def record_statement_balances(statements, source)
+    BankStatementBalance.record_from_statements(bank_account: @bank_account, statements: statements, source: source)
+  end
+
+  def normalize_iban(iban)
+    iban.to_s.gsub(/\s/, "").upcase
+  end
+
   def bank_account_json(bank_account)
     {
       id: bank_account.id,
@@ -156,7 +310,8 @@ class BankAccountsController < ApplicationController
       status: transaction.status,
       config: transaction.config,
       journalEntryId: journal_entry&.id,
-      journalEntryPosted: journal_entry&.posted?
+      journalEntryPosted: journal_entry&.posted?,
+      voucherNumber: journal_entry&.voucher_number
     }
   end
 
@@ -176,7 +331,8 @@ class BankAccountsController < ApplicationController
       year: fiscal_year.year,
       startDate: fiscal_year.start_date,
       endDate: fiscal_year.end_date,
-      closed: fiscal_year.closed
+      closed: fiscal_year.closed,
+      lockedUntil: fiscal_year.locked_until
     }
   end
 
@@ -184,10 +340,90 @@ class BankAccountsController < ApplicationController
     {
       booking_date: tx_data.booking_date&.to_s,
       value_date: tx_data.value_date&.to_s,
-      amount: tx_data.amount,
+      amount: tx_data.amount.to_f,
       remittance_information: tx_data.remittance_information,
       counterparty_name: tx_data.counterparty_name,
       counterparty_iban: tx_data.counterparty_iban
     }
   end
+
+  def import_profile_json(profile)
+    {
+      id: profile.id,
+      name: profile.name,
+      skipLines: profile.skip_lines,
+      hasHeader: profile.has_header,
+      delimiter: profile.delimiter,
+      quoteChar: profile.quote_char,
+      dateFormat: profile.date_format,
+      decimalSeparator: profile.decimal_separator,
+      signConvention: profile.sign_convention,
+      columnMapping: profile.column_mapping
+    }
+  end
+
+  def import_preview_json(tx_data, match, index)
+    transaction_preview_json(tx_data).merge(
+      index: index,
+      duplicate_status: match.status,
+      reference_match: match.reference_match,
+      duplicate_of: match.bank_transaction && {
+        id: match.bank_transaction.id,
+        booking_date: match.bank_transaction.booking_date.to_s,
+        amount: match.bank_transaction.amount.to_f,
+        remittance_information: match.bank_transaction.remittance_information,
+        counterparty_name: match.bank_transaction.counterparty_name,
+        status: match.bank_transaction.status
+      }
+    )
+  end
+
+  def camt_transaction_preview_json(tx_data, match, index)
+    import_preview_json(tx_data, match, index).merge(
+      remote_transaction_id: tx_data.remote_transaction_id,
+      end_to_end_id: tx_data.end_to_end_id
+    )
+  end
+
+  def camt_statement_json(statement)
+    {
+      statement_id: statement.statement_id,
+      iban: statement.iban,
+      currency: statement.currency,
+      from_date: statement.from_date&.to_s,
+      to_date: statement.to_date&.to_s,
+      opening_balance: statement.opening_balance&.to_f,
+      opening_date: statement.opening_date&.to_s,
+      closing_balance: statement.closing_balance&.to_f,
+      closing_date: statement.closing_date&.to_s
+    }
+  end
+  def reconciliation_row_json(row)
+    statement_balance = row.statement_balance
+
+    {
+      id: statement_balance.id,
+      balanceDate: statement_balance.balance_date,
+      source: statement_balance.source,
+      statementReference: statement_balance.statement_reference,
+      bankBalance: statement_balance.balance.to_f,
+      ledgerBalance: row.ledger_balance.to_f,
+      difference: row.difference.to_f,
+      matched: row.matched?,
+      reconcilableCount: row.reconcilable_count,
+      pendingTransactions: row.pending_transactions.map { |tx| transaction_json(tx) },
+      mismatchedTransactions: row.mismatched_transactions.map do |mismatch|
+        transaction_json(mismatch.bank_transaction).merge(reason: mismatch.reason)
+      end,
+      unlinkedLineItems: row.unlinked_line_items.map do |line_item|
+        {
+          id: line_item.id,
+          journalEntryId: line_item.journal_entry_id,
+          bookingDate: line_item.journal_entry.booking_date,
+          description: line_item.description.presence || line_item.journal_entry.description,
+          amount: (line_item.direction == "debit" ? line_item.amount : -line_item.amount).to_f
+        }
+      end
+    }
+  end
 end
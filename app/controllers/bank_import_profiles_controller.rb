@@ -0,0 +1,91 @@
+class BankImportProfilesController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+  before_action :set_company
+  before_action :set_bank_account
+  before_action :set_import_profile, only: [ :update, :destroy ]
+
+  def create
+    profile = @bank_account.bank_import_profiles.new(import_profile_params)
+
+    if profile.save
+      render json: { success: true, importProfile: import_profile_json(profile) }
+    else
+      render json: { success: false, errors: profile.errors.full_messages }, status: :unprocessable_entity
+    end
+  end
+
+  def update
+    if @import_profile.update(import_profile_params)
+      render json: { success: true, importProfile: import_profile_json(@import_profile) }
+    else
+      render json: { success: false, errors: @import_profile.errors.full_messages }, status: :unprocessable_entity
+    end
+  end
+
+  def destroy
+    @import_profile.destroy!
+    render json: { success: true }
+  end
+
+  private
+
+  def ensure_has_company
+    redirect_to onboarding_path unless current_user.companies.any?
+  end
+
+  def set_company
+    @company = current_user.companies.first
+  end
+
+  def set_bank_account
+    @bank_account = @company.bank_accounts.find(params[:bank_account_id])
+  end
+
+  def set_import_profile
+    @import_profile = @bank_account.bank_import_profiles.find(params[:id])
+  end
+
+  def import_profile_params
+    permitted = params.require(:import_profile).permit(
+      :name,
+      :skip_lines,
+      :has_header,
+      :delimiter,
+      :quote_char,
+      :date_format,
+      :decimal_separator,
+      :sign_convention
+    ).to_h
+    permitted[:column_mapping] = column_mapping_param if params[:import_profile].key?(:column_mapping)
+    permitted
+  end
+
+  # Column mapping: field name => column index (or list of indexes for text fields)
+  def column_mapping_param
+    mapping = params[:import_profile][:column_mapping]
+    mapping = mapping.respond_to?(:to_unsafe_h) ? mapping.to_unsafe_h : mapping.to_h
+
+    mapping.each_with_object({}) do |(field, columns), result|
+      indexes = Array(columns).reject(&:blank?).map(&:to_i)
+      next if indexes.empty?
+
+      result[field.to_s] = BankImportProfile::MULTI_COLUMN_FIELDS.include?(field.to_s) ? indexes : indexes.first
+    end
+  end
+
+  def import_profile_json(profile)
+    {
+      id: profile.id,
+      name: profile.name,
+      skipLines: profile.skip_lines,
+      hasHeader: profile.has_header,
+      delimiter: profile.delimiter,
+      quoteChar: profile.quote_char,
+      dateFormat: profile.date_format,
+      decimalSeparator: profile.decimal_separator,
+      signConvention: profile.sign_convention,
+      columnMapping: profile.column_mapping
+    }
+  end
+end
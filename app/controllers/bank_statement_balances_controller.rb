@@ -0,0 +1,57 @@
+class BankStatementBalancesController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+  before_action :set_company
+  before_action :set_bank_account
+  before_action :set_statement_balance, only: [ :destroy, :reconcile ]
+
+  # Typed-in closing balance; replaces an existing balance for the same date
+  def create
+    statement_balance = @bank_account.bank_statement_balances
+      .find_or_initialize_by(balance_date: statement_balance_params[:balance_date])
+    statement_balance.assign_attributes(balance: statement_balance_params[:balance], source: "manual", statement_reference: nil)
+
+    if statement_balance.save
+      render json: { success: true }
+    else
+      render json: { success: false, errors: statement_balance.errors.full_messages }, status: :unprocessable_entity
+    end
+  end
+
+  def destroy
+    @statement_balance.destroy!
+    render json: { success: true }
+  end
+
+  def reconcile
+    result = BankStatementReconciler.new(statement_balance: @statement_balance).call
+
+    if result.success?
+      render json: { success: true, reconciledCount: result.reconciled_count }
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
+  private
+
+  def ensure_has_company
+    redirect_to onboarding_path unless current_user.companies.any?
+  end
+
+  def set_company
+    @company = current_user.companies.first
+  end
+
+  def set_bank_account
+    @bank_account = @company.bank_accounts.find(params[:bank_account_id])
+  end
+
+  def set_statement_balance
+    @statement_balance = @bank_account.bank_statement_balances.find(params[:id])
+  end
+
+  def statement_balance_params
+    params.require(:statement_balance).permit(:balance_date, :balance)
+  end
+end
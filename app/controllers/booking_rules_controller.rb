@@ -0,0 +1,157 @@
+class BookingRulesController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+  before_action :set_company
+  before_action :set_booking_rule, only: [ :update, :destroy ]
+
+  def index
+    @booking_rules = @company.booking_rules.ordered
+    @recent_accounts = @company.account_usages.recent.includes(:account).map(&:account).compact
+
+    render inertia: "BookingRules/Index", props: {
+      company: {
+        id: @company.id,
+        name: @company.name
+      },
+      bookingRules: @booking_rules.map { |rule| booking_rule_json(rule) },
+      recentAccounts: @recent_accounts.map { |a| account_json(a) }
+    }
+  end
+
+  # Proposes a rule from an already booked bank transaction (not saved yet)
+  def from_bank_transaction
+    bank_transaction = BankTransaction.joins(:bank_account)
+      .where(bank_accounts: { company_id: @company.id })
+      .find_by(id: params[:bank_transaction_id])
+
+    unless bank_transaction&.line_item
+      return render json: {
+        success: false,
+        errors: [ "Booked bank transaction not found" ]
+      }, status: :not_found
+    end
+
+    render json: {
+      success: true,
+      bookingRule: booking_rule_json(BookingRule.from_bank_transaction(bank_transaction))
+    }
+  end
+
+  def create
+    @booking_rule = @company.booking_rules.build(booking_rule_params)
+    # New rules are tried last unless a position is given
+    @booking_rule.position = (@company.booking_rules.maximum(:position) || 0) + 1 unless booking_rule_params.key?(:position)
+
+    if @booking_rule.save
+      render json: {
+        success: true,
+        bookingRule: booking_rule_json(@booking_rule)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @booking_rule.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  def update
+    if @booking_rule.update(booking_rule_params)
+      render json: {
+        success: true,
+        bookingRule: booking_rule_json(@booking_rule)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @booking_rule.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  def destroy
+    if @booking_rule.destroy
+      render json: { success: true }
+    else
+      render json: {
+        success: false,
+        errors: @booking_rule.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  private
+
+  def ensure_has_company
+    unless current_user.companies.any?
+      redirect_to onboarding_path
+    end
+  end
+
+  def set_company
+    @company = current_user.companies.first
+  end
+
+  def set_booking_rule
+    @booking_rule = @company.booking_rules.find(params[:id])
+  rescue ActiveRecord::RecordNotFound
+    render json: {
+      success: false,
+      errors: [ "Booking rule not found" ]
+    }, status: :not_found
+  end
+
+  def booking_rule_params
+    params.require(:booking_rule).permit(
+      :name,
+      :position,
+      :active,
+      :counterparty_iban,
+      :counterparty_name,
+      :remittance_pattern,
+      :amount_min,
+      :amount_max,
+      :direction,
+      :account_code,
+      :vat_mode,
+      :description_template
+    )
+  end
+
+  def booking_rule_json(rule)
+    {
+      id: rule.id,
+      name: rule.name,
+      position: rule.position,
+      active: rule.active,
+      counterpartyIban: rule.counterparty_iban,
+      counterpartyName: rule.counterparty_name,
+      remittancePattern: rule.remittance_pattern,
+      amountMin: rule.amount_min&.to_f,
+      amountMax: rule.amount_max&.to_f,
+      direction: rule.direction,
+      accountCode: rule.account_code,
+      accountName: account_name_for(rule.account_code),
+      vatMode: rule.vat_mode,
+      descriptionTemplate: rule.description_template
+    }
+  end
+
+  # Rules may point to accounts that are only created from the template on first use
+  def account_name_for(code)
+    return nil if code.blank?
+
+    @company.accounts.find_by(code: code)&.name ||
+      @company.chart_of_accounts&.account_templates&.find_by(code: code)&.name
+  end
+
+  def account_json(account)
+    {
+      id: account.id,
+      code: account.code,
+      name: account.name,
+      accountType: account.account_type,
+      taxRate: account.tax_rate.to_f
+    }
+  end
+end
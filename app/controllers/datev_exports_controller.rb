@@ -0,0 +1,60 @@
+class DatevExportsController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+  before_action :set_company
+  before_action :set_fiscal_year
+
+  # EXTF Buchungsstapel (journal entries)
+  def bookings
+    export_file(:bookings_csv, "EXTF_Buchungsstapel_#{@fiscal_year.year}.csv")
+  end
+
+  # EXTF Kontenbeschriftungen (names of the accounts used in the Buchungsstapel)
+  def accounts
+    export_file(:accounts_csv, "EXTF_Kontenbeschriftungen_#{@fiscal_year.year}.csv")
+  end
+
+  private
+
+  def ensure_has_company
+    redirect_to onboarding_path unless current_user.companies.any?
+  end
+
+  def set_company
+    @company = current_user.companies.first
+  end
+
+  def set_fiscal_year
+    @fiscal_year = @company.fiscal_years.find_by(id: params[:fiscal_year_id])
+    return if @fiscal_year
+
+    render json: { success: false, errors: [ "Fiscal year not found" ] }, status: :not_found
+  end
+
+  def export_file(content, filename)
+    result = DatevExportService.new(
+      company: @company,
+      fiscal_year: @fiscal_year,
+      from: parse_date(params[:from]),
+      to: parse_date(params[:to]),
+      posted_only: params[:posted_only] != "false",
+      consultant_number: params[:consultant_number],
+      client_number: params[:client_number]
+    ).call
+
+    if result.success?
+      send_data result.public_send(content),
+        filename: filename,
+        type: "text/csv; charset=windows-1252",
+        disposition: "attachment"
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
+  def parse_date(value)
+    Date.iso8601(value) if value.present?
+  rescue Date::Error
+    nil
+  end
+end
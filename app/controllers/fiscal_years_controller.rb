@@ -126,6 +126,44 @@ class FiscalYearsController < ApplicationController
     end
   end
 
+  def datev_import_form
+    @company = current_user.companies.first
+
+    render inertia: "FiscalYears/DatevImport", props: camelize_keys({
+      company: {
+        id: @company.id,
+        name: @company.name
+      }
+    })
+  end
+
+  # Dry run: shows what the DATEV import would create and what blocks it
+  def datev_import_preview
+    @company = current_user.companies.first
+    result = DatevBookingImporter.new(company: @company, data: params[:datev_data]).call(dry_run: true)
+
+    if result.success?
+      render json: { success: true, preview: camelize_keys(datev_preview_props(result.preview)) }
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
+  def datev_import_create
+    @company = current_user.companies.first
+    result = DatevBookingImporter.new(
+      company: @company,
+      data: params[:datev_data],
+      post_entries: ActiveModel::Type::Boolean.new.cast(params.fetch(:post_entries, true))
+    ).call(dry_run: false)
+
+    if result.success?
+      render json: { success: true, importedCount: result.journal_entries_count }
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
   def show
     @company = current_user.companies.first
 
@@ -238,6 +276,26 @@ class FiscalYearsController < ApplicationController
     }
   end
 
+  def datev_preview_props(preview)
+    {
+      year: preview.year,
+      from_date: preview.from_date,
+      to_date: preview.to_date,
+      row_count: preview.row_count,
+      batch_count: preview.batch_count,
+      existing_entry_count: preview.existing_entry_count,
+      accounts_to_create: preview.accounts_to_create,
+      unmapped_accounts: preview.unmapped_accounts,
+      unbalanced_batches: preview.unbalanced_batches.map do |batch|
+        batch.merge(debit_total: batch[:debit_total].to_f, credit_total: batch[:credit_total].to_f)
+      end,
+      unsupported_tax_keys: preview.unsupported_tax_keys,
+      invalid_vat_ids: preview.invalid_vat_ids,
+      date_errors: preview.date_errors,
+      importable: preview.importable?
+    }
+  end
+
   def balance_sheet_props(balance_sheet)
     {
       id: balance_sheet.id,
@@ -2,7 +2,7 @@ class JournalEntriesController < ApplicationController
   before_action :authenticate_user!
   before_action :ensure_has_company
   before_action :set_company
-  before_action :set_journal_entry, only: [ :destroy, :update, :show ]
+  before_action :set_journal_entry, only: [ :destroy, :update, :show, :reverse ]
 
   def show
     render json: journal_entry_with_details(@journal_entry)
@@ -30,7 +30,7 @@ class JournalEntriesController < ApplicationController
 
     # Query journal entries with optional fiscal year filter
     @journal_entries = @company.journal_entries
-      .includes(line_items: :account, fiscal_year: nil)
+      .includes(:reversal_of, :reversal, line_items: :account, fiscal_year: nil)
       .then { |q| @fiscal_year ? q.where(fiscal_year_id: @fiscal_year.id) : q }
       .order(booking_date: :asc, id: :asc)
 
@@ -48,18 +48,24 @@ class JournalEntriesController < ApplicationController
           year: fy.year,
           start_date: fy.start_date,
           end_date: fy.end_date,
-          closed: fy.closed
+          closed: fy.closed,
+          locked_until: fy.locked_until
         }
       },
       selected_fiscal_year_id: @fiscal_year&.id,
       journal_entries: @journal_entries.map { |je| journal_entry_with_details(je) },
-      recent_accounts: @recent_accounts.map { |a| account_json(a) }
+      recent_accounts: @recent_accounts.map { |a| account_json(a) },
+      voucher_number_ranges: @company.voucher_number_ranges.ordered.map { |range| { id: range.id, name: range.name, pattern: range.pattern } },
+      tax_keys: tax_keys_json(@company),
+      due_recurring_entries: RecurringEntryGenerator.new(company: @company).call.items.map { |item| recurring_entry_item_json(item) }
     })
   end
 
   def create
     # Check if this is a manual entry or bank transaction booking
-    if params[:bank_transaction_id].present?
+    if params[:bank_transaction_ids].present?
+      create_from_bank_transactions
+    elsif params[:bank_transaction_id].present?
       create_from_bank_transaction
     else
       create_manual_entry
@@ -98,6 +104,71 @@ class JournalEntriesController < ApplicationController
     end
   end
 
+  # Drafts that a batch posting up to the given date would post, with their problems
+  def posting_preview
+    fiscal_year = @company.fiscal_years.find(params[:fiscal_year_id])
+    result = JournalEntryBatchPoster.new(fiscal_year: fiscal_year, up_to: params[:up_to]).call(dry_run: true)
+
+    if result.success?
+      render json: { success: true, entries: result.items.map { |item| batch_posting_item_json(item) } }
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
+  # Festschreibung: posts all drafts up to the date and locks the period
+  def post_period
+    fiscal_year = @company.fiscal_years.find(params[:fiscal_year_id])
+    result = JournalEntryBatchPoster.new(fiscal_year: fiscal_year, up_to: params[:up_to]).call(dry_run: false)
+
+    if result.success?
+      render json: { success: true, postedCount: result.posted_count, lockedUntil: fiscal_year.reload.locked_until }
+    else
+      render json: {
+        success: false,
+        errors: result.errors,
+        entries: result.items.map { |item| batch_posting_item_json(item) }
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # Fast entry grid: books all rows as draft entries, or none if any row has a problem
+  def fast_entry
+    result = FastEntryBooker.new(company: @company, rows: fast_entry_params).call(dry_run: false)
+
+    if result.success?
+      render json: { success: true, createdCount: result.journal_entries.size }
+    else
+      render json: {
+        success: false,
+        errors: result.errors,
+        rows: result.items.map { |item| { problems: item.problems } }
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # Storno: books a mirrored entry linked to the posted original
+  def reverse
+    result = JournalEntryReverser.new(
+      journal_entry: @journal_entry,
+      booking_date: params[:booking_date],
+      description: params[:description]
+    ).call
+
+    if result.success?
+      render json: {
+        success: true,
+        journalEntry: journal_entry_with_details(result.journal_entry),
+        originalEntry: journal_entry_with_details(@journal_entry.reload)
+      }
+    else
+      render json: {
+        success: false,
+        errors: result.errors
+      }, status: :unprocessable_entity
+    end
+  end
+
   private
 
   def create_from_bank_transaction
@@ -129,6 +200,37 @@ class JournalEntriesController < ApplicationController
     end
   end
 
+  # Aggregated booking: several bank transactions against one counter booking
+  def create_from_bank_transactions
+    ids = Array(params[:bank_transaction_ids]).map(&:to_i).uniq
+    bank_transactions = find_bank_transactions(ids)
+
+    unless bank_transactions.size == ids.size
+      return render json: {
+        success: false,
+        errors: [ "Bank transaction not found" ]
+      }, status: :not_found
+    end
+
+    result = JournalEntryCreator.new(
+      company: @company,
+      bank_transactions: bank_transactions,
+      params: journal_entry_params
+    ).call
+
+    if result.success?
+      render json: {
+        success: true,
+        journalEntry: journal_entry_json(result.journal_entry)
+      }
+    else
+      render json: {
+        success: false,
+        errors: result.errors
+      }, status: :unprocessable_entity
+    end
+  end
+
   def create_manual_entry
     result = ManualJournalEntryCreator.new(
       company: @company,
@@ -166,14 +268,24 @@ class JournalEntriesController < ApplicationController
       .find_by(id: params[:bank_transaction_id])
   end
 
+  def find_bank_transactions(ids)
+    BankTransaction.joins(bank_account: :company)
+      .where(companies: { id: @company.id }, id: ids)
+      .order(:booking_date, :id)
+      .to_a
+  end
+
   def journal_entry_params
     params.require(:journal_entry).permit(
       :account_id,
       :account_code,
       :description,
+      :counterparty_vat_id,
       :vat_split,
       :vat_rate,
-      :vat_mode
+      :vat_mode,
+      :tax_key,
+      splits: [ :account_code, :amount, :vat_mode, :tax_key, :description ]
     )
   end
 
@@ -181,17 +293,25 @@ class JournalEntriesController < ApplicationController
     {
       booking_date: params[:journal_entry][:booking_date],
       description: params[:journal_entry][:description],
+      voucher_number_range_id: params[:journal_entry][:voucher_number_range_id].presence,
+      counterparty_vat_id: params[:journal_entry][:counterparty_vat_id].presence,
       line_items: params[:journal_entry][:line_items].map { |li|
         {
           account_code: li[:account_code],
           amount: li[:amount].to_f,
           direction: li[:direction],
-          description: li[:description]
+          description: li[:description],
+          tax_key: li[:tax_key].presence
         }
       }
     }
   end
 
+  def fast_entry_params
+    params.permit(rows: [ :amount, :debit_credit, :account_code, :counter_account_code, :bu_key, :booking_date, :document_field, :text, :vat_id ])
+      .fetch(:rows, [])
+  end
+
   def journal_entry_json(je)
     {
       id: je.id,
@@ -208,22 +328,44 @@ class JournalEntriesController < ApplicationController
       bookingDate: je.booking_date,
       description: je.description,
       postedAt: je.posted_at,
+      voucherNumber: je.voucher_number,
+      voucherNumberRangeId: je.voucher_number_range_id,
+      counterpartyVatId: je.counterparty_vat_id,
+      entryType: je.entry_type,
       fiscalYearId: je.fiscal_year_id,
       fiscalYearClosed: je.fiscal_year.closed,
-      lineItems: je.line_items.map { |li|
-        {
-          id: li.id,
-          accountCode: li.account.code,
-          accountName: li.account.name,
-          amount: li.amount.to_f,
-          direction: li.direction,
-          bankTransactionId: li.bank_transaction_id,
-          description: li.description
-        }
-      }
+      reversalOf: journal_entry_link_json(je.reversal_of),
+      reversedBy: journal_entry_link_json(je.reversal),
+      lineItems: je.line_items.map { |li| line_item_json(li) }
     }
   end
 
+  def batch_posting_item_json(item)
+    je = item.journal_entry
+    {
+      id: je.id,
+      bookingDate: je.booking_date,
+      description: je.description,
+      amount: je.line_items.select { |li| li.direction == "debit" }.sum(&:amount).to_f,
+      problems: item.problems
+    }
+  end
+
+  def recurring_entry_item_json(item)
+    {
+      templateId: item.template.id,
+      templateName: item.template.name,
+      bookingDate: item.booking_date,
+      description: item.description,
+      amount: item.amount.to_f,
+      problems: item.problems
+    }
+  end
+
+  def journal_entry_link_json(je)
+    je && { id: je.id, bookingDate: je.booking_date }
+  end
+
   def line_item_json(li)
     {
       id: li.id,
@@ -232,10 +374,16 @@ class JournalEntriesController < ApplicationController
       amount: li.amount.to_f,
       direction: li.direction,
       bankTransactionId: li.bank_transaction_id,
-      description: li.description
+      description: li.description,
+      taxKeyCode: li.tax_key_code,
+      accountRole: account_roles.role_for(li.account.code)
     }
   end
 
+  def account_roles
+    @account_roles ||= AccountRoles.for_company(@company)
+  end
+
   def account_json(account)
     {
       id: account.id,
@@ -3,14 +3,25 @@ class OnboardingController < ApplicationController
   before_action :redirect_if_has_company, only: [ :new, :create ]
 
   def new
-    render inertia: "Onboarding/CompanySetup"
+    render inertia: "Onboarding/CompanySetup", props: {
+      charts: charts_json
+    }
   end
 
   def create
+    chart = ChartOfAccounts.where(name: ChartOfAccounts::SUPPORTED_NAMES).find_by(name: company_params[:chart_of_accounts])
+    unless chart
+      return render inertia: "Onboarding/CompanySetup", props: {
+        charts: charts_json,
+        errors: [ "Please choose an installed chart of accounts" ]
+      }
+    end
+
     ActiveRecord::Base.transaction do
       # Create the company
       @company = Company.create!(
-        name: company_params[:name]
+        name: company_params[:name],
+        chart_of_accounts: chart
       )
 
       # Create company membership for current user
@@ -29,10 +40,10 @@ class OnboardingController < ApplicationController
         end_date: Date.new(current_year, 12, 31)
       )
 
-      # Create a generic bank account (1200 SKR03)
+      # Create a generic bank account (1200 in SKR03, 1800 in SKR04)
       @bank_account_ledger = Account.create!(
         company: @company,
-        code: "1200",
+        code: AccountRoles.for_chart(chart.name).default_bank_account,
         name: "Bank Account",
         account_type: "asset",
         is_system_account: true
@@ -50,6 +61,7 @@ class OnboardingController < ApplicationController
     redirect_to dashboard_path
   rescue ActiveRecord::RecordInvalid => e
     render inertia: "Onboarding/CompanySetup", props: {
+      charts: charts_json,
       errors: [ e.message ]
     }
   end
@@ -57,7 +69,14 @@ class OnboardingController < ApplicationController
   private
 
   def company_params
-    params.require(:company).permit(:name)
+    params.require(:company).permit(:name, :chart_of_accounts)
+  end
+
+  # Seeded charts of accounts that can be picked on onboarding
+  def charts_json
+    ChartOfAccounts.where(name: ChartOfAccounts::SUPPORTED_NAMES).order(:name).map do |chart|
+      { name: chart.name, description: chart.description }
+    end
   end
 
   def redirect_if_has_company
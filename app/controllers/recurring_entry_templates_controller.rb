@@ -0,0 +1,167 @@
+class RecurringEntryTemplatesController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+  before_action :set_company
+  before_action :set_recurring_entry_template, only: [ :update, :destroy ]
+
+  def index
+    @templates = @company.recurring_entry_templates.ordered.includes(journal_entries: :line_items)
+    @recent_accounts = @company.account_usages.recent.includes(:account).map(&:account).compact
+
+    render inertia: "RecurringEntryTemplates/Index", props: {
+      company: {
+        id: @company.id,
+        name: @company.name
+      },
+      templates: @templates.map { |template| template_json(template, with_history: true) },
+      recentAccounts: @recent_accounts.map { |a| account_json(a) }
+    }
+  end
+
+  def create
+    @template = @company.recurring_entry_templates.build(template_params)
+
+    if @template.save
+      render json: {
+        success: true,
+        template: template_json(@template)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @template.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  def update
+    if @template.update(template_params)
+      render json: {
+        success: true,
+        template: template_json(@template)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @template.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # Generated entries stay in the journal, they only lose the link to the template
+  def destroy
+    if @template.destroy
+      render json: { success: true }
+    else
+      render json: {
+        success: false,
+        errors: @template.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # Creates the drafts of all due recurring entries (or of the given templates)
+  def generate
+    template_ids = params[:template_ids].presence
+    result = RecurringEntryGenerator.new(company: @company, template_ids: template_ids).call(dry_run: false)
+
+    render json: {
+      success: result.success?,
+      createdCount: result.journal_entries.size,
+      errors: result.errors
+    }, status: (result.success? || result.journal_entries.any?) ? :ok : :unprocessable_entity
+  end
+
+  private
+
+  def ensure_has_company
+    unless current_user.companies.any?
+      redirect_to onboarding_path
+    end
+  end
+
+  def set_company
+    @company = current_user.companies.first
+  end
+
+  def set_recurring_entry_template
+    @template = @company.recurring_entry_templates.find(params[:id])
+  rescue ActiveRecord::RecordNotFound
+    render json: {
+      success: false,
+      errors: [ "Recurring entry template not found" ]
+    }, status: :not_found
+  end
+
+  def template_params
+    permitted = params.require(:recurring_entry_template).permit(
+      :name,
+      :description,
+      :frequency,
+      :day_of_month,
+      :start_date,
+      :end_date,
+      :active,
+      lines: [ :account_code, :direction, :amount_type, :amount, :formula, :description ]
+    )
+    permitted[:lines] = permitted[:lines].map(&:to_h) if permitted.key?(:lines)
+    permitted
+  end
+
+  def template_json(template, with_history: false)
+    json = {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      frequency: template.frequency,
+      dayOfMonth: template.day_of_month,
+      startDate: template.start_date,
+      endDate: template.end_date,
+      active: template.active,
+      nextDate: template.next_date,
+      lines: template.lines.map { |line|
+        {
+          accountCode: line["account_code"],
+          accountName: account_name_for(line["account_code"]),
+          direction: line["direction"],
+          amountType: line["amount_type"],
+          amount: line["amount"]&.to_f,
+          formula: line["formula"],
+          description: line["description"]
+        }
+      }
+    }
+    json[:history] = template.journal_entries.sort_by(&:booking_date).reverse.map { |je| history_entry_json(je) } if with_history
+    json
+  end
+
+  def history_entry_json(je)
+    {
+      id: je.id,
+      bookingDate: je.booking_date,
+      description: je.description,
+      amount: je.line_items.select { |li| li.direction == "debit" }.sum(&:amount).to_f,
+      postedAt: je.posted_at,
+      voucherNumber: je.voucher_number
+    }
+  end
+
+  # Templates may point to accounts that are only created from the chart on first use
+  def account_name_for(code)
+    return nil if code.blank?
+
+    @account_names ||= {}
+    @account_names[code] ||= @company.accounts.find_by(code: code)&.name ||
+      @company.chart_of_accounts&.account_templates&.find_by(code: code)&.name
+  end
+
+  def account_json(account)
+    {
+      id: account.id,
+      code: account.code,
+      name: account.name,
+      accountType: account.account_type,
+      taxRate: account.tax_rate.to_f
+    }
+  end
+end
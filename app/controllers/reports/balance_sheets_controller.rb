@@ -25,7 +25,8 @@ class Reports::BalanceSheetsController < ApplicationController
     if @fiscal_year
       result = BalanceSheetService.new(
         company: @company,
-        fiscal_year: @fiscal_year
+        fiscal_year: @fiscal_year,
+        compare_previous_year: true
       ).call
 
       if result.success?
@@ -39,7 +40,8 @@ class Reports::BalanceSheetsController < ApplicationController
     render inertia: "Reports/BalanceSheet", props: camelize_keys({
       company: {
         id: @company.id,
-        name: @company.name
+        name: @company.name,
+        chart_of_accounts: ChartOfAccounts.name_for(@company)
       },
       fiscal_years: @fiscal_years.map { |fy|
         {
@@ -0,0 +1,117 @@
+class Reports::TrialBalancesController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+
+  def index
+    @company = current_user.companies.first
+    @fiscal_years = @company.fiscal_years.order(year: :desc)
+
+    # Determine selected fiscal year (from params or default to user preference, then most recent)
+    @fiscal_year = if params[:fiscal_year_id].present?
+      @fiscal_years.find_by(id: params[:fiscal_year_id])
+    else
+      preferred_year = preferred_fiscal_year_for_company(@company.id)
+      if preferred_year
+        @fiscal_years.find_by(year: preferred_year) || @fiscal_years.first
+      else
+        @fiscal_years.first
+      end
+    end
+
+    @trial_balance = nil
+    @errors = []
+
+    if @fiscal_year
+      result = TrialBalanceService.new(
+        company: @company,
+        fiscal_year: @fiscal_year,
+        from: parse_date(params[:from]),
+        to: parse_date(params[:to])
+      ).call
+
+      if result.success?
+        @trial_balance = result.data
+      else
+        @errors = result.errors
+      end
+    end
+
+    respond_to do |format|
+      format.html { render_page }
+      format.csv { export_file(:to_csv, "csv", "text/csv; charset=utf-8") }
+      format.pdf { export_file(:to_pdf, "pdf", "application/pdf") }
+    end
+  end
+
+  private
+
+  def ensure_has_company
+    unless current_user.companies.any?
+      redirect_to onboarding_path
+    end
+  end
+
+  def render_page
+    render inertia: "Reports/TrialBalance", props: camelize_keys({
+      company: {
+        id: @company.id,
+        name: @company.name,
+        chart_of_accounts: ChartOfAccounts.name_for(@company)
+      },
+      fiscal_years: @fiscal_years.map { |fy|
+        {
+          id: fy.id,
+          year: fy.year,
+          start_date: fy.start_date,
+          end_date: fy.end_date,
+          closed: fy.closed,
+          opening_balance_posted_at: fy.opening_balance_posted_at,
+          closing_balance_posted_at: fy.closing_balance_posted_at,
+          workflow_state: fy.workflow_state
+        }
+      },
+      selected_fiscal_year_id: @fiscal_year&.id,
+      trial_balance: @trial_balance && trial_balance_json(@trial_balance),
+      errors: @errors
+    })
+  end
+
+  def export_file(content, extension, type)
+    unless @trial_balance
+      render json: { success: false, errors: @errors.presence || [ "Fiscal year not found" ] }, status: :unprocessable_entity
+      return
+    end
+
+    export = TrialBalanceExport.new(company: @company, fiscal_year: @fiscal_year, data: @trial_balance)
+    send_data export.public_send(content),
+      filename: export.filename(extension),
+      type: type,
+      disposition: "attachment"
+  end
+
+  def trial_balance_json(data)
+    {
+      from: data[:from],
+      to: data[:to],
+      groups: data[:groups].map { |group|
+        {
+          key: group[:key],
+          name: group[:name],
+          accounts: group[:accounts].map { |row| amounts_json(row) },
+          totals: amounts_json(group[:totals])
+        }
+      },
+      totals: amounts_json(data[:totals])
+    }
+  end
+
+  def amounts_json(row)
+    row.to_h { |key, value| [ key, value.is_a?(BigDecimal) ? value.to_f : value ] }
+  end
+
+  def parse_date(value)
+    Date.iso8601(value) if value.present?
+  rescue Date::Error
+    nil
+  end
+end
@@ -3,7 +3,7 @@ class TaxReportsController < ApplicationController
   include KeyTransformer
   before_action :authenticate_user!
   before_action :ensure_has_company
-  before_action :set_tax_report, only: [ :show, :update, :destroy ]
+  before_action :set_tax_report, only: [ :show, :update, :destroy, :elster_xml, :bzst_csv ]
 
   # GET /tax_reports
   # List all tax reports with filtering and missing report detection
@@ -102,7 +102,7 @@ class TaxReportsController < ApplicationController
   end
 
   # PATCH /tax_reports/:id
-  # Update report (mainly for KSt adjustments)
+  # Update report (mainly for KSt, GewSt and USt adjustments)
   def update
     unless @tax_report.editable?
       return render json: { errors: [ "Report is not editable" ] }, status: :unprocessable_entity
@@ -112,10 +112,14 @@ class TaxReportsController < ApplicationController
 
     # Recalculate report with new adjustments
     if params_data[:adjustments]
-      result = recalculate_report(@tax_report, params_data[:adjustments])
+      result = recalculate_report(@tax_report, saved_adjustments(@tax_report).merge(params_data[:adjustments]))
 
       if result.success?
         @tax_report.update!(generated_data: result.data.merge(report_type: @tax_report.report_type))
+        # A Hebesatz entered in the GewSt report becomes the company's for the following years
+        if @tax_report.report_type == "gewerbesteuer" && params_data[:adjustments][:hebesatz]
+          @company.update!(gewerbesteuer_hebesatz: params_data[:adjustments][:hebesatz])
+        end
         redirect_to tax_report_path(@tax_report)
       else
         render inertia: "TaxReports/Show", props: camelize_keys({
@@ -148,6 +152,36 @@ class TaxReportsController < ApplicationController
     redirect_to tax_reports_path
   end
 
+  # GET /tax_reports/:id/elster_xml
+  # ELSTER-XML of a saved UStVA for upload or ERiC
+  def elster_xml
+    result = ElsterUstvaExport.new(tax_report: @tax_report).call
+
+    if result.success?
+      send_data result.xml,
+        filename: result.filename,
+        type: "application/xml; charset=utf-8",
+        disposition: "attachment"
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
+  # GET /tax_reports/:id/bzst_csv
+  # CSV of a saved Zusammenfassende Meldung for the BZSt online upload
+  def bzst_csv
+    result = ZusammenfassendeMeldungExport.new(tax_report: @tax_report).call
+
+    if result.success?
+      send_data result.csv,
+        filename: result.filename,
+        type: "text/csv; charset=utf-8",
+        disposition: "attachment"
+    else
+      render json: { success: false, errors: result.errors }, status: :unprocessable_entity
+    end
+  end
+
   # GET /tax_reports/missing_reports
   # API endpoint to detect missing reports for a year
   def missing_reports
@@ -182,6 +216,12 @@ class TaxReportsController < ApplicationController
         start_date: Date.parse(params_data[:start_date]),
         end_date: Date.parse(params_data[:end_date])
       ).call
+    when "zusammenfassende_meldung"
+      ZusammenfassendeMeldungService.new(
+        company: @company,
+        start_date: Date.parse(params_data[:start_date]),
+        end_date: Date.parse(params_data[:end_date])
+      ).call
     when "kst"
       fiscal_year = @company.fiscal_years.find(params_data[:fiscal_year_id])
       KstService.new(
@@ -189,6 +229,20 @@ class TaxReportsController < ApplicationController
         fiscal_year: fiscal_year,
         adjustments: params_data[:adjustments] || {}
       ).call
+    when "umsatzsteuer"
+      UmsatzsteuererklaerungService.new(
+        company: @company,
+        start_date: Date.parse(params_data[:start_date]),
+        end_date: Date.parse(params_data[:end_date]),
+        adjustments: params_data[:adjustments] || {}
+      ).call
+    when "gewerbesteuer"
+      fiscal_year = @company.fiscal_years.find(params_data[:fiscal_year_id])
+      GewstService.new(
+        company: @company,
+        fiscal_year: fiscal_year,
+        adjustments: params_data[:adjustments] || {}
+      ).call
     else
       KstService::Result.new(
         success?: false,
@@ -206,6 +260,20 @@ class TaxReportsController < ApplicationController
         fiscal_year: tax_report.fiscal_year,
         adjustments: adjustments
       ).call
+    when "gewerbesteuer"
+      GewstService.new(
+        company: @company,
+        fiscal_year: tax_report.fiscal_year,
+        adjustments: adjustments
+      ).call
+    when "umsatzsteuer"
+      # Also compares again with the UStVAs saved in the meantime
+      UmsatzsteuererklaerungService.new(
+        company: @company,
+        start_date: tax_report.start_date,
+        end_date: tax_report.end_date,
+        adjustments: adjustments
+      ).call
     else
       # UStVA and other reports are not recalculated (they're based on fixed data)
       KstService::Result.new(
@@ -216,6 +284,14 @@ class TaxReportsController < ApplicationController
     end
   end
 
+  # Adjustment values of the saved report, so an update only needs the changed ones
+  def saved_adjustments(tax_report)
+    data = (tax_report.generated_data || {}).deep_symbolize_keys
+    values = (data[:adjustments] || {}).transform_values { |adjustment| adjustment[:value] }
+    values[:hebesatz] = data.dig(:calculated, :hebesatz) if tax_report.report_type == "gewerbesteuer"
+    values.compact
+  end
+
   def calculate_missing_periods(year, report_type, period_type)
     # Get existing reports for this year/type/period
     existing = @company.tax_reports
@@ -273,10 +349,25 @@ class TaxReportsController < ApplicationController
         description: "VAT advance return",
         period_types: [ "monthly", "quarterly", "annual" ]
       },
+      zusammenfassende_meldung: {
+        name: "Zusammenfassende Meldung (ZM)",
+        description: "EC sales list of intra-EU supplies and services",
+        period_types: [ "monthly", "quarterly" ]
+      },
+      umsatzsteuer: {
+        name: "Umsatzsteuer-Jahreserklärung",
+        description: "Annual VAT return reconciled with the saved UStVAs",
+        period_types: [ "annual" ]
+      },
       kst: {
         name: "Körperschaftsteuer (KSt)",
         description: "Corporate income tax",
         period_types: [ "annual" ]
+      },
+      gewerbesteuer: {
+        name: "Gewerbesteuer (GewSt)",
+        description: "Trade tax with Hinzurechnungen, Kürzungen and Hebesatz",
+        period_types: [ "annual" ]
       }
     }
   end
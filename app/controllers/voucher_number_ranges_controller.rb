@@ -0,0 +1,132 @@
+class VoucherNumberRangesController < ApplicationController
+  before_action :authenticate_user!
+  before_action :ensure_has_company
+  before_action :set_company
+  before_action :set_voucher_number_range, only: [ :update, :destroy ]
+
+  def index
+    @fiscal_years = @company.fiscal_years.order(year: :desc)
+    @fiscal_year = @fiscal_years.find_by(id: params[:fiscal_year_id]) || @fiscal_years.open.first || @fiscal_years.first
+
+    render inertia: "VoucherNumberRanges/Index", props: {
+      company: {
+        id: @company.id,
+        name: @company.name
+      },
+      voucherNumberRanges: @company.voucher_number_ranges.ordered.map { |range| voucher_number_range_json(range) },
+      fiscalYears: @fiscal_years.map { |fy| { id: fy.id, year: fy.year } },
+      selectedFiscalYearId: @fiscal_year&.id,
+      report: @fiscal_year && report_json(VoucherNumberReport.new(fiscal_year: @fiscal_year).call)
+    }
+  end
+
+  def create
+    @voucher_number_range = @company.voucher_number_ranges.build(voucher_number_range_params)
+
+    if @voucher_number_range.save
+      render json: {
+        success: true,
+        voucherNumberRange: voucher_number_range_json(@voucher_number_range)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @voucher_number_range.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  def update
+    if @voucher_number_range.update(voucher_number_range_params)
+      render json: {
+        success: true,
+        voucherNumberRange: voucher_number_range_json(@voucher_number_range)
+      }
+    else
+      render json: {
+        success: false,
+        errors: @voucher_number_range.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  # Ranges that already numbered entries cannot be deleted (restrict_with_error)
+  def destroy
+    if @voucher_number_range.destroy
+      render json: { success: true }
+    else
+      render json: {
+        success: false,
+        errors: @voucher_number_range.errors.full_messages
+      }, status: :unprocessable_entity
+    end
+  end
+
+  private
+
+  def ensure_has_company
+    unless current_user.companies.any?
+      redirect_to onboarding_path
+    end
+  end
+
+  def set_company
+    @company = current_user.companies.first
+  end
+
+  def set_voucher_number_range
+    @voucher_number_range = @company.voucher_number_ranges.find(params[:id])
+  rescue ActiveRecord::RecordNotFound
+    render json: {
+      success: false,
+      errors: [ "Number range not found" ]
+    }, status: :not_found
+  end
+
+  def voucher_number_range_params
+    permitted = params.require(:voucher_number_range).permit(:name, :pattern, :default_for)
+    permitted[:default_for] = permitted[:default_for].presence if permitted.key?(:default_for)
+    permitted
+  end
+
+  def voucher_number_range_json(range)
+    {
+      id: range.id,
+      name: range.name,
+      pattern: range.pattern,
+      defaultFor: range.default_for,
+      nextNumber: @fiscal_year && range.format_number(range.journal_entries.where(fiscal_year: @fiscal_year).maximum(:voucher_counter).to_i + 1, @fiscal_year)
+    }
+  end
+
+  def report_json(report)
+    {
+      clean: report.clean?,
+      ranges: report.ranges.map { |summary|
+        {
+          rangeId: summary.range.id,
+          name: summary.range.name,
+          count: summary.count,
+          firstNumber: summary.first_number,
+          lastNumber: summary.last_number,
+          missingNumbers: summary.missing_numbers
+        }
+      },
+      duplicates: report.duplicates.map { |duplicate|
+        {
+          voucherNumber: duplicate.voucher_number,
+          entries: duplicate.journal_entries.map { |je| report_entry_json(je) }
+        }
+      },
+      unnumberedEntries: report.unnumbered_entries.map { |je| report_entry_json(je) }
+    }
+  end
+
+  def report_entry_json(je)
+    {
+      id: je.id,
+      bookingDate: je.booking_date,
+      description: je.description
+    }
+  end
+end
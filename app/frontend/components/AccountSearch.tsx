@@ -23,6 +23,7 @@ interface Account {
   name: string
   accountType: string
   taxRate: number
+  taxKeyCode?: string | null
   fromTemplate?: boolean
 }
 
@@ -22,6 +22,10 @@ import {
   Settings,
   LogOut,
   BookOpen,
+  Wand2,
+  Hash,
+  Repeat,
+  Sigma,
 } from 'lucide-react'
 
 interface FiscalYear {
@@ -35,7 +39,7 @@ interface AppLayoutProps {
     id: number
     name: string
   }
-  currentPage: 'dashboard' | 'bank-accounts' | 'journal-entries' | 'accounts' | 'documents' | 'reports' | 'balance-sheet' | 'fiscal-years' | 'tax-reports'
+  currentPage: 'dashboard' | 'bank-accounts' | 'booking-rules' | 'recurring-entries' | 'voucher-numbers' | 'journal-entries' | 'accounts' | 'documents' | 'reports' | 'trial-balance' | 'balance-sheet' | 'fiscal-years' | 'tax-reports'
   children: React.ReactNode
 }
 
@@ -126,8 +130,12 @@ export function AppLayout({ company, currentPage, children }: AppLayoutProps) {
     { key: 'journal-entries', label: 'Journal Entries', icon: FileText, href: '/journal_entries', enabled: true },
     { key: 'accounts', label: 'Chart of Accounts', icon: BookOpen, href: '/accounts', enabled: true },
     { key: 'bank-accounts', label: 'Bank Accounts', icon: Wallet, href: '/bank_accounts', enabled: true },
+    { key: 'booking-rules', label: 'Booking Rules', icon: Wand2, href: '/booking_rules', enabled: true },
+    { key: 'recurring-entries', label: 'Recurring Entries', icon: Repeat, href: '/recurring_entry_templates', enabled: true },
+    { key: 'voucher-numbers', label: 'Voucher Numbers', icon: Hash, href: '/voucher_number_ranges', enabled: true },
     { key: 'documents', label: 'Documents', icon: FileText, href: '/documents', enabled: true },
     { key: 'reports', label: 'Reports', icon: BarChart3, href: '/reports/balance_sheet', enabled: true },
+    { key: 'trial-balance', label: 'Trial Balance', icon: Sigma, href: '/reports/trial_balance', enabled: true },
     { key: 'fiscal-years', label: 'Fiscal Years', icon: Calendar, href: '/fiscal_years', enabled: true },
     { key: 'tax-reports', label: 'Tax Reports', icon: FileCheck, href: '/tax_reports', enabled: true },
   ]
@@ -18,8 +18,9 @@ import {
 } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AccountSearch } from '@/components/AccountSearch'
-import { Loader2, AlertCircle } from 'lucide-react'
-import { formatAmount } from '@/utils/formatting'
+import { Loader2, AlertCircle, Plus, Split, Trash2 } from 'lucide-react'
+import { formatDate, formatAmount } from '@/utils/formatting'
+import type { TaxKey } from '@/types/accounting'
 
 interface Account {
   id: number | null
@@ -27,6 +28,7 @@ interface Account {
   name: string
   accountType: string
   taxRate: number
+  taxKeyCode?: string | null
   fromTemplate?: boolean
 }
 
@@ -39,58 +41,126 @@ interface Transaction {
   counterpartyName: string | null
 }
 
+interface FiscalYear {
+  id: number
+  startDate: string
+  endDate: string
+  lockedUntil: string | null
+}
+
+// One counter account line when splitting a transaction across several accounts
+interface SplitLine {
+  key: number
+  account: Account | null
+  amount: string
+  // Tax key code, NO_TAX_KEY for a booking without VAT
+  taxKeyCode: string
+  description: string
+}
+
 interface BookingModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  transaction: Transaction | null
+  // Several transactions are booked together against the same counter lines
+  transactions: Transaction[]
   recentAccounts: Account[]
+  taxKeys: TaxKey[]
+  // Used to refuse bookings in a locked period (Festschreibung)
+  fiscalYears: FiscalYear[]
   onSuccess: () => void
 }
 
-type VatMode = 'none' | 'vat_19' | 'vat_7' | 'reverse_charge'
+// Amounts are compared in cents to avoid floating point drift
+const toCents = (value: string): number => {
+  const parsed = parseFloat(value.replace(',', '.'))
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : 0
+}
+
+// Select items cannot have an empty value
+const NO_TAX_KEY = 'none'
+
+// Suggests the account's default key, else the key matching its tax rate among the keys of the booking direction
+const taxKeyCodeForAccount = (account: Account | null, taxKeys: TaxKey[], fallback: string): string => {
+  if (account?.taxKeyCode && taxKeys.some(key => key.code === account.taxKeyCode)) return account.taxKeyCode
+  if (!account || account.taxRate <= 0) return fallback
+  const taxKey = taxKeys.find(key => key.kind !== 'reverse_charge' && key.rate === account.taxRate)
+  return taxKey?.code ?? fallback
+}
+
+const describeVat = (grossCents: number, taxKey: TaxKey | undefined): string | null => {
+  if (!taxKey || grossCents <= 0) return null
+  const gross = grossCents / 100
+
+  if (taxKey.kind === 'reverse_charge') {
+    return `+ ${(gross * taxKey.rate / 100).toFixed(2)} EUR input/output VAT §13b`
+  }
+
+  const net = gross / (1 + taxKey.rate / 100)
+  return `Net ${net.toFixed(2)} EUR + ${(gross - net).toFixed(2)} EUR VAT ${taxKey.rate}%`
+}
 
 export function BookingModal({
   open,
   onOpenChange,
-  transaction,
+  transactions,
   recentAccounts,
+  taxKeys,
+  fiscalYears,
   onSuccess,
 }: BookingModalProps) {
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null)
   const [description, setDescription] = useState('')
-  const [vatMode, setVatMode] = useState<VatMode>('none')
+  const [counterpartyVatId, setCounterpartyVatId] = useState('')
+  const [taxKeyCode, setTaxKeyCode] = useState(NO_TAX_KEY)
+  const [splitMode, setSplitMode] = useState(false)
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([])
+  const [nextLineKey, setNextLineKey] = useState(0)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  // Reset form when transaction changes
+  const transaction = transactions[0] ?? null
+  const isAggregated = transactions.length > 1
+  const totalAmount = transactions.reduce((sum, tx) => sum + tx.amount, 0)
+
+  // The entry is booked on the (latest) transaction date
+  const bookingDate = transactions.reduce((latest, tx) => (tx.bookingDate > latest ? tx.bookingDate : latest), '')
+  const lockedUntil = fiscalYears.find(fy => bookingDate >= fy.startDate && bookingDate <= fy.endDate)?.lockedUntil
+  const isLocked = !!lockedUntil && bookingDate <= lockedUntil
+
+  // Outflows book input VAT, inflows output VAT; reverse charge applies to both
+  const isExpense = totalAmount < 0
+  const availableTaxKeys = taxKeys.filter(key =>
+    key.kind === 'reverse_charge' || key.kind === (isExpense ? 'input' : 'output')
+  )
+  const findTaxKey = (code: string) => availableTaxKeys.find(key => key.code === code)
+  const taxKey = findTaxKey(taxKeyCode)
+
+  // Reset form when transactions change
   useEffect(() => {
     if (transaction) {
-      setDescription(transaction.remittanceInformation || '')
+      setDescription(isAggregated ? '' : transaction.remittanceInformation || '')
+      setCounterpartyVatId('')
       setSelectedAccount(null)
-      setVatMode('none')
+      setTaxKeyCode(NO_TAX_KEY)
+      setSplitMode(false)
+      setSplitLines([])
       setError(null)
     }
-  }, [transaction])
+  }, [transactions])
 
   // Auto-enable VAT when selecting account with tax rate
   useEffect(() => {
-    if (selectedAccount && selectedAccount.taxRate > 0) {
-      if (selectedAccount.taxRate >= 19) {
-        setVatMode('vat_19')
-      } else if (selectedAccount.taxRate >= 7) {
-        setVatMode('vat_7')
-      }
-    }
+    setTaxKeyCode(code => taxKeyCodeForAccount(selectedAccount, availableTaxKeys, code))
   }, [selectedAccount])
 
   const calculateSplit = () => {
-    if (!transaction || vatMode === 'none') return null
+    if (!transaction || !taxKey) return null
 
-    const grossAmount = Math.abs(transaction.amount)
+    const grossAmount = Math.abs(totalAmount)
 
-    if (vatMode === 'reverse_charge') {
+    if (taxKey.kind === 'reverse_charge') {
       // Reverse charge: full amount to main account, plus separate VAT entries
-      const vatAmount = (grossAmount * 0.19).toFixed(2)
+      const vatAmount = (grossAmount * taxKey.rate / 100).toFixed(2)
       return {
         mode: 'reverse_charge' as const,
         gross: grossAmount,
@@ -100,7 +170,7 @@ export function BookingModal({
     }
 
     // Standard VAT: split gross into net + VAT
-    const vatRate = vatMode === 'vat_19' ? 19 : 7
+    const vatRate = taxKey.rate
     const vatRateDecimal = vatRate / 100
     const netAmount = grossAmount / (1 + vatRateDecimal)
     const vatAmount = grossAmount - netAmount
@@ -114,30 +184,82 @@ export function BookingModal({
     }
   }
 
+  const totalCents = Math.round(Math.abs(totalAmount) * 100)
+  const allocatedCents = splitLines.reduce((sum, line) => sum + toCents(line.amount), 0)
+  const remainingCents = totalCents - allocatedCents
+  const splitLinesComplete = splitLines.length > 0 &&
+    splitLines.every(line => line.account && toCents(line.amount) > 0)
+
+  const enableSplitMode = () => {
+    // The current single booking becomes the first split line
+    setSplitLines([
+      {
+        key: 0,
+        account: selectedAccount,
+        amount: (totalCents / 100).toFixed(2),
+        taxKeyCode,
+        description,
+      },
+      { key: 1, account: null, amount: '', taxKeyCode: NO_TAX_KEY, description: '' },
+    ])
+    setNextLineKey(2)
+    setSplitMode(true)
+  }
+
+  const disableSplitMode = () => {
+    const firstLine = splitLines[0]
+    if (firstLine) {
+      setSelectedAccount(firstLine.account)
+      setTaxKeyCode(firstLine.taxKeyCode)
+    }
+    setSplitLines([])
+    setSplitMode(false)
+  }
+
+  const updateSplitLine = (key: number, changes: Partial<SplitLine>) => {
+    setSplitLines(lines => lines.map(line => line.key === key ? { ...line, ...changes } : line))
+  }
+
+  const addSplitLine = () => {
+    setSplitLines(lines => [
+      ...lines,
+      {
+        key: nextLineKey,
+        account: null,
+        amount: remainingCents > 0 ? (remainingCents / 100).toFixed(2) : '',
+        taxKeyCode: NO_TAX_KEY,
+        description: '',
+      },
+    ])
+    setNextLineKey(key => key + 1)
+  }
+
+  const removeSplitLine = (key: number) => {
+    setSplitLines(lines => lines.filter(line => line.key !== key))
+  }
+
   const handleSubmit = async () => {
-    if (!transaction || !selectedAccount) return
+    if (!transaction || isLocked) return
+    if (splitMode ? !splitLinesComplete || remainingCents !== 0 : !selectedAccount) return
 
     setIsLoading(true)
     setError(null)
 
     try {
-      // Prepare journal entry parameters based on VAT mode
-      const journalEntryParams: any = {
-        account_code: selectedAccount.code,
-        description,
-        vat_mode: vatMode,
-      }
-
-      // For backward compatibility, also send vat_split and vat_rate
-      if (vatMode === 'vat_19' || vatMode === 'vat_7') {
-        journalEntryParams.vat_split = true
-        journalEntryParams.vat_rate = vatMode === 'vat_19' ? 19 : 7
-      } else if (vatMode === 'reverse_charge') {
-        journalEntryParams.vat_split = false
-        journalEntryParams.vat_rate = 0
+      // Prepare journal entry parameters; the tax key decides the VAT split
+      const journalEntryParams: any = { description }
+      if (!isExpense) journalEntryParams.counterparty_vat_id = counterpartyVatId
+
+      if (splitMode) {
+        journalEntryParams.splits = splitLines.map(line => ({
+          account_code: line.account!.code,
+          amount: toCents(line.amount) / 100,
+          tax_key: findTaxKey(line.taxKeyCode)?.code ?? '',
+          description: line.description,
+        }))
       } else {
-        journalEntryParams.vat_split = false
-        journalEntryParams.vat_rate = 0
+        journalEntryParams.account_code = selectedAccount!.code
+        journalEntryParams.tax_key = taxKey?.code ?? ''
       }
 
       const response = await fetch('/journal_entries', {
@@ -147,7 +269,9 @@ export function BookingModal({
           'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
         },
         body: JSON.stringify({
-          bank_transaction_id: transaction.id,
+          ...(isAggregated
+            ? { bank_transaction_ids: transactions.map(tx => tx.id) }
+            : { bank_transaction_id: transaction.id }),
           journal_entry: journalEntryParams,
         }),
       })
@@ -168,58 +292,68 @@ export function BookingModal({
   }
 
   const split = calculateSplit()
-  const isExpense = transaction && transaction.amount < 0
-
-  // Determine VAT account codes based on mode
-  const getVatAccountInfo = () => {
-    if (vatMode === 'reverse_charge') {
-      return {
-        inputCode: '1577',
-        inputName: 'Abziehbare Vorsteuer § 13b UStG 19%',
-        outputCode: '1787',
-        outputName: 'Umsatzsteuer nach § 13b UStG 19%',
-      }
-    }
-
-    const vatRate = (split && 'vatRate' in split ? split.vatRate : 19) ?? 19
-    const vatAccountCode = isExpense
-      ? (vatRate >= 19 ? '1576' : '1571')
-      : (vatRate >= 19 ? '1776' : '1771')
-    const vatAccountName = isExpense ? `Vorsteuer ${vatRate}%` : `Umsatzsteuer ${vatRate}%`
-
-    return { vatAccountCode, vatAccountName }
-  }
-
-  const vatInfo = getVatAccountInfo()
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Book Transaction</DialogTitle>
+          <DialogTitle>{isAggregated ? 'Book Transactions Together' : 'Book Transaction'}</DialogTitle>
           <DialogDescription>
-            Create a journal entry for this bank transaction
+            {isAggregated
+              ? `Create one journal entry for ${transactions.length} bank transactions`
+              : 'Create a journal entry for this bank transaction'}
           </DialogDescription>
         </DialogHeader>
 
         {transaction && (
           <div className="space-y-6">
             {/* Transaction Summary */}
-            <div className="rounded-lg border p-4 bg-muted/50">
-              <div className="flex justify-between items-start">
-                <div>
-                  <p className="font-medium">{transaction.counterpartyName || 'Unknown'}</p>
-                  <p className="text-sm text-muted-foreground truncate max-w-[300px]">
-                    {transaction.remittanceInformation}
-                  </p>
-                </div>
-                <div className={`text-lg font-semibold ${
-                  transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'
+            {isAggregated ? (
+              <div className="rounded-lg border p-4 bg-muted/50 space-y-1 text-sm">
+                {transactions.map(tx => (
+                  <div key={tx.id} className="flex justify-between gap-4">
+                    <span className="truncate">
+                      <span className="font-mono text-muted-foreground mr-2">{formatDate(tx.bookingDate)}</span>
+                      {tx.counterpartyName || tx.remittanceInformation || 'Unknown'}
+                    </span>
+                    <span className={`whitespace-nowrap ${tx.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatAmount(tx.amount, tx.currency)}
+                    </span>
+                  </div>
+                ))}
+                <div className={`border-t pt-2 flex justify-between text-lg font-semibold ${
+                  totalAmount >= 0 ? 'text-green-600' : 'text-red-600'
                 }`}>
-                  {formatAmount(transaction.amount, transaction.currency)}
+                  <span>Total</span>
+                  <span>{formatAmount(totalAmount, transaction.currency)}</span>
                 </div>
               </div>
-            </div>
+            ) : (
+              <div className="rounded-lg border p-4 bg-muted/50">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium">{transaction.counterpartyName || 'Unknown'}</p>
+                    <p className="text-sm text-muted-foreground truncate max-w-[300px]">
+                      {transaction.remittanceInformation}
+                    </p>
+                  </div>
+                  <div className={`text-lg font-semibold ${
+                    transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    {formatAmount(transaction.amount, transaction.currency)}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isLocked && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  The period is locked up to {formatDate(lockedUntil!)}. Bookings on or before this date are not possible.
+                </AlertDescription>
+              </Alert>
+            )}
 
             {error && (
               <Alert variant="destructive">
@@ -229,14 +363,22 @@ export function BookingModal({
             )}
 
             {/* Account Selection */}
-            <div className="space-y-2">
-              <Label>Counter Account</Label>
-              <AccountSearch
-                recentAccounts={recentAccounts}
-                selectedAccount={selectedAccount}
-                onSelect={setSelectedAccount}
-              />
-            </div>
+            {!splitMode && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Counter Account</Label>
+                  <Button variant="ghost" size="sm" className="gap-1 h-7" onClick={enableSplitMode}>
+                    <Split className="h-3.5 w-3.5" />
+                    Split
+                  </Button>
+                </div>
+                <AccountSearch
+                  recentAccounts={recentAccounts}
+                  selectedAccount={selectedAccount}
+                  onSelect={setSelectedAccount}
+                />
+              </div>
+            )}
 
             {/* Description */}
             <div className="space-y-2">
@@ -245,77 +387,180 @@ export function BookingModal({
                 id="description"
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
-                placeholder="Booking description..."
+                placeholder={isAggregated
+                  ? `Aggregated booking of ${transactions.length} bank transactions`
+                  : 'Booking description...'}
               />
             </div>
 
-            {/* VAT Mode Selection */}
-            <div className="space-y-2">
-              <Label htmlFor="vat-mode">VAT Handling</Label>
-              <Select value={vatMode} onValueChange={(value) => setVatMode(value as VatMode)}>
-                <SelectTrigger id="vat-mode">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">No VAT</SelectItem>
-                  <SelectItem value="vat_19">19% VAT</SelectItem>
-                  <SelectItem value="vat_7">7% VAT</SelectItem>
-                  <SelectItem value="reverse_charge">Reverse Charge §13b (19%)</SelectItem>
-                </SelectContent>
-              </Select>
-              <p className="text-sm text-muted-foreground">
-                {vatMode === 'none' && 'Transaction without VAT handling'}
-                {vatMode === 'vat_19' && 'Split transaction with 19% VAT'}
-                {vatMode === 'vat_7' && 'Split transaction with 7% reduced VAT'}
-                {vatMode === 'reverse_charge' && 'Reverse charge procedure according to §13b UStG'}
-              </p>
-            </div>
+            {/* Customer USt-IdNr. of intra-EU supplies and services for the ZM */}
+            {!isExpense && (
+              <div className="space-y-2">
+                <Label htmlFor="counterparty-vat-id">Customer USt-IdNr.</Label>
+                <Input
+                  id="counterparty-vat-id"
+                  value={counterpartyVatId}
+                  onChange={(e) => setCounterpartyVatId(e.target.value)}
+                  placeholder="e.g. ATU12345678"
+                />
+              </div>
+            )}
 
-            {/* Booking Preview */}
-            {vatMode !== 'none' && split && selectedAccount && (
-              <div className="rounded-lg border p-4 space-y-2 text-sm">
-                <div className="font-medium">Booking Preview</div>
+            {!splitMode && (
+              <>
+              {/* Tax Key Selection */}
+              <div className="space-y-2">
+                <Label htmlFor="tax-key">Tax Key (BU)</Label>
+                <Select value={taxKeyCode} onValueChange={setTaxKeyCode}>
+                  <SelectTrigger id="tax-key">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TAX_KEY}>No VAT</SelectItem>
+                    {availableTaxKeys.map(key => (
+                      <SelectItem key={key.code} value={key.code}>{key.code} – {key.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {!taxKey && 'Transaction without VAT handling'}
+                  {taxKey && taxKey.kind !== 'reverse_charge' && `Split transaction with ${taxKey.rate}% VAT`}
+                  {taxKey?.kind === 'reverse_charge' && 'Reverse charge procedure according to §13b UStG'}
+                </p>
+              </div>
 
-                {split.mode === 'standard' && (
-                  <>
-                    <div className="flex justify-between">
-                      <span>{selectedAccount.code} {selectedAccount.name}</span>
-                      <span>{split.net} EUR</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>{vatInfo.vatAccountCode} {vatInfo.vatAccountName}</span>
-                      <span>{split.vat} EUR</span>
-                    </div>
-                    <div className="border-t pt-2 flex justify-between font-medium">
-                      <span>Total</span>
-                      <span>{split.gross.toFixed(2)} EUR</span>
-                    </div>
-                  </>
-                )}
+              {/* Booking Preview */}
+              {taxKey && split && selectedAccount && (
+                <div className="rounded-lg border p-4 space-y-2 text-sm">
+                  <div className="font-medium">Booking Preview</div>
+
+                  {split.mode === 'standard' && (
+                    <>
+                      <div className="flex justify-between">
+                        <span>{selectedAccount.code} {selectedAccount.name}</span>
+                        <span>{split.net} EUR</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>{taxKey.vatAccountCode} {taxKey.name}</span>
+                        <span>{split.vat} EUR</span>
+                      </div>
+                      <div className="border-t pt-2 flex justify-between font-medium">
+                        <span>Total</span>
+                        <span>{split.gross.toFixed(2)} EUR</span>
+                      </div>
+                    </>
+                  )}
+
+                  {split.mode === 'reverse_charge' && (
+                    <>
+                      <div className="flex justify-between">
+                        <span>{selectedAccount.code} {selectedAccount.name}</span>
+                        <span>{split.mainAmount} EUR</span>
+                      </div>
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>{taxKey.vatAccountCode} Vorsteuer {taxKey.name}</span>
+                        <span>{split.vatAmount} EUR</span>
+                      </div>
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>{taxKey.reverseChargeAccountCode} Umsatzsteuer {taxKey.name}</span>
+                        <span>-{split.vatAmount} EUR</span>
+                      </div>
+                      <div className="border-t pt-2 flex justify-between font-medium">
+                        <span>Total (Bank)</span>
+                        <span>{split.gross.toFixed(2)} EUR</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground italic mt-2">
+                        VAT entries offset each other (net zero VAT effect)
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
 
-                {split.mode === 'reverse_charge' && (
-                  <>
-                    <div className="flex justify-between">
-                      <span>{selectedAccount.code} {selectedAccount.name}</span>
-                      <span>{split.mainAmount} EUR</span>
-                    </div>
-                    <div className="flex justify-between text-muted-foreground">
-                      <span>{vatInfo.inputCode} {vatInfo.inputName}</span>
-                      <span>{split.vatAmount} EUR</span>
-                    </div>
-                    <div className="flex justify-between text-muted-foreground">
-                      <span>{vatInfo.outputCode} {vatInfo.outputName}</span>
-                      <span>-{split.vatAmount} EUR</span>
+              </>
+            )}
+
+            {/* Split Lines */}
+            {splitMode && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Split Lines</Label>
+                  <Button variant="ghost" size="sm" className="h-7" onClick={disableSplitMode}>
+                    Single account
+                  </Button>
+                </div>
+
+                {splitLines.map((line, index) => (
+                  <div key={line.key} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-medium text-muted-foreground">Line {index + 1}</span>
+                      {splitLines.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => removeSplitLine(line.key)}
+                          title="Remove line"
+                        >
+                          <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                        </Button>
+                      )}
                     </div>
-                    <div className="border-t pt-2 flex justify-between font-medium">
-                      <span>Total (Bank)</span>
-                      <span>{split.gross.toFixed(2)} EUR</span>
+                    <AccountSearch
+                      recentAccounts={recentAccounts}
+                      selectedAccount={line.account}
+                      onSelect={(account) => updateSplitLine(line.key, {
+                        account,
+                        taxKeyCode: taxKeyCodeForAccount(account, availableTaxKeys, line.taxKeyCode),
+                      })}
+                    />
+                    <div className="grid grid-cols-[120px_1fr] gap-2">
+                      <Input
+                        inputMode="decimal"
+                        value={line.amount}
+                        onChange={(e) => updateSplitLine(line.key, { amount: e.target.value })}
+                        placeholder="0.00"
+                        aria-label="Gross amount"
+                      />
+                      <Select
+                        value={line.taxKeyCode}
+                        onValueChange={(value) => updateSplitLine(line.key, { taxKeyCode: value })}
+                      >
+                        <SelectTrigger aria-label="Tax key">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TAX_KEY}>No VAT</SelectItem>
+                          {availableTaxKeys.map(key => (
+                            <SelectItem key={key.code} value={key.code}>{key.code} – {key.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <p className="text-xs text-muted-foreground italic mt-2">
-                      VAT entries offset each other (net zero VAT effect)
-                    </p>
-                  </>
-                )}
+                    <Input
+                      value={line.description}
+                      onChange={(e) => updateSplitLine(line.key, { description: e.target.value })}
+                      placeholder="Line description (optional)"
+                    />
+                    {describeVat(toCents(line.amount), findTaxKey(line.taxKeyCode)) && (
+                      <p className="text-xs text-muted-foreground">
+                        {describeVat(toCents(line.amount), findTaxKey(line.taxKeyCode))}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between">
+                  <Button variant="outline" size="sm" className="gap-1" onClick={addSplitLine}>
+                    <Plus className="h-3.5 w-3.5" />
+                    Add line
+                  </Button>
+                  <div className={`text-sm font-medium ${remainingCents === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {remainingCents === 0
+                      ? 'Fully allocated'
+                      : `${remainingCents > 0 ? 'Remaining' : 'Over-allocated'}: ${formatAmount(Math.abs(remainingCents) / 100, transaction.currency)}`}
+                  </div>
+                </div>
               </div>
             )}
 
@@ -326,7 +571,11 @@ export function BookingModal({
               </Button>
               <Button
                 onClick={handleSubmit}
-                disabled={!selectedAccount || isLoading}
+                disabled={
+                  isLoading ||
+                  isLocked ||
+                  (splitMode ? !splitLinesComplete || remainingCents !== 0 : !selectedAccount)
+                }
               >
                 {isLoading ? (
                   <>
@@ -12,11 +12,19 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AccountSearch } from '@/components/AccountSearch'
 import { Plus, Trash2, AlertCircle, Loader2 } from 'lucide-react'
-import { formatCurrency } from '@/utils/formatting'
+import { formatCurrency, formatDate } from '@/utils/formatting'
 import type { JournalEntry } from '@/types/journal-entries'
+import type { TaxKey } from '@/types/accounting'
 
 interface FiscalYear {
   id: number
@@ -24,6 +32,7 @@ interface FiscalYear {
   startDate: string
   endDate: string
   closed: boolean
+  lockedUntil?: string | null
 }
 
 interface Account {
@@ -35,20 +44,37 @@ interface Account {
   fromTemplate?: boolean
 }
 
+interface VoucherNumberRangeOption {
+  id: number
+  name: string
+  pattern: string
+}
+
 interface LineItemFormData {
   tempId: string
   account: Account | null
   debitAmount: string
   creditAmount: string
   description: string
+  // BU-Schlüssel of a net or VAT line, NO_TAX_KEY otherwise
+  taxKeyCode: string
 }
 
+// Select items cannot have an empty value
+const NO_TAX_KEY = 'none'
+
 interface JournalEntryModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   journalEntry: JournalEntry | null
+  // Pre-fills a new entry, e.g. the corrected copy after a Storno
+  template?: JournalEntry | null
   recentAccounts: Account[]
   fiscalYears: FiscalYear[]
+  // Belegnummernkreise to choose from; without a choice the default range applies when posting
+  voucherNumberRanges?: VoucherNumberRangeOption[]
+  // Offered per line; the UStVA reports keyed lines under the key's Kennziffern
+  taxKeys?: TaxKey[]
   onSuccess: () => void
 }
 
@@ -56,13 +82,18 @@ export function JournalEntryModal({
   open,
   onOpenChange,
   journalEntry,
+  template = null,
   recentAccounts,
   fiscalYears,
+  voucherNumberRanges = [],
+  taxKeys = [],
   onSuccess,
 }: JournalEntryModalProps) {
   const [formData, setFormData] = useState({
     bookingDate: new Date().toISOString().split('T')[0],
     description: '',
+    voucherNumberRangeId: null as number | null,
+    counterpartyVatId: '',
   })
   const [lineItems, setLineItems] = useState<LineItemFormData[]>([
     createEmptyLineItem(),
@@ -79,18 +110,22 @@ export function JournalEntryModal({
       debitAmount: '',
       creditAmount: '',
       description: '',
+      taxKeyCode: NO_TAX_KEY,
     }
   }
 
-  // Pre-populate form when editing
+  // Pre-populate form when editing or copying
   useEffect(() => {
-    if (journalEntry) {
+    const source = journalEntry || template
+    if (source) {
       setFormData({
-        bookingDate: journalEntry.bookingDate,
-        description: journalEntry.description,
+        bookingDate: source.bookingDate,
+        description: source.description,
+        voucherNumberRangeId: source.voucherNumberRangeId,
+        counterpartyVatId: source.counterpartyVatId || '',
       })
       setLineItems(
-        journalEntry.lineItems.map((li) => ({
+        source.lineItems.map((li) => ({
           tempId: crypto.randomUUID(),
           account: {
             id: null,
@@ -102,6 +137,7 @@ export function JournalEntryModal({
           debitAmount: li.direction === 'debit' ? li.amount.toString() : '',
           creditAmount: li.direction === 'credit' ? li.amount.toString() : '',
           description: li.description || '',
+          taxKeyCode: li.taxKeyCode || NO_TAX_KEY,
         }))
       )
       setErrors([])
@@ -110,11 +146,13 @@ export function JournalEntryModal({
       setFormData({
         bookingDate: new Date().toISOString().split('T')[0],
         description: '',
+        voucherNumberRangeId: null,
+        counterpartyVatId: '',
       })
       setLineItems([createEmptyLineItem(), createEmptyLineItem()])
       setErrors([])
     }
-  }, [journalEntry, open])
+  }, [journalEntry, template, open])
 
   // Calculate balance
   const balance = useMemo(() => {
@@ -141,6 +179,10 @@ export function JournalEntryModal({
     )
   }, [formData.bookingDate, fiscalYears])
 
+  // Festschreibung: no bookings on or before the lock date of the fiscal year
+  const lockedUntil = fiscalYearForDate?.lockedUntil
+  const isLocked = !!lockedUntil && formData.bookingDate <= lockedUntil
+
   // Add line item
   const handleAddLineItem = () => {
     setLineItems([...lineItems, createEmptyLineItem()])
@@ -235,6 +277,10 @@ export function JournalEntryModal({
       validationErrors.push('Cannot save to closed fiscal year')
     }
 
+    if (isLocked) {
+      validationErrors.push(`Booking date falls into the locked period (up to ${formatDate(lockedUntil!)})`)
+    }
+
     return validationErrors
   }
 
@@ -254,11 +300,14 @@ export function JournalEntryModal({
       journal_entry: {
         booking_date: formData.bookingDate,
         description: formData.description,
+        voucher_number_range_id: formData.voucherNumberRangeId,
+        counterparty_vat_id: formData.counterpartyVatId,
         line_items: lineItems.map((li) => ({
           account_code: li.account!.code,
           amount: parseFloat(li.debitAmount || li.creditAmount),
           direction: li.debitAmount ? 'debit' : 'credit',
           description: li.description,
+          tax_key: li.taxKeyCode === NO_TAX_KEY ? '' : li.taxKeyCode,
         })),
       },
     }
@@ -298,14 +347,14 @@ export function JournalEntryModal({
     }
   }
 
-  const canSave = balance.balanced && formData.description.trim() && lineItems.length >= 2
+  const canSave = balance.balanced && formData.description.trim() && lineItems.length >= 2 && !isLocked
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
-            {journalEntry ? 'Edit Journal Entry' : 'New Journal Entry'}
+            {journalEntry ? 'Edit Journal Entry' : template ? 'Corrected Journal Entry' : 'New Journal Entry'}
           </DialogTitle>
           <DialogDescription>
             Create a manual journal entry with balanced debit and credit line items.
@@ -330,10 +379,15 @@ export function JournalEntryModal({
               <Label>Fiscal Year</Label>
               <div className="flex items-center h-10">
                 {fiscalYearForDate ? (
-                  <Badge variant={fiscalYearForDate.closed ? 'secondary' : 'default'}>
-                    {fiscalYearForDate.year}{' '}
-                    {fiscalYearForDate.closed ? '(Closed)' : '(Open)'}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={fiscalYearForDate.closed ? 'secondary' : 'default'}>
+                      {fiscalYearForDate.year}{' '}
+                      {fiscalYearForDate.closed ? '(Closed)' : '(Open)'}
+                    </Badge>
+                    {isLocked && (
+                      <Badge variant="destructive">Locked until {formatDate(lockedUntil!)}</Badge>
+                    )}
+                  </div>
                 ) : (
                   <span className="text-sm text-muted-foreground">
                     No fiscal year for this date
@@ -343,16 +397,52 @@ export function JournalEntryModal({
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Input
-              id="description"
-              value={formData.description}
-              onChange={(e) =>
-                setFormData({ ...formData, description: e.target.value })
-              }
-              placeholder="Transaction description"
-            />
+          <div className={voucherNumberRanges.length > 0 ? 'grid grid-cols-[1fr_180px_220px] gap-4' : 'grid grid-cols-[1fr_180px] gap-4'}>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Input
+                id="description"
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                placeholder="Transaction description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="counterpartyVatId">Customer USt-IdNr.</Label>
+              <Input
+                id="counterpartyVatId"
+                value={formData.counterpartyVatId}
+                onChange={(e) =>
+                  setFormData({ ...formData, counterpartyVatId: e.target.value })
+                }
+                placeholder="e.g. ATU12345678"
+              />
+            </div>
+            {voucherNumberRanges.length > 0 && (
+              <div className="space-y-2">
+                <Label>Number Range</Label>
+                <Select
+                  value={formData.voucherNumberRangeId?.toString() || 'default'}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, voucherNumberRangeId: value === 'default' ? null : parseInt(value, 10) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default range</SelectItem>
+                    {voucherNumberRanges.map((range) => (
+                      <SelectItem key={range.id} value={range.id.toString()}>
+                        {range.name} ({range.pattern})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
 
           {/* Line Items */}
@@ -419,17 +509,40 @@ export function JournalEntryModal({
                         </div>
                       </div>
 
-                      {/* Description */}
-                      <div className="space-y-2">
-                        <Label>Description (optional)</Label>
-                        <Input
-                          type="text"
-                          value={lineItem.description}
-                          onChange={(e) =>
-                            updateLineItem(lineItem.tempId, 'description', e.target.value)
-                          }
-                          placeholder="Line item description"
-                        />
+                      {/* Description and Tax Key */}
+                      <div className={taxKeys.length > 0 ? 'grid grid-cols-[1fr_220px] gap-4' : undefined}>
+                        <div className="space-y-2">
+                          <Label>Description (optional)</Label>
+                          <Input
+                            type="text"
+                            value={lineItem.description}
+                            onChange={(e) =>
+                              updateLineItem(lineItem.tempId, 'description', e.target.value)
+                            }
+                            placeholder="Line item description"
+                          />
+                        </div>
+                        {taxKeys.length > 0 && (
+                          <div className="space-y-2">
+                            <Label>Tax Key (BU)</Label>
+                            <Select
+                              value={lineItem.taxKeyCode}
+                              onValueChange={(value) => updateLineItem(lineItem.tempId, 'taxKeyCode', value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_TAX_KEY}>None</SelectItem>
+                                {taxKeys.map((taxKey) => (
+                                  <SelectItem key={taxKey.code} value={taxKey.code}>
+                                    {taxKey.code} – {taxKey.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                       </div>
                     </div>
 
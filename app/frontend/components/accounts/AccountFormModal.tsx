@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, AlertCircle, Lock } from 'lucide-react'
+import type { AccountFormOptions, EditableAccount } from '@/types/accounting'
+
+interface AccountFormModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  account: EditableAccount | null
+  options: AccountFormOptions
+  onSaved: (account: EditableAccount) => void
+}
+
+const ACCOUNT_TYPES = [
+  { value: 'asset', label: 'Asset' },
+  { value: 'liability', label: 'Liability' },
+  { value: 'equity', label: 'Equity' },
+  { value: 'revenue', label: 'Revenue' },
+  { value: 'expense', label: 'Expense' },
+]
+
+// Select items cannot have an empty value
+const NONE = 'none'
+
+export function AccountFormModal({ open, onOpenChange, account, options, onSaved }: AccountFormModalProps) {
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+  const [accountType, setAccountType] = useState('expense')
+  const [cid, setCid] = useState(NONE)
+  const [presentationRule, setPresentationRule] = useState(NONE)
+  const [taxKeyCode, setTaxKeyCode] = useState(NONE)
+  const [taxRate, setTaxRate] = useState('0')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isUpdate = account?.id != null
+  const sectionLocked = account?.sectionLocked ?? false
+  const defaultSection = options.sections.find((section) => section.cid === account?.defaultCid)
+
+  useEffect(() => {
+    if (open) {
+      setCode(account?.code || '')
+      setName(account?.name || '')
+      setAccountType(account?.accountType || 'expense')
+      setCid(account?.cid || NONE)
+      setPresentationRule(account?.presentationRule || NONE)
+      setTaxKeyCode(account?.taxKeyCode || NONE)
+      setTaxRate(String(account?.taxRate ?? 0))
+      setError(null)
+    }
+  }, [open, account])
+
+  // The section decides the account type (see Account#section_must_match_account_type)
+  const handleSectionChange = (value: string) => {
+    setCid(value)
+    const section = options.sections.find((s) => s.cid === value)
+    if (section) setAccountType(section.accountType)
+  }
+
+  // The key's rate becomes the account's default tax rate
+  const handleTaxKeyChange = (value: string) => {
+    setTaxKeyCode(value)
+    const taxKey = options.taxKeys.find((key) => key.code === value)
+    if (taxKey) setTaxRate(String(taxKey.rate))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(isUpdate ? `/accounts/${account.id}` : '/accounts', {
+        method: isUpdate ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({
+          account: {
+            code: code.trim(),
+            name: name.trim(),
+            account_type: accountType,
+            cid: cid === NONE ? null : cid,
+            presentation_rule: presentationRule === NONE ? null : presentationRule,
+            tax_key_code: taxKeyCode === NONE ? null : taxKeyCode,
+            tax_rate: parseFloat(taxRate.replace(',', '.')) || 0,
+          },
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSaved(data.account)
+        onOpenChange(false)
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to save account')
+      }
+    } catch (err) {
+      setError('An error occurred while saving the account')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isUpdate ? 'Edit Account' : 'New Account'}</DialogTitle>
+          <DialogDescription>
+            Codes: {options.codeRanges.map((range) => `${range.name} ${range.from}–${range.to}`).join(', ')}, or an account of the chart
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {sectionLocked && (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                Balances of this account were reported in a closed fiscal year. Code, type, section and
+                presentation rule can no longer be changed.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-[8rem_1fr] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-code">Code</Label>
+              <Input
+                id="account-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="e.g. 4985"
+                className="font-mono"
+                disabled={sectionLocked}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Software subscriptions"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Balance sheet or GuV section</Label>
+            <Select value={cid} onValueChange={handleSectionChange} disabled={sectionLocked}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a section" />
+              </SelectTrigger>
+              <SelectContent className="max-h-80">
+                <SelectItem value={NONE}>
+                  {defaultSection ? `By code: ${defaultSection.name}` : 'By code (choose a section for new codes)'}
+                </SelectItem>
+                {options.sections.map((section) => (
+                  <SelectItem key={section.cid} value={section.cid}>
+                    {section.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Account type</Label>
+              <Select value={accountType} onValueChange={setAccountType} disabled={sectionLocked}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Presentation rule</Label>
+              <Select value={presentationRule} onValueChange={setPresentationRule} disabled={sectionLocked}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>From account type</SelectItem>
+                  {options.presentationRules.map((rule) => (
+                    <SelectItem key={rule.id} value={rule.id}>
+                      {rule.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Default tax key</Label>
+              <Select value={taxKeyCode} onValueChange={handleTaxKeyChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No tax key</SelectItem>
+                  {options.taxKeys.map((taxKey) => (
+                    <SelectItem key={taxKey.code} value={taxKey.code}>
+                      {taxKey.code} – {taxKey.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-tax-rate">Default tax rate (%)</Label>
+              <Input
+                id="account-tax-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !code.trim() || !name.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Account'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -83,11 +83,16 @@ export function AccountLedgerPopover({
       bookingDate: group.bookingDate,
       description: group.description,
       postedAt: group.postedAt,
+      voucherNumber: group.voucherNumber,
+      voucherNumberRangeId: group.voucherNumberRangeId,
+      counterpartyVatId: group.counterpartyVatId,
       fiscalYearId: ledgerData.fiscalYear?.id || 0,
       fiscalYearYear: ledgerData.fiscalYear?.year || 0,
       fiscalYearClosed: group.fiscalYearClosed,
       entryType: 'normal',
       sequence: null,
+      reversalOf: group.reversalOf,
+      reversedBy: group.reversedBy,
       lineItems: group.lineItems.map((li) => ({
         id: li.id,
         accountCode: li.accountCode,
@@ -96,6 +101,8 @@ export function AccountLedgerPopover({
         direction: li.direction,
         bankTransactionId: null,
         description: li.description,
+        taxKeyCode: li.taxKeyCode,
+        accountRole: li.accountRole,
       })),
     }
   }, [selectedEntryId, ledgerData])
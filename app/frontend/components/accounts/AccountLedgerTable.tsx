@@ -4,6 +4,7 @@ import { AccountLedgerData } from '@/types/accounting'
 import { cn } from '@/lib/utils'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { InfoIcon } from 'lucide-react'
+import { ReversalLinks } from '@/components/journal-entries/ReversalLinks'
 
 interface AccountLedgerTableProps {
   ledgerData: AccountLedgerData
@@ -55,9 +56,16 @@ export function AccountLedgerTable({
                   )}
                   onClick={() => onLineItemClick?.(group.journalEntryId)}
                 >
-                  {/* Show date only on first row of each group */}
+                  {/* Show date and voucher number only on first row of each group */}
                   <td className="py-2 px-4 text-sm">
-                    {itemIndex === 0 && formatDate(group.bookingDate)}
+                    {itemIndex === 0 && (
+                      <>
+                        {formatDate(group.bookingDate)}
+                        {group.voucherNumber && (
+                          <div className="font-mono text-xs text-muted-foreground">{group.voucherNumber}</div>
+                        )}
+                      </>
+                    )}
                   </td>
 
                   {/* Account code and name */}
@@ -80,6 +88,9 @@ export function AccountLedgerTable({
                         </span>
                       )}
                     </div>
+                    {itemIndex === 0 && (
+                      <ReversalLinks reversalOf={group.reversalOf} reversedBy={group.reversedBy} />
+                    )}
                   </td>
 
                   {/* Debit amount */}
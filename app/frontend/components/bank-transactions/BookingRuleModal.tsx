@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AccountSearch } from '@/components/AccountSearch'
+import { Loader2, AlertCircle } from 'lucide-react'
+import type { BookingRule, VatMode } from '@/types/accounting'
+
+interface Account {
+  id: number | null
+  code: string
+  name: string
+  accountType: string
+  taxRate: number
+  fromTemplate?: boolean
+}
+
+interface BookingRuleModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Existing rule to edit, or an unsaved proposal (id null) to create
+  rule: BookingRule | null
+  recentAccounts: Account[]
+  onSaved: (rule: BookingRule) => void
+}
+
+const toAccount = (rule: BookingRule | null): Account | null => {
+  if (!rule?.accountCode) return null
+  return { id: null, code: rule.accountCode, name: rule.accountName || '', accountType: '', taxRate: 0 }
+}
+
+export function BookingRuleModal({
+  open,
+  onOpenChange,
+  rule,
+  recentAccounts,
+  onSaved,
+}: BookingRuleModalProps) {
+  const [name, setName] = useState('')
+  const [active, setActive] = useState(true)
+  const [counterpartyIban, setCounterpartyIban] = useState('')
+  const [counterpartyName, setCounterpartyName] = useState('')
+  const [remittancePattern, setRemittancePattern] = useState('')
+  const [amountMin, setAmountMin] = useState('')
+  const [amountMax, setAmountMax] = useState('')
+  const [direction, setDirection] = useState<BookingRule['direction']>('any')
+  const [selectedAccount, setSelectedAccount] = useState<Account | null>(null)
+  const [vatMode, setVatMode] = useState<VatMode>('none')
+  const [descriptionTemplate, setDescriptionTemplate] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the modal opens with another rule
+  useEffect(() => {
+    if (open) {
+      setName(rule?.name || '')
+      setActive(rule?.active ?? true)
+      setCounterpartyIban(rule?.counterpartyIban || '')
+      setCounterpartyName(rule?.counterpartyName || '')
+      setRemittancePattern(rule?.remittancePattern || '')
+      setAmountMin(rule?.amountMin?.toString() || '')
+      setAmountMax(rule?.amountMax?.toString() || '')
+      setDirection(rule?.direction || 'any')
+      setSelectedAccount(toAccount(rule))
+      setVatMode(rule?.vatMode || 'none')
+      setDescriptionTemplate(rule?.descriptionTemplate || '')
+      setError(null)
+    }
+  }, [open, rule])
+
+  const handleSave = async () => {
+    if (!selectedAccount) {
+      setError('Please select a target account')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    const isUpdate = rule?.id != null
+
+    try {
+      const response = await fetch(isUpdate ? `/booking_rules/${rule.id}` : '/booking_rules', {
+        method: isUpdate ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({
+          booking_rule: {
+            name,
+            active,
+            counterparty_iban: counterpartyIban || null,
+            counterparty_name: counterpartyName || null,
+            remittance_pattern: remittancePattern || null,
+            amount_min: amountMin ? parseFloat(amountMin.replace(',', '.')) : null,
+            amount_max: amountMax ? parseFloat(amountMax.replace(',', '.')) : null,
+            direction,
+            account_code: selectedAccount.code,
+            vat_mode: vatMode,
+            description_template: descriptionTemplate || null,
+          },
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSaved(data.bookingRule)
+        onOpenChange(false)
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to save booking rule')
+      }
+    } catch (err) {
+      setError('An error occurred while saving the booking rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule?.id ? 'Edit Booking Rule' : 'New Booking Rule'}</DialogTitle>
+          <DialogDescription>
+            Pending bank transactions matching all given conditions are booked automatically
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Office rent"
+            />
+          </div>
+
+          {/* Match conditions */}
+          <div className="rounded-lg border p-4 space-y-3">
+            <p className="text-sm font-medium">Conditions</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="rule-iban" className="text-xs">Counterparty IBAN</Label>
+                <Input
+                  id="rule-iban"
+                  value={counterpartyIban}
+                  onChange={(e) => setCounterpartyIban(e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rule-counterparty" className="text-xs">Counterparty name contains</Label>
+                <Input
+                  id="rule-counterparty"
+                  value={counterpartyName}
+                  onChange={(e) => setCounterpartyName(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-pattern" className="text-xs">Remittance information (regular expression)</Label>
+              <Input
+                id="rule-pattern"
+                value={remittancePattern}
+                onChange={(e) => setRemittancePattern(e.target.value)}
+                placeholder="e.g. Miete|Rent"
+                className="font-mono"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="rule-min" className="text-xs">Min. amount</Label>
+                <Input
+                  id="rule-min"
+                  inputMode="decimal"
+                  value={amountMin}
+                  onChange={(e) => setAmountMin(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rule-max" className="text-xs">Max. amount</Label>
+                <Input
+                  id="rule-max"
+                  inputMode="decimal"
+                  value={amountMax}
+                  onChange={(e) => setAmountMax(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Direction</Label>
+                <Select value={direction} onValueChange={(value) => setDirection(value as BookingRule['direction'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="inflow">Inflow</SelectItem>
+                    <SelectItem value="outflow">Outflow</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Booking proposal */}
+          <div className="space-y-2">
+            <Label>Counter Account</Label>
+            <AccountSearch
+              recentAccounts={recentAccounts}
+              selectedAccount={selectedAccount}
+              onSelect={setSelectedAccount}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-vat-mode">VAT Handling</Label>
+            <Select value={vatMode} onValueChange={(value) => setVatMode(value as VatMode)}>
+              <SelectTrigger id="rule-vat-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No VAT</SelectItem>
+                <SelectItem value="vat_19">19% VAT</SelectItem>
+                <SelectItem value="vat_7">7% VAT</SelectItem>
+                <SelectItem value="reverse_charge">Reverse Charge (§13b UStG)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-description">Description template</Label>
+            <Input
+              id="rule-description"
+              value={descriptionTemplate}
+              onChange={(e) => setDescriptionTemplate(e.target.value)}
+              placeholder="e.g. Rent {month}"
+            />
+            <p className="text-xs text-muted-foreground">
+              Placeholders: {'{counterparty}'}, {'{remittance}'}, {'{date}'}, {'{month}'}, {'{year}'}, {'{amount}'}. Empty uses the remittance information.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="rule-active"
+              checked={active}
+              onCheckedChange={(checked) => setActive(checked === true)}
+            />
+            <Label htmlFor="rule-active" className="font-normal">Active</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Rule'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, AlertCircle } from 'lucide-react'
+import type {
+  BankImportProfile,
+  ImportProfileField,
+  ImportSignConvention,
+} from '@/types/accounting'
+
+interface ColumnMapperProps {
+  bankAccountId: number
+  csvData: string
+  profile?: BankImportProfile | null
+  onSaved: (profile: BankImportProfile) => void
+  onCancel: () => void
+}
+
+type ColumnMapping = Partial<Record<ImportProfileField, number[]>>
+
+const FIELD_LABELS: Record<ImportProfileField, string> = {
+  booking_date: 'Booking date',
+  value_date: 'Value date',
+  amount: 'Amount',
+  debit_amount: 'Debit amount (Soll)',
+  credit_amount: 'Credit amount (Haben)',
+  direction_indicator: 'Debit/credit indicator',
+  remittance_information: 'Description',
+  counterparty_name: 'Counterparty',
+  counterparty_iban: 'Counterparty IBAN',
+}
+
+// Text fields may combine several columns
+const MULTI_COLUMN_FIELDS: ImportProfileField[] = ['remittance_information', 'counterparty_name']
+
+const AMOUNT_FIELDS: Record<ImportSignConvention, ImportProfileField[]> = {
+  signed: ['amount'],
+  inverted: ['amount'],
+  split_columns: ['debit_amount', 'credit_amount'],
+  indicator: ['amount', 'direction_indicator'],
+}
+
+const DATE_FORMATS = [
+  { value: '%d.%m.%Y', label: 'DD.MM.YYYY' },
+  { value: '%d.%m.%y', label: 'DD.MM.YY' },
+  { value: '%Y-%m-%d', label: 'YYYY-MM-DD' },
+  { value: '%d/%m/%Y', label: 'DD/MM/YYYY' },
+  { value: '%m/%d/%Y', label: 'MM/DD/YYYY' },
+]
+
+const DELIMITERS = [
+  { value: ';', label: 'Semicolon (;)' },
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+]
+
+const toColumnMapping = (mapping: BankImportProfile['columnMapping'] | undefined): ColumnMapping => {
+  const result: ColumnMapping = {}
+  Object.entries(mapping || {}).forEach(([field, columns]) => {
+    result[field as ImportProfileField] = Array.isArray(columns) ? columns : [columns]
+  })
+  return result
+}
+
+export function ColumnMapper({ bankAccountId, csvData, profile, onSaved, onCancel }: ColumnMapperProps) {
+  const [name, setName] = useState(profile?.name || '')
+  const [skipLines, setSkipLines] = useState(profile?.skipLines ?? 0)
+  const [hasHeader, setHasHeader] = useState(profile?.hasHeader ?? true)
+  const [delimiter, setDelimiter] = useState(profile?.delimiter || ';')
+  const [quoteChar, setQuoteChar] = useState(profile?.quoteChar || '"')
+  const [dateFormat, setDateFormat] = useState(profile?.dateFormat || '%d.%m.%Y')
+  const [decimalSeparator, setDecimalSeparator] = useState<',' | '.'>(profile?.decimalSeparator || ',')
+  const [signConvention, setSignConvention] = useState<ImportSignConvention>(profile?.signConvention || 'signed')
+  const [mapping, setMapping] = useState<ColumnMapping>(toColumnMapping(profile?.columnMapping))
+  const [rows, setRows] = useState<string[][]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reload the sample whenever the splitting settings change
+  useEffect(() => {
+    const loadSample = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/bank_accounts/${bankAccountId}/import_sample`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+          },
+          body: JSON.stringify({
+            csv_data: csvData,
+            skip_lines: skipLines,
+            delimiter,
+            quote_char: quoteChar,
+          }),
+        })
+
+        const data = await response.json()
+
+        if (data.success) {
+          setRows(data.rows)
+        } else {
+          setError(data.error || 'Failed to read sample data')
+        }
+      } catch (err) {
+        setError('An error occurred while reading the sample data')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSample()
+  }, [bankAccountId, csvData, skipLines, delimiter, quoteChar])
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const headerRow = hasHeader ? rows[0] : undefined
+  const sampleRows = hasHeader ? rows.slice(1) : rows
+
+  const availableFields: ImportProfileField[] = [
+    'booking_date',
+    'value_date',
+    ...AMOUNT_FIELDS[signConvention],
+    'remittance_information',
+    'counterparty_name',
+    'counterparty_iban',
+  ]
+
+  const fieldForColumn = (column: number): ImportProfileField | undefined => {
+    return availableFields.find(field => mapping[field]?.includes(column))
+  }
+
+  const handleColumnFieldChange = (column: number, value: string) => {
+    setMapping(prev => {
+      const next: ColumnMapping = {}
+
+      // Remove the column from whatever field it was mapped to
+      Object.entries(prev).forEach(([field, columns]) => {
+        const remaining = (columns || []).filter(c => c !== column)
+        if (remaining.length > 0) next[field as ImportProfileField] = remaining
+      })
+
+      if (value !== 'none') {
+        const field = value as ImportProfileField
+        next[field] = MULTI_COLUMN_FIELDS.includes(field)
+          ? [...(next[field] || []), column].sort((a, b) => a - b)
+          : [column]
+      }
+
+      return next
+    })
+  }
+
+  const requiredFields: ImportProfileField[] = ['booking_date', ...AMOUNT_FIELDS[signConvention]]
+  const missingFields = requiredFields.filter(field => !mapping[field]?.length)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    // Only send fields that are relevant for the chosen sign convention
+    const columnMapping = Object.fromEntries(
+      availableFields.filter(field => mapping[field]?.length).map(field => [field, mapping[field]])
+    )
+
+    try {
+      const response = await fetch(
+        profile
+          ? `/bank_accounts/${bankAccountId}/import_profiles/${profile.id}`
+          : `/bank_accounts/${bankAccountId}/import_profiles`,
+        {
+          method: profile ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+          },
+          body: JSON.stringify({
+            import_profile: {
+              name,
+              skip_lines: skipLines,
+              has_header: hasHeader,
+              delimiter,
+              quote_char: quoteChar,
+              date_format: dateFormat,
+              decimal_separator: decimalSeparator,
+              sign_convention: signConvention,
+              column_mapping: columnMapping,
+            },
+          }),
+        }
+      )
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSaved(data.importProfile)
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to save import profile')
+      }
+    } catch (err) {
+      setError('An error occurred while saving the import profile')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Profile settings */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="profile-name">Profile name</Label>
+          <Input
+            id="profile-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Sparkasse CSV-CAMT"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="skip-lines">Preamble lines to skip</Label>
+          <Input
+            id="skip-lines"
+            type="number"
+            min={0}
+            value={skipLines}
+            onChange={(e) => setSkipLines(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Delimiter</Label>
+          <Select value={delimiter} onValueChange={setDelimiter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITERS.map(d => (
+                <SelectItem key={d.label} value={d.value}>{d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quote-char">Quote character</Label>
+          <Input
+            id="quote-char"
+            maxLength={1}
+            value={quoteChar}
+            onChange={(e) => setQuoteChar(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Date format</Label>
+          <Select value={dateFormat} onValueChange={setDateFormat}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map(f => (
+                <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Decimal separator</Label>
+          <Select value={decimalSeparator} onValueChange={(value) => setDecimalSeparator(value as ',' | '.')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=",">Comma (1.234,56)</SelectItem>
+              <SelectItem value=".">Point (1,234.56)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Sign convention</Label>
+          <Select value={signConvention} onValueChange={(value) => setSignConvention(value as ImportSignConvention)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="signed">Signed amount (negative = outflow)</SelectItem>
+              <SelectItem value="inverted">Inverted amount (positive = outflow)</SelectItem>
+              <SelectItem value="split_columns">Separate debit and credit columns</SelectItem>
+              <SelectItem value="indicator">Amount with debit/credit indicator</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 col-span-2">
+          <Checkbox
+            id="has-header"
+            checked={hasHeader}
+            onCheckedChange={(checked) => setHasHeader(checked === true)}
+          />
+          <Label htmlFor="has-header" className="font-normal">
+            First row after the preamble contains column headers
+          </Label>
+        </div>
+      </div>
+
+      {/* Column mapping on the sample */}
+      <div className="border rounded-lg overflow-auto max-h-[320px]">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <TableHead key={column} className="min-w-[160px] align-top py-2">
+                    <Select
+                      value={fieldForColumn(column) || 'none'}
+                      onValueChange={(value) => handleColumnFieldChange(column, value)}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Ignore</SelectItem>
+                        {availableFields.map(field => (
+                          <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {headerRow && (
+                      <div className="mt-1 text-xs font-medium truncate" title={headerRow[column] || ''}>
+                        {headerRow[column] || '-'}
+                      </div>
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sampleRows.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <TableCell key={column} className="text-xs font-mono truncate max-w-[200px]">
+                      {row[column] || ''}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {missingFields.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Still to map: {missingFields.map(field => FIELD_LABELS[field]).join(', ')}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving || !name.trim() || missingFields.length > 0}>
+          {isSaving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Profile'
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatDate, formatAmount } from '@/utils/formatting'
+import type { ImportPreviewTransaction } from '@/types/accounting'
+
+interface ImportPreviewTableProps {
+  transactions: ImportPreviewTransaction[]
+  currency: string
+  skippedIndexes: Set<number>
+  onToggleSkip: (index: number) => void
+  showReference?: boolean
+}
+
+const STATUS_BADGES = {
+  new: { label: 'New', variant: 'success' },
+  exact_duplicate: { label: 'Duplicate', variant: 'secondary' },
+  probable_duplicate: { label: 'Probable duplicate', variant: 'warning' },
+} as const
+
+// Default choice for a preview row: duplicates are skipped unless the user imports them
+export const defaultSkippedIndexes = (transactions: ImportPreviewTransaction[]) =>
+  new Set(transactions.filter(tx => tx.duplicate_status !== 'new').map(tx => tx.index))
+
+export function ImportPreviewTable({ transactions, currency, skippedIndexes, onToggleSkip, showReference = false }: ImportPreviewTableProps) {
+  return (
+    <div className="border rounded-lg overflow-auto max-h-[420px]">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">Import</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Counterparty</TableHead>
+            {showReference && <TableHead>Reference</TableHead>}
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {transactions.map(tx => {
+            const skipped = skippedIndexes.has(tx.index)
+            const badge = STATUS_BADGES[tx.duplicate_status]
+
+            return (
+              <TableRow key={tx.index} className={skipped ? 'opacity-50' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={!skipped}
+                    disabled={tx.reference_match}
+                    onCheckedChange={() => onToggleSkip(tx.index)}
+                    aria-label={skipped ? 'Import this transaction' : 'Skip this transaction'}
+                  />
+                </TableCell>
+                <TableCell className="font-mono text-sm">
+                  {tx.booking_date ? formatDate(tx.booking_date) : '-'}
+                </TableCell>
+                <TableCell className={`text-right font-semibold ${tx.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatAmount(tx.amount, currency)}
+                </TableCell>
+                <TableCell className="max-w-[200px]">
+                  <div>{tx.remittance_information || '-'}</div>
+                  {tx.duplicate_of && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Matches existing: {tx.duplicate_of.remittance_information || tx.duplicate_of.counterparty_name || '-'}
+                      {tx.duplicate_of.status !== 'pending' && ` (${tx.duplicate_of.status})`}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div>{tx.counterparty_name || '-'}</div>
+                  {tx.counterparty_iban && (
+                    <div className="text-xs text-muted-foreground font-mono">
+                      {tx.counterparty_iban}
+                    </div>
+                  )}
+                </TableCell>
+                {showReference && (
+                  <TableCell className="text-xs font-mono">
+                    {tx.remote_transaction_id || '-'}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <Badge variant={badge.variant} className="whitespace-nowrap">
+                    {tx.reference_match ? 'Already imported' : badge.label}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
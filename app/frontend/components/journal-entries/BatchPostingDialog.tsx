@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react'
+import { router } from '@inertiajs/react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AlertCircle, Loader2, Lock, Search } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/utils/formatting'
+
+interface FiscalYear {
+  id: number
+  year: number
+  startDate: string
+  endDate: string
+  closed: boolean
+  lockedUntil: string | null
+}
+
+interface PostingPreviewEntry {
+  id: number
+  bookingDate: string
+  description: string
+  amount: number
+  problems: string[]
+}
+
+interface BatchPostingDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  fiscalYear: FiscalYear | null
+}
+
+export function BatchPostingDialog({ open, onOpenChange, fiscalYear }: BatchPostingDialogProps) {
+  const [upTo, setUpTo] = useState('')
+  const [entries, setEntries] = useState<PostingPreviewEntry[] | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Default to today, limited to the fiscal year
+  useEffect(() => {
+    if (open && fiscalYear) {
+      const today = new Date().toISOString().split('T')[0]
+      setUpTo(today > fiscalYear.endDate ? fiscalYear.endDate : today)
+      setEntries(null)
+      setErrors([])
+    }
+  }, [open, fiscalYear])
+
+  const handlePreview = async () => {
+    if (!fiscalYear) return
+
+    setIsLoading(true)
+    setErrors([])
+
+    try {
+      const params = new URLSearchParams({ fiscal_year_id: fiscalYear.id.toString(), up_to: upTo })
+      const response = await fetch(`/journal_entries/posting_preview?${params.toString()}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setEntries(data.entries)
+      } else {
+        setEntries(null)
+        setErrors(data.errors || ['Failed to load preview'])
+      }
+    } catch (error) {
+      setErrors(['Network error. Please try again.'])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePost = async () => {
+    if (!fiscalYear) return
+
+    setIsLoading(true)
+    setErrors([])
+
+    try {
+      const response = await fetch('/journal_entries/post_period', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({ fiscal_year_id: fiscalYear.id, up_to: upTo }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        onOpenChange(false)
+        router.reload()
+      } else {
+        if (data.entries) setEntries(data.entries)
+        setErrors(data.errors || ['Failed to post entries'])
+      }
+    } catch (error) {
+      setErrors(['Network error. Please try again.'])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const invalidCount = entries?.filter((entry) => entry.problems.length > 0).length ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Post Period (Festschreibung)</DialogTitle>
+          <DialogDescription>
+            Posts all draft entries up to the chosen date at once and locks the period.
+            Posted entries can only be corrected by a Storno.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fiscalYear && (
+          <div className="space-y-4">
+            <div className="flex items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="post-up-to">Post all drafts up to</Label>
+                <Input
+                  id="post-up-to"
+                  type="date"
+                  min={fiscalYear.lockedUntil || fiscalYear.startDate}
+                  max={fiscalYear.endDate}
+                  value={upTo}
+                  onChange={(e) => {
+                    setUpTo(e.target.value)
+                    setEntries(null)
+                  }}
+                />
+              </div>
+              <Button variant="outline" onClick={handlePreview} disabled={!upTo || isLoading}>
+                <Search className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+            </div>
+            {fiscalYear.lockedUntil && (
+              <p className="text-sm text-muted-foreground">
+                Fiscal year {fiscalYear.year} is currently locked up to {formatDate(fiscalYear.lockedUntil)}.
+              </p>
+            )}
+
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{errors.join(', ')}</AlertDescription>
+              </Alert>
+            )}
+
+            {entries && (
+              entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No draft entries up to {formatDate(upTo)}. Confirming only moves the lock date.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[110px]">Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right w-[120px]">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{formatDate(entry.bookingDate)}</TableCell>
+                        <TableCell>
+                          <div>{entry.description}</div>
+                          {entry.problems.map((problem, index) => (
+                            <div key={index} className="text-xs text-destructive">{problem}</div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(entry.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )
+            )}
+
+            {invalidCount > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {invalidCount} {invalidCount === 1 ? 'entry has' : 'entries have'} problems. Fix them before posting.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handlePost} disabled={!entries || invalidCount > 0 || isLoading}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+            Post {entries?.length ?? 0} entries and lock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
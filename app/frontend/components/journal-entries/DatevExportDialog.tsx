@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Download, Loader2 } from 'lucide-react'
+
+interface FiscalYear {
+  id: number
+  year: number
+  startDate: string
+  endDate: string
+  closed: boolean
+}
+
+interface DatevExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  fiscalYears: FiscalYear[]
+  selectedFiscalYearId: number | null
+}
+
+type ExportFile = 'bookings' | 'accounts'
+
+export function DatevExportDialog({
+  open,
+  onOpenChange,
+  fiscalYears,
+  selectedFiscalYearId,
+}: DatevExportDialogProps) {
+  const [fiscalYearId, setFiscalYearId] = useState<string>('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [postedOnly, setPostedOnly] = useState(true)
+  const [consultantNumber, setConsultantNumber] = useState('')
+  const [clientNumber, setClientNumber] = useState('')
+  const [downloading, setDownloading] = useState<ExportFile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Default to the fiscal year shown in the journal
+  useEffect(() => {
+    if (open) {
+      const fiscalYear = fiscalYears.find(fy => fy.id === selectedFiscalYearId) || fiscalYears[0]
+      setFiscalYearId(fiscalYear ? fiscalYear.id.toString() : '')
+      setFrom(fiscalYear?.startDate || '')
+      setTo(fiscalYear?.endDate || '')
+      setError(null)
+    }
+  }, [open, fiscalYears, selectedFiscalYearId])
+
+  const handleFiscalYearChange = (value: string) => {
+    setFiscalYearId(value)
+    const fiscalYear = fiscalYears.find(fy => fy.id.toString() === value)
+    setFrom(fiscalYear?.startDate || '')
+    setTo(fiscalYear?.endDate || '')
+  }
+
+  const handleDownload = async (file: ExportFile) => {
+    setDownloading(file)
+    setError(null)
+
+    const params = new URLSearchParams({
+      fiscal_year_id: fiscalYearId,
+      from,
+      to,
+      posted_only: postedOnly ? 'true' : 'false',
+      consultant_number: consultantNumber,
+      client_number: clientNumber,
+    })
+
+    try {
+      const response = await fetch(`/datev_export/${file}?${params.toString()}`)
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.errors?.join(', ') || 'Export failed')
+        return
+      }
+
+      // Use the file name chosen by the server
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `EXTF_${file}.csv`
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError('An error occurred during the export')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>DATEV Export</DialogTitle>
+          <DialogDescription>
+            Export the journal as DATEV EXTF Buchungsstapel with the matching Kontenbeschriftungen
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Fiscal Year</Label>
+            <Select value={fiscalYearId} onValueChange={handleFiscalYearChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select fiscal year" />
+              </SelectTrigger>
+              <SelectContent>
+                {fiscalYears.map(fy => (
+                  <SelectItem key={fy.id} value={fy.id.toString()}>
+                    {fy.year} {fy.closed && '(Closed)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="datev-from">From</Label>
+              <Input id="datev-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="datev-to">To</Label>
+              <Input id="datev-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="datev-consultant">Beraternummer</Label>
+              <Input
+                id="datev-consultant"
+                inputMode="numeric"
+                value={consultantNumber}
+                onChange={(e) => setConsultantNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="datev-client">Mandantennummer</Label>
+              <Input
+                id="datev-client"
+                inputMode="numeric"
+                value={clientNumber}
+                onChange={(e) => setClientNumber(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Consultant and client number are provided by your tax advisor.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="datev-posted-only"
+              checked={postedOnly}
+              onCheckedChange={(checked) => setPostedOnly(checked === true)}
+            />
+            <Label htmlFor="datev-posted-only" className="font-normal">Only posted entries</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => handleDownload('accounts')}
+              disabled={!fiscalYearId || downloading !== null}
+            >
+              {downloading === 'accounts' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              Kontenbeschriftungen
+            </Button>
+            <Button
+              className="gap-2"
+              onClick={() => handleDownload('bookings')}
+              disabled={!fiscalYearId || downloading !== null}
+            >
+              {downloading === 'bookings' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              Buchungsstapel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
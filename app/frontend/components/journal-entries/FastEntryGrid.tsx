@@ -0,0 +1,539 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import { router } from '@inertiajs/react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, Loader2, Plus, Save, Trash2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatCurrency } from '@/utils/formatting'
+import type { TaxKey } from '@/types/accounting'
+
+interface SuggestedAccount {
+  code: string
+  name: string
+  accountType: string
+  taxRate: number
+  taxKeyCode?: string | null
+}
+
+interface GridRow {
+  tempId: string
+  amount: string
+  debitCredit: string
+  accountCode: string
+  counterAccountCode: string
+  buKey: string
+  date: string
+  documentField: string
+  text: string
+  vatId: string
+  problems: string[]
+}
+
+interface FastEntryGridProps {
+  taxKeys: TaxKey[]
+  defaultYear: number
+  onClose: () => void
+}
+
+// Column order used for Enter navigation
+const COLUMNS = ['amount', 'debitCredit', 'accountCode', 'counterAccountCode', 'buKey', 'date', 'documentField', 'text', 'vatId'] as const
+type Column = (typeof COLUMNS)[number]
+
+const emptyRow = (previous?: GridRow): GridRow => ({
+  tempId: crypto.randomUUID(),
+  amount: '',
+  debitCredit: 'S',
+  accountCode: '',
+  counterAccountCode: '',
+  buKey: '',
+  // Like DATEV, Datum and Beleg carry over from the previous row (Beleg counts up)
+  date: previous?.date || '',
+  documentField: previous ? nextDocumentField(previous.documentField) : '',
+  text: '',
+  vatId: '',
+  problems: [],
+})
+
+const nextDocumentField = (value: string): string => {
+  const match = value.match(/^(.*?)(\d+)$/)
+  if (!match) return value
+  const next = (parseInt(match[2], 10) + 1).toString().padStart(match[2].length, '0')
+  return `${match[1]}${next}`
+}
+
+// Accepts 1.234,56 as well as 1234.56
+const parseAmount = (value: string): number => {
+  const normalized = value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value
+  const amount = parseFloat(normalized)
+  return isNaN(amount) ? 0 : amount
+}
+
+// Accepts DDMM (year of the fiscal year), DD.MM., DD.MM.YY and DD.MM.YYYY; returns an ISO date
+const parseEntryDate = (value: string, defaultYear: number): string | null => {
+  const trimmed = value.trim()
+  const match = trimmed.match(/^(\d{2})(\d{2})$/) || trimmed.match(/^(\d{1,2})\.(\d{1,2})\.?(\d{2}|\d{4})?$/)
+  if (!match) return null
+
+  const day = parseInt(match[1], 10)
+  const month = parseInt(match[2], 10)
+  const year = match[3] ? (match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10)) : defaultYear
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+
+  return date.toISOString().split('T')[0]
+}
+
+const isBlank = (row: GridRow) =>
+  !row.amount && !row.accountCode && !row.counterAccountCode && !row.buKey && !row.text
+
+const vatFor = (amount: number, taxKey: TaxKey | undefined): number => {
+  if (!taxKey) return 0
+  if (taxKey.kind === 'reverse_charge') return Math.round(amount * taxKey.rate) / 100
+  return amount - Math.round((amount * 10000) / (100 + taxKey.rate)) / 100
+}
+
+interface AccountCodeInputProps {
+  value: string
+  row: number
+  column: Column
+  accountNames: Record<string, string>
+  onChange: (code: string) => void
+  onAccept: (account: SuggestedAccount) => void
+  onSuggestions: (accounts: SuggestedAccount[]) => void
+}
+
+// Account code cell with autocomplete: arrow keys choose, Enter or Tab accept
+function AccountCodeInput({ value, row, column, accountNames, onChange, onAccept, onSuggestions }: AccountCodeInputProps) {
+  const [suggestions, setSuggestions] = useState<SuggestedAccount[]>([])
+  const [highlighted, setHighlighted] = useState(0)
+  const [focused, setFocused] = useState(false)
+
+  useEffect(() => {
+    // A known code needs no suggestions, e.g. right after accepting one
+    if (!focused || value.length < 2 || accountNames[value]) {
+      setSuggestions([])
+      return
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/accounts?search=${encodeURIComponent(value)}`)
+        const data = await response.json()
+        const accounts: SuggestedAccount[] = [...(data.accounts || []), ...(data.templateAccounts || [])]
+        setSuggestions(accounts.slice(0, 8))
+        setHighlighted(0)
+        onSuggestions(accounts)
+      } catch (err) {
+        console.error('Failed to search accounts', err)
+      }
+    }, 200)
+
+    return () => clearTimeout(timeoutId)
+  }, [value, focused, accountNames])
+
+  const accept = (account: SuggestedAccount) => {
+    onAccept(account)
+    setSuggestions([])
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted((current) => (current + step + suggestions.length) % suggestions.length)
+    } else if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+      // Tab keeps its default and moves on to the next cell with the accepted code
+      if (e.key === 'Enter') e.preventDefault()
+      accept(suggestions[highlighted])
+      if (e.key === 'Enter') focusCell(e.currentTarget, row, COLUMNS.indexOf(column) + 1)
+    } else if (e.key === 'Escape') {
+      setSuggestions([])
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        data-row={row}
+        data-col={column}
+        onChange={(e) => onChange(e.target.value.trim())}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => {
+          setFocused(false)
+          setSuggestions([])
+        }}
+        className="h-8 font-mono"
+        inputMode="numeric"
+        autoComplete="off"
+      />
+      <div className="truncate text-[11px] text-muted-foreground h-4" title={accountNames[value]}>
+        {accountNames[value]}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-9 z-50 w-72 rounded-md border bg-popover shadow-md">
+          {suggestions.map((account, index) => (
+            <button
+              key={account.code}
+              type="button"
+              tabIndex={-1}
+              // mousedown keeps the focus in the input
+              onMouseDown={(e) => {
+                e.preventDefault()
+                accept(account)
+              }}
+              className={cn(
+                'flex w-full gap-2 px-2 py-1 text-left text-sm',
+                index === highlighted && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="font-mono">{account.code}</span>
+              <span className="truncate">{account.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const focusCell = (from: HTMLElement, row: number, column: number) => {
+  const grid = from.closest('[data-fast-entry-grid]')
+  const target = grid?.querySelector<HTMLInputElement>(`[data-row="${row}"][data-col="${COLUMNS[column]}"]`)
+  target?.focus()
+  target?.select()
+}
+
+// Spreadsheet-like entry of DATEV Buchungszeilen; each row becomes one draft journal entry
+export function FastEntryGrid({ taxKeys, defaultYear, onClose }: FastEntryGridProps) {
+  const [rows, setRows] = useState<GridRow[]>([emptyRow()])
+  const [accountNames, setAccountNames] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const pendingFocus = useRef<number | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+
+  // Focus the first cell of a row added by keyboard once it is rendered
+  useEffect(() => {
+    if (pendingFocus.current === null || !gridRef.current) return
+    const input = gridRef.current.querySelector<HTMLInputElement>(`[data-row="${pendingFocus.current}"][data-col="amount"]`)
+    input?.focus()
+    pendingFocus.current = null
+  }, [rows.length])
+
+  useEffect(() => {
+    gridRef.current?.querySelector<HTMLInputElement>('[data-row="0"][data-col="amount"]')?.focus()
+  }, [])
+
+  const taxKeyByKey = useMemo(() => Object.fromEntries(taxKeys.map((taxKey) => [taxKey.code, taxKey])), [taxKeys])
+
+  const updateRow = (index: number, changes: Partial<GridRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes, problems: [] } : row)))
+  }
+
+  const addRow = () => {
+    pendingFocus.current = rows.length
+    setRows((prev) => [...prev, emptyRow(prev[prev.length - 1])])
+  }
+
+  const removeRow = (index: number) => {
+    setRows((prev) => (prev.length === 1 ? [emptyRow()] : prev.filter((_, i) => i !== index)))
+  }
+
+  const rememberAccounts = (accounts: SuggestedAccount[]) => {
+    setAccountNames((prev) => ({ ...prev, ...Object.fromEntries(accounts.map((account) => [account.code, account.name])) }))
+  }
+
+  // Suggests the account's default BU key, else the key matching the VAT rate of an expense or revenue account
+  const acceptAccount = (index: number, field: 'accountCode' | 'counterAccountCode', account: SuggestedAccount) => {
+    const row = rows[index]
+    const kind = account.accountType === 'expense' ? 'input' : account.accountType === 'revenue' ? 'output' : null
+    const taxKey =
+      taxKeys.find((key) => key.code === account.taxKeyCode) ??
+      (kind && account.taxRate > 0 ? taxKeys.find((key) => key.kind === kind && key.rate === account.taxRate) : undefined)
+
+    rememberAccounts([account])
+    updateRow(index, { [field]: account.code, buKey: row.buKey || taxKey?.code || '' })
+  }
+
+  const handleGridKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Enter' || e.defaultPrevented) return
+    const target = e.target as HTMLElement
+    const row = parseInt(target.dataset.row || '', 10)
+    const column = COLUMNS.indexOf(target.dataset.col as Column)
+    if (isNaN(row) || column < 0) return
+
+    e.preventDefault()
+    if (e.ctrlKey || e.metaKey) {
+      handleSave()
+    } else if (e.shiftKey) {
+      if (column > 0) focusCell(target, row, column - 1)
+      else if (row > 0) focusCell(target, row - 1, COLUMNS.length - 1)
+    } else if (column < COLUMNS.length - 1) {
+      focusCell(target, row, column + 1)
+    } else if (row < rows.length - 1) {
+      focusCell(target, row + 1, 0)
+    } else {
+      addRow()
+    }
+  }
+
+  const totals = useMemo(() => {
+    return rows.reduce(
+      (sums, row) => {
+        const amount = parseAmount(row.amount)
+        if (row.debitCredit === 'H') sums.credit += amount
+        else sums.debit += amount
+        sums.vat += vatFor(amount, taxKeyByKey[row.buKey])
+        return sums
+      },
+      { debit: 0, credit: 0, vat: 0 }
+    )
+  }, [rows, taxKeyByKey])
+
+  const handleSave = async () => {
+    const entered = rows.map((row, index) => ({ row, index })).filter(({ row }) => !isBlank(row))
+    if (entered.length === 0) return
+
+    setIsSaving(true)
+    setErrors([])
+
+    try {
+      const response = await fetch('/journal_entries/fast_entry', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({
+          rows: entered.map(({ row }) => ({
+            amount: parseAmount(row.amount),
+            debit_credit: row.debitCredit,
+            account_code: row.accountCode,
+            counter_account_code: row.counterAccountCode,
+            bu_key: row.buKey,
+            booking_date: parseEntryDate(row.date, defaultYear),
+            document_field: row.documentField,
+            text: row.text,
+            vat_id: row.vatId,
+          })),
+        }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setRows([emptyRow(rows[rows.length - 1])])
+        router.reload()
+      } else {
+        setErrors(data.errors || ['Failed to save the bookings'])
+        const problemsByIndex = new Map<number, string[]>()
+        ;(data.rows || []).forEach((result: { problems: string[] }, i: number) => {
+          problemsByIndex.set(entered[i].index, result.problems)
+        })
+        setRows((prev) => prev.map((row, index) => ({ ...row, problems: problemsByIndex.get(index) || [] })))
+      }
+    } catch (error) {
+      setErrors(['Network error. Please try again.'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const cellProps = (index: number, column: Column) => ({
+    'data-row': index,
+    'data-col': column,
+    autoComplete: 'off',
+    className: 'h-8',
+  })
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Fast Entry</CardTitle>
+          <CardDescription>
+            Enter moves to the next field, Shift+Enter back, Ctrl+Enter saves. Datum accepts DDMM.
+            Each row is saved as a draft entry; a BU-Schlüssel splits the gross amount into net and VAT.
+            Enter the customer's USt-IdNr. for EU deliveries reported in the Zusammenfassende Meldung.
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close fast entry">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {errors.map((error, index) => <div key={index}>{error}</div>)}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div ref={gridRef} data-fast-entry-grid onKeyDown={handleGridKeyDown} className="overflow-x-auto">
+          <div className="grid grid-cols-[120px_48px_110px_110px_64px_104px_110px_minmax(180px,1fr)_130px_32px] gap-x-2 gap-y-1 text-sm">
+            <div className="text-xs font-medium text-muted-foreground">Umsatz</div>
+            <div className="text-xs font-medium text-muted-foreground">S/H</div>
+            <div className="text-xs font-medium text-muted-foreground">Konto</div>
+            <div className="text-xs font-medium text-muted-foreground">Gegenkonto</div>
+            <div className="text-xs font-medium text-muted-foreground">BU</div>
+            <div className="text-xs font-medium text-muted-foreground">Datum</div>
+            <div className="text-xs font-medium text-muted-foreground">Beleg</div>
+            <div className="text-xs font-medium text-muted-foreground">Text</div>
+            <div className="text-xs font-medium text-muted-foreground">USt-IdNr.</div>
+            <div></div>
+
+            {rows.map((row, index) => {
+              const amount = parseAmount(row.amount)
+              const taxKey = taxKeyByKey[row.buKey]
+              const vat = vatFor(amount, taxKey)
+              const isoDate = row.date ? parseEntryDate(row.date, defaultYear) : null
+
+              return (
+                <div key={row.tempId} className="contents">
+                  <Input
+                    {...cellProps(index, 'amount')}
+                    value={row.amount}
+                    onChange={(e) => updateRow(index, { amount: e.target.value })}
+                    className="h-8 text-right font-mono"
+                    inputMode="decimal"
+                  />
+                  <Input
+                    {...cellProps(index, 'debitCredit')}
+                    value={row.debitCredit}
+                    maxLength={1}
+                    onChange={(e) => {
+                      const value = e.target.value.toUpperCase()
+                      if (value === 'S' || value === 'H') updateRow(index, { debitCredit: value })
+                    }}
+                    className="h-8 text-center font-mono uppercase"
+                  />
+                  <AccountCodeInput
+                    value={row.accountCode}
+                    row={index}
+                    column="accountCode"
+                    accountNames={accountNames}
+                    onChange={(code) => updateRow(index, { accountCode: code })}
+                    onAccept={(account) => acceptAccount(index, 'accountCode', account)}
+                    onSuggestions={rememberAccounts}
+                  />
+                  <AccountCodeInput
+                    value={row.counterAccountCode}
+                    row={index}
+                    column="counterAccountCode"
+                    accountNames={accountNames}
+                    onChange={(code) => updateRow(index, { counterAccountCode: code })}
+                    onAccept={(account) => acceptAccount(index, 'counterAccountCode', account)}
+                    onSuggestions={rememberAccounts}
+                  />
+                  <div>
+                    <Input
+                      {...cellProps(index, 'buKey')}
+                      value={row.buKey}
+                      list="fast-entry-tax-keys"
+                      onChange={(e) => updateRow(index, { buKey: e.target.value.trim() })}
+                      className={cn('h-8 font-mono', row.buKey && !taxKey && 'border-destructive')}
+                    />
+                    <div className="truncate text-[11px] text-muted-foreground h-4" title={taxKey?.name}>
+                      {taxKey?.name}
+                    </div>
+                  </div>
+                  <div>
+                    <Input
+                      {...cellProps(index, 'date')}
+                      value={row.date}
+                      placeholder="DDMM"
+                      onChange={(e) => updateRow(index, { date: e.target.value })}
+                      className={cn('h-8 font-mono', row.date && !isoDate && 'border-destructive')}
+                    />
+                    <div className="text-[11px] text-muted-foreground h-4">
+                      {isoDate && isoDate.split('-').reverse().join('.')}
+                    </div>
+                  </div>
+                  <Input
+                    {...cellProps(index, 'documentField')}
+                    value={row.documentField}
+                    onChange={(e) => updateRow(index, { documentField: e.target.value })}
+                  />
+                  <div>
+                    <Input
+                      {...cellProps(index, 'text')}
+                      value={row.text}
+                      onChange={(e) => updateRow(index, { text: e.target.value })}
+                    />
+                    <div className="text-[11px] h-4">
+                      {row.problems.length > 0 ? (
+                        <span className="text-destructive">{row.problems.join(' · ')}</span>
+                      ) : (
+                        vat !== 0 && (
+                          <span className="text-muted-foreground">
+                            {taxKey?.kind === 'reverse_charge'
+                              ? `§13b VAT ${formatCurrency(vat)}`
+                              : `Net ${formatCurrency(amount - vat)} + VAT ${formatCurrency(vat)}`}
+                          </span>
+                        )
+                      )}
+                    </div>
+                  </div>
+                  <Input
+                    {...cellProps(index, 'vatId')}
+                    value={row.vatId}
+                    onChange={(e) => updateRow(index, { vatId: e.target.value.toUpperCase() })}
+                    className="h-8 font-mono uppercase"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    tabIndex={-1}
+                    onClick={() => removeRow(index)}
+                    title="Remove row"
+                    className="h-8 px-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+          <datalist id="fast-entry-tax-keys">
+            {taxKeys.map((taxKey) => (
+              <option key={taxKey.code} value={taxKey.code}>{taxKey.code} – {taxKey.name}</option>
+            ))}
+          </datalist>
+        </div>
+
+        <div className="flex items-center justify-between border-t pt-3">
+          <Button variant="outline" size="sm" onClick={addRow}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Row
+          </Button>
+          <div className="flex items-center gap-6 text-sm">
+            <span>
+              <span className="text-muted-foreground">Soll </span>
+              <span className="font-mono">{formatCurrency(totals.debit)}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Haben </span>
+              <span className="font-mono">{formatCurrency(totals.credit)}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">VAT </span>
+              <span className="font-mono">{formatCurrency(totals.vat)}</span>
+            </span>
+            <Button onClick={handleSave} disabled={isSaving || rows.every(isBlank)}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save {rows.filter((row) => !isBlank(row)).length} Bookings
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
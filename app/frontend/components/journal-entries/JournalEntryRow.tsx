@@ -2,32 +2,39 @@ import { Fragment, useState, useMemo } from 'react'
 import { TableRow, TableCell } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { PenLine, Trash2 } from 'lucide-react'
+import { PenLine, Trash2, Undo2 } from 'lucide-react'
 import { formatDate } from '@/utils/formatting'
 import { detectVatPattern } from './VatPatternDetector'
 import { SimplifiedView } from './SimplifiedView'
 import { DetailedView } from './DetailedView'
+import { ReversalLinks } from './ReversalLinks'
 import type { JournalEntry } from '@/types/journal-entries'
+import type { TaxKey } from '@/types/accounting'
 
 interface JournalEntryRowProps {
   entry: JournalEntry
   index: number
   globalSimplifiedMode: boolean
+  // Needed to recognize VAT bookings for the simplified view
+  taxKeys?: TaxKey[]
   onEdit?: (entryId: number) => void
   onDelete?: (entryId: number) => void
+  onReverse?: (entryId: number) => void
 }
 
 export function JournalEntryRow({
   entry,
   index,
   globalSimplifiedMode,
+  taxKeys = [],
   onEdit,
   onDelete,
+  onReverse,
 }: JournalEntryRowProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
   // Detect VAT pattern using memoization to avoid re-computation
-  const pattern = useMemo(() => detectVatPattern(entry), [entry])
+  const pattern = useMemo(() => detectVatPattern(entry, taxKeys), [entry, taxKeys])
 
   // Determine if we should show simplified view
   const showSimplified =
@@ -36,6 +43,10 @@ export function JournalEntryRow({
   // Alternating background color for visual grouping
   const backgroundColor = index % 2 === 0 ? 'bg-muted/30' : 'bg-background'
 
+  // Posted entries are corrected by a Storno; a Storno itself is not reversed again
+  const canReverse =
+    !!entry.postedAt && entry.entryType === 'normal' && !entry.reversalOf && !entry.reversedBy
+
   const handleToggleExpand = () => {
     setIsExpanded(!isExpanded)
   }
@@ -43,11 +54,17 @@ export function JournalEntryRow({
   return (
     <Fragment key={entry.id}>
       {/* Entry header row - Date, Description, Actions */}
-      <TableRow className={`border-t-2 ${backgroundColor}`}>
+      <TableRow id={`journal-entry-${entry.id}`} className={`border-t-2 ${backgroundColor}`}>
         <TableCell className="font-medium" colSpan={2}>
           {formatDate(entry.bookingDate)}
+          {entry.voucherNumber && (
+            <span className="ml-2 font-mono text-xs text-muted-foreground">{entry.voucherNumber}</span>
+          )}
+        </TableCell>
+        <TableCell colSpan={2}>
+          <div>{entry.description}</div>
+          <ReversalLinks reversalOf={entry.reversalOf} reversedBy={entry.reversedBy} />
         </TableCell>
-        <TableCell colSpan={2}>{entry.description}</TableCell>
         <TableCell colSpan={2}></TableCell>
         <TableCell>
           <div className="flex gap-2">
@@ -75,7 +92,19 @@ export function JournalEntryRow({
                 )}
               </>
             )}
+            {canReverse && onReverse && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onReverse(entry.id)}
+                title="Reverse journal entry (Storno)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            )}
             {entry.postedAt && <Badge variant="secondary">Posted</Badge>}
+            {entry.reversalOf && <Badge variant="outline">Storno</Badge>}
+            {entry.reversedBy && <Badge variant="outline">Reversed</Badge>}
             {entry.fiscalYearClosed && !entry.postedAt && (
               <Badge variant="secondary">Closed FY</Badge>
             )}
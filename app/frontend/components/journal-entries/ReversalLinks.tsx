@@ -0,0 +1,34 @@
+import { formatDate } from '@/utils/formatting'
+import type { JournalEntryLink } from '@/types/journal-entries'
+
+interface ReversalLinksProps {
+  reversalOf: JournalEntryLink | null
+  reversedBy: JournalEntryLink | null
+}
+
+// Cross-references between a posted entry and its Storno. The anchors
+// point to the rows in the journal (id="journal-entry-<id>").
+export function ReversalLinks({ reversalOf, reversedBy }: ReversalLinksProps) {
+  if (!reversalOf && !reversedBy) return null
+
+  return (
+    <div className="text-xs text-muted-foreground">
+      {reversalOf && (
+        <span>
+          Storno of{' '}
+          <a href={`/journal_entries#journal-entry-${reversalOf.id}`} className="underline" onClick={(e) => e.stopPropagation()}>
+            entry #{reversalOf.id} from {formatDate(reversalOf.bookingDate)}
+          </a>
+        </span>
+      )}
+      {reversedBy && (
+        <span>
+          Reversed by{' '}
+          <a href={`/journal_entries#journal-entry-${reversedBy.id}`} className="underline" onClick={(e) => e.stopPropagation()}>
+            Storno #{reversedBy.id} on {formatDate(reversedBy.bookingDate)}
+          </a>
+        </span>
+      )}
+    </div>
+  )
+}
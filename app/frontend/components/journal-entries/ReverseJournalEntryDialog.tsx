@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, Loader2, Undo2 } from 'lucide-react'
+import { formatDate } from '@/utils/formatting'
+import type { JournalEntry } from '@/types/journal-entries'
+
+interface ReverseJournalEntryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  entry: JournalEntry | null
+  onReversed: (storno: JournalEntry, openCorrection: boolean) => void
+}
+
+export function ReverseJournalEntryDialog({
+  open,
+  onOpenChange,
+  entry,
+  onReversed,
+}: ReverseJournalEntryDialogProps) {
+  const [bookingDate, setBookingDate] = useState('')
+  const [openCorrection, setOpenCorrection] = useState(true)
+  const [errors, setErrors] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setBookingDate(new Date().toISOString().split('T')[0])
+      setErrors([])
+    }
+  }, [open])
+
+  const handleReverse = async () => {
+    if (!entry) return
+
+    setIsLoading(true)
+    setErrors([])
+
+    try {
+      const response = await fetch(`/journal_entries/${entry.id}/reverse`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({ booking_date: bookingDate }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onReversed(data.journalEntry, openCorrection)
+      } else {
+        setErrors(data.errors || ['Failed to reverse journal entry'])
+      }
+    } catch (error) {
+      console.error('Reversal failed:', error)
+      setErrors(['Network error. Please try again.'])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reverse Journal Entry</DialogTitle>
+          <DialogDescription>
+            Posted entries cannot be changed (GoBD). A Storno entry with mirrored line items
+            cancels this entry and stays linked to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entry && (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-3 text-sm">
+              <div className="font-medium">{entry.description}</div>
+              <div className="text-muted-foreground">Booked on {formatDate(entry.bookingDate)}</div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="storno-date">Storno date</Label>
+              <Input
+                id="storno-date"
+                type="date"
+                min={entry.bookingDate}
+                value={bookingDate}
+                onChange={(e) => setBookingDate(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="open-correction"
+                checked={openCorrection}
+                onCheckedChange={(checked) => setOpenCorrection(checked === true)}
+              />
+              <Label htmlFor="open-correction" className="font-normal">
+                Open a corrected copy afterwards
+              </Label>
+            </div>
+
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{errors.join(', ')}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleReverse} disabled={!bookingDate || isLoading}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+            Reverse
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
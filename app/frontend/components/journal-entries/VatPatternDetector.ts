@@ -1,22 +1,26 @@
+import type { TaxKey, TaxKeyKind } from '@/types/accounting'
 import type { JournalEntry, LineItem, VatPattern } from '@/types/journal-entries'
 
 /**
  * Main function to detect VAT patterns in a journal entry.
  * Returns a VatPattern object describing the detected pattern.
+ * The VAT accounts and rates come from the tax keys of the company's chart.
  */
-export function detectVatPattern(entry: JournalEntry): VatPattern {
+export function detectVatPattern(entry: JournalEntry, taxKeys: TaxKey[]): VatPattern {
   // Early exit for non-matching counts
   if (entry.lineItems.length === 3) {
-    const expensePattern = detectVatExpense(entry.lineItems)
+    const expensePattern = detectVatExpense(entry.lineItems, taxKeys)
     if (expensePattern) return expensePattern
 
-    const revenuePattern = detectVatRevenue(entry.lineItems)
+    const revenuePattern = detectVatRevenue(entry.lineItems, taxKeys)
     if (revenuePattern) return revenuePattern
   }
 
   if (entry.lineItems.length === 4) {
-    const reverseChargePattern = detectReverseCharge(entry.lineItems)
-    if (reverseChargePattern) return reverseChargePattern
+    for (const taxKey of taxKeys.filter((key) => key.kind === 'reverse_charge')) {
+      const reverseChargePattern = detectReverseCharge(entry.lineItems, taxKey)
+      if (reverseChargePattern) return reverseChargePattern
+    }
   }
 
   // No pattern detected
@@ -32,19 +36,18 @@ export function detectVatPattern(entry: JournalEntry): VatPattern {
  * Detects VAT expense pattern:
  * - Bank account (credit)
  * - Expense account (debit)
- * - Input VAT account (debit): 1576 (19%) or 1571 (7%)
+ * - Input VAT account of an input tax key (debit), e.g. 1576 (19%) or 1571 (7%) in SKR03
  */
-function detectVatExpense(lineItems: LineItem[]): VatPattern | null {
+function detectVatExpense(lineItems: LineItem[], taxKeys: TaxKey[]): VatPattern | null {
   if (lineItems.length !== 3) return null
 
   // Find candidates
   const bankCandidate = lineItems.find(
     (li) => li.direction === 'credit' && isBankAccount(li)
   )
-  const vatCandidate = lineItems.find((li) => {
-    const vatInfo = isVatInputAccount(li.accountCode)
-    return li.direction === 'debit' && vatInfo.isVat
-  })
+  const vatCandidate = lineItems.find(
+    (li) => li.direction === 'debit' && findVatKey(li.accountCode, taxKeys, 'input')
+  )
   const expenseCandidate = lineItems.find(
     (li) =>
       li.direction === 'debit' &&
@@ -54,8 +57,8 @@ function detectVatExpense(lineItems: LineItem[]): VatPattern | null {
 
   if (!bankCandidate || !vatCandidate || !expenseCandidate) return null
 
-  const vatInfo = isVatInputAccount(vatCandidate.accountCode)
-  if (!vatInfo.isVat || !vatInfo.rate) return null
+  const taxKey = findVatKey(vatCandidate.accountCode, taxKeys, 'input')
+  if (!taxKey) return null
 
   // Validate amounts
   const grossAmount = bankCandidate.amount
@@ -66,14 +69,15 @@ function detectVatExpense(lineItems: LineItem[]): VatPattern | null {
   if (!amountsBalance(grossAmount, netAmount, vatAmount)) return null
 
   // Check: VAT rate matches
-  if (!vatRateMatches(vatAmount, netAmount, vatInfo.rate)) return null
+  if (!vatRateMatches(vatAmount, netAmount, taxKey.rate)) return null
 
   return {
     type: 'vat_expense',
+    taxKey,
     mainAccount: expenseCandidate,
     bankAccount: bankCandidate,
     vatAccount: vatCandidate,
-    vatRate: vatInfo.rate,
+    vatRate: taxKey.rate,
     grossAmount,
     netAmount,
     vatAmount,
@@ -84,19 +88,18 @@ function detectVatExpense(lineItems: LineItem[]): VatPattern | null {
  * Detects VAT revenue pattern:
  * - Bank account (debit)
  * - Revenue account (credit)
- * - Output VAT account (credit): 1776 (19%) or 1771 (7%)
+ * - Output VAT account of an output tax key (credit), e.g. 1776 (19%) or 1771 (7%) in SKR03
  */
-function detectVatRevenue(lineItems: LineItem[]): VatPattern | null {
+function detectVatRevenue(lineItems: LineItem[], taxKeys: TaxKey[]): VatPattern | null {
   if (lineItems.length !== 3) return null
 
   // Find candidates
   const bankCandidate = lineItems.find(
     (li) => li.direction === 'debit' && isBankAccount(li)
   )
-  const vatCandidate = lineItems.find((li) => {
-    const vatInfo = isVatOutputAccount(li.accountCode)
-    return li.direction === 'credit' && vatInfo.isVat
-  })
+  const vatCandidate = lineItems.find(
+    (li) => li.direction === 'credit' && findVatKey(li.accountCode, taxKeys, 'output')
+  )
   const revenueCandidate = lineItems.find(
     (li) =>
       li.direction === 'credit' &&
@@ -106,8 +109,8 @@ function detectVatRevenue(lineItems: LineItem[]): VatPattern | null {
 
   if (!bankCandidate || !vatCandidate || !revenueCandidate) return null
 
-  const vatInfo = isVatOutputAccount(vatCandidate.accountCode)
-  if (!vatInfo.isVat || !vatInfo.rate) return null
+  const taxKey = findVatKey(vatCandidate.accountCode, taxKeys, 'output')
+  if (!taxKey) return null
 
   // Validate amounts
   const grossAmount = bankCandidate.amount
@@ -118,14 +121,15 @@ function detectVatRevenue(lineItems: LineItem[]): VatPattern | null {
   if (!amountsBalance(grossAmount, netAmount, vatAmount)) return null
 
   // Check: VAT rate matches
-  if (!vatRateMatches(vatAmount, netAmount, vatInfo.rate)) return null
+  if (!vatRateMatches(vatAmount, netAmount, taxKey.rate)) return null
 
   return {
     type: 'vat_revenue',
+    taxKey,
     mainAccount: revenueCandidate,
     bankAccount: bankCandidate,
     vatAccount: vatCandidate,
-    vatRate: vatInfo.rate,
+    vatRate: taxKey.rate,
     grossAmount,
     netAmount,
     vatAmount,
@@ -136,11 +140,11 @@ function detectVatRevenue(lineItems: LineItem[]): VatPattern | null {
  * Detects reverse charge pattern (§13b UStG):
  * - Bank account
  * - Main account (expense or revenue)
- * - Reverse charge input VAT (1577) - same direction as main account
- * - Reverse charge output VAT (1787) - opposite direction
+ * - Input VAT of the key (SKR03 1577) - same direction as main account
+ * - Output VAT of the key (SKR03 1787) - opposite direction
  * - Input VAT amount = Output VAT amount
  */
-function detectReverseCharge(lineItems: LineItem[]): VatPattern | null {
+function detectReverseCharge(lineItems: LineItem[], taxKey: TaxKey): VatPattern | null {
   if (lineItems.length !== 4) return null
 
   // Find bank account
@@ -148,11 +152,11 @@ function detectReverseCharge(lineItems: LineItem[]): VatPattern | null {
   if (!bankCandidate) return null
 
   // Find reverse charge VAT accounts
-  const inputVatCandidate = lineItems.find((li) =>
-    isReverseChargeInput(li.accountCode)
+  const inputVatCandidate = lineItems.find(
+    (li) => li.accountCode === taxKey.vatAccountCode
   )
-  const outputVatCandidate = lineItems.find((li) =>
-    isReverseChargeOutput(li.accountCode)
+  const outputVatCandidate = lineItems.find(
+    (li) => li.accountCode === taxKey.reverseChargeAccountCode
   )
 
   if (!inputVatCandidate || !outputVatCandidate) return null
@@ -178,18 +182,19 @@ function detectReverseCharge(lineItems: LineItem[]): VatPattern | null {
   // Validate: Output VAT must have opposite direction
   if (outputVatCandidate.direction === mainCandidate.direction) return null
 
-  // Validate: VAT amount should be ~19% of main amount
+  // Validate: VAT amount should match the key's rate of the main amount
   const vatAmount = inputVatCandidate.amount
   const mainAmount = mainCandidate.amount
-  if (!vatRateMatches(vatAmount, mainAmount, 19)) return null
+  if (!vatRateMatches(vatAmount, mainAmount, taxKey.rate)) return null
 
   return {
     type: 'reverse_charge',
+    taxKey,
     mainAccount: mainCandidate,
     bankAccount: bankCandidate,
     reverseChargeInput: inputVatCandidate,
     reverseChargeOutput: outputVatCandidate,
-    vatRate: 19,
+    vatRate: taxKey.rate,
     grossAmount: mainAmount,
     netAmount: mainAmount,
     vatAmount,
@@ -202,45 +207,15 @@ function detectReverseCharge(lineItems: LineItem[]): VatPattern | null {
  */
 function isBankAccount(lineItem: LineItem): boolean {
   // A line item is considered a bank account if it has a bank transaction link
-  // OR if it's in the typical bank account code range (1200-1299 in SKR03)
-  return (
-    lineItem.bankTransactionId !== null ||
-    (lineItem.accountCode >= '1200' && lineItem.accountCode <= '1299')
-  )
-}
-
-/**
- * Checks if an account code is an input VAT account.
- * Returns the VAT rate if it is.
- */
-function isVatInputAccount(accountCode: string): { isVat: boolean; rate?: number } {
-  if (accountCode === '1576') return { isVat: true, rate: 19 }
-  if (accountCode === '1571') return { isVat: true, rate: 7 }
-  return { isVat: false }
-}
-
-/**
- * Checks if an account code is an output VAT account.
- * Returns the VAT rate if it is.
- */
-function isVatOutputAccount(accountCode: string): { isVat: boolean; rate?: number } {
-  if (accountCode === '1776') return { isVat: true, rate: 19 }
-  if (accountCode === '1771') return { isVat: true, rate: 7 }
-  return { isVat: false }
-}
-
-/**
- * Checks if an account code is a reverse charge input VAT account (1577).
- */
-function isReverseChargeInput(accountCode: string): boolean {
-  return accountCode === '1577'
+  // OR if the server marks its account as a bank account of the company's chart
+  return lineItem.bankTransactionId !== null || lineItem.accountRole === 'bank'
 }
 
 /**
- * Checks if an account code is a reverse charge output VAT account (1787).
+ * Finds the tax key of the given kind that books VAT to the account.
  */
-function isReverseChargeOutput(accountCode: string): boolean {
-  return accountCode === '1787'
+function findVatKey(accountCode: string, taxKeys: TaxKey[], kind: TaxKeyKind): TaxKey | undefined {
+  return taxKeys.find((key) => key.kind === kind && key.vatAccountCode === accountCode)
 }
 
 /**
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { router } from '@inertiajs/react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, Loader2, Repeat } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/utils/formatting'
+import type { DueRecurringEntry } from '@/types/accounting'
+
+interface DueRecurringEntriesPanelProps {
+  entries: DueRecurringEntry[]
+}
+
+// Recurring entries scheduled up to today without a generated draft
+export function DueRecurringEntriesPanel({ entries }: DueRecurringEntriesPanelProps) {
+  const [errors, setErrors] = useState<string[]>([])
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  if (entries.length === 0) return null
+
+  const validCount = entries.filter((entry) => entry.problems.length === 0).length
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    setErrors([])
+
+    try {
+      const response = await fetch('/recurring_entry_templates/generate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+      })
+      const data = await response.json()
+
+      if (data.createdCount > 0) router.reload()
+      if (!data.success) setErrors(data.errors || ['Failed to generate recurring entries'])
+    } catch (error) {
+      setErrors(['Network error. Please try again.'])
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Due Recurring Entries
+          </CardTitle>
+          <CardDescription>
+            {entries.length} scheduled {entries.length === 1 ? 'entry has' : 'entries have'} not been generated yet.{' '}
+            <a href="/recurring_entry_templates" className="underline">Manage templates</a>
+          </CardDescription>
+        </div>
+        <Button onClick={handleGenerate} disabled={validCount === 0 || isGenerating}>
+          {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Repeat className="mr-2 h-4 w-4" />}
+          Generate {validCount} {validCount === 1 ? 'draft' : 'drafts'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {errors.map((error, index) => <div key={index}>{error}</div>)}
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="divide-y text-sm">
+          {entries.map((entry) => (
+            <div key={`${entry.templateId}-${entry.bookingDate}`} className="flex items-start justify-between gap-4 py-2">
+              <div>
+                <div>
+                  <span className="text-muted-foreground mr-2">{formatDate(entry.bookingDate)}</span>
+                  {entry.description}
+                </div>
+                {entry.problems.map((problem, index) => (
+                  <div key={index} className="text-xs text-destructive">{problem}</div>
+                ))}
+              </div>
+              <span className="font-mono whitespace-nowrap">{formatCurrency(entry.amount)}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
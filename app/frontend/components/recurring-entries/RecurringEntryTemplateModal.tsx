@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AccountSearch } from '@/components/AccountSearch'
+import { Loader2, AlertCircle, Plus, Trash2 } from 'lucide-react'
+import type { RecurringEntryLine, RecurringEntryTemplate, RecurringFrequency } from '@/types/accounting'
+
+interface Account {
+  id: number | null
+  code: string
+  name: string
+  accountType: string
+  taxRate: number
+  fromTemplate?: boolean
+}
+
+interface LineFormData {
+  tempId: string
+  account: Account | null
+  direction: 'debit' | 'credit'
+  amountType: 'fixed' | 'formula'
+  amount: string
+  formula: string
+  description: string
+}
+
+interface RecurringEntryTemplateModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  template: RecurringEntryTemplate | null
+  recentAccounts: Account[]
+  onSaved: (template: RecurringEntryTemplate) => void
+}
+
+const emptyLine = (direction: 'debit' | 'credit'): LineFormData => ({
+  tempId: crypto.randomUUID(),
+  account: null,
+  direction,
+  amountType: 'fixed',
+  amount: '',
+  formula: '',
+  description: '',
+})
+
+const toLineFormData = (line: RecurringEntryLine): LineFormData => ({
+  tempId: crypto.randomUUID(),
+  account: { id: null, code: line.accountCode, name: line.accountName || '', accountType: '', taxRate: 0 },
+  direction: line.direction,
+  amountType: line.amountType,
+  amount: line.amount?.toString() || '',
+  formula: line.formula || '',
+  description: line.description || '',
+})
+
+const firstOfMonth = () => {
+  const today = new Date()
+  return new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1)).toISOString().split('T')[0]
+}
+
+export function RecurringEntryTemplateModal({
+  open,
+  onOpenChange,
+  template,
+  recentAccounts,
+  onSaved,
+}: RecurringEntryTemplateModalProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly')
+  const [dayOfMonth, setDayOfMonth] = useState('1')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [active, setActive] = useState(true)
+  const [lines, setLines] = useState<LineFormData[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the modal opens with another template
+  useEffect(() => {
+    if (open) {
+      setName(template?.name || '')
+      setDescription(template?.description || '')
+      setFrequency(template?.frequency || 'monthly')
+      setDayOfMonth(template?.dayOfMonth.toString() || '1')
+      setStartDate(template?.startDate || firstOfMonth())
+      setEndDate(template?.endDate || '')
+      setActive(template?.active ?? true)
+      setLines(template ? template.lines.map(toLineFormData) : [emptyLine('debit'), emptyLine('credit')])
+      setError(null)
+    }
+  }, [open, template])
+
+  const updateLine = (tempId: string, changes: Partial<LineFormData>) => {
+    setLines((prev) => prev.map((line) => (line.tempId === tempId ? { ...line, ...changes } : line)))
+  }
+
+  const handleSave = async () => {
+    if (lines.some((line) => !line.account)) {
+      setError('Please select an account for every line')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    const isUpdate = template !== null
+
+    try {
+      const response = await fetch(isUpdate ? `/recurring_entry_templates/${template.id}` : '/recurring_entry_templates', {
+        method: isUpdate ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({
+          recurring_entry_template: {
+            name,
+            description,
+            frequency,
+            day_of_month: parseInt(dayOfMonth, 10),
+            start_date: startDate,
+            end_date: endDate || null,
+            active,
+            lines: lines.map((line) => ({
+              account_code: line.account!.code,
+              direction: line.direction,
+              amount_type: line.amountType,
+              amount: line.amountType === 'fixed' ? parseFloat(line.amount.replace(',', '.')) || null : null,
+              formula: line.amountType === 'formula' ? line.formula : null,
+              description: line.description || null,
+            })),
+          },
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSaved(data.template)
+        onOpenChange(false)
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to save template')
+      }
+    } catch (err) {
+      setError('An error occurred while saving the template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Recurring Entry' : 'New Recurring Entry'}</DialogTitle>
+          <DialogDescription>
+            Draft journal entries are generated from this template on every scheduled date
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-name">Name</Label>
+              <Input
+                id="recurring-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Depreciation company car"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-description">Entry description</Label>
+              <Input
+                id="recurring-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g. AfA PKW {month}"
+              />
+              <p className="text-xs text-muted-foreground">
+                Placeholders: {'{month}'}, {'{quarter}'}, {'{year}'}
+              </p>
+            </div>
+          </div>
+
+          {/* Schedule */}
+          <div className="rounded-lg border p-4 space-y-3">
+            <p className="text-sm font-medium">Schedule</p>
+            <div className="grid grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Frequency</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurringFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="yearly">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recurring-day" className="text-xs">Day of month</Label>
+                <Input
+                  id="recurring-day"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recurring-start" className="text-xs">Start date</Label>
+                <Input
+                  id="recurring-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recurring-end" className="text-xs">End date (optional)</Label>
+                <Input
+                  id="recurring-end"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Quarterly and yearly entries repeat from the month of the start date. Day 31 falls on the last day of shorter months.
+            </p>
+          </div>
+
+          {/* Lines */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base">Line Items</Label>
+              <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine('debit')])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Line
+              </Button>
+            </div>
+
+            {lines.map((line) => (
+              <div key={line.tempId} className="rounded-lg border p-3 space-y-2">
+                <div className="grid grid-cols-[1fr_110px_110px_auto] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Account</Label>
+                    <AccountSearch
+                      recentAccounts={recentAccounts}
+                      selectedAccount={line.account}
+                      onSelect={(account) => updateLine(line.tempId, { account })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Side</Label>
+                    <Select
+                      value={line.direction}
+                      onValueChange={(value) => updateLine(line.tempId, { direction: value as 'debit' | 'credit' })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="debit">Debit</SelectItem>
+                        <SelectItem value="credit">Credit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Amount</Label>
+                    <Select
+                      value={line.amountType}
+                      onValueChange={(value) => updateLine(line.tempId, { amountType: value as 'fixed' | 'formula' })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed</SelectItem>
+                        <SelectItem value="formula">Formula</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLines((prev) => prev.filter((l) => l.tempId !== line.tempId))}
+                    disabled={lines.length <= 2}
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {line.amountType === 'fixed' ? (
+                    <Input
+                      inputMode="decimal"
+                      value={line.amount}
+                      onChange={(e) => updateLine(line.tempId, { amount: e.target.value })}
+                      placeholder="0.00"
+                    />
+                  ) : (
+                    <Input
+                      value={line.formula}
+                      onChange={(e) => updateLine(line.tempId, { formula: e.target.value })}
+                      placeholder="e.g. round(balance(0650) * 0.045 / 12, 2)"
+                      className="font-mono"
+                    />
+                  )}
+                  <Input
+                    value={line.description}
+                    onChange={(e) => updateLine(line.tempId, { description: e.target.value })}
+                    placeholder="Line description (optional)"
+                  />
+                </div>
+              </div>
+            ))}
+
+            <p className="text-xs text-muted-foreground">
+              Formulas use + - * / and parentheses with a decimal point. Available: balance(account code) for the
+              absolute balance before the booking date, round(x, digits), min(...), max(...) and the variables
+              period (1 for the first entry), month, quarter, year and days (days in the month).
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="recurring-active"
+              checked={active}
+              onCheckedChange={(checked) => setActive(checked === true)}
+            />
+            <Label htmlFor="recurring-active" className="font-normal">Active</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !name.trim() || !description.trim() || !startDate}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Template'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,6 +2,7 @@ import React from 'react'
 import { formatCurrency } from '@/utils/formatting'
 import { BalanceSheetSectionNested } from '@/types/accounting'
 import { AccountLedgerPopover } from '@/components/accounts/AccountLedgerPopover'
+import { PreviousYearCells, PreviousYearHeaderCells, PREVIOUS_YEAR_COLUMN_COUNT } from '@/components/reports/PreviousYearCells'
 
 interface BalanceSheetSectionProps {
   title: string
@@ -9,6 +10,8 @@ interface BalanceSheetSectionProps {
   total: number
   fiscalYearId: number | null
   showPreviousYear?: boolean
+  previousTotal?: number
+  previousYear?: number
 }
 
 // Helper to convert Roman numerals
@@ -28,7 +31,11 @@ export const BalanceSheetSection = ({
   total,
   fiscalYearId,
   showPreviousYear = false,
+  previousTotal,
+  previousYear,
 }: BalanceSheetSectionProps) => {
+  const columnCount = showPreviousYear ? 2 + PREVIOUS_YEAR_COLUMN_COUNT : 2
+
   // Recursive function to render nested sections
   const renderNestedSection = (
     section: BalanceSheetSectionNested,
@@ -39,8 +46,8 @@ export const BalanceSheetSection = ({
   ): React.ReactNode[] => {
     const rows: React.ReactNode[] = []
 
-    // Skip empty sections (no accounts and no total)
-    if (section.total === 0 && section.accounts.length === 0) {
+    // Skip empty sections (no accounts and no total in either year)
+    if (section.total === 0 && (section.previousTotal ?? 0) === 0 && section.accounts.length === 0) {
       return []
     }
 
@@ -51,7 +58,7 @@ export const BalanceSheetSection = ({
     rows.push(
       <tr key={`${section.sectionKey}-header`} className="border-t border-border">
         <td
-          colSpan={showPreviousYear ? 3 : 2}
+          colSpan={columnCount}
           className={`py-2 pt-3 ${indentClass} ${fontClass}`}
         >
           {prefix && `${prefix}. `}{section.sectionName}
@@ -86,9 +93,7 @@ export const BalanceSheetSection = ({
             {formatCurrency(account.balance)}
           </td>
           {showPreviousYear && (
-            <td className="py-1.5 text-right font-mono text-sm text-muted-foreground">
-              {formatCurrency(0)}
-            </td>
+            <PreviousYearCells current={account.balance} previous={account.previousBalance} className="py-1.5" />
           )}
         </tr>
       )
@@ -103,7 +108,7 @@ export const BalanceSheetSection = ({
       })
 
       // Show section subtotal if it has children
-      if (section.children.length > 0 && section.total !== 0) {
+      if (section.children.length > 0 && (section.total !== 0 || (section.previousTotal ?? 0) !== 0)) {
         rows.push(
           <tr key={`${section.sectionKey}-subtotal`} className="border-t border-border/50">
             <td className={`py-1.5 text-sm font-medium ${indentClass}`}>
@@ -113,9 +118,7 @@ export const BalanceSheetSection = ({
               {formatCurrency(section.total)}
             </td>
             {showPreviousYear && (
-              <td className="py-1.5 text-right font-mono text-sm text-muted-foreground">
-                {formatCurrency(0)}
-              </td>
+              <PreviousYearCells current={section.total} previous={section.previousTotal} className="py-1.5 font-medium" />
             )}
           </tr>
         )
@@ -127,7 +130,7 @@ export const BalanceSheetSection = ({
 
   // Render all top-level sections
   const sectionEntries = Object.values(sections)
-  const hasAccounts = sectionEntries.some((s) => s.totalAccountCount > 0)
+  const hasAccounts = sectionEntries.some((s) => s.totalAccountCount > 0 || (s.previousTotal ?? 0) !== 0)
 
   return (
     <div className="flex flex-col h-full">
@@ -139,18 +142,14 @@ export const BalanceSheetSection = ({
             <th className="text-right py-2 font-semibold text-sm w-32">
               Current Year
             </th>
-            {showPreviousYear && (
-              <th className="text-right py-2 font-semibold text-sm w-32">
-                Previous Year
-              </th>
-            )}
+            {showPreviousYear && <PreviousYearHeaderCells year={previousYear} />}
           </tr>
         </thead>
         <tbody>
           {!hasAccounts ? (
             <tr>
               <td
-                colSpan={showPreviousYear ? 3 : 2}
+                colSpan={columnCount}
                 className="text-center py-6 text-muted-foreground text-sm"
               >
                 No accounts with balances
@@ -165,7 +164,7 @@ export const BalanceSheetSection = ({
               })}
               {/* Spacer row to push footer to bottom */}
               <tr style={{ height: '100%' }}>
-                <td colSpan={showPreviousYear ? 3 : 2}></td>
+                <td colSpan={columnCount}></td>
               </tr>
             </>
           )}
@@ -177,9 +176,7 @@ export const BalanceSheetSection = ({
               {formatCurrency(total)}
             </td>
             {showPreviousYear && (
-              <td className="py-3 text-right font-mono text-lg text-muted-foreground">
-                {formatCurrency(0)}
-              </td>
+              <PreviousYearCells current={total} previous={previousTotal} className="py-3" />
             )}
           </tr>
         </tfoot>
@@ -2,14 +2,19 @@ import React from 'react'
 import { formatCurrency } from '@/utils/formatting'
 import { GuVData } from '@/types/accounting'
 import { AccountLedgerPopover } from '@/components/accounts/AccountLedgerPopover'
+import { PreviousYearCells, PreviousYearHeaderCells, PREVIOUS_YEAR_COLUMN_COUNT } from '@/components/reports/PreviousYearCells'
 
 interface GuVSectionProps {
   guv: GuVData
   fiscalYearId: number | null
   showPreviousYear?: boolean
+  previousYear?: number
 }
 
-export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVSectionProps) => {
+// Amounts are shown unsigned, the change compares the shown amounts
+export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false, previousYear }: GuVSectionProps) => {
+  const columnCount = showPreviousYear ? 2 + PREVIOUS_YEAR_COLUMN_COUNT : 2
+
   return (
     <div className="mt-12">
       <h2 className="text-2xl font-semibold mb-2">
@@ -26,11 +31,7 @@ export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVS
             <th className="text-right py-2 font-semibold text-sm w-32">
               Current Year
             </th>
-            {showPreviousYear && (
-              <th className="text-right py-2 font-semibold text-sm w-32">
-                Previous Year
-              </th>
-            )}
+            {showPreviousYear && <PreviousYearHeaderCells year={previousYear} />}
           </tr>
         </thead>
         <tbody>
@@ -39,7 +40,7 @@ export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVS
               {/* Section Header */}
               <tr className="border-t border-border">
                 <td
-                  colSpan={showPreviousYear ? 3 : 2}
+                  colSpan={columnCount}
                   className="py-3 pt-4 font-semibold text-base"
                 >
                   {section.label}
@@ -50,7 +51,7 @@ export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVS
               {section.accounts.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={showPreviousYear ? 3 : 2}
+                    colSpan={columnCount}
                     className="pl-6 py-2 text-sm text-muted-foreground italic"
                   >
                     No accounts
@@ -86,9 +87,11 @@ export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVS
                       {formatCurrency(Math.abs(account.balance))}
                     </td>
                     {showPreviousYear && (
-                      <td className="py-2 text-right font-mono text-sm text-muted-foreground">
-                        {formatCurrency(0)}
-                      </td>
+                      <PreviousYearCells
+                        current={Math.abs(account.balance)}
+                        previous={Math.abs(account.previousBalance ?? 0)}
+                        className="py-2"
+                      />
                     )}
                   </tr>
                 ))
@@ -105,9 +108,11 @@ export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVS
                   {formatCurrency(Math.abs(section.subtotal))}
                 </td>
                 {showPreviousYear && (
-                  <td className="py-2 text-right font-mono text-sm font-semibold text-muted-foreground">
-                    {formatCurrency(0)}
-                  </td>
+                  <PreviousYearCells
+                    current={Math.abs(section.subtotal)}
+                    previous={Math.abs(section.previousSubtotal ?? 0)}
+                    className="py-2 font-semibold"
+                  />
                 )}
               </tr>
             </React.Fragment>
@@ -124,9 +129,7 @@ export const GuVSection = ({ guv, fiscalYearId, showPreviousYear = false }: GuVS
               {formatCurrency(Math.abs(guv.netIncome))}
             </td>
             {showPreviousYear && (
-              <td className="py-4 text-right font-mono text-lg text-muted-foreground">
-                {formatCurrency(0)}
-              </td>
+              <PreviousYearCells current={guv.netIncome} previous={guv.previousNetIncome} className="py-4" />
             )}
           </tr>
         </tbody>
@@ -0,0 +1,46 @@
+import { formatCurrency } from '@/utils/formatting'
+
+// Columns added to the balance sheet and GuV tables when the previous year is compared
+export const PREVIOUS_YEAR_COLUMN_COUNT = 3
+
+const percentFormat = new Intl.NumberFormat('de-DE', {
+  style: 'percent',
+  maximumFractionDigits: 1,
+  signDisplay: 'exceptZero',
+})
+
+export const PreviousYearHeaderCells = ({ year }: { year?: number }) => (
+  <>
+    <th className="text-right py-2 font-semibold text-sm w-32">
+      {year ? `Vorjahr ${year}` : 'Previous Year'}
+    </th>
+    <th className="text-right py-2 font-semibold text-sm w-28">Change</th>
+    <th className="text-right py-2 font-semibold text-sm w-20">%</th>
+  </>
+)
+
+interface PreviousYearCellsProps {
+  current: number
+  previous?: number
+  className?: string
+}
+
+// Vorjahr, absolute change and change in percent of the previous year
+export const PreviousYearCells = ({ current, previous = 0, className = '' }: PreviousYearCellsProps) => {
+  const change = current - previous
+  const percent = previous !== 0 ? change / Math.abs(previous) : null
+
+  return (
+    <>
+      <td className={`text-right font-mono text-sm text-muted-foreground ${className}`}>
+        {formatCurrency(previous)}
+      </td>
+      <td className={`text-right font-mono text-sm text-muted-foreground ${className}`}>
+        {change > 0 ? '+' : ''}{formatCurrency(change)}
+      </td>
+      <td className={`text-right font-mono text-sm text-muted-foreground ${className}`}>
+        {percent !== null ? percentFormat.format(percent) : '–'}
+      </td>
+    </>
+  )
+}
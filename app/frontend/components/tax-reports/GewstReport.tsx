@@ -0,0 +1,169 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Input } from '@/components/ui/input'
+import { AlertCircle } from 'lucide-react'
+import { formatCurrency } from '@/utils/formatting'
+import type { GewstData } from '@/types/tax-reports'
+import { TaxReportSection } from './TaxReportSection'
+import { useState } from 'react'
+
+interface GewstReportProps {
+  reportData: GewstData
+  editable: boolean
+  onAdjustmentChange: (key: string, value: number) => void
+}
+
+const SECTIONS = [
+  { key: 'hinzurechnungen', title: 'Hinzurechnungen (§ 8 GewStG)' },
+  { key: 'kuerzungen', title: 'Kürzungen (§ 9 GewStG)' },
+  { key: 'verlust_und_vorauszahlungen', title: 'Gewerbeverlust und Vorauszahlungen' },
+] as const
+
+const ResultRow = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="flex justify-between items-center py-2 border-b">
+    <div>
+      <span className="font-medium">{label}</span>
+      {hint && <div className="text-sm text-muted-foreground">{hint}</div>}
+    </div>
+    <span className="font-mono">{value}</span>
+  </div>
+)
+
+// Gewerbesteuer: Gewinn from the KSt, editable Hinzurechnungen and Kürzungen, Hebesatz and Rückstellung
+export function GewstReport({ reportData, editable, onAdjustmentChange }: GewstReportProps) {
+  const { baseData, adjustments, calculated, provisionBooking } = reportData
+  const [hebesatz, setHebesatz] = useState(calculated.hebesatz.toString())
+
+  return (
+    <>
+      {/* Base Data */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Gewinn aus Gewerbebetrieb (§ 7 GewStG)</CardTitle>
+          <CardDescription>Taxable income of the KSt; the KSt Verlustvortrag is replaced by the Gewerbeverlust</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResultRow label="Zu versteuerndes Einkommen (KSt)" value={formatCurrency(baseData.kstTaxableIncome)} />
+          <ResultRow label="+ Verlustvortrag der KSt" value={formatCurrency(baseData.kstLossCarryforward)} />
+          <div className="flex justify-between items-center py-2">
+            <span className="font-semibold">Gewinn aus Gewerbebetrieb</span>
+            <span className="text-xl font-bold">{formatCurrency(baseData.profit)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Adjustments */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Hinzurechnungen und Kürzungen</CardTitle>
+          <CardDescription>
+            {editable
+              ? 'Edit the amounts below and click "Update Adjustments" to recalculate'
+              : 'Amounts applied to calculate the Gewerbeertrag'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {SECTIONS.map(({ key, title }) => (
+            <TaxReportSection
+              key={key}
+              title={title}
+              fields={Object.entries(adjustments)
+                .filter(([, adjustment]) => adjustment.section === key)
+                .map(([fieldKey, adjustment]) => ({
+                  key: fieldKey,
+                  name: adjustment.name,
+                  description: adjustment.description,
+                  value: adjustment.value,
+                  editable: adjustment.editable,
+                }))}
+              showFieldNumbers={false}
+              editable={editable}
+              onFieldChange={onAdjustmentChange}
+            />
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Calculated Values */}
+      <Card className="border-2 border-primary">
+        <CardHeader>
+          <CardTitle>Berechnete Werte (Calculated Values)</CardTitle>
+          <CardDescription>Gewerbeertrag, Steuermessbetrag, Gewerbesteuer and Rückstellung</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!reportData.hebesatzConfigured && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                No Hebesatz is configured for the company, {calculated.hebesatz}% is assumed. Enter the Hebesatz of your
+                municipality and update the report; it is kept for the following years.
+              </AlertDescription>
+            </Alert>
+          )}
+          <div>
+            <ResultRow
+              label="Hinzurechnungen"
+              value={formatCurrency(calculated.hinzurechnungen)}
+              hint={`Finanzierungsanteile ${formatCurrency(calculated.hinzurechnungenFinancingSum)}, davon 25% über dem Freibetrag von ${formatCurrency(calculated.hinzurechnungenFreibetrag)}`}
+            />
+            <ResultRow
+              label="Kürzungen"
+              value={formatCurrency(calculated.kuerzungen)}
+              hint={`davon Grundbesitz ${formatCurrency(calculated.grundbesitzKuerzung)}`}
+            />
+            <ResultRow label="Gewerbeertrag vor Verlustabzug" value={formatCurrency(calculated.incomeBeforeLoss)} />
+            <ResultRow
+              label="Abzug Gewerbeverlust (§ 10a GewStG)"
+              value={formatCurrency(calculated.lossDeduction)}
+              hint={`Verbleibender Gewerbeverlust ${formatCurrency(calculated.remainingLoss)}`}
+            />
+            <ResultRow label="Gewerbeertrag (auf volle 100 € abgerundet)" value={formatCurrency(calculated.tradeIncome)} />
+            <ResultRow
+              label={`Steuermessbetrag (${(calculated.messzahl * 100).toFixed(1)}%)`}
+              value={formatCurrency(calculated.baseAmount)}
+            />
+            <div className="flex justify-between items-center py-2 border-b">
+              <span className="font-medium">Hebesatz der Gemeinde</span>
+              {editable ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step="1"
+                    min="200"
+                    value={hebesatz}
+                    onChange={(e) => setHebesatz(e.target.value)}
+                    onBlur={() => onAdjustmentChange('hebesatz', parseInt(hebesatz, 10) || calculated.hebesatz)}
+                    className="w-24 text-right"
+                  />
+                  <span>%</span>
+                </div>
+              ) : (
+                <span className="font-mono">{calculated.hebesatz}%</span>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-between items-center py-2">
+            <span className="text-lg font-semibold">Gewerbesteuer (Trade Tax)</span>
+            <span className="text-3xl font-bold text-primary">{formatCurrency(calculated.gewstAmount)}</span>
+          </div>
+          <div>
+            <ResultRow label="- Geleistete Vorauszahlungen" value={formatCurrency(calculated.prepayments)} />
+            <div className="flex justify-between items-center py-2">
+              <div>
+                <span className="font-semibold">
+                  {calculated.provision >= 0 ? 'Gewerbesteuer-Rückstellung' : 'Erstattungsanspruch'}
+                </span>
+                {calculated.provision > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    Booking: {provisionBooking.expenseAccountCode} Gewerbesteuer an {provisionBooking.provisionAccountCode} Gewerbesteuerrückstellung
+                  </div>
+                )}
+              </div>
+              <span className="text-xl font-bold">{formatCurrency(Math.abs(calculated.provision))}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -8,6 +8,7 @@ import { useState } from 'react'
 interface TaxFormFieldRowProps {
   field: TaxFormField
   showFieldNumber?: boolean
+  showBase?: boolean
   editable?: boolean
   onValueChange?: (key: string, value: number) => void
 }
@@ -15,10 +16,11 @@ interface TaxFormFieldRowProps {
 export function TaxFormFieldRow({
   field,
   showFieldNumber = true,
+  showBase = false,
   editable = false,
   onValueChange
 }: TaxFormFieldRowProps) {
-  const [localValue, setLocalValue] = useState<string>(field.value.toString())
+  const [localValue, setLocalValue] = useState<string>((field.value ?? 0).toString())
 
   const handleBlur = () => {
     const numValue = parseFloat(localValue) || 0
@@ -37,7 +39,7 @@ export function TaxFormFieldRow({
         <TableCell>
           {field.fieldNumber && (
             <Badge variant="outline" className="font-mono">
-              Kz {field.fieldNumber}
+              Kz {field.fieldNumber}{field.taxFieldNumber ? ` / ${field.taxFieldNumber}` : ''}
             </Badge>
           )}
         </TableCell>
@@ -50,6 +52,11 @@ export function TaxFormFieldRow({
           )}
         </div>
       </TableCell>
+      {showBase && (
+        <TableCell className="text-right">
+          {field.baseValue != null && formatCurrency(field.baseValue)}
+        </TableCell>
+      )}
       <TableCell className="text-right">
         {editable ? (
           <Input
@@ -61,7 +68,7 @@ export function TaxFormFieldRow({
             className="max-w-[150px] ml-auto text-right"
           />
         ) : (
-          <span className="font-medium">{formatCurrency(field.value)}</span>
+          field.value != null && <span className="font-medium">{formatCurrency(field.value)}</span>
         )}
       </TableCell>
     </TableRow>
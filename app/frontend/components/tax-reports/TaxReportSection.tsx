@@ -7,6 +7,7 @@ interface TaxReportSectionProps {
   title: string
   fields: TaxFormField[]
   subtotal?: number
+  baseSubtotal?: number
   showFieldNumbers?: boolean
   editable?: boolean
   onFieldChange?: (key: string, value: number) => void
@@ -16,6 +17,7 @@ export function TaxReportSection({
   title,
   fields,
   subtotal,
+  baseSubtotal,
   showFieldNumbers = true,
   editable = false,
   onFieldChange
@@ -24,6 +26,10 @@ export function TaxReportSection({
     return null
   }
 
+  // UStVA lines report a tax base (Bemessungsgrundlage) next to the tax
+  const showBase = fields.some((field) => field.baseValue != null)
+  const hasValues = fields.some((field) => field.value != null)
+
   return (
     <div className="space-y-2">
       <h3 className="text-lg font-semibold">{title}</h3>
@@ -32,7 +38,8 @@ export function TaxReportSection({
           <TableRow>
             {showFieldNumbers && <TableHead className="w-24">Field No.</TableHead>}
             <TableHead>Field Name</TableHead>
-            <TableHead className="text-right">Amount</TableHead>
+            {showBase && <TableHead className="text-right w-40">Bemessungsgrundlage</TableHead>}
+            <TableHead className="text-right w-40">{showBase ? 'Steuer' : 'Amount'}</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -41,6 +48,7 @@ export function TaxReportSection({
               key={field.key}
               field={field}
               showFieldNumber={showFieldNumbers}
+              showBase={showBase}
               editable={editable && field.editable}
               onValueChange={onFieldChange}
             />
@@ -49,7 +57,8 @@ export function TaxReportSection({
             <TableRow className="font-semibold border-t-2">
               {showFieldNumbers && <TableCell></TableCell>}
               <TableCell>Subtotal</TableCell>
-              <TableCell className="text-right">{formatCurrency(subtotal)}</TableCell>
+              {showBase && <TableCell className="text-right">{formatCurrency(baseSubtotal ?? 0)}</TableCell>}
+              <TableCell className="text-right">{hasValues ? formatCurrency(subtotal) : ''}</TableCell>
             </TableRow>
           )}
         </TableBody>
@@ -0,0 +1,253 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/utils/formatting'
+import type { UstComparisonField, UstData } from '@/types/tax-reports'
+import { TaxReportSection } from './TaxReportSection'
+
+interface UmsatzsteuerReportProps {
+  reportData: UstData
+  editable: boolean
+  onAdjustmentChange: (key: string, value: number) => void
+}
+
+const hasDifference = (value: number | null | undefined) => value != null && Math.abs(value) >= 0.01
+
+const ComparisonRow = ({ field }: { field: UstComparisonField }) => {
+  const showBase = field.annualBaseValue != null || field.filedBaseValue != null
+  const showTax = field.annualValue != null || field.filedValue != null
+  const differs = hasDifference(field.difference) || hasDifference(field.baseDifference)
+
+  return (
+    <TableRow className={differs ? 'bg-destructive/10' : undefined}>
+      <TableCell className="font-mono">
+        {field.fieldNumber}
+        {field.taxFieldNumber && ` / ${field.taxFieldNumber}`}
+      </TableCell>
+      <TableCell>
+        <div className="font-medium">{field.name}</div>
+        {field.description && <div className="text-sm text-muted-foreground">{field.description}</div>}
+      </TableCell>
+      {[
+        [field.annualBaseValue, field.annualValue],
+        [field.filedBaseValue, field.filedValue],
+        [field.baseDifference, field.difference],
+      ].map(([base, tax], index) => (
+        <TableCell key={index} className={`text-right font-mono ${index === 2 && differs ? 'text-destructive font-semibold' : ''}`}>
+          {showBase && <div>{formatCurrency(base ?? 0)}</div>}
+          {showTax && <div className={showBase ? 'text-sm text-muted-foreground' : undefined}>{formatCurrency(tax ?? 0)}</div>}
+        </TableCell>
+      ))}
+    </TableRow>
+  )
+}
+
+// Umsatzsteuererklärung: annual figures line by line against the saved UStVAs, late bookings per period
+export function UmsatzsteuerReport({ reportData, editable, onAdjustmentChange }: UmsatzsteuerReportProps) {
+  const { sections, adjustments, totals, periods, filingPeriodType } = reportData
+  const differingPeriods = periods.filter((period) => period.status === 'missing' || hasDifference(period.difference))
+
+  return (
+    <>
+      {differingPeriods.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The annual return differs from the UStVAs of {differingPeriods.map((period) => period.label).join(', ')}.
+            Explain or correct the differences below before filing.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Line-by-line comparison */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Jahreswerte und Voranmeldungen</CardTitle>
+          <CardDescription>
+            Annual figures from all bookings of the year next to the sum of the saved {filingPeriodType} UStVAs.
+            Tax bases are shown above the tax.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {Object.entries(sections).map(([key, section]) => section.fields.length > 0 && (
+            <div key={key} className="space-y-2">
+              <h3 className="text-lg font-semibold">{section.label}</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Kz</TableHead>
+                    <TableHead>Field Name</TableHead>
+                    <TableHead className="text-right w-36">Jahreserklärung</TableHead>
+                    <TableHead className="text-right w-36">Summe UStVA</TableHead>
+                    <TableHead className="text-right w-36">Differenz</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {section.fields.map((field) => (
+                    <ComparisonRow key={field.key} field={field} />
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Periods */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Voranmeldungszeiträume</CardTitle>
+          <CardDescription>
+            Each saved UStVA compared with the same period calculated from today's bookings
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead className="w-28">Status</TableHead>
+                <TableHead className="text-right w-36">UStVA</TableHead>
+                <TableHead className="text-right w-36">Current</TableHead>
+                <TableHead className="text-right w-36">Differenz</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((period) => (
+                <TableRow key={period.startDate}>
+                  <TableCell>
+                    {period.taxReportId ? (
+                      <a href={`/tax_reports/${period.taxReportId}`} className="underline">{period.label}</a>
+                    ) : (
+                      period.label
+                    )}
+                    {period.changedFields.length > 0 && (
+                      <div className="text-sm text-muted-foreground">
+                        Changed: {period.changedFields.map((field) => `Kz ${field.fieldNumber}`).join(', ')}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={period.status === 'missing' ? 'destructive' : period.status === 'draft' ? 'secondary' : 'default'}>
+                      {period.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {period.filedNetVatLiability != null ? formatCurrency(period.filedNetVatLiability) : '-'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(period.currentNetVatLiability)}</TableCell>
+                  <TableCell className={`text-right font-mono ${hasDifference(period.difference) ? 'text-destructive font-semibold' : ''}`}>
+                    {formatCurrency(period.difference)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Late bookings */}
+      {periods.some((period) => period.lateEntries.length > 0) && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              Late bookings
+            </CardTitle>
+            <CardDescription>
+              VAT-relevant bookings posted after the UStVA of their period was saved. They are in the annual return
+              but not in the filed UStVA.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32">Period</TableHead>
+                  <TableHead className="w-28">Date</TableHead>
+                  <TableHead className="w-32">Voucher</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-28">Posted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.flatMap((period) =>
+                  period.lateEntries.map((entry) => (
+                    <TableRow key={entry.journalEntryId}>
+                      <TableCell>{period.label}</TableCell>
+                      <TableCell>{formatDate(entry.bookingDate)}</TableCell>
+                      <TableCell>
+                        <a href={`/journal_entries#journal-entry-${entry.journalEntryId}`} className="underline">
+                          {entry.voucherNumber || `#${entry.journalEntryId}`}
+                        </a>
+                      </TableCell>
+                      <TableCell>{entry.description}</TableCell>
+                      <TableCell>{formatDate(entry.postedAt)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sondervorauszahlung */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sondervorauszahlung</CardTitle>
+          <CardDescription>
+            {editable
+              ? 'Enter the Sondervorauszahlung and click "Update Adjustments" to recalculate'
+              : 'Sondervorauszahlung credited in the annual return'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TaxReportSection
+            title="Dauerfristverlängerung"
+            fields={Object.entries(adjustments).map(([key, adjustment]) => ({
+              key,
+              name: adjustment.name,
+              description: adjustment.description,
+              value: adjustment.value,
+              editable: adjustment.editable,
+            }))}
+            showFieldNumbers={false}
+            editable={editable}
+            onFieldChange={onAdjustmentChange}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Totals */}
+      <Card className="border-2 border-primary">
+        <CardHeader>
+          <CardTitle>Berechnete Werte (Calculated Values)</CardTitle>
+          <CardDescription>Umsatzsteuer of the year less the Vorauszahlungssoll</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex justify-between items-center py-2 border-b">
+            <span className="font-medium">Umsatzsteuer-Zahllast des Jahres</span>
+            <span className="font-mono">{formatCurrency(totals.annualTax)}</span>
+          </div>
+          <div className="flex justify-between items-center py-2 border-b">
+            <span className="font-medium">- Summe der Voranmeldungen</span>
+            <span className="font-mono">{formatCurrency(totals.filedTax)}</span>
+          </div>
+          <div className="flex justify-between items-center py-2 border-b">
+            <span className="font-medium">- Sondervorauszahlung</span>
+            <span className="font-mono">{formatCurrency(totals.sondervorauszahlung)}</span>
+          </div>
+          <div className="flex justify-between items-center py-2">
+            <span className="text-lg font-semibold">
+              {totals.remainingPayment >= 0 ? 'Abschlusszahlung' : 'Erstattung'}
+            </span>
+            <span className="text-3xl font-bold text-primary">{formatCurrency(Math.abs(totals.remainingPayment))}</span>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,129 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/utils/formatting'
+import type { ZmData } from '@/types/tax-reports'
+
+interface ZmReportProps {
+  reportData: ZmData
+}
+
+// Zusammenfassende Meldung: sums per customer USt-IdNr. and the bookings that cannot be reported
+export function ZmReport({ reportData }: ZmReportProps) {
+  const { rows, totals, flaggedEntries } = reportData
+
+  return (
+    <>
+      {flaggedEntries.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              Bookings without valid USt-IdNr. ({flaggedEntries.length})
+            </CardTitle>
+            <CardDescription>
+              These bookings are not in the report. Enter the customer USt-IdNr. on the journal entry and generate the report again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-28">Date</TableHead>
+                  <TableHead className="w-32">Voucher</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-16">Art</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead className="text-right w-36">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flaggedEntries.map((entry) => (
+                  <TableRow key={`${entry.journalEntryId}-${entry.supplyType}`}>
+                    <TableCell>{formatDate(entry.bookingDate)}</TableCell>
+                    <TableCell>
+                      <a href={`/journal_entries#journal-entry-${entry.journalEntryId}`} className="underline">
+                        {entry.voucherNumber || `#${entry.journalEntryId}`}
+                      </a>
+                    </TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell>{entry.supplyType}</TableCell>
+                    <TableCell className="text-destructive">{entry.reason}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(entry.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Meldungen je USt-IdNr.</CardTitle>
+          <CardDescription>
+            L = innergemeinschaftliche Lieferung (Kz 41), S = sonstige Leistung (Kz 21). The BZSt expects full euros.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <Alert>
+              <AlertDescription>No intra-EU supplies or services with a customer USt-IdNr. in this period.</AlertDescription>
+            </Alert>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Land</TableHead>
+                  <TableHead>USt-IdNr.</TableHead>
+                  <TableHead>Art der Leistung</TableHead>
+                  <TableHead className="text-right w-24">Bookings</TableHead>
+                  <TableHead className="text-right w-40">Betrag</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={`${row.vatId}-${row.supplyType}`}>
+                    <TableCell>{row.countryCode}</TableCell>
+                    <TableCell className="font-mono">{row.vatNumber}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="mr-2">{row.supplyType}</Badge>
+                      {row.supplyTypeLabel}
+                    </TableCell>
+                    <TableCell className="text-right">{row.entriesCount}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(row.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-primary">
+        <CardHeader>
+          <CardTitle>Summe</CardTitle>
+          <CardDescription>Must match Kz 41 and Kz 21 of the UStVA for the same period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            <div className="flex justify-between items-center py-2 border-b">
+              <span className="font-medium">Innergemeinschaftliche Lieferungen (L)</span>
+              <span className="font-mono">{formatCurrency(totals.supplies)}</span>
+            </div>
+            <div className="flex justify-between items-center py-2 border-b">
+              <span className="font-medium">Sonstige Leistungen (S)</span>
+              <span className="font-mono">{formatCurrency(totals.services)}</span>
+            </div>
+            <div className="flex justify-between items-center py-2">
+              <span className="text-lg font-semibold">Total</span>
+              <span className="text-3xl font-bold">{formatCurrency(totals.total)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, AlertCircle } from 'lucide-react'
+import type { VoucherNumberRange } from '@/types/accounting'
+
+interface VoucherNumberRangeModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  range: VoucherNumberRange | null
+  onSaved: (range: VoucherNumberRange) => void
+}
+
+// Mirrors VoucherNumberRange#format_number for the live example
+const formatExample = (pattern: string, counter: number): string => {
+  const number = pattern.replace(/\{YYYY\}/g, new Date().getFullYear().toString())
+  if (!number.includes('#')) return `${number}${counter}`
+  return number.replace(/#+/, (block) => counter.toString().padStart(block.length, '0'))
+}
+
+export function VoucherNumberRangeModal({ open, onOpenChange, range, onSaved }: VoucherNumberRangeModalProps) {
+  const [name, setName] = useState('')
+  const [pattern, setPattern] = useState('')
+  const [defaultFor, setDefaultFor] = useState<'none' | 'manual' | 'bank'>('none')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setName(range?.name || '')
+      setPattern(range?.pattern || '')
+      setDefaultFor(range?.defaultFor || 'none')
+      setError(null)
+    }
+  }, [open, range])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    const isUpdate = range?.id != null
+
+    try {
+      const response = await fetch(isUpdate ? `/voucher_number_ranges/${range.id}` : '/voucher_number_ranges', {
+        method: isUpdate ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({
+          voucher_number_range: {
+            name,
+            pattern,
+            default_for: defaultFor === 'none' ? null : defaultFor,
+          },
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        onSaved(data.voucherNumberRange)
+        onOpenChange(false)
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to save number range')
+      }
+    } catch (err) {
+      setError('An error occurred while saving the number range')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{range?.id ? 'Edit Number Range' : 'New Number Range'}</DialogTitle>
+          <DialogDescription>
+            Entries get the next number of their range when they are posted
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="range-name">Name</Label>
+            <Input
+              id="range-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Incoming invoices"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="range-pattern">Pattern</Label>
+            <Input
+              id="range-pattern"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder="e.g. ER-{YYYY}-#####"
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              {'{YYYY}'} is replaced by the fiscal year, a block of # by the zero-padded counter.
+              Counters start at 1 in every fiscal year.
+              {pattern && <> Example: <span className="font-mono">{formatExample(pattern, 1)}</span></>}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default for</Label>
+            <Select value={defaultFor} onValueChange={(value) => setDefaultFor(value as 'none' | 'manual' | 'bank')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Only when chosen on the entry</SelectItem>
+                <SelectItem value="manual">Manual journal entries</SelectItem>
+                <SelectItem value="bank">Bank bookings</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !name.trim() || !pattern.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Range'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
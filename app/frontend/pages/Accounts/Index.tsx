@@ -4,7 +4,10 @@ import { AppLayout } from '@/components/AppLayout'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { AccountFormModal } from '@/components/accounts/AccountFormModal'
+import type { AccountFormOptions, EditableAccount } from '@/types/accounting'
+import { Plus, Search } from 'lucide-react'
 
 interface Account {
   id: number
@@ -16,10 +19,12 @@ interface Account {
 interface AccountsIndexProps {
   company: { id: number; name: string }
   accounts: Account[]
+  formOptions: AccountFormOptions
 }
 
-export default function AccountsIndex({ company, accounts }: AccountsIndexProps) {
+export default function AccountsIndex({ company, accounts, formOptions }: AccountsIndexProps) {
   const [searchText, setSearchText] = useState('')
+  const [formOpen, setFormOpen] = useState(false)
 
   // Filter accounts by search text
   const filteredAccounts = useMemo(() => {
@@ -38,6 +43,10 @@ export default function AccountsIndex({ company, accounts }: AccountsIndexProps)
     router.visit(`/accounts/${accountId}`)
   }
 
+  const handleAccountSaved = (account: EditableAccount) => {
+    if (account.id) router.visit(`/accounts/${account.id}`)
+  }
+
   const getAccountTypeBadge = (accountType: string) => {
     const variants: Record<string, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
       asset: { label: 'Asset', variant: 'default' },
@@ -57,11 +66,17 @@ export default function AccountsIndex({ company, accounts }: AccountsIndexProps)
 
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold">Chart of Accounts</h1>
-          <p className="text-muted-foreground">
-            View all accounts for {company.name}
-          </p>
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Chart of Accounts</h1>
+            <p className="text-muted-foreground">
+              View all accounts for {company.name}
+            </p>
+          </div>
+          <Button onClick={() => setFormOpen(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Account
+          </Button>
         </div>
 
         {/* Search */}
@@ -122,6 +137,14 @@ export default function AccountsIndex({ company, accounts }: AccountsIndexProps)
           </CardContent>
         </Card>
       </div>
+
+      <AccountFormModal
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        account={null}
+        options={formOptions}
+        onSaved={handleAccountSaved}
+      />
     </AppLayout>
   )
 }
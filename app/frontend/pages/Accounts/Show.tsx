@@ -2,10 +2,13 @@ import { Head, router } from '@inertiajs/react'
 import { useState, useMemo, useEffect } from 'react'
 import { AppLayout } from '@/components/AppLayout'
 import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { PenLine } from 'lucide-react'
 import { ListFilter, FilterState } from '@/components/ListFilter'
 import { JournalEntryModal } from '@/components/JournalEntryModal'
 import { AccountLedgerTable } from '@/components/accounts/AccountLedgerTable'
-import { AccountLedgerData, FiscalYear } from '@/types/accounting'
+import { AccountFormModal } from '@/components/accounts/AccountFormModal'
+import { AccountFormOptions, AccountLedgerData, EditableAccount, FiscalYear } from '@/types/accounting'
 import type { JournalEntry } from '@/types/journal-entries'
 
 interface Account {
@@ -20,6 +23,8 @@ interface AccountShowProps {
   fiscalYears: FiscalYear[]
   selectedFiscalYearId: number | null
   account: Account
+  editableAccount: EditableAccount
+  formOptions: AccountFormOptions
   ledgerData: AccountLedgerData
 }
 
@@ -28,6 +33,8 @@ export default function AccountShow({
   fiscalYears,
   selectedFiscalYearId,
   account,
+  editableAccount,
+  formOptions,
   ledgerData,
 }: AccountShowProps) {
   const [filterState, setFilterState] = useState<FilterState>({
@@ -39,6 +46,7 @@ export default function AccountShow({
 
   const [modalOpen, setModalOpen] = useState(false)
   const [selectedEntryId, setSelectedEntryId] = useState<number | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
 
   // Sync filter state with prop changes (e.g., when user navigates back)
   useEffect(() => {
@@ -71,8 +79,10 @@ export default function AccountShow({
           const description = (li.description || group.description || '').toLowerCase()
           const accountCode = li.accountCode.toLowerCase()
           const accountName = li.accountName.toLowerCase()
+          const voucherNumber = (group.voucherNumber || '').toLowerCase()
           return (
             description.includes(searchLower) ||
+            voucherNumber.includes(searchLower) ||
             accountCode.includes(searchLower) ||
             accountName.includes(searchLower)
           )
@@ -105,11 +115,16 @@ export default function AccountShow({
       bookingDate: group.bookingDate,
       description: group.description,
       postedAt: group.postedAt,
+      voucherNumber: group.voucherNumber,
+      voucherNumberRangeId: group.voucherNumberRangeId,
+      counterpartyVatId: group.counterpartyVatId,
       fiscalYearId: ledgerData.fiscalYear?.id || 0,
       fiscalYearYear: ledgerData.fiscalYear?.year || 0,
       fiscalYearClosed: group.fiscalYearClosed,
       entryType: 'normal',
       sequence: null,
+      reversalOf: group.reversalOf,
+      reversedBy: group.reversedBy,
       lineItems: group.lineItems.map((li) => ({
         id: li.id,
         accountCode: li.accountCode,
@@ -118,6 +133,8 @@ export default function AccountShow({
         direction: li.direction,
         bankTransactionId: null,
         description: li.description,
+        taxKeyCode: li.taxKeyCode,
+        accountRole: li.accountRole,
       })),
     }
   }, [selectedEntryId, ledgerData])
@@ -128,11 +145,17 @@ export default function AccountShow({
 
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold">
-            {account.code} - {account.name}
-          </h1>
-          <p className="text-muted-foreground">Account Type: {account.accountType}</p>
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">
+              {account.code} - {account.name}
+            </h1>
+            <p className="text-muted-foreground">Account Type: {account.accountType}</p>
+          </div>
+          <Button variant="outline" onClick={() => setFormOpen(true)} className="gap-2">
+            <PenLine className="h-4 w-4" />
+            Edit Account
+          </Button>
         </div>
 
         {/* Filter */}
@@ -142,7 +165,7 @@ export default function AccountShow({
             showTextSearch: true,
             showSortOrder: false,
             showStatusFilter: false,
-            searchPlaceholder: 'Search descriptions, accounts...',
+            searchPlaceholder: 'Search descriptions, accounts, voucher numbers...',
           }}
           fiscalYears={fiscalYears.map((fy) => ({
             id: fy.id,
@@ -175,6 +198,14 @@ export default function AccountShow({
         fiscalYears={fiscalYears}
         onSuccess={handleModalSuccess}
       />
+
+      <AccountFormModal
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        account={editableAccount}
+        options={formOptions}
+        onSaved={() => router.reload()}
+      />
     </AppLayout>
   )
 }
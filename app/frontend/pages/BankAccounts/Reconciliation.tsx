@@ -0,0 +1,457 @@
+import { Fragment, useState } from 'react'
+import { Head, router } from '@inertiajs/react'
+import { AppLayout } from '@/components/AppLayout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Scale,
+  Trash2,
+} from 'lucide-react'
+import { JournalEntryPopover } from '@/components/bank-transactions/JournalEntryPopover'
+import { formatDate, formatAmount } from '@/utils/formatting'
+import type { BankReconciliationRow } from '@/types/accounting'
+
+interface BankAccount {
+  id: number
+  bankName: string | null
+  iban: string | null
+  currency: string
+  ledgerAccount: {
+    id: number
+    code: string
+    name: string
+  } | null
+}
+
+interface ReconciliationProps {
+  company: {
+    id: number
+    name: string
+  }
+  bankAccount: BankAccount
+  rows: BankReconciliationRow[]
+}
+
+const SOURCE_LABELS: Record<BankReconciliationRow['source'], string> = {
+  manual: 'Manual',
+  camt: 'camt',
+  mt940: 'MT940',
+}
+
+export default function BankAccountReconciliation({ company, bankAccount, rows }: ReconciliationProps) {
+  const [balanceDate, setBalanceDate] = useState('')
+  const [balance, setBalance] = useState('')
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const baseUrl = `/bank_accounts/${bankAccount.id}/statement_balances`
+  const csrfToken = () => document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || ''
+
+  const handleSaveBalance = async () => {
+    setIsSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': csrfToken(),
+        },
+        body: JSON.stringify({
+          statement_balance: {
+            balance_date: balanceDate,
+            balance: parseFloat(balance.replace(',', '.')),
+          },
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setBalanceDate('')
+        setBalance('')
+        router.reload()
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to save the statement balance')
+      }
+    } catch (err) {
+      setError('An error occurred while saving the statement balance')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReconcile = async (row: BankReconciliationRow) => {
+    setBusyId(row.id)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const response = await fetch(`${baseUrl}/${row.id}/reconcile`, {
+        method: 'POST',
+        headers: {
+          'X-CSRF-Token': csrfToken(),
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setNotice(`${data.reconciledCount} transaction${data.reconciledCount === 1 ? '' : 's'} marked as reconciled`)
+        router.reload()
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to reconcile')
+      }
+    } catch (err) {
+      setError('An error occurred while reconciling')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (row: BankReconciliationRow) => {
+    if (!confirm(`Delete the statement balance of ${formatDate(row.balanceDate)}?`)) return
+
+    setBusyId(row.id)
+
+    try {
+      const response = await fetch(`${baseUrl}/${row.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': csrfToken(),
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        router.reload()
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to delete the statement balance')
+      }
+    } catch (err) {
+      setError('An error occurred while deleting the statement balance')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderDetails = (row: BankReconciliationRow) => {
+    const nothingToShow = row.pendingTransactions.length === 0 &&
+      row.mismatchedTransactions.length === 0 &&
+      row.unlinkedLineItems.length === 0
+
+    if (nothingToShow) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {row.matched
+            ? 'All bank transactions up to this date are booked consistently.'
+            : 'No unbooked or mismatched transactions found. Check the opening balance of the fiscal year and the imported transactions.'}
+        </p>
+      )
+    }
+
+    return (
+      <div className="space-y-4 text-sm">
+        {row.pendingTransactions.length > 0 && (
+          <div>
+            <p className="font-medium mb-1">Not booked yet ({row.pendingTransactions.length})</p>
+            {row.pendingTransactions.map(tx => (
+              <div key={tx.id} className="flex justify-between gap-4 py-0.5">
+                <span className="truncate">
+                  <span className="font-mono text-muted-foreground mr-2">{formatDate(tx.bookingDate)}</span>
+                  {tx.counterpartyName || tx.remittanceInformation || '-'}
+                </span>
+                <span className={tx.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                  {formatAmount(tx.amount, tx.currency)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {row.mismatchedTransactions.length > 0 && (
+          <div>
+            <p className="font-medium mb-1">Booked differently ({row.mismatchedTransactions.length})</p>
+            {row.mismatchedTransactions.map(tx => (
+              <div key={tx.id} className="flex justify-between items-center gap-4 py-0.5">
+                <div className="min-w-0">
+                  <div className="truncate">
+                    <span className="font-mono text-muted-foreground mr-2">{formatDate(tx.bookingDate)}</span>
+                    {tx.counterpartyName || tx.remittanceInformation || '-'}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{tx.reason}</div>
+                </div>
+                <div className="flex items-center gap-2 whitespace-nowrap">
+                  <span className={tx.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {formatAmount(tx.amount, tx.currency)}
+                  </span>
+                  {tx.journalEntryId && (
+                    <JournalEntryPopover journalEntryId={tx.journalEntryId}>
+                      <Button variant="ghost" size="sm" className="text-xs h-7 px-2">
+                        View Journal
+                      </Button>
+                    </JournalEntryPopover>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {row.unlinkedLineItems.length > 0 && (
+          <div>
+            <p className="font-medium mb-1">Ledger bookings without bank transaction ({row.unlinkedLineItems.length})</p>
+            {row.unlinkedLineItems.map(item => (
+              <div key={item.id} className="flex justify-between items-center gap-4 py-0.5">
+                <span className="truncate">
+                  <span className="font-mono text-muted-foreground mr-2">{formatDate(item.bookingDate)}</span>
+                  {item.description}
+                </span>
+                <div className="flex items-center gap-2 whitespace-nowrap">
+                  <span className={item.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {formatAmount(item.amount, bankAccount.currency)}
+                  </span>
+                  <JournalEntryPopover journalEntryId={item.journalEntryId}>
+                    <Button variant="ghost" size="sm" className="text-xs h-7 px-2">
+                      View Journal
+                    </Button>
+                  </JournalEntryPopover>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <AppLayout company={company} currentPage="bank-accounts">
+      <Head title={`Reconciliation - ${bankAccount.bankName || 'Bank Account'} - ${company.name}`} />
+
+      {/* Page Header */}
+      <div className="mb-8">
+        <Button
+          variant="ghost"
+          className="mb-4 -ml-2 gap-2"
+          onClick={() => router.visit(`/bank_accounts/${bankAccount.id}`)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to {bankAccount.bankName || 'Bank Account'}
+        </Button>
+
+        <div className="flex items-center gap-4">
+          <div className="rounded-full bg-primary/10 p-3">
+            <Scale className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-semibold tracking-tight">Statement Reconciliation</h2>
+            <p className="text-sm text-muted-foreground">
+              {bankAccount.ledgerAccount
+                ? `Ledger account ${bankAccount.ledgerAccount.code} - ${bankAccount.ledgerAccount.name} compared with the bank's closing balances`
+                : 'This bank account has no linked ledger account'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="mb-6">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Record Closing Balance</CardTitle>
+          <CardDescription>
+            Enter the balance from a bank statement. camt and MT940 imports record closing balances automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="balance-date">Statement date</Label>
+              <Input
+                id="balance-date"
+                type="date"
+                value={balanceDate}
+                onChange={(e) => setBalanceDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="balance-amount">Closing balance ({bankAccount.currency})</Label>
+              <Input
+                id="balance-amount"
+                inputMode="decimal"
+                value={balance}
+                onChange={(e) => setBalance(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <Button onClick={handleSaveBalance} disabled={isSaving || !balanceDate || !balance.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Balance'
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement Balances</CardTitle>
+          <CardDescription>
+            Booked transactions up to a statement date can be marked as reconciled once ledger and bank balance match
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="rounded-full bg-muted p-4 mb-4">
+                <Scale className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-muted-foreground">
+                No statement balances yet. Record one above or import a camt/MT940 statement.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead className="w-[110px]">Date</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Bank Balance</TableHead>
+                  <TableHead className="text-right">Ledger Balance</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[160px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <Fragment key={row.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-1"
+                          onClick={() => setExpandedId(expandedId === row.id ? null : row.id)}
+                          title="Show details"
+                        >
+                          {expandedId === row.id ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{formatDate(row.balanceDate)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{SOURCE_LABELS[row.source]}</Badge>
+                        {row.statementReference && (
+                          <span className="ml-2 text-xs text-muted-foreground font-mono">{row.statementReference}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(row.bankBalance, bankAccount.currency)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatAmount(row.ledgerBalance, bankAccount.currency)}
+                      </TableCell>
+                      <TableCell className={`text-right font-mono ${row.matched ? '' : 'text-red-600 font-semibold'}`}>
+                        {formatAmount(row.difference, bankAccount.currency)}
+                      </TableCell>
+                      <TableCell>
+                        {row.matched ? (
+                          <Badge variant="success">Matched</Badge>
+                        ) : (
+                          <Badge variant="destructive">Difference</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleReconcile(row)}
+                            disabled={!row.matched || row.reconcilableCount === 0 || busyId === row.id}
+                            title={row.matched
+                              ? `Mark ${row.reconcilableCount} booked transactions as reconciled`
+                              : 'Balances must match before reconciling'}
+                          >
+                            {busyId === row.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              `Reconcile (${row.reconcilableCount})`
+                            )}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(row)}
+                            disabled={busyId === row.id}
+                            title="Delete statement balance"
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === row.id && (
+                      <TableRow>
+                        <TableCell></TableCell>
+                        <TableCell colSpan={7} className="bg-muted/30">
+                          {renderDetails(row)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </AppLayout>
+  )
+}
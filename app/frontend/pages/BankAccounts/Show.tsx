@@ -4,6 +4,7 @@ import { AppLayout } from '@/components/AppLayout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
 import {
   Table,
   TableBody,
@@ -13,6 +14,14 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   ArrowLeft,
   Upload,
@@ -24,14 +33,23 @@ import {
   AlertCircle,
   Loader2,
   PenLine,
-  Trash2
+  Trash2,
+  FileText,
+  ClipboardPaste,
+  Columns3,
+  Wand2,
+  Layers,
+  Scale
 } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { BookingModal } from '@/components/BookingModal'
 import { formatDate, formatAmount } from '@/utils/formatting'
 import { ListFilter, FilterState } from '@/components/ListFilter'
 import { JournalEntryPopover } from '@/components/bank-transactions/JournalEntryPopover'
-import type { BankTransaction } from '@/types/accounting'
+import { ColumnMapper } from '@/components/bank-transactions/ColumnMapper'
+import { ImportPreviewTable, defaultSkippedIndexes } from '@/components/bank-transactions/ImportPreviewTable'
+import { BookingRuleModal } from '@/components/bank-transactions/BookingRuleModal'
+import type { BankTransaction, BankImportProfile, ImportPreviewTransaction, BookingRule, TaxKey } from '@/types/accounting'
 
 
 
@@ -49,15 +67,19 @@ interface FiscalYear {
   startDate: string
   endDate: string
   closed: boolean
+  lockedUntil: string | null
 }
 
-interface PreviewTransaction {
-  booking_date: string
-  value_date: string | null
-  amount: number
-  remittance_information: string | null
-  counterparty_name: string | null
-  counterparty_iban: string | null
+interface CamtStatement {
+  statement_id: string | null
+  iban: string | null
+  currency: string | null
+  from_date: string | null
+  to_date: string | null
+  opening_balance: number | null
+  opening_date: string | null
+  closing_balance: number | null
+  closing_date: string | null
 }
 
 interface BankAccount {
@@ -82,28 +104,49 @@ interface BankAccountShowProps {
   bankAccount: BankAccount
   transactions: BankTransaction[]
   recentAccounts: Account[]
+  taxKeys: TaxKey[]
   fiscalYear: FiscalYear | null
   fiscalYears: FiscalYear[]
   selectedFiscalYearId: number | null
+  importProfiles: BankImportProfile[]
 }
 
-type ImportStep = 'input' | 'preview' | 'success'
+type ImportStep = 'input' | 'mapping' | 'preview' | 'camt-preview' | 'success'
+type ImportSource = 'csv' | 'camt'
 
-export default function BankAccountShow({ company, bankAccount, transactions, recentAccounts, fiscalYear, fiscalYears, selectedFiscalYearId }: BankAccountShowProps) {
+export default function BankAccountShow({ company, bankAccount, transactions, recentAccounts, taxKeys, fiscalYear, fiscalYears, selectedFiscalYearId, importProfiles: initialImportProfiles }: BankAccountShowProps) {
   const [showImportModal, setShowImportModal] = useState(false)
   const [importStep, setImportStep] = useState<ImportStep>('input')
+  const [importSource, setImportSource] = useState<ImportSource>('csv')
   const [csvData, setCsvData] = useState('')
-  const [previewData, setPreviewData] = useState<PreviewTransaction[]>([])
+  const [camtData, setCamtData] = useState('')
+  const [camtFileName, setCamtFileName] = useState<string | null>(null)
+  const [importProfiles, setImportProfiles] = useState<BankImportProfile[]>(initialImportProfiles)
+  const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null)
+  const [editingProfile, setEditingProfile] = useState<BankImportProfile | null>(null)
+  const [previewData, setPreviewData] = useState<ImportPreviewTransaction[]>([])
+  const [camtStatements, setCamtStatements] = useState<CamtStatement[]>([])
+  const [skippedIndexes, setSkippedIndexes] = useState<Set<number>>(new Set())
+  const [duplicateCount, setDuplicateCount] = useState(0)
+  const [probableDuplicateCount, setProbableDuplicateCount] = useState(0)
   const [totalCount, setTotalCount] = useState(0)
   const [importedCount, setImportedCount] = useState(0)
+  const [skippedCount, setSkippedCount] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
 
   // Booking modal state
   const [bookingModalOpen, setBookingModalOpen] = useState(false)
-  const [selectedTransaction, setSelectedTransaction] = useState<BankTransaction | null>(null)
+  const [bookingTransactions, setBookingTransactions] = useState<BankTransaction[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
   const [deletingId, setDeletingId] = useState<number | null>(null)
 
+  // Booking rules state
+  const [isApplyingRules, setIsApplyingRules] = useState(false)
+  const [rulesResult, setRulesResult] = useState<{ bookedCount: number, unmatchedCount: number, errors: string[] } | null>(null)
+  const [ruleModalOpen, setRuleModalOpen] = useState(false)
+  const [proposedRule, setProposedRule] = useState<BookingRule | null>(null)
+
   // Filter state - initialize with selected fiscal year from user preference
   const [filterState, setFilterState] = useState<FilterState>({
     fiscalYearId: selectedFiscalYearId,
@@ -140,7 +183,8 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
       result = result.filter(tx => {
         const remittanceInfo = (tx.remittanceInformation || '').toLowerCase()
         const counterpartyName = (tx.counterpartyName || '').toLowerCase()
-        return remittanceInfo.includes(searchLower) || counterpartyName.includes(searchLower)
+        const voucherNumber = (tx.voucherNumber || '').toLowerCase()
+        return remittanceInfo.includes(searchLower) || counterpartyName.includes(searchLower) || voucherNumber.includes(searchLower)
       })
     }
 
@@ -186,13 +230,16 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
           'Content-Type': 'application/json',
           'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
         },
-        body: JSON.stringify({ csv_data: csvData }),
+        body: JSON.stringify({ csv_data: csvData, profile_id: selectedProfileId }),
       })
 
       const data = await response.json()
 
       if (data.success) {
         setPreviewData(data.preview)
+        setSkippedIndexes(defaultSkippedIndexes(data.preview))
+        setDuplicateCount(data.duplicateCount)
+        setProbableDuplicateCount(data.probableDuplicateCount)
         setTotalCount(data.totalCount)
         setImportStep('preview')
       } else {
@@ -216,13 +263,104 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
           'Content-Type': 'application/json',
           'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
         },
-        body: JSON.stringify({ csv_data: csvData }),
+        body: JSON.stringify({
+          csv_data: csvData,
+          profile_id: selectedProfileId,
+          skip_indexes: Array.from(skippedIndexes),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setImportedCount(data.importedCount)
+        setSkippedCount(data.skippedCount || 0)
+        setImportStep('success')
+      } else {
+        setError(data.error || 'Failed to import transactions')
+      }
+    } catch (err) {
+      setError('An error occurred while importing')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStatementFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setError(null)
+    setCsvData(await file.text())
+  }
+
+  const handleCamtFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setError(null)
+    setCamtFileName(file.name)
+    setCamtData(await file.text())
+  }
+
+  const handleCamtPreview = async () => {
+    if (!camtData) {
+      setError('Please select a camt.052 or camt.053 XML file')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/bank_accounts/${bankAccount.id}/import_camt_preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({ camt_data: camtData }),
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setPreviewData(data.preview)
+        setSkippedIndexes(defaultSkippedIndexes(data.preview))
+        setCamtStatements(data.statements)
+        setDuplicateCount(data.duplicateCount)
+        setProbableDuplicateCount(data.probableDuplicateCount)
+        setTotalCount(data.totalCount)
+        setImportStep('camt-preview')
+      } else {
+        setError(data.error || 'Failed to parse statement file')
+      }
+    } catch (err) {
+      setError('An error occurred while parsing the statement file')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCamtImport = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/bank_accounts/${bankAccount.id}/import_camt`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+        body: JSON.stringify({ camt_data: camtData, skip_indexes: Array.from(skippedIndexes) }),
       })
 
       const data = await response.json()
 
       if (data.success) {
         setImportedCount(data.importedCount)
+        setSkippedCount(data.skippedCount || 0)
         setImportStep('success')
       } else {
         setError(data.error || 'Failed to import transactions')
@@ -237,9 +375,19 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
   const handleCloseModal = () => {
     setShowImportModal(false)
     setImportStep('input')
+    setImportSource('csv')
     setCsvData('')
+    setCamtData('')
+    setCamtFileName(null)
+    setSelectedProfileId(null)
+    setEditingProfile(null)
     setPreviewData([])
+    setCamtStatements([])
+    setSkippedIndexes(new Set())
+    setDuplicateCount(0)
+    setProbableDuplicateCount(0)
     setTotalCount(0)
+    setSkippedCount(0)
     setError(null)
 
     // Refresh the page if we imported transactions
@@ -248,18 +396,114 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
     }
   }
 
+  const handleToggleSkip = (index: number) => {
+    setSkippedIndexes(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const importCount = totalCount - skippedIndexes.size
+
+  const duplicateAlert = (duplicateCount > 0 || probableDuplicateCount > 0) && (
+    <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        {duplicateCount > 0 && `${duplicateCount} already imported. `}
+        {probableDuplicateCount > 0 && `${probableDuplicateCount} probable duplicate${probableDuplicateCount === 1 ? '' : 's'} with the same date, amount and counterparty. `}
+        Duplicates are skipped unless you tick them for import.
+      </AlertDescription>
+    </Alert>
+  )
+
+  const handleOpenMapper = (profile: BankImportProfile | null) => {
+    if (!csvData.trim()) {
+      setError('Please paste a sample of your bank export first')
+      return
+    }
+
+    setEditingProfile(profile)
+    setError(null)
+    setImportStep('mapping')
+  }
+
+  const handleProfileSaved = (profile: BankImportProfile) => {
+    setImportProfiles(prev =>
+      [...prev.filter(p => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name))
+    )
+    setSelectedProfileId(profile.id)
+    setEditingProfile(null)
+    setImportStep('input')
+  }
+
+  const handleDeleteProfile = async (profile: BankImportProfile) => {
+    if (!confirm(`Delete import profile "${profile.name}"?`)) return
+
+    try {
+      const response = await fetch(`/bank_accounts/${bankAccount.id}/import_profiles/${profile.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setImportProfiles(prev => prev.filter(p => p.id !== profile.id))
+        setSelectedProfileId(null)
+      } else {
+        setError(data.errors?.join(', ') || 'Failed to delete import profile')
+      }
+    } catch (err) {
+      setError('An error occurred while deleting the import profile')
+    }
+  }
+
+  const selectedProfile = importProfiles.find(p => p.id === selectedProfileId) || null
+
   const handleBack = () => {
-    if (importStep === 'preview') {
+    if (importStep === 'mapping') {
+      setEditingProfile(null)
+      setImportStep('input')
+    } else if (importStep === 'preview' || importStep === 'camt-preview') {
       setImportStep('input')
     }
   }
 
   const handleOpenBooking = (transaction: BankTransaction) => {
-    setSelectedTransaction(transaction)
+    setBookingTransactions([transaction])
     setBookingModalOpen(true)
   }
 
+  const handleBookTogether = () => {
+    setBookingTransactions(selectedTransactions)
+    setBookingModalOpen(true)
+  }
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  const toggleAllSelectable = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectableTransactions.map(tx => tx.id)) : new Set())
+  }
+
   const handleBookingSuccess = () => {
+    setSelectedIds(new Set())
     router.reload()
   }
 
@@ -293,7 +537,61 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
     }
   }
 
+  const handleApplyRules = async () => {
+    setIsApplyingRules(true)
+    setRulesResult(null)
+
+    try {
+      const response = await fetch(`/bank_accounts/${bankAccount.id}/apply_booking_rules`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setRulesResult({ bookedCount: data.bookedCount, unmatchedCount: data.unmatchedCount, errors: data.errors })
+        if (data.bookedCount > 0) {
+          router.reload()
+        }
+      } else {
+        alert(data.error || 'Failed to apply booking rules')
+      }
+    } catch (err) {
+      alert('An error occurred while applying the booking rules')
+    } finally {
+      setIsApplyingRules(false)
+    }
+  }
+
+  const handleCreateRule = async (transaction: BankTransaction) => {
+    try {
+      const response = await fetch(`/booking_rules/from_bank_transaction?bank_transaction_id=${transaction.id}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setProposedRule(data.bookingRule)
+        setRuleModalOpen(true)
+      } else {
+        alert(data.errors?.join(', ') || 'Failed to create a rule from this booking')
+      }
+    } catch (err) {
+      alert('An error occurred while creating the rule')
+    }
+  }
+
   const canBook = fiscalYear && !fiscalYear.closed
+  const pendingCount = transactions.filter(tx => tx.status === 'pending').length
+
+  // Pending transactions can be selected to book them together (instalments, card settlements)
+  const selectableTransactions = canBook ? filteredTransactions.filter(tx => tx.status === 'pending') : []
+  const selectedTransactions = transactions.filter(tx => selectedIds.has(tx.id) && tx.status === 'pending')
+  const selectedTotal = selectedTransactions.reduce((sum, tx) => sum + tx.amount, 0)
+  const allSelectableSelected = selectableTransactions.length > 0 &&
+    selectableTransactions.every(tx => selectedIds.has(tx.id))
 
   return (
     <AppLayout company={company} currentPage="bank-accounts">
@@ -324,13 +622,55 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
               </p>
             </div>
           </div>
-          <Button onClick={() => setShowImportModal(true)} className="gap-2">
-            <Upload className="h-4 w-4" />
-            Import Transactions
-          </Button>
+          <div className="flex gap-2">
+            {canBook && pendingCount > 0 && (
+              <Button variant="outline" onClick={handleApplyRules} disabled={isApplyingRules} className="gap-2">
+                {isApplyingRules ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Wand2 className="h-4 w-4" />
+                )}
+                Apply Rules
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => router.visit(`/bank_accounts/${bankAccount.id}/reconciliation`)}
+              className="gap-2"
+            >
+              <Scale className="h-4 w-4" />
+              Reconciliation
+            </Button>
+            <Button onClick={() => setShowImportModal(true)} className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import Transactions
+            </Button>
+          </div>
         </div>
       </div>
 
+      {rulesResult && (
+        <Alert className="mb-8">
+          <Wand2 className="h-4 w-4" />
+          <AlertDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p>
+                  {rulesResult.bookedCount} transaction{rulesResult.bookedCount === 1 ? '' : 's'} booked as draft,{' '}
+                  {rulesResult.unmatchedCount} without matching rule.
+                </p>
+                {rulesResult.errors.map(message => (
+                  <p key={message} className="text-destructive text-sm">{message}</p>
+                ))}
+              </div>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setRulesResult(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Account Info Card */}
       <div className="grid gap-4 md:grid-cols-3 mb-8">
         <Card>
@@ -375,7 +715,7 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
             showTextSearch: true,
             statusFilterLabel: 'Show only pending',
             statusFilterDescription: 'Hiding booked and reconciled transactions',
-            searchPlaceholder: 'Search remittance info or counterparty...'
+            searchPlaceholder: 'Search remittance info, counterparty or voucher number...'
           }}
           fiscalYears={fiscalYears.map(fy => ({
             id: fy.id,
@@ -400,6 +740,32 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {selectedTransactions.length > 0 && (
+            <div className="mb-4 flex items-center justify-between rounded-lg border bg-muted/50 px-4 py-2">
+              <div className="text-sm">
+                <span className="font-medium">{selectedTransactions.length} selected</span>
+                <span className="text-muted-foreground"> · Total </span>
+                <span className={`font-semibold ${selectedTotal >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatAmount(selectedTotal, bankAccount.currency)}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                  Clear
+                </Button>
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  onClick={handleBookTogether}
+                  disabled={selectedTransactions.length < 2}
+                  title={selectedTransactions.length < 2 ? 'Select at least two transactions' : undefined}
+                >
+                  <Layers className="h-4 w-4" />
+                  Book together
+                </Button>
+              </div>
+            </div>
+          )}
           {filteredTransactions.length === 0 && transactions.length > 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <div className="rounded-full bg-muted p-3 mb-4">
@@ -428,6 +794,16 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
             <Table>
               <TableHeader>
                 <TableRow>
+                  {canBook && (
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={allSelectableSelected}
+                        onCheckedChange={(checked) => toggleAllSelectable(checked === true)}
+                        disabled={selectableTransactions.length === 0}
+                        aria-label="Select all pending transactions"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead className="w-[100px]">Date</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Counterparty</TableHead>
@@ -439,7 +815,18 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
               </TableHeader>
               <TableBody>
                 {filteredTransactions.map((tx) => (
-                  <TableRow key={tx.id}>
+                  <TableRow key={tx.id} data-state={selectedIds.has(tx.id) ? 'selected' : undefined}>
+                    {canBook && (
+                      <TableCell>
+                        {tx.status === 'pending' && (
+                          <Checkbox
+                            checked={selectedIds.has(tx.id)}
+                            onCheckedChange={(checked) => toggleSelected(tx.id, checked === true)}
+                            aria-label="Select transaction"
+                          />
+                        )}
+                      </TableCell>
+                    )}
                     <TableCell className="font-mono text-sm">
                       {formatDate(tx.bookingDate)}
                     </TableCell>
@@ -471,6 +858,9 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
                     </TableCell>
                     <TableCell>
                       {getStatusBadge(tx.status)}
+                      {tx.voucherNumber && (
+                        <div className="mt-1 font-mono text-xs text-muted-foreground">{tx.voucherNumber}</div>
+                      )}
                     </TableCell>
                     <TableCell>
                       {tx.journalEntryId && (
@@ -496,6 +886,16 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
                           <PenLine className="h-4 w-4" />
                         </Button>
                       )}
+                      {tx.status !== 'pending' && tx.journalEntryId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCreateRule(tx)}
+                          title="Create booking rule from this booking"
+                        >
+                          <Wand2 className="h-4 w-4" />
+                        </Button>
+                      )}
                       {tx.status === 'booked' && tx.journalEntryId && !tx.journalEntryPosted && (
                         <Button
                           variant="ghost"
@@ -528,12 +928,16 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
               <div>
                 <CardTitle>
                   {importStep === 'input' && 'Import Transactions'}
+                  {importStep === 'mapping' && (editingProfile ? 'Edit Import Profile' : 'New Import Profile')}
                   {importStep === 'preview' && 'Preview Import'}
+                  {importStep === 'camt-preview' && 'Preview Statement Import'}
                   {importStep === 'success' && 'Import Complete'}
                 </CardTitle>
                 <CardDescription>
-                  {importStep === 'input' && 'Paste your bank statement data (CSV, tab or semicolon separated)'}
-                  {importStep === 'preview' && `Showing ${previewData.length} of ${totalCount} transactions`}
+                  {importStep === 'input' && importSource === 'csv' && 'Paste your bank statement data (CSV, tab or semicolon separated)'}
+                  {importStep === 'input' && importSource === 'camt' && 'Upload an ISO 20022 camt.053 or camt.052 statement file'}
+                  {importStep === 'mapping' && 'Assign the columns of your bank export to transaction fields'}
+                  {(importStep === 'preview' || importStep === 'camt-preview') && `${totalCount} transactions found, ${importCount} selected for import`}
                   {importStep === 'success' && `Successfully imported ${importedCount} transactions`}
                 </CardDescription>
               </div>
@@ -550,7 +954,110 @@ export default function BankAccountShow({ company, bankAccount, transactions, re
               )}
 
               {importStep === 'input' && (
+                <div className="flex gap-2">
+                  <Button
+                    variant={importSource === 'csv' ? 'default' : 'outline'}
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => { setImportSource('csv'); setError(null) }}
+                  >
+                    <ClipboardPaste className="h-4 w-4" />
+                    Paste CSV
+                  </Button>
+                  <Button
+                    variant={importSource === 'camt' ? 'default' : 'outline'}
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => { setImportSource('camt'); setError(null) }}
+                  >
+                    <FileText className="h-4 w-4" />
+                    Upload camt.053 / camt.052
+                  </Button>
+                </div>
+              )}
+
+              {importStep === 'input' && importSource === 'camt' && (
+                <>
+                  <div className="space-y-2">
+                    <Input
+                      type="file"
+                      accept=".xml,.camt,application/xml,text/xml"
+                      onChange={handleCamtFileChange}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {camtFileName
+                        ? `Selected: ${camtFileName}`
+                        : 'Transactions already imported from an earlier statement are detected by their entry reference and skipped.'}
+                    </p>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={handleCloseModal}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCamtPreview} disabled={isLoading || !camtData}>
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Parsing...
+                        </>
+                      ) : (
+                        'Preview Import'
+                      )}
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {importStep === 'input' && importSource === 'csv' && (
                 <>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={selectedProfileId ? String(selectedProfileId) : 'auto'}
+                      onValueChange={(value) => setSelectedProfileId(value === 'auto' ? null : Number(value))}
+                    >
+                      <SelectTrigger className="w-[260px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-detect format</SelectItem>
+                        {importProfiles.map(profile => (
+                          <SelectItem key={profile.id} value={String(profile.id)}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedProfile ? (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Edit profile"
+                          onClick={() => handleOpenMapper(selectedProfile)}
+                        >
+                          <PenLine className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete profile"
+                          onClick={() => handleDeleteProfile(selectedProfile)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => handleOpenMapper(null)}
+                      >
+                        <Columns3 className="h-4 w-4" />
+                        New profile from sample
+                      </Button>
+                    )}
+                  </div>
                   <div className="space-y-2">
                     <Textarea
                       placeholder={`Paste your transaction data here...
@@ -559,15 +1066,29 @@ Example formats supported:
 - Tab-separated (from Excel)
 - Semicolon-separated (German CSV)
 - Comma-separated
+- SWIFT MT940 (.sta)
 
 German date format (DD.MM.YYYY) and currency format (1.234,56 €) are supported.`}
                       className="min-h-[300px] font-mono text-sm"
                       value={csvData}
                       onChange={(e) => setCsvData(e.target.value)}
                     />
-                    <p className="text-xs text-muted-foreground">
-                      The system will try to auto-detect columns. Common headers: Buchungstag, Betrag, Verwendungszweck, Auftraggeber/Empfänger
-                    </p>
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="text-xs text-muted-foreground">
+                        {selectedProfile
+                          ? `The data will be parsed with the column mapping of "${selectedProfile.name}".`
+                          : 'The system will try to auto-detect columns. Common headers: Buchungstag, Betrag, Verwendungszweck, Auftraggeber/Empfänger. MT940 statements are detected automatically.'}
+                      </p>
+                      <label className="text-xs font-medium text-primary cursor-pointer whitespace-nowrap hover:underline">
+                        Load file...
+                        <input
+                          type="file"
+                          accept=".csv,.txt,.sta,.mt940"
+                          className="hidden"
+                          onChange={handleStatementFileChange}
+                        />
+                      </label>
+                    </div>
                   </div>
                   <div className="flex justify-end gap-2">
                     <Button variant="outline" onClick={handleCloseModal}>
@@ -587,44 +1108,82 @@ German date format (DD.MM.YYYY) and currency format (1.234,56 €) are supported
                 </>
               )}
 
+              {importStep === 'mapping' && (
+                <ColumnMapper
+                  bankAccountId={bankAccount.id}
+                  csvData={csvData}
+                  profile={editingProfile}
+                  onSaved={handleProfileSaved}
+                  onCancel={handleBack}
+                />
+              )}
+
               {importStep === 'preview' && (
                 <>
-                  <div className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Date</TableHead>
-                          <TableHead className="text-right">Amount</TableHead>
-                          <TableHead>Description</TableHead>
-                          <TableHead>Counterparty</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {previewData.map((tx, index) => (
-                          <TableRow key={index}>
-                            <TableCell className="font-mono text-sm">
-                              {tx.booking_date ? formatDate(tx.booking_date) : '-'}
-                            </TableCell>
-                            <TableCell className={`text-right font-semibold ${tx.amount >= 0 ? 'text-green-600' : 'text-red-600'
-                              }`}>
-                              {formatAmount(tx.amount, bankAccount.currency)}
-                            </TableCell>
-                            <TableCell className="max-w-[200px]">
-                              {tx.remittance_information || '-'}
-                            </TableCell>
-                            <TableCell>
-                              {tx.counterparty_name || '-'}
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+                  {duplicateAlert}
+                  <ImportPreviewTable
+                    transactions={previewData}
+                    currency={bankAccount.currency}
+                    skippedIndexes={skippedIndexes}
+                    onToggleSkip={handleToggleSkip}
+                  />
+                  <div className="flex justify-between">
+                    <Button variant="outline" onClick={handleBack}>
+                      Back
+                    </Button>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={handleCloseModal}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleImport} disabled={isLoading || importCount === 0}>
+                        {isLoading ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Importing...
+                          </>
+                        ) : (
+                          `Import ${importCount} Transactions`
+                        )}
+                      </Button>
+                    </div>
                   </div>
-                  {totalCount > previewData.length && (
-                    <p className="text-sm text-muted-foreground text-center">
-                      ... and {totalCount - previewData.length} more transactions
-                    </p>
-                  )}
+                </>
+              )}
+
+              {importStep === 'camt-preview' && (
+                <>
+                  {camtStatements.map((statement, index) => (
+                    <div key={statement.statement_id || index} className="rounded-lg border p-4 bg-muted/50 text-sm space-y-1">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Statement</span>
+                        <span className="font-mono">{statement.statement_id || '-'}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Period</span>
+                        <span>{formatDate(statement.from_date)} – {formatDate(statement.to_date)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Opening balance ({formatDate(statement.opening_date)})</span>
+                        <span className="font-semibold">
+                          {statement.opening_balance !== null ? formatAmount(statement.opening_balance, statement.currency || bankAccount.currency) : '-'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Closing balance ({formatDate(statement.closing_date)})</span>
+                        <span className="font-semibold">
+                          {statement.closing_balance !== null ? formatAmount(statement.closing_balance, statement.currency || bankAccount.currency) : '-'}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                  {duplicateAlert}
+                  <ImportPreviewTable
+                    transactions={previewData}
+                    currency={bankAccount.currency}
+                    skippedIndexes={skippedIndexes}
+                    onToggleSkip={handleToggleSkip}
+                    showReference
+                  />
                   <div className="flex justify-between">
                     <Button variant="outline" onClick={handleBack}>
                       Back
@@ -633,14 +1192,14 @@ German date format (DD.MM.YYYY) and currency format (1.234,56 €) are supported
                       <Button variant="outline" onClick={handleCloseModal}>
                         Cancel
                       </Button>
-                      <Button onClick={handleImport} disabled={isLoading}>
+                      <Button onClick={handleCamtImport} disabled={isLoading || importCount === 0}>
                         {isLoading ? (
                           <>
                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                             Importing...
                           </>
                         ) : (
-                          `Import ${totalCount} Transactions`
+                          `Import ${importCount} Transactions`
                         )}
                       </Button>
                     </div>
@@ -658,6 +1217,11 @@ German date format (DD.MM.YYYY) and currency format (1.234,56 €) are supported
                     <p className="text-sm text-muted-foreground text-center">
                       {importedCount} transaction{importedCount === 1 ? ' has' : 's have'} been imported
                     </p>
+                    {skippedCount > 0 && (
+                      <p className="text-sm text-muted-foreground text-center">
+                        {skippedCount} already imported transaction{skippedCount === 1 ? ' was' : 's were'} skipped
+                      </p>
+                    )}
                   </div>
                   <div className="flex justify-end">
                     <Button onClick={handleCloseModal}>
@@ -675,10 +1239,20 @@ German date format (DD.MM.YYYY) and currency format (1.234,56 €) are supported
       <BookingModal
         open={bookingModalOpen}
         onOpenChange={setBookingModalOpen}
-        transaction={selectedTransaction}
+        transactions={bookingTransactions}
         recentAccounts={recentAccounts}
+        taxKeys={taxKeys}
+        fiscalYears={fiscalYears}
         onSuccess={handleBookingSuccess}
       />
+
+      <BookingRuleModal
+        open={ruleModalOpen}
+        onOpenChange={setRuleModalOpen}
+        rule={proposedRule}
+        recentAccounts={recentAccounts}
+        onSaved={() => setProposedRule(null)}
+      />
     </AppLayout>
   )
 }
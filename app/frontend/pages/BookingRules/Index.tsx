@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { Head, router } from '@inertiajs/react'
+import { AppLayout } from '@/components/AppLayout'
+import { BookingRuleModal } from '@/components/bank-transactions/BookingRuleModal'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Plus, PenLine, Trash2, Wand2 } from 'lucide-react'
+import { formatAmount } from '@/utils/formatting'
+import type { BookingRule, VatMode } from '@/types/accounting'
+
+interface Account {
+  id: number
+  code: string
+  name: string
+  accountType: string
+  taxRate: number
+}
+
+interface BookingRulesIndexProps {
+  company: {
+    id: number
+    name: string
+  }
+  bookingRules: BookingRule[]
+  recentAccounts: Account[]
+}
+
+const VAT_MODE_LABELS: Record<VatMode, string> = {
+  none: 'No VAT',
+  vat_19: '19% VAT',
+  vat_7: '7% VAT',
+  reverse_charge: 'Reverse Charge',
+}
+
+const describeConditions = (rule: BookingRule): string[] => {
+  const conditions: string[] = []
+  if (rule.counterpartyIban) conditions.push(`IBAN ${rule.counterpartyIban}`)
+  if (rule.counterpartyName) conditions.push(`Counterparty contains "${rule.counterpartyName}"`)
+  if (rule.remittancePattern) conditions.push(`Remittance matches /${rule.remittancePattern}/`)
+  if (rule.amountMin !== null && rule.amountMax !== null) {
+    conditions.push(`Amount ${formatAmount(rule.amountMin, 'EUR')} – ${formatAmount(rule.amountMax, 'EUR')}`)
+  } else if (rule.amountMin !== null) {
+    conditions.push(`Amount ≥ ${formatAmount(rule.amountMin, 'EUR')}`)
+  } else if (rule.amountMax !== null) {
+    conditions.push(`Amount ≤ ${formatAmount(rule.amountMax, 'EUR')}`)
+  }
+  if (rule.direction !== 'any') conditions.push(rule.direction === 'inflow' ? 'Inflows only' : 'Outflows only')
+  return conditions
+}
+
+export default function BookingRulesIndex({ company, bookingRules, recentAccounts }: BookingRulesIndexProps) {
+  const [modalOpen, setModalOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<BookingRule | null>(null)
+
+  const handleNew = () => {
+    setEditingRule(null)
+    setModalOpen(true)
+  }
+
+  const handleEdit = (rule: BookingRule) => {
+    setEditingRule(rule)
+    setModalOpen(true)
+  }
+
+  const handleDelete = async (rule: BookingRule) => {
+    if (!confirm(`Delete booking rule "${rule.name}"?`)) return
+
+    try {
+      const response = await fetch(`/booking_rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        router.reload()
+      } else {
+        alert(data.errors?.join(', ') || 'Failed to delete booking rule')
+      }
+    } catch (err) {
+      alert('An error occurred while deleting the booking rule')
+    }
+  }
+
+  return (
+    <AppLayout company={company} currentPage="booking-rules">
+      <Head title={`Booking Rules - ${company.name}`} />
+
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Booking Rules</h2>
+          <p className="text-sm text-muted-foreground">
+            Book recurring bank transactions like rent, subscriptions or bank fees automatically
+          </p>
+        </div>
+        <Button onClick={handleNew} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            Rules are tried from top to bottom, the first matching rule books the transaction.
+            Use "Apply rules" on a bank account to create draft journal entries.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {bookingRules.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="rounded-full bg-muted p-4 mb-4">
+                <Wand2 className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-muted-foreground mb-4">
+                No booking rules yet. Create one here or from an already booked transaction.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead>Counter Account</TableHead>
+                  <TableHead>VAT</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bookingRules.map(rule => (
+                  <TableRow key={rule.id} className={rule.active ? undefined : 'opacity-50'}>
+                    <TableCell className="font-medium">
+                      {rule.name}
+                      {!rule.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeConditions(rule).map(condition => (
+                        <div key={condition}>{condition}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <span className="font-mono">{rule.accountCode}</span> {rule.accountName}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{VAT_MODE_LABELS[rule.vatMode]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {rule.descriptionTemplate || '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)} title="Edit rule">
+                          <PenLine className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} title="Delete rule">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BookingRuleModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        rule={editingRule}
+        recentAccounts={recentAccounts}
+        onSaved={() => router.reload()}
+      />
+    </AppLayout>
+  )
+}
@@ -0,0 +1,386 @@
+import { useState } from 'react'
+import { Head, Link, router } from '@inertiajs/react'
+import { AppLayout } from '@/components/AppLayout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatCurrency, formatDate } from '@/utils/formatting'
+import { ArrowLeft, AlertCircle, CheckCircle, Loader2, Upload } from 'lucide-react'
+
+interface DatevImportPreview {
+  year: number
+  fromDate: string
+  toDate: string
+  rowCount: number
+  batchCount: number
+  existingEntryCount: number
+  accountsToCreate: { code: string; name: string }[]
+  unmappedAccounts: { code: string; lineNumbers: number[] }[]
+  unbalancedBatches: {
+    documentField: string | null
+    bookingDate: string
+    debitTotal: number
+    creditTotal: number
+    lineNumbers: number[]
+  }[]
+  unsupportedTaxKeys: { key: string; lineNumbers: number[] }[]
+  invalidVatIds: { vatId: string; lineNumbers: number[] }[]
+  dateErrors: string[]
+  importable: boolean
+}
+
+interface DatevImportProps {
+  company: { id: number; name: string }
+}
+
+// DATEV writes Windows-1252, files re-saved by other tools are often UTF-8
+async function readDatevFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer()
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+function formatLines(lineNumbers: number[]) {
+  return lineNumbers.length > 0 ? lineNumbers.join(', ') : '–'
+}
+
+export default function FiscalYearDatevImport({ company }: DatevImportProps) {
+  const [datevData, setDatevData] = useState<string | null>(null)
+  const [fileName, setFileName] = useState<string>('')
+  const [preview, setPreview] = useState<DatevImportPreview | null>(null)
+  const [postEntries, setPostEntries] = useState(true)
+  const [isLoading, setIsLoading] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const request = (url: string, body: Record<string, unknown>) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+      },
+      body: JSON.stringify(body),
+    })
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setErrors([])
+    setPreview(null)
+    setFileName(file.name)
+    setDatevData(await readDatevFile(file))
+  }
+
+  const handlePreview = async () => {
+    if (!datevData) return
+
+    setIsLoading(true)
+    setErrors([])
+
+    try {
+      const response = await request('/fiscal_years/datev_import_preview', { datev_data: datevData })
+      const data = await response.json()
+
+      if (data.success) {
+        setPreview(data.preview)
+      } else {
+        setErrors(data.errors || ['Failed to read the DATEV file'])
+      }
+    } catch (err) {
+      setErrors(['An error occurred while reading the file'])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!datevData) return
+
+    setIsLoading(true)
+    setErrors([])
+
+    try {
+      const response = await request('/fiscal_years/datev_import_create', {
+        datev_data: datevData,
+        post_entries: postEntries,
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        router.visit('/fiscal_years')
+      } else {
+        setErrors(data.errors || ['Import failed'])
+      }
+    } catch (err) {
+      setErrors(['An error occurred during the import'])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <AppLayout company={company} currentPage="fiscal-years">
+      <Head title="DATEV Import" />
+
+      <div className="container mx-auto py-6 max-w-5xl">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/fiscal_years">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Fiscal Years
+            </Button>
+          </Link>
+        </div>
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold mb-2">DATEV Import</h1>
+          <p className="text-muted-foreground">
+            Import the bookings of a historical fiscal year from a DATEV EXTF Buchungsstapel.
+            Gross amounts with a BU key are split into net and VAT, missing accounts are
+            created from the chart of accounts.
+          </p>
+        </div>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {errors.map((error, index) => (
+                <div key={index}>{error}</div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Buchungsstapel</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="datev-file">DATEV file (EXTF_Buchungsstapel.csv)</Label>
+              <Input id="datev-file" type="file" accept=".csv,.txt" onChange={handleFileChange} />
+              {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handlePreview} disabled={!datevData || isLoading}>
+                {isLoading && !preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Preview Import
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {preview && (
+          <>
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Fiscal Year {preview.year}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Period</div>
+                    <div>{formatDate(preview.fromDate)} – {formatDate(preview.toDate)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Rows</div>
+                    <div>{preview.rowCount}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Journal entries</div>
+                    <div>{preview.batchCount}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">New accounts</div>
+                    <div>{preview.accountsToCreate.length}</div>
+                  </div>
+                </div>
+
+                {preview.existingEntryCount > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Fiscal year {preview.year} already contains {preview.existingEntryCount} journal entries.
+                      Only empty fiscal years can be imported.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {preview.dateErrors.map((error, index) => (
+                  <Alert key={index} variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                ))}
+
+                {preview.importable && (
+                  <Alert className="border-green-200 bg-green-50">
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    <AlertDescription className="text-green-800">
+                      All accounts are mapped and all batches balance. The file is ready to import.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {preview.unmappedAccounts.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    Unmapped Accounts
+                    <Badge variant="destructive">{preview.unmappedAccounts.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    These accounts neither exist in the company nor in the chart of accounts.
+                    Create them under Accounts before importing.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Lines in file</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.unmappedAccounts.map((account) => (
+                        <TableRow key={account.code}>
+                          <TableCell className="font-mono">{account.code}</TableCell>
+                          <TableCell>{formatLines(account.lineNumbers)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            {preview.unbalancedBatches.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    Unbalanced Batches
+                    <Badge variant="destructive">{preview.unbalancedBatches.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Belegfeld 1</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Debit</TableHead>
+                        <TableHead className="text-right">Credit</TableHead>
+                        <TableHead>Lines in file</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.unbalancedBatches.map((batch) => (
+                        <TableRow key={batch.lineNumbers.join('-')}>
+                          <TableCell>{batch.documentField || '–'}</TableCell>
+                          <TableCell>{formatDate(batch.bookingDate)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(batch.debitTotal)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(batch.creditTotal)}</TableCell>
+                          <TableCell>{formatLines(batch.lineNumbers)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            {preview.unsupportedTaxKeys.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    Unsupported BU Keys
+                    <Badge variant="destructive">{preview.unsupportedTaxKeys.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {preview.unsupportedTaxKeys.map((taxKey) => (
+                    <div key={taxKey.key}>
+                      <span className="font-mono">{taxKey.key}</span>
+                      <span className="text-muted-foreground"> – lines {formatLines(taxKey.lineNumbers)}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {preview.invalidVatIds.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    Invalid USt-IdNrn.
+                    <Badge variant="destructive">{preview.invalidVatIds.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {preview.invalidVatIds.map((vatId) => (
+                    <div key={vatId.lineNumbers.join('-')}>
+                      <span className="font-mono">{vatId.vatId}</span>
+                      <span className="text-muted-foreground"> – lines {formatLines(vatId.lineNumbers)}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {preview.accountsToCreate.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Accounts Created from the Chart of Accounts</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {preview.accountsToCreate.map((account) => (
+                    <div key={account.code}>
+                      <span className="font-mono">{account.code}</span> {account.name}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="post-entries"
+                  checked={postEntries}
+                  onCheckedChange={(checked) => setPostEntries(checked === true)}
+                />
+                <Label htmlFor="post-entries" className="font-normal">
+                  Post imported entries (GoBD: they can no longer be changed)
+                </Label>
+              </div>
+              <Button onClick={handleImport} disabled={!preview.importable || isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import {preview.batchCount} Journal Entries
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
@@ -207,7 +207,12 @@ export default function FiscalYearImport({ company }: ImportProps) {
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
             This will create a closed fiscal year with a manual closing balance sheet.
-            Make sure Aktiva equals Passiva before saving.
+            Make sure Aktiva equals Passiva before saving. If you have the bookings
+            as a DATEV Buchungsstapel, use the{' '}
+            <Link href="/fiscal_years/datev_import_form" className="underline">
+              DATEV import
+            </Link>{' '}
+            instead.
           </AlertDescription>
         </Alert>
 
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { FiscalYearStatusBadge } from '@/components/FiscalYearStatusBadge'
 import { formatDate } from '@/utils/formatting'
-import { Calendar, Eye, Upload, Plus } from 'lucide-react'
+import { Calendar, Eye, Upload, Plus, FileSpreadsheet } from 'lucide-react'
 
 interface FiscalYear {
   id: number
@@ -40,6 +40,12 @@ export default function FiscalYearsIndex({
             </p>
           </div>
           <div className="flex gap-3">
+            <Link href="/fiscal_years/datev_import_form">
+              <Button variant="outline">
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                DATEV Import
+              </Button>
+            </Link>
             <Link href="/fiscal_years/import_form">
               <Button variant="outline">
                 <Upload className="mr-2 h-4 w-4" />
@@ -1,9 +1,11 @@
 import { router, usePage } from '@inertiajs/react'
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { AppLayout } from '@/components/AppLayout'
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import {
   Select,
   SelectContent,
@@ -19,10 +21,17 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { FileText, Plus } from 'lucide-react'
+import { Download, FileText, Keyboard, Lock, Plus } from 'lucide-react'
 import { JournalEntryModal } from '@/components/JournalEntryModal'
 import { JournalEntryRow } from '@/components/journal-entries/JournalEntryRow'
+import { DatevExportDialog } from '@/components/journal-entries/DatevExportDialog'
+import { ReverseJournalEntryDialog } from '@/components/journal-entries/ReverseJournalEntryDialog'
+import { BatchPostingDialog } from '@/components/journal-entries/BatchPostingDialog'
+import { FastEntryGrid } from '@/components/journal-entries/FastEntryGrid'
+import { DueRecurringEntriesPanel } from '@/components/recurring-entries/DueRecurringEntriesPanel'
+import { formatDate } from '@/utils/formatting'
 import type { JournalEntry, UserConfig } from '@/types/journal-entries'
+import type { DueRecurringEntry, TaxKey } from '@/types/accounting'
 
 interface FiscalYear {
   id: number
@@ -30,6 +39,7 @@ interface FiscalYear {
   startDate: string
   endDate: string
   closed: boolean
+  lockedUntil: string | null
 }
 
 interface Account {
@@ -46,6 +56,9 @@ interface JournalEntriesIndexProps {
   selectedFiscalYearId: number | null
   journalEntries: JournalEntry[]
   recentAccounts: Account[]
+  voucherNumberRanges: { id: number; name: string; pattern: string }[]
+  taxKeys: TaxKey[]
+  dueRecurringEntries: DueRecurringEntry[]
 }
 
 export default function JournalEntriesIndex({
@@ -54,12 +67,21 @@ export default function JournalEntriesIndex({
   selectedFiscalYearId,
   journalEntries,
   recentAccounts,
+  voucherNumberRanges,
+  taxKeys,
+  dueRecurringEntries,
 }: JournalEntriesIndexProps) {
   const { props } = usePage()
   const userConfig = (props.userConfig || {}) as UserConfig
 
   const [modalOpen, setModalOpen] = useState(false)
   const [editEntryId, setEditEntryId] = useState<number | null>(null)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [postingOpen, setPostingOpen] = useState(false)
+  const [fastEntryOpen, setFastEntryOpen] = useState(false)
+  const [searchText, setSearchText] = useState('')
+  const [reverseEntryId, setReverseEntryId] = useState<number | null>(null)
+  const [correctionTemplate, setCorrectionTemplate] = useState<JournalEntry | null>(null)
   const [simplifiedMode, setSimplifiedMode] = useState<boolean>(
     userConfig.ui?.simplified_journal_view !== false // Default: true
   )
@@ -74,14 +96,29 @@ export default function JournalEntriesIndex({
 
   const handleNewEntry = () => {
     setEditEntryId(null)
+    setCorrectionTemplate(null)
     setModalOpen(true)
   }
 
   const handleEdit = (entryId: number) => {
     setEditEntryId(entryId)
+    setCorrectionTemplate(null)
     setModalOpen(true)
   }
 
+  // After the Storno, optionally open a copy of the original on the Storno date to book it correctly
+  const handleReversed = (storno: JournalEntry, openCorrection: boolean) => {
+    const original = journalEntries.find((e) => e.id === reverseEntryId)
+    setReverseEntryId(null)
+    router.reload()
+
+    if (openCorrection && original) {
+      setEditEntryId(null)
+      setCorrectionTemplate({ ...original, bookingDate: storno.bookingDate })
+      setModalOpen(true)
+    }
+  }
+
   const handleDelete = async (entryId: number) => {
     if (!confirm('Are you sure you want to delete this journal entry?')) {
       return
@@ -116,6 +153,7 @@ export default function JournalEntriesIndex({
   const handleModalSuccess = () => {
     setModalOpen(false)
     setEditEntryId(null)
+    setCorrectionTemplate(null)
   }
 
   const handleSimplifiedModeToggle = async (checked: boolean) => {
@@ -140,6 +178,21 @@ export default function JournalEntriesIndex({
   }
 
   const hasOpenFiscalYear = fiscalYears.some((fy) => !fy.closed)
+  const selectedFiscalYear = fiscalYears.find((fy) => fy.id === selectedFiscalYearId) || null
+
+  // Client-side search by voucher number, description or account
+  const filteredEntries = useMemo(() => {
+    const searchLower = searchText.trim().toLowerCase()
+    if (!searchLower) return journalEntries
+
+    return journalEntries.filter((entry) =>
+      (entry.voucherNumber || '').toLowerCase().includes(searchLower) ||
+      entry.description.toLowerCase().includes(searchLower) ||
+      entry.lineItems.some((li) =>
+        li.accountCode.includes(searchLower) || (li.description || '').toLowerCase().includes(searchLower)
+      )
+    )
+  }, [journalEntries, searchText])
 
   const editEntry = editEntryId
     ? journalEntries.find((e) => e.id === editEntryId)
@@ -156,12 +209,32 @@ export default function JournalEntriesIndex({
               View and manage all journal entries
             </p>
           </div>
-          {hasOpenFiscalYear && (
-            <Button onClick={handleNewEntry}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Journal Entry
-            </Button>
-          )}
+          <div className="flex gap-2">
+            {fiscalYears.length > 0 && (
+              <Button variant="outline" onClick={() => setExportOpen(true)}>
+                <Download className="h-4 w-4 mr-2" />
+                DATEV Export
+              </Button>
+            )}
+            {selectedFiscalYear && !selectedFiscalYear.closed && (
+              <Button variant="outline" onClick={() => setPostingOpen(true)}>
+                <Lock className="h-4 w-4 mr-2" />
+                Post Period
+              </Button>
+            )}
+            {hasOpenFiscalYear && (
+              <Button variant="outline" onClick={() => setFastEntryOpen(true)} disabled={fastEntryOpen}>
+                <Keyboard className="h-4 w-4 mr-2" />
+                Fast Entry
+              </Button>
+            )}
+            {hasOpenFiscalYear && (
+              <Button onClick={handleNewEntry}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Journal Entry
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Fiscal Year Filter */}
@@ -189,6 +262,18 @@ export default function JournalEntriesIndex({
               No fiscal years found
             </span>
           )}
+          {selectedFiscalYear?.lockedUntil && (
+            <Badge variant="secondary" className="gap-1">
+              <Lock className="h-3 w-3" />
+              Locked until {formatDate(selectedFiscalYear.lockedUntil)}
+            </Badge>
+          )}
+          <Input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search voucher numbers, descriptions..."
+            className="w-[280px] ml-auto"
+          />
         </div>
 
         {/* Simplified View Toggle */}
@@ -215,6 +300,16 @@ export default function JournalEntriesIndex({
           </div>
         )}
 
+        <DueRecurringEntriesPanel entries={dueRecurringEntries} />
+
+        {fastEntryOpen && (
+          <FastEntryGrid
+            taxKeys={taxKeys}
+            defaultYear={selectedFiscalYear?.year || new Date().getFullYear()}
+            onClose={() => setFastEntryOpen(false)}
+          />
+        )}
+
         {/* Journal Entries Table */}
         {journalEntries.length === 0 ? (
           <Card>
@@ -250,14 +345,16 @@ export default function JournalEntriesIndex({
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {journalEntries.map((entry, entryIdx) => (
+                  {filteredEntries.map((entry, entryIdx) => (
                     <JournalEntryRow
                       key={entry.id}
                       entry={entry}
                       index={entryIdx}
                       globalSimplifiedMode={simplifiedMode}
+                      taxKeys={taxKeys}
                       onEdit={handleEdit}
                       onDelete={handleDelete}
+                      onReverse={setReverseEntryId}
                     />
                   ))}
                 </TableBody>
@@ -272,10 +369,33 @@ export default function JournalEntriesIndex({
         open={modalOpen}
         onOpenChange={setModalOpen}
         journalEntry={editEntry || null}
+        template={correctionTemplate}
         recentAccounts={recentAccounts}
         fiscalYears={fiscalYears}
+        voucherNumberRanges={voucherNumberRanges}
+        taxKeys={taxKeys}
         onSuccess={handleModalSuccess}
       />
+
+      <ReverseJournalEntryDialog
+        open={reverseEntryId !== null}
+        onOpenChange={(open) => !open && setReverseEntryId(null)}
+        entry={journalEntries.find((e) => e.id === reverseEntryId) || null}
+        onReversed={handleReversed}
+      />
+
+      <BatchPostingDialog
+        open={postingOpen}
+        onOpenChange={setPostingOpen}
+        fiscalYear={selectedFiscalYear}
+      />
+
+      <DatevExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        fiscalYears={fiscalYears}
+        selectedFiscalYearId={selectedFiscalYearId}
+      />
     </AppLayout>
   )
 }
@@ -3,18 +3,22 @@ import { FormEvent } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { RadioGroupItem } from '@/components/ui/radio-group'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertCircle, Building2, CheckCircle2 } from 'lucide-react'
+import type { ChartOption } from '@/types/accounting'
 
 interface CompanySetupProps {
+  charts: ChartOption[]
   errors?: string[]
 }
 
-export default function CompanySetup({ errors }: CompanySetupProps) {
+export default function CompanySetup({ charts, errors }: CompanySetupProps) {
   const { data, setData, post, processing } = useForm({
     company: {
       name: '',
+      chart_of_accounts: charts[0]?.name ?? '',
     }
   })
 
@@ -75,7 +79,7 @@ export default function CompanySetup({ errors }: CompanySetupProps) {
                   type="text"
                   placeholder="e.g., Acme GmbH"
                   value={data.company.name}
-                  onChange={e => setData('company', { name: e.target.value })}
+                  onChange={e => setData('company', { ...data.company, name: e.target.value })}
                   required
                   autoFocus
                   className="h-9"
@@ -85,6 +89,35 @@ export default function CompanySetup({ errors }: CompanySetupProps) {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Chart of accounts</Label>
+                {charts.length === 0 ? (
+                  <p className="text-sm text-destructive">
+                    No chart of accounts is installed. Run bin/rails accounting:seed_skr03 or accounting:seed_skr04.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {charts.map(chart => (
+                      <div key={chart.name} className="flex items-start space-x-3">
+                        <RadioGroupItem
+                          value={chart.name}
+                          id={`chart-${chart.name}`}
+                          name="chart-of-accounts"
+                          checked={data.company.chart_of_accounts === chart.name}
+                          onChange={() => setData('company', { ...data.company, chart_of_accounts: chart.name })}
+                        />
+                        <Label htmlFor={`chart-${chart.name}`} className="font-normal cursor-pointer flex-1">
+                          <div className="font-semibold">{chart.name}</div>
+                          {chart.description && (
+                            <div className="text-sm text-muted-foreground">{chart.description}</div>
+                          )}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* What we'll create */}
               <div className="rounded-lg border bg-muted/30 p-4">
                 <h3 className="text-sm font-medium mb-3">
@@ -105,7 +138,7 @@ export default function CompanySetup({ errors }: CompanySetupProps) {
                   </li>
                   <li className="flex items-center gap-2">
                     <CheckCircle2 className="h-4 w-4 text-primary" />
-                    Basic chart of accounts (SKR03)
+                    Chart of accounts ({data.company.chart_of_accounts || 'none selected'})
                   </li>
                 </ul>
               </div>
@@ -113,7 +146,7 @@ export default function CompanySetup({ errors }: CompanySetupProps) {
               <Button
                 type="submit"
                 className="w-full"
-                disabled={processing || !data.company.name.trim()}
+                disabled={processing || !data.company.name.trim() || !data.company.chart_of_accounts}
               >
                 {processing ? 'Setting up...' : 'Create company'}
               </Button>
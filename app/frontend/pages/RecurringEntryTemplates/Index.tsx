@@ -0,0 +1,228 @@
+import { Fragment, useState } from 'react'
+import { Head, router } from '@inertiajs/react'
+import { AppLayout } from '@/components/AppLayout'
+import { RecurringEntryTemplateModal } from '@/components/recurring-entries/RecurringEntryTemplateModal'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ChevronDown, ChevronRight, Plus, PenLine, Repeat, Trash2 } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/utils/formatting'
+import type { RecurringEntryTemplate, RecurringFrequency } from '@/types/accounting'
+
+interface Account {
+  id: number
+  code: string
+  name: string
+  accountType: string
+  taxRate: number
+}
+
+interface RecurringEntryTemplatesIndexProps {
+  company: {
+    id: number
+    name: string
+  }
+  templates: RecurringEntryTemplate[]
+  recentAccounts: Account[]
+}
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+const describeSchedule = (template: RecurringEntryTemplate): string => {
+  const schedule = `${FREQUENCY_LABELS[template.frequency]} on day ${template.dayOfMonth}, from ${formatDate(template.startDate)}`
+  return template.endDate ? `${schedule} until ${formatDate(template.endDate)}` : schedule
+}
+
+export default function RecurringEntryTemplatesIndex({ company, templates, recentAccounts }: RecurringEntryTemplatesIndexProps) {
+  const [modalOpen, setModalOpen] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<RecurringEntryTemplate | null>(null)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+
+  const handleNew = () => {
+    setEditingTemplate(null)
+    setModalOpen(true)
+  }
+
+  const handleEdit = (template: RecurringEntryTemplate) => {
+    setEditingTemplate(template)
+    setModalOpen(true)
+  }
+
+  const handleDelete = async (template: RecurringEntryTemplate) => {
+    if (!confirm(`Delete recurring entry "${template.name}"? Generated entries stay in the journal.`)) return
+
+    try {
+      const response = await fetch(`/recurring_entry_templates/${template.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        router.reload()
+      } else {
+        alert(data.errors?.join(', ') || 'Failed to delete template')
+      }
+    } catch (err) {
+      alert('An error occurred while deleting the template')
+    }
+  }
+
+  return (
+    <AppLayout company={company} currentPage="recurring-entries">
+      <Head title={`Recurring Entries - ${company.name}`} />
+
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Recurring Entries</h2>
+          <p className="text-sm text-muted-foreground">
+            Templates for depreciation, accruals, rent or loan interest that are booked on a fixed schedule
+          </p>
+        </div>
+        <Button onClick={handleNew} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            Due entries are listed on the Journal Entries page, where their drafts are generated in one click.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {templates.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="rounded-full bg-muted p-4 mb-4">
+                <Repeat className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-muted-foreground mb-4">No recurring entries yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead>Next Date</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => {
+                  const isExpanded = expandedId === template.id
+                  const history = template.history || []
+
+                  return (
+                    <Fragment key={template.id}>
+                      <TableRow className={template.active ? undefined : 'opacity-50'}>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedId(isExpanded ? null : template.id)}
+                            title="Show generated entries"
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {template.name}
+                          {!template.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                          <div className="text-xs text-muted-foreground">{template.description}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{describeSchedule(template)}</TableCell>
+                        <TableCell className="text-sm">
+                          {template.lines.map((line, index) => (
+                            <div key={index}>
+                              <span className="text-muted-foreground">{line.direction === 'debit' ? 'Dr' : 'Cr'}</span>{' '}
+                              <span className="font-mono">{line.accountCode}</span>{' '}
+                              {line.amountType === 'fixed' ? (
+                                formatCurrency(line.amount || 0)
+                              ) : (
+                                <span className="font-mono text-xs">{line.formula}</span>
+                              )}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {template.active && template.nextDate ? formatDate(template.nextDate) : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(template)} title="Edit template">
+                              <PenLine className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} title="Delete template">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell></TableCell>
+                          <TableCell colSpan={5}>
+                            {history.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No entries generated yet.</p>
+                            ) : (
+                              <div className="divide-y text-sm">
+                                {history.map((entry) => (
+                                  <div key={entry.id} className="flex items-center justify-between gap-4 py-1">
+                                    <a href={`/journal_entries#journal-entry-${entry.id}`} className="underline">
+                                      {formatDate(entry.bookingDate)} – {entry.description}
+                                    </a>
+                                    <div className="flex items-center gap-3">
+                                      {entry.voucherNumber && (
+                                        <span className="font-mono text-xs text-muted-foreground">{entry.voucherNumber}</span>
+                                      )}
+                                      <Badge variant={entry.postedAt ? 'default' : 'secondary'}>
+                                        {entry.postedAt ? 'Posted' : 'Draft'}
+                                      </Badge>
+                                      <span className="font-mono w-[110px] text-right">{formatCurrency(entry.amount)}</span>
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RecurringEntryTemplateModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        template={editingTemplate}
+        recentAccounts={recentAccounts}
+        onSaved={() => router.reload()}
+      />
+    </AppLayout>
+  )
+}
@@ -18,14 +18,14 @@ import { GuVSection } from '@/components/reports/GuVSection'
 import { BalanceSheetData, FiscalYear } from '@/types/accounting'
 
 interface BalanceSheetProps {
-  company: { id: number; name: string }
+  company: { id: number; name: string; chartOfAccounts: string }
   fiscalYears: FiscalYear[]
   selectedFiscalYearId: number | null
   balanceSheet: BalanceSheetData | null
   errors: string[]
 }
 
-const SHOW_PREVIOUS_YEAR = false // Feature flag for previous year column
+const SHOW_PREVIOUS_YEAR = true // Feature flag for previous year column
 
 export default function BalanceSheet({
   company,
@@ -39,6 +39,9 @@ export default function BalanceSheet({
   }
 
   const selectedFiscalYear = fiscalYears.find((fy) => fy.id === selectedFiscalYearId)
+  // Only when there is a previous fiscal year to compare with
+  const showPreviousYear = SHOW_PREVIOUS_YEAR && !!balanceSheet?.previousYear
+  const previousYear = balanceSheet?.previousYear?.year
 
   return (
     <AppLayout company={company} currentPage="reports">
@@ -50,7 +53,7 @@ export default function BalanceSheet({
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Balance Sheet</h1>
             <p className="text-muted-foreground mt-1">
-              Bilanz nach SKR03 (Assets and Liabilities)
+              Bilanz nach {company.chartOfAccounts} (Assets and Liabilities)
             </p>
           </div>
         </div>
@@ -154,15 +157,17 @@ export default function BalanceSheet({
               </Alert>
             )}
 
-            {/* Two-Column Layout with Aligned Tables */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:items-stretch">
+            {/* Two-Column Layout with Aligned Tables (wider screens only with the previous year columns) */}
+            <div className={`grid grid-cols-1 gap-8 ${showPreviousYear ? '2xl:grid-cols-2 2xl:items-stretch' : 'lg:grid-cols-2 lg:items-stretch'}`}>
               {/* AKTIVA (Assets) */}
               <BalanceSheetSection
                 title="Aktiva (Assets)"
                 sections={balanceSheet.aktiva.sections}
                 total={balanceSheet.aktiva.total}
+                previousTotal={balanceSheet.aktiva.previousTotal}
                 fiscalYearId={selectedFiscalYearId}
-                showPreviousYear={SHOW_PREVIOUS_YEAR}
+                showPreviousYear={showPreviousYear}
+                previousYear={previousYear}
               />
 
               {/* PASSIVA (Liabilities & Equity) */}
@@ -170,8 +175,10 @@ export default function BalanceSheet({
                 title="Passiva (Liabilities & Equity)"
                 sections={balanceSheet.passiva.sections}
                 total={balanceSheet.passiva.total}
+                previousTotal={balanceSheet.passiva.previousTotal}
                 fiscalYearId={selectedFiscalYearId}
-                showPreviousYear={SHOW_PREVIOUS_YEAR}
+                showPreviousYear={showPreviousYear}
+                previousYear={previousYear}
               />
             </div>
 
@@ -180,7 +187,8 @@ export default function BalanceSheet({
               <GuVSection
                 guv={balanceSheet.guv}
                 fiscalYearId={selectedFiscalYearId}
-                showPreviousYear={SHOW_PREVIOUS_YEAR}
+                showPreviousYear={showPreviousYear}
+                previousYear={previousYear}
               />
             )}
 
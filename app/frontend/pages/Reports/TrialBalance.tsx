@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react'
+import { Head, router } from '@inertiajs/react'
+import { AppLayout } from '@/components/AppLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { FiscalYearStatusBadge } from '@/components/FiscalYearStatusBadge'
+import { AccountLedgerPopover } from '@/components/accounts/AccountLedgerPopover'
+import { AlertCircle, Download, FileText } from 'lucide-react'
+import { formatCurrency } from '@/utils/formatting'
+import { FiscalYear, TrialBalanceAmounts, TrialBalanceData } from '@/types/accounting'
+
+interface TrialBalanceProps {
+  company: { id: number; name: string; chartOfAccounts: string }
+  fiscalYears: FiscalYear[]
+  selectedFiscalYearId: number | null
+  trialBalance: TrialBalanceData | null
+  errors: string[]
+}
+
+type PeriodType = 'year' | 'quarter' | 'month' | 'custom'
+
+interface Period {
+  label: string
+  from: string
+  to: string
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Months or quarters of the fiscal year, counted from its start date
+function periodsOf(fiscalYear: FiscalYear, months: number): Period[] {
+  const periods: Period[] = []
+  const end = new Date(`${fiscalYear.endDate}T00:00:00Z`)
+  let start = new Date(`${fiscalYear.startDate}T00:00:00Z`)
+
+  while (start <= end) {
+    const next = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1))
+    const last = new Date(Math.min(next.getTime() - 86400000, end.getTime()))
+    const label = months === 1
+      ? start.toLocaleDateString('de-DE', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+      : `Q${periods.length + 1} ${start.getUTCFullYear()}`
+    periods.push({ label, from: toIsoDate(start), to: toIsoDate(last) })
+    start = next
+  }
+
+  return periods
+}
+
+// Balances as amount with Soll/Haben marker
+function formatBalance(amount: number): string {
+  if (amount === 0) return '–'
+  return `${formatCurrency(Math.abs(amount))} ${amount > 0 ? 'S' : 'H'}`
+}
+
+function formatSum(amount: number): string {
+  return amount === 0 ? '–' : formatCurrency(amount)
+}
+
+function AmountCells({ amounts }: { amounts: TrialBalanceAmounts }) {
+  return (
+    <>
+      <td className="py-1.5 px-2 text-right font-mono text-sm">{formatBalance(amounts.openingBalance)}</td>
+      <td className="py-1.5 px-2 text-right font-mono text-sm">{formatSum(amounts.periodDebit)}</td>
+      <td className="py-1.5 px-2 text-right font-mono text-sm">{formatSum(amounts.periodCredit)}</td>
+      <td className="py-1.5 px-2 text-right font-mono text-sm">{formatSum(amounts.ytdDebit)}</td>
+      <td className="py-1.5 px-2 text-right font-mono text-sm">{formatSum(amounts.ytdCredit)}</td>
+      <td className="py-1.5 px-2 text-right font-mono text-sm">{formatBalance(amounts.closingBalance)}</td>
+    </>
+  )
+}
+
+export default function TrialBalance({
+  company,
+  fiscalYears,
+  selectedFiscalYearId,
+  trialBalance,
+  errors,
+}: TrialBalanceProps) {
+  const selectedFiscalYear = fiscalYears.find((fy) => fy.id === selectedFiscalYearId)
+  const months = selectedFiscalYear ? periodsOf(selectedFiscalYear, 1) : []
+  const quarters = selectedFiscalYear ? periodsOf(selectedFiscalYear, 3) : []
+
+  const from = trialBalance?.from ?? selectedFiscalYear?.startDate ?? ''
+  const to = trialBalance?.to ?? selectedFiscalYear?.endDate ?? ''
+
+  // Derive the period selection from the shown date range
+  const initialPeriodType = (): PeriodType => {
+    if (from === selectedFiscalYear?.startDate && to === selectedFiscalYear?.endDate) return 'year'
+    if (quarters.some((q) => q.from === from && q.to === to)) return 'quarter'
+    if (months.some((m) => m.from === from && m.to === to)) return 'month'
+    return 'custom'
+  }
+
+  const [periodType, setPeriodType] = useState<PeriodType>(initialPeriodType)
+  const [customFrom, setCustomFrom] = useState(from)
+  const [customTo, setCustomTo] = useState(to)
+
+  useEffect(() => {
+    setPeriodType(initialPeriodType())
+    setCustomFrom(from)
+    setCustomTo(to)
+  }, [from, to, selectedFiscalYearId])
+
+  const visit = (params: { fiscalYearId?: number | string; from?: string; to?: string }) => {
+    const query = new URLSearchParams()
+    query.set('fiscal_year_id', String(params.fiscalYearId ?? selectedFiscalYearId ?? ''))
+    if (params.from) query.set('from', params.from)
+    if (params.to) query.set('to', params.to)
+    router.visit(`/reports/trial_balance?${query.toString()}`)
+  }
+
+  const handleFiscalYearChange = (value: string) => {
+    visit({ fiscalYearId: value })
+  }
+
+  const handlePeriodTypeChange = (value: string) => {
+    const type = value as PeriodType
+    setPeriodType(type)
+    if (type === 'year') visit({})
+    if (type === 'month' && months.length > 0) visit(months[0])
+    if (type === 'quarter' && quarters.length > 0) visit(quarters[0])
+  }
+
+  const handlePeriodChange = (value: string) => {
+    const period = [...months, ...quarters].find((p) => `${p.from}_${p.to}` === value)
+    if (period) visit(period)
+  }
+
+  const periods = periodType === 'month' ? months : quarters
+  const exportQuery = `fiscal_year_id=${selectedFiscalYearId}&from=${from}&to=${to}`
+
+  return (
+    <AppLayout company={company} currentPage="trial-balance">
+      <Head title={`Trial Balance - ${company.name}`} />
+
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Trial Balance</h1>
+            <p className="text-muted-foreground mt-1">
+              Summen- und Saldenliste nach {company.chartOfAccounts}
+            </p>
+          </div>
+          {trialBalance && (
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <a href={`/reports/trial_balance.csv?${exportQuery}`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/reports/trial_balance.pdf?${exportQuery}`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  PDF
+                </a>
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Fiscal Year and Period Selector */}
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="text-sm font-medium">Fiscal Year:</label>
+          {fiscalYears.length > 0 ? (
+            <Select
+              value={selectedFiscalYearId?.toString()}
+              onValueChange={handleFiscalYearChange}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select fiscal year" />
+              </SelectTrigger>
+              <SelectContent>
+                {fiscalYears.map((fy) => (
+                  <SelectItem key={fy.id} value={fy.id.toString()}>
+                    {fy.year} {fy.closed && '(Closed)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="text-sm text-muted-foreground">
+              No fiscal years found
+            </span>
+          )}
+
+          {selectedFiscalYear && (
+            <>
+              <label className="text-sm font-medium">Period:</label>
+              <Select value={periodType} onValueChange={handlePeriodTypeChange}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="year">Fiscal year</SelectItem>
+                  <SelectItem value="quarter">Quarter</SelectItem>
+                  <SelectItem value="month">Month</SelectItem>
+                  <SelectItem value="custom">Custom range</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {(periodType === 'month' || periodType === 'quarter') && (
+                <Select value={`${from}_${to}`} onValueChange={handlePeriodChange}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Select period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {periods.map((period) => (
+                      <SelectItem key={period.from} value={`${period.from}_${period.to}`}>
+                        {period.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {periodType === 'custom' && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    className="w-[160px]"
+                    value={customFrom}
+                    min={selectedFiscalYear.startDate}
+                    max={selectedFiscalYear.endDate}
+                    onChange={(e) => setCustomFrom(e.target.value)}
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    className="w-[160px]"
+                    value={customTo}
+                    min={selectedFiscalYear.startDate}
+                    max={selectedFiscalYear.endDate}
+                    onChange={(e) => setCustomTo(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => visit({ from: customFrom, to: customTo })}
+                    disabled={!customFrom || !customTo}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              )}
+
+              <FiscalYearStatusBadge workflowState={selectedFiscalYear.workflowState} />
+            </>
+          )}
+        </div>
+
+        {/* Errors */}
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {errors.map((error, index) => (
+                <div key={index}>{error}</div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* No Fiscal Years */}
+        {fiscalYears.length === 0 && (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <div className="rounded-full bg-primary/10 p-3 mb-4">
+                <FileText className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="font-semibold mb-1">No fiscal years found</h3>
+              <p className="text-sm text-muted-foreground text-center max-w-sm">
+                Please create a fiscal year first to generate a trial balance.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Trial Balance */}
+        {trialBalance && trialBalance.groups.length === 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              No posted journal entries found for this fiscal year.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {trialBalance && trialBalance.groups.length > 0 && (
+          <Card>
+            <CardContent className="pt-6 overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b text-xs text-muted-foreground">
+                    <th className="py-2 px-2 text-left font-medium">Account</th>
+                    <th className="py-2 px-2 text-right font-medium">EB-Wert</th>
+                    <th className="py-2 px-2 text-right font-medium">Debit (period)</th>
+                    <th className="py-2 px-2 text-right font-medium">Credit (period)</th>
+                    <th className="py-2 px-2 text-right font-medium">Debit (YTD)</th>
+                    <th className="py-2 px-2 text-right font-medium">Credit (YTD)</th>
+                    <th className="py-2 px-2 text-right font-medium">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trialBalance.groups.map((group) => (
+                    <GroupRows key={group.key} group={group} fiscalYearId={selectedFiscalYearId} />
+                  ))}
+                  <tr className="border-t-2 font-bold">
+                    <td className="py-2 px-2">Total</td>
+                    <AmountCells amounts={trialBalance.totals} />
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
+
+function GroupRows({
+  group,
+  fiscalYearId,
+}: {
+  group: TrialBalanceData['groups'][number]
+  fiscalYearId: number | null
+}) {
+  return (
+    <>
+      <tr>
+        <td colSpan={7} className="py-2 pt-4 px-2 font-semibold">
+          {group.name}
+        </td>
+      </tr>
+      {group.accounts.map((account) => (
+        <tr key={account.id} className="hover:bg-accent/50 transition-colors">
+          <td className="py-1.5 px-2 pl-6">
+            <div className="flex items-center gap-2">
+              {fiscalYearId ? (
+                <AccountLedgerPopover accountId={account.id} fiscalYearId={fiscalYearId}>
+                  <button className="font-mono text-xs text-muted-foreground hover:text-primary hover:underline cursor-pointer transition-colors">
+                    {account.code}
+                  </button>
+                </AccountLedgerPopover>
+              ) : (
+                <span className="font-mono text-xs text-muted-foreground">{account.code}</span>
+              )}
+              <span className="text-sm">{account.name}</span>
+            </div>
+          </td>
+          <AmountCells amounts={account} />
+        </tr>
+      ))}
+      <tr className="border-t font-semibold">
+        <td className="py-1.5 px-2 pl-6 text-sm">Total {group.name}</td>
+        <AmountCells amounts={group.totals} />
+      </tr>
+    </>
+  )
+}
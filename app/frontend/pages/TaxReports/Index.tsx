@@ -72,7 +72,7 @@ export default function Index({ company, taxReports, calendarYears }: TaxReports
         </div>
 
         {/* Missing Reports Alert */}
-        {missingUstvaMonthly.length > 0 && selectedReportType !== 'kst' && (
+        {missingUstvaMonthly.length > 0 && (selectedReportType === 'all' || selectedReportType === 'ustva') && (
           <MissingReportsAlert
             calendarYear={selectedYear}
             reportType="ustva"
@@ -112,7 +112,10 @@ export default function Index({ company, taxReports, calendarYears }: TaxReports
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
                   <SelectItem value="ustva">UStVA</SelectItem>
+                  <SelectItem value="zusammenfassende_meldung">ZM</SelectItem>
+                  <SelectItem value="umsatzsteuer">USt</SelectItem>
                   <SelectItem value="kst">KSt</SelectItem>
+                  <SelectItem value="gewerbesteuer">GewSt</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -28,6 +28,9 @@ export default function New({ company, fiscalYears, reportTypes, errors }: TaxRe
 
   const availableYears = fiscalYears.map(fy => fy.year)
 
+  // KSt and GewSt are calculated per fiscal year
+  const usesFiscalYear = reportType === 'kst' || reportType === 'gewerbesteuer'
+
   // Get available period types for selected report type
   const availablePeriodTypes = useMemo(() => {
     if (!reportType || !reportTypes[reportType]) return []
@@ -86,7 +89,7 @@ export default function New({ company, fiscalYears, reportTypes, errors }: TaxRe
   const canGenerate = useMemo(() => {
     if (!reportType || !periodType) return false
 
-    if (reportType === 'kst') {
+    if (usesFiscalYear) {
       return !!selectedFiscalYearId
     }
 
@@ -107,7 +110,7 @@ export default function New({ company, fiscalYears, reportTypes, errors }: TaxRe
       }
     }
 
-    if (reportType === 'kst') {
+    if (usesFiscalYear) {
       payload.tax_report.fiscal_year_id = parseInt(selectedFiscalYearId)
       // Use fiscal year dates
       const fiscalYear = fiscalYears.find(fy => fy.id === parseInt(selectedFiscalYearId))
@@ -219,14 +222,14 @@ export default function New({ company, fiscalYears, reportTypes, errors }: TaxRe
             <CardHeader>
               <CardTitle>Step 3: Select Period</CardTitle>
               <CardDescription>
-                {reportType === 'kst'
+                {usesFiscalYear
                   ? 'Choose the fiscal year for this report'
                   : 'Choose the specific time period for this report'}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {reportType === 'kst' ? (
-                // KSt uses fiscal years
+              {usesFiscalYear ? (
+                // KSt and GewSt use fiscal years
                 <div>
                   <Label htmlFor="fiscal-year">Fiscal Year</Label>
                   <Select value={selectedFiscalYearId} onValueChange={setSelectedFiscalYearId}>
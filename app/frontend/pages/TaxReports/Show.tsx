@@ -4,11 +4,14 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { AlertCircle, Save, ArrowLeft, Edit } from 'lucide-react'
+import { AlertCircle, Save, ArrowLeft, Edit, Download } from 'lucide-react'
 import { TaxReportSection } from '@/components/tax-reports/TaxReportSection'
 import { ReportTypeBadge } from '@/components/tax-reports/ReportTypeBadge'
+import { ZmReport } from '@/components/tax-reports/ZmReport'
+import { GewstReport } from '@/components/tax-reports/GewstReport'
+import { UmsatzsteuerReport } from '@/components/tax-reports/UmsatzsteuerReport'
 import { formatCurrency, formatDate } from '@/utils/formatting'
-import type { Company, TaxReportSummary, TaxReportData, KstData, FiscalYear } from '@/types/tax-reports'
+import type { Company, TaxReportSummary, TaxReportData, KstData, GewstData, FiscalYear } from '@/types/tax-reports'
 import { useState, useMemo } from 'react'
 
 interface TaxReportsShowProps {
@@ -31,9 +34,14 @@ export default function Show({
   const [adjustments, setAdjustments] = useState<Record<string, number>>({})
   const [isSaving, setIsSaving] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportErrors, setExportErrors] = useState<string[]>([])
 
   const isUstva = reportData.reportType === 'ustva'
   const isKst = reportData.reportType === 'kst'
+  const isZm = reportData.reportType === 'zusammenfassende_meldung'
+  const isGewst = reportData.reportType === 'gewerbesteuer'
+  const isUst = reportData.reportType === 'umsatzsteuer'
 
   // Handle KSt adjustment changes
   const handleAdjustmentChange = (key: string, value: number) => {
@@ -49,17 +57,17 @@ export default function Show({
     const payload: any = {
       tax_report: {
         report_type: reportData.reportType,
-        period_type: isUstva ? reportData.periodType : 'annual',
-        start_date: isUstva ? reportData.startDate : (reportData as KstData).fiscalYearId,
-        end_date: isUstva ? reportData.endDate : (reportData as KstData).year,
+        period_type: 'fiscalYearId' in reportData ? 'annual' : reportData.periodType,
+        start_date: 'fiscalYearId' in reportData ? reportData.fiscalYearId : reportData.startDate,
+        end_date: 'fiscalYearId' in reportData ? reportData.year : reportData.endDate,
         generated_data: reportData
       }
     }
 
-    if (isKst) {
-      const kstData = reportData as KstData
-      payload.tax_report.fiscal_year_id = kstData.fiscalYearId
-      const fiscalYear = fiscalYears.find(fy => fy.id === kstData.fiscalYearId)
+    // KSt and GewSt are saved for the fiscal year
+    if ('fiscalYearId' in reportData) {
+      payload.tax_report.fiscal_year_id = reportData.fiscalYearId
+      const fiscalYear = fiscalYears.find(fy => fy.id === reportData.fiscalYearId)
       if (fiscalYear) {
         payload.tax_report.start_date = fiscalYear.startDate
         payload.tax_report.end_date = fiscalYear.endDate
@@ -69,9 +77,9 @@ export default function Show({
     router.post('/tax_reports', payload)
   }
 
-  // Update KSt adjustments
+  // Update KSt, GewSt and USt adjustments
   const handleUpdateAdjustments = () => {
-    if (!taxReport || !isKst) return
+    if (!taxReport || !(isKst || isGewst || isUst)) return
 
     setIsUpdating(true)
 
@@ -82,6 +90,41 @@ export default function Show({
     })
   }
 
+  // Download the saved UStVA as ELSTER-XML or the ZM as BZSt CSV; the server blocks
+  // the export when master data or customer USt-IdNrn. are missing
+  const handleExport = async (format: 'elster_xml' | 'bzst_csv', fallbackFilename: string) => {
+    if (!taxReport) return
+
+    setIsExporting(true)
+    setExportErrors([])
+
+    try {
+      const response = await fetch(`/tax_reports/${taxReport.id}/${format}`)
+
+      if (!response.ok) {
+        const data = await response.json()
+        setExportErrors(data.errors || ['Export failed'])
+        return
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackFilename
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setExportErrors(['An error occurred during the export'])
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const allErrors = [...(errors || []), ...exportErrors]
+
   // Check if adjustments have been modified
   const hasModifiedAdjustments = useMemo(() => {
     return Object.keys(adjustments).length > 0
@@ -115,8 +158,9 @@ export default function Show({
                 )}
               </div>
               <p className="text-muted-foreground">
-                {isUstva && `${reportData.periodType} report for ${reportData.startDate} - ${reportData.endDate}`}
-                {isKst && `Annual report for fiscal year ${(reportData as KstData).year}`}
+                {(isUstva || isZm) && `${reportData.periodType} report for ${reportData.startDate} - ${reportData.endDate}`}
+                {isUst && `Annual return for ${reportData.year}`}
+                {(isKst || isGewst) && `Annual report for fiscal year ${(reportData as KstData | GewstData).year}`}
               </p>
             </div>
           </div>
@@ -127,7 +171,19 @@ export default function Show({
                 {isSaving ? 'Saving...' : 'Save Report'}
               </Button>
             )}
-            {!isPreview && isKst && taxReport?.editable && hasModifiedAdjustments && (
+            {!isPreview && isUstva && taxReport && (
+              <Button variant="outline" onClick={() => handleExport('elster_xml', 'UStVA.xml')} disabled={isExporting}>
+                <Download className="w-4 h-4 mr-2" />
+                {isExporting ? 'Exporting...' : 'ELSTER XML'}
+              </Button>
+            )}
+            {!isPreview && isZm && taxReport && (
+              <Button variant="outline" onClick={() => handleExport('bzst_csv', 'ZM.csv')} disabled={isExporting}>
+                <Download className="w-4 h-4 mr-2" />
+                {isExporting ? 'Exporting...' : 'BZSt CSV'}
+              </Button>
+            )}
+            {!isPreview && (isKst || isGewst || isUst) && taxReport?.editable && hasModifiedAdjustments && (
               <Button onClick={handleUpdateAdjustments} disabled={isUpdating}>
                 <Edit className="w-4 h-4 mr-2" />
                 {isUpdating ? 'Updating...' : 'Update Adjustments'}
@@ -137,12 +193,12 @@ export default function Show({
         </div>
 
         {/* Errors */}
-        {errors && errors.length > 0 && (
+        {allErrors.length > 0 && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
               <ul className="list-disc list-inside">
-                {errors.map((error, index) => (
+                {allErrors.map((error, index) => (
                   <li key={index}>{error}</li>
                 ))}
               </ul>
@@ -159,12 +215,18 @@ export default function Show({
                   <ReportTypeBadge reportType={reportData.reportType} />
                   <span>
                     {isUstva && 'Umsatzsteuervoranmeldung (UStVA)'}
+                    {isZm && 'Zusammenfassende Meldung (ZM)'}
                     {isKst && 'Körperschaftsteuer (KSt)'}
+                    {isGewst && 'Gewerbesteuer (GewSt)'}
+                    {isUst && 'Umsatzsteuererklärung (USt)'}
                   </span>
                 </CardTitle>
                 <CardDescription>
                   {isUstva && `VAT Advance Return - ${reportData.periodType}`}
+                  {isZm && `EC Sales List - ${reportData.periodType}`}
                   {isKst && 'Corporate Income Tax'}
+                  {isGewst && 'Trade Tax'}
+                  {isUst && `Annual VAT Return - reconciled with the ${reportData.filingPeriodType} UStVAs`}
                 </CardDescription>
               </div>
             </div>
@@ -174,15 +236,15 @@ export default function Show({
               <div>
                 <span className="text-muted-foreground">Period:</span>
                 <div className="font-medium">
-                  {isUstva && `${formatDate(reportData.startDate)} - ${formatDate(reportData.endDate)}`}
-                  {isKst && (reportData as KstData).year}
+                  {(isUstva || isZm || isUst) && `${formatDate(reportData.startDate)} - ${formatDate(reportData.endDate)}`}
+                  {(isKst || isGewst) && (reportData as KstData | GewstData).year}
                 </div>
               </div>
               <div>
                 <span className="text-muted-foreground">Calculated:</span>
                 <div className="font-medium">{formatDate(reportData.metadata.calculationDate)}</div>
               </div>
-              {isUstva && (
+              {(isUstva || isZm || isUst) && (
                 <div>
                   <span className="text-muted-foreground">Journal Entries:</span>
                   <div className="font-medium">{reportData.metadata.journalEntriesCount}</div>
@@ -196,6 +258,22 @@ export default function Show({
                   </div>
                 </div>
               )}
+              {isUst && (
+                <div>
+                  <span className="text-muted-foreground">Saved UStVAs:</span>
+                  <div className="font-medium">
+                    {reportData.metadata.ustvaReportsCount} of {reportData.periods.length}
+                  </div>
+                </div>
+              )}
+              {isGewst && (
+                <div>
+                  <span className="text-muted-foreground">KSt Source:</span>
+                  <div className="font-medium">
+                    {(reportData as GewstData).metadata.savedKstReport ? 'Saved KSt report' : 'Calculated without KSt adjustments'}
+                  </div>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -203,26 +281,16 @@ export default function Show({
         {/* UStVA Report */}
         {isUstva && (
           <>
-            <TaxReportSection
-              title="Umsatzsteuer (Output VAT)"
-              fields={reportData.sections.outputVat.fields}
-              subtotal={reportData.sections.outputVat.subtotal}
-              showFieldNumbers={true}
-            />
-
-            <TaxReportSection
-              title="Abziehbare Vorsteuer (Input VAT)"
-              fields={reportData.sections.inputVat.fields}
-              subtotal={reportData.sections.inputVat.subtotal}
-              showFieldNumbers={true}
-            />
-
-            <TaxReportSection
-              title="Reverse Charge (§ 13b UStG)"
-              fields={reportData.sections.reverseCharge.fields}
-              subtotal={reportData.sections.reverseCharge.subtotal}
-              showFieldNumbers={true}
-            />
+            {Object.entries(reportData.sections).map(([key, section]) => (
+              <TaxReportSection
+                key={key}
+                title={section.label}
+                fields={section.fields}
+                subtotal={section.subtotal}
+                baseSubtotal={section.baseSubtotal}
+                showFieldNumbers={true}
+              />
+            ))}
 
             {/* Net VAT Liability */}
             <Card className="border-2 border-primary">
@@ -243,6 +311,27 @@ export default function Show({
           </>
         )}
 
+        {/* ZM Report */}
+        {isZm && <ZmReport reportData={reportData} />}
+
+        {/* GewSt Report */}
+        {isGewst && (
+          <GewstReport
+            reportData={reportData}
+            editable={taxReport?.editable ?? isPreview}
+            onAdjustmentChange={handleAdjustmentChange}
+          />
+        )}
+
+        {/* USt Report */}
+        {isUst && (
+          <UmsatzsteuerReport
+            reportData={reportData}
+            editable={taxReport?.editable ?? isPreview}
+            onAdjustmentChange={handleAdjustmentChange}
+          />
+        )}
+
         {/* KSt Report */}
         {isKst && (
           <>
@@ -0,0 +1,302 @@
+import { useState } from 'react'
+import { Head, router } from '@inertiajs/react'
+import { AppLayout } from '@/components/AppLayout'
+import { VoucherNumberRangeModal } from '@/components/voucher-numbers/VoucherNumberRangeModal'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, CheckCircle2, Hash, PenLine, Plus, Trash2 } from 'lucide-react'
+import { formatDate } from '@/utils/formatting'
+import type { VoucherNumberRange } from '@/types/accounting'
+
+interface ReportEntry {
+  id: number
+  bookingDate: string
+  description: string
+}
+
+interface VoucherNumberReport {
+  clean: boolean
+  ranges: {
+    rangeId: number
+    name: string
+    count: number
+    firstNumber: string | null
+    lastNumber: string | null
+    missingNumbers: string[]
+  }[]
+  duplicates: {
+    voucherNumber: string
+    entries: ReportEntry[]
+  }[]
+  unnumberedEntries: ReportEntry[]
+}
+
+interface VoucherNumberRangesIndexProps {
+  company: {
+    id: number
+    name: string
+  }
+  voucherNumberRanges: VoucherNumberRange[]
+  fiscalYears: { id: number; year: number }[]
+  selectedFiscalYearId: number | null
+  report: VoucherNumberReport | null
+}
+
+const DEFAULT_FOR_LABELS = {
+  manual: 'Manual entries',
+  bank: 'Bank bookings',
+}
+
+const entryLink = (entry: ReportEntry) => (
+  <a key={entry.id} href={`/journal_entries#journal-entry-${entry.id}`} className="block underline">
+    {formatDate(entry.bookingDate)} – {entry.description}
+  </a>
+)
+
+export default function VoucherNumberRangesIndex({
+  company,
+  voucherNumberRanges,
+  fiscalYears,
+  selectedFiscalYearId,
+  report,
+}: VoucherNumberRangesIndexProps) {
+  const [modalOpen, setModalOpen] = useState(false)
+  const [editingRange, setEditingRange] = useState<VoucherNumberRange | null>(null)
+
+  const handleNew = () => {
+    setEditingRange(null)
+    setModalOpen(true)
+  }
+
+  const handleEdit = (range: VoucherNumberRange) => {
+    setEditingRange(range)
+    setModalOpen(true)
+  }
+
+  const handleDelete = async (range: VoucherNumberRange) => {
+    if (!confirm(`Delete number range "${range.name}"?`)) return
+
+    try {
+      const response = await fetch(`/voucher_number_ranges/${range.id}`, {
+        method: 'DELETE',
+        headers: {
+          'X-CSRF-Token': document.querySelector('meta[name="csrf-token"]')?.getAttribute('content') || '',
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        router.reload()
+      } else {
+        alert(data.errors?.join(', ') || 'Failed to delete number range')
+      }
+    } catch (err) {
+      alert('An error occurred while deleting the number range')
+    }
+  }
+
+  const selectedYear = fiscalYears.find((fy) => fy.id === selectedFiscalYearId)
+
+  return (
+    <AppLayout company={company} currentPage="voucher-numbers">
+      <Head title={`Voucher Numbers - ${company.name}`} />
+
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Voucher Numbers</h2>
+          <p className="text-sm text-muted-foreground">
+            Number ranges (Belegnummernkreise) assign gapless voucher numbers when entries are posted
+          </p>
+        </div>
+        <Button onClick={handleNew} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Range
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Number Ranges</CardTitle>
+            <CardDescription>
+              Entries without a chosen range use the default range for manual or bank bookings.
+              Opening and closing entries are only numbered when a range is chosen.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {voucherNumberRanges.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="rounded-full bg-muted p-4 mb-4">
+                  <Hash className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <p className="text-muted-foreground mb-4">
+                  No number ranges yet, posted entries stay without voucher number.
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Pattern</TableHead>
+                    <TableHead>Next Number{selectedYear && ` (${selectedYear.year})`}</TableHead>
+                    <TableHead>Default for</TableHead>
+                    <TableHead className="w-[100px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {voucherNumberRanges.map((range) => (
+                    <TableRow key={range.id}>
+                      <TableCell className="font-medium">{range.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{range.pattern}</TableCell>
+                      <TableCell className="font-mono text-sm">{range.nextNumber || '-'}</TableCell>
+                      <TableCell>
+                        {range.defaultFor ? (
+                          <Badge variant="secondary">{DEFAULT_FOR_LABELS[range.defaultFor]}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(range)} title="Edit range">
+                            <PenLine className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(range)} title="Delete range">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Gap and Duplicate Report</CardTitle>
+              <CardDescription>Checks the voucher numbers of all posted entries in a fiscal year</CardDescription>
+            </div>
+            {fiscalYears.length > 0 && (
+              <Select
+                value={selectedFiscalYearId?.toString() || ''}
+                onValueChange={(value) => router.visit(`/voucher_number_ranges?fiscal_year_id=${value}`)}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Fiscal year" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fiscalYears.map((fy) => (
+                    <SelectItem key={fy.id} value={fy.id.toString()}>{fy.year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!report ? (
+              <p className="text-sm text-muted-foreground">No fiscal years found</p>
+            ) : (
+              <>
+                {report.clean ? (
+                  <Alert>
+                    <CheckCircle2 className="h-4 w-4" />
+                    <AlertDescription>No gaps or duplicate voucher numbers.</AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>The voucher numbers of this fiscal year have gaps or duplicates.</AlertDescription>
+                  </Alert>
+                )}
+
+                {report.ranges.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Range</TableHead>
+                        <TableHead className="text-right">Entries</TableHead>
+                        <TableHead>First</TableHead>
+                        <TableHead>Last</TableHead>
+                        <TableHead>Missing Numbers</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.ranges.map((summary) => (
+                        <TableRow key={summary.rangeId}>
+                          <TableCell className="font-medium">{summary.name}</TableCell>
+                          <TableCell className="text-right">{summary.count}</TableCell>
+                          <TableCell className="font-mono text-sm">{summary.firstNumber || '-'}</TableCell>
+                          <TableCell className="font-mono text-sm">{summary.lastNumber || '-'}</TableCell>
+                          <TableCell className="font-mono text-sm text-destructive">
+                            {summary.missingNumbers.join(', ') || <span className="text-muted-foreground">-</span>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {report.duplicates.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Duplicate voucher numbers</p>
+                    <Table>
+                      <TableBody>
+                        {report.duplicates.map((duplicate) => (
+                          <TableRow key={duplicate.voucherNumber}>
+                            <TableCell className="font-mono text-sm w-[180px] align-top">{duplicate.voucherNumber}</TableCell>
+                            <TableCell className="text-sm">{duplicate.entries.map(entryLink)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {report.unnumberedEntries.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">
+                      Posted entries without voucher number ({report.unnumberedEntries.length})
+                    </p>
+                    <div className="text-sm text-muted-foreground max-h-48 overflow-y-auto">
+                      {report.unnumberedEntries.map(entryLink)}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <VoucherNumberRangeModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        range={editingRange}
+        onSaved={() => router.reload()}
+      />
+    </AppLayout>
+  )
+}
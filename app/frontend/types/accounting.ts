@@ -1,11 +1,14 @@
 // TypeScript type definitions for accounting data structures
 
+import type { JournalEntryLink } from './journal-entries'
+
 // Account balance interface (shared by Balance Sheet and GuV)
 export interface AccountBalance {
   id?: number  // Optional, needed for ledger popover integration
   code: string
   name: string
   balance: number
+  previousBalance?: number  // Set when the previous year is compared
 }
 
 // GuV Section
@@ -14,6 +17,7 @@ export interface GuVSection {
   label: string
   accounts: AccountBalance[]
   subtotal: number
+  previousSubtotal?: number
   displayType: 'positive' | 'negative' | 'neutral'
 }
 
@@ -22,6 +26,7 @@ export interface GuVData {
   sections: GuVSection[]
   netIncome: number
   netIncomeLabel: string
+  previousNetIncome?: number
 }
 
 // Fiscal Year
@@ -50,6 +55,213 @@ export interface BankTransaction {
   config: Record<string, unknown>
   journalEntryId: number | null
   journalEntryPosted: boolean | null
+  voucherNumber: string | null
+}
+
+// Target fields a CSV column can be mapped to in an import profile
+export type ImportProfileField =
+  | 'booking_date'
+  | 'value_date'
+  | 'amount'
+  | 'debit_amount'
+  | 'credit_amount'
+  | 'direction_indicator'
+  | 'remittance_information'
+  | 'counterparty_name'
+  | 'counterparty_iban'
+
+export type ImportSignConvention = 'signed' | 'inverted' | 'split_columns' | 'indicator'
+
+// Saved CSV import profile (column mapping) of a bank account
+export interface BankImportProfile {
+  id: number
+  name: string
+  skipLines: number
+  hasHeader: boolean
+  delimiter: string
+  quoteChar: string
+  dateFormat: string
+  decimalSeparator: ',' | '.'
+  signConvention: ImportSignConvention
+  columnMapping: Partial<Record<ImportProfileField, number | number[]>>
+}
+
+// VAT handling when booking a bank transaction
+export type VatMode = 'none' | 'vat_19' | 'vat_7' | 'reverse_charge'
+
+// Company rule that books matching bank transactions automatically
+export interface BookingRule {
+  id: number | null
+  name: string
+  position: number
+  active: boolean
+  counterpartyIban: string | null
+  counterpartyName: string | null
+  remittancePattern: string | null
+  amountMin: number | null
+  amountMax: number | null
+  direction: 'any' | 'inflow' | 'outflow'
+  accountCode: string | null
+  accountName: string | null
+  vatMode: VatMode
+  descriptionTemplate: string | null
+}
+
+// Belegnummernkreis; defaultFor marks the range used for manual or bank bookings
+export interface VoucherNumberRange {
+  id: number | null
+  name: string
+  pattern: string
+  defaultFor: 'manual' | 'bank' | null
+  nextNumber?: string | null
+}
+
+export type RecurringFrequency = 'monthly' | 'quarterly' | 'yearly'
+
+// Line of a recurring entry template; formulas may use balance(<code>), period, month, quarter, year, days
+export interface RecurringEntryLine {
+  accountCode: string
+  accountName: string | null
+  direction: 'debit' | 'credit'
+  amountType: 'fixed' | 'formula'
+  amount: number | null
+  formula: string | null
+  description: string | null
+}
+
+export interface RecurringEntryHistoryEntry {
+  id: number
+  bookingDate: string
+  description: string
+  amount: number
+  postedAt: string | null
+  voucherNumber: string | null
+}
+
+export interface RecurringEntryTemplate {
+  id: number
+  name: string
+  description: string
+  frequency: RecurringFrequency
+  dayOfMonth: number
+  startDate: string
+  endDate: string | null
+  active: boolean
+  nextDate: string | null
+  lines: RecurringEntryLine[]
+  history?: RecurringEntryHistoryEntry[]
+}
+
+// Scheduled entry of a template that has not been generated yet
+export interface DueRecurringEntry {
+  templateId: number
+  templateName: string
+  bookingDate: string
+  description: string
+  amount: number
+  problems: string[]
+}
+
+export type TaxKeyKind = 'input' | 'output' | 'reverse_charge'
+
+// BU-Schlüssel (DATEV tax key) that splits a gross amount into net and VAT
+export interface TaxKey {
+  code: string
+  name: string
+  kind: TaxKeyKind
+  rate: number
+  vatAccountCode: string
+  // §13b: account of the output VAT owed by the recipient
+  reverseChargeAccountCode: string | null
+}
+
+// Role of an account in the company's chart of accounts (see AccountRoles)
+export type AccountRole = 'bank'
+
+// Chart of accounts that can be chosen on onboarding
+export interface ChartOption {
+  name: string
+  description: string | null
+}
+
+// Company account as edited in the chart of accounts form. A null cid places the
+// account by its code (defaultCid); sectionLocked once it was reported in a closed year
+export interface EditableAccount {
+  id: number | null
+  code: string
+  name: string
+  accountType: string
+  taxRate: number
+  taxKeyCode: string | null
+  presentationRule: string | null
+  cid: string | null
+  defaultCid: string | null
+  isSystemAccount: boolean
+  sectionLocked: boolean
+}
+
+// Balance sheet position or GuV section an account can be assigned to
+export interface AccountSection {
+  cid: string
+  name: string
+  accountType: string
+}
+
+export interface AccountFormOptions {
+  sections: AccountSection[]
+  taxKeys: TaxKey[]
+  presentationRules: { id: string; name: string }[]
+  codeRanges: { name: string; from: string; to: string }[]
+}
+
+export type ImportDuplicateStatus = 'new' | 'exact_duplicate' | 'probable_duplicate'
+
+// Parsed statement row in the import preview, compared with existing transactions
+export interface ImportPreviewTransaction {
+  index: number
+  booking_date: string
+  value_date: string | null
+  amount: number
+  remittance_information: string | null
+  counterparty_name: string | null
+  counterparty_iban: string | null
+  remote_transaction_id?: string | null
+  end_to_end_id?: string | null
+  duplicate_status: ImportDuplicateStatus
+  // Same bank reference: importing again is not possible
+  reference_match: boolean
+  duplicate_of: {
+    id: number
+    booking_date: string
+    amount: number
+    remittance_information: string | null
+    counterparty_name: string | null
+    status: BankTransaction['status']
+  } | null
+}
+
+// Statement closing balance compared with the bank's ledger account
+export interface BankReconciliationRow {
+  id: number
+  balanceDate: string
+  source: 'manual' | 'camt' | 'mt940'
+  statementReference: string | null
+  bankBalance: number
+  ledgerBalance: number
+  difference: number
+  matched: boolean
+  // Booked transactions up to the date that can be marked as reconciled
+  reconcilableCount: number
+  pendingTransactions: BankTransaction[]
+  mismatchedTransactions: (BankTransaction & { reason: string })[]
+  // Ledger lines on the bank account without a bank transaction
+  unlinkedLineItems: {
+    id: number
+    journalEntryId: number
+    bookingDate: string
+    description: string
+    amount: number
+  }[]
 }
 
 // Balance Sheet Data Structure
@@ -58,15 +270,23 @@ export interface BalanceSheetData {
   aktiva: {
     sections: Record<string, BalanceSheetSectionNested>
     total: number
+    previousTotal?: number
   }
   passiva: {
     sections: Record<string, BalanceSheetSectionNested>
     total: number
+    previousTotal?: number
   }
   balanced: boolean
   guv?: GuVData
   stored?: boolean
   postedAt?: string
+  // Fiscal year the previous-year figures come from (stored closing sheet or calculated)
+  previousYear?: {
+    fiscalYearId: number
+    year: number
+    stored: boolean
+  }
 }
 
 // Nested Balance Sheet Section (optional, for future use)
@@ -77,6 +297,8 @@ export interface BalanceSheetSectionNested {
   accounts: AccountBalance[]
   ownTotal: number
   total: number
+  previousOwnTotal?: number
+  previousTotal?: number
   accountCount: number
   totalAccountCount: number
   children?: BalanceSheetSectionNested[]
@@ -100,6 +322,8 @@ export interface LineItemDetail {
   description: string | null
   accountCode: string
   accountName: string
+  taxKeyCode: string | null
+  accountRole: AccountRole | null
 }
 
 // Line items grouped by journal entry
@@ -108,7 +332,13 @@ export interface LineItemGroup {
   bookingDate: string
   description: string
   postedAt: string | null
+  voucherNumber: string | null
+  voucherNumberRangeId: number | null
+  // USt-IdNr. of the customer, reported in the Zusammenfassende Meldung
+  counterpartyVatId: string | null
   fiscalYearClosed: boolean
+  reversalOf: JournalEntryLink | null
+  reversedBy: JournalEntryLink | null
   lineItems: LineItemDetail[]
 }
 
@@ -124,3 +354,36 @@ export interface AccountLedgerData {
   balance: number
   lineItemGroups: LineItemGroup[]
 }
+
+// Summen- und Saldenliste amounts; balances signed, debit positive
+export interface TrialBalanceAmounts {
+  openingBalance: number
+  periodDebit: number
+  periodCredit: number
+  ytdDebit: number
+  ytdCredit: number
+  closingBalance: number
+}
+
+export interface TrialBalanceRow extends TrialBalanceAmounts {
+  id: number
+  code: string
+  name: string
+  classKey: string
+  className: string
+}
+
+// Accounts of one Kontenklasse (or Debitoren/Kreditoren) with their sums
+export interface TrialBalanceGroup {
+  key: string
+  name: string
+  accounts: TrialBalanceRow[]
+  totals: TrialBalanceAmounts
+}
+
+export interface TrialBalanceData {
+  from: string
+  to: string
+  groups: TrialBalanceGroup[]
+  totals: TrialBalanceAmounts
+}
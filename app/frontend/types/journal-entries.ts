@@ -1,3 +1,5 @@
+import type { AccountRole, TaxKey } from './accounting'
+
 export interface LineItem {
   id: number
   accountCode: string
@@ -6,6 +8,16 @@ export interface LineItem {
   direction: 'debit' | 'credit'
   bankTransactionId: number | null
   description: string | null
+  // BU-Schlüssel of the net and VAT lines of a VAT booking
+  taxKeyCode: string | null
+  // Role of the account in the company's chart (SKR03/SKR04), set by the server
+  accountRole: AccountRole | null
+}
+
+// Link between a posted entry and its Storno
+export interface JournalEntryLink {
+  id: number
+  bookingDate: string
 }
 
 export interface JournalEntry {
@@ -13,8 +25,16 @@ export interface JournalEntry {
   bookingDate: string
   description: string
   postedAt: string | null
+  // Belegnummer, assigned when the entry is posted
+  voucherNumber: string | null
+  voucherNumberRangeId: number | null
+  // USt-IdNr. of the customer, reported in the Zusammenfassende Meldung
+  counterpartyVatId: string | null
+  entryType: 'normal' | 'opening' | 'closing'
   fiscalYearId: number
   fiscalYearClosed: boolean
+  reversalOf: JournalEntryLink | null
+  reversedBy: JournalEntryLink | null
   lineItems: LineItem[]
 }
 
@@ -22,6 +42,7 @@ export type VatPatternType = 'vat_expense' | 'vat_revenue' | 'reverse_charge' |
 
 export interface VatPattern {
   type: VatPatternType
+  taxKey?: TaxKey
   mainAccount: LineItem | null
   bankAccount: LineItem | null
   vatAccount?: LineItem
@@ -20,9 +20,11 @@ export interface TaxReportSummary {
 export interface TaxFormField {
   key: string
   fieldNumber?: number  // For UStVA (e.g., Kennziffer 81, 66)
+  taxFieldNumber?: number | null  // UStVA: Kennziffer of the tax where the form has a separate one (e.g., 47)
   name: string
   description?: string
-  value: number
+  value: number | null  // UStVA: null for lines that only report a tax base
+  baseValue?: number | null  // UStVA: tax base (Bemessungsgrundlage)
   editable: boolean
 }
 
@@ -31,6 +33,7 @@ export interface TaxReportSection {
   label: string
   fields: TaxFormField[]
   subtotal: number
+  baseSubtotal?: number
 }
 
 // Tax adjustment field (for KSt editable adjustments)
@@ -49,11 +52,8 @@ export interface UstvaData {
   startDate: string
   endDate: string
   fields: TaxFormField[]
-  sections: {
-    outputVat: TaxReportSection
-    inputVat: TaxReportSection
-    reverseCharge: TaxReportSection
-  }
+  // Sections in the order of the official form (outputVat, taxFreeWithInputTax, ..., inputVat)
+  sections: Record<string, TaxReportSection>
   netVatLiability: number
   metadata: {
     journalEntriesCount: number
@@ -61,6 +61,48 @@ export interface UstvaData {
   }
 }
 
+// ZM: sum per customer USt-IdNr. and Art der Leistung
+export interface ZmRow {
+  countryCode: string
+  vatNumber: string
+  vatId: string
+  supplyType: 'L' | 'S'  // L = innergemeinschaftliche Lieferung, S = sonstige Leistung
+  supplyTypeLabel: string
+  amount: number
+  entriesCount: number
+}
+
+// ZM: booking that cannot be reported without a valid customer USt-IdNr.
+export interface ZmFlaggedEntry {
+  journalEntryId: number
+  bookingDate: string
+  voucherNumber: string | null
+  description: string
+  vatId: string | null
+  supplyType: 'L' | 'S'
+  amount: number
+  reason: string
+}
+
+// Zusammenfassende Meldung report data
+export interface ZmData {
+  reportType: 'zusammenfassende_meldung'
+  periodType: 'monthly' | 'quarterly' | 'annual'
+  startDate: string
+  endDate: string
+  rows: ZmRow[]
+  totals: {
+    supplies: number
+    services: number
+    total: number
+  }
+  flaggedEntries: ZmFlaggedEntry[]
+  metadata: {
+    journalEntriesCount: number
+    calculationDate: string
+  }
+}
+
 // KSt report data
 export interface KstData {
   reportType: 'kst'
@@ -86,8 +128,135 @@ export interface KstData {
   }
 }
 
+// GewSt adjustment (Hinzurechnung, Kürzung, Gewerbeverlust or Vorauszahlungen)
+export interface GewstAdjustmentField {
+  name: string
+  description: string
+  section: 'hinzurechnungen' | 'kuerzungen' | 'verlust_und_vorauszahlungen'
+  value: number
+  editable: boolean
+}
+
+// Gewerbesteuer report data
+export interface GewstData {
+  reportType: 'gewerbesteuer'
+  fiscalYearId: number
+  year: number
+  baseData: {
+    kstTaxableIncome: number
+    kstLossCarryforward: number
+    profit: number  // Gewinn aus Gewerbebetrieb
+  }
+  adjustments: {
+    [key: string]: GewstAdjustmentField
+  }
+  calculated: {
+    hinzurechnungenFinancingSum: number
+    hinzurechnungenFreibetrag: number
+    hinzurechnungen: number
+    grundbesitzKuerzung: number
+    kuerzungen: number
+    incomeBeforeLoss: number
+    lossDeduction: number
+    remainingLoss: number
+    tradeIncome: number  // Gewerbeertrag, rounded down to full 100 euros
+    messzahl: number
+    baseAmount: number  // Steuermessbetrag
+    hebesatz: number  // percent
+    gewstAmount: number
+    prepayments: number
+    provision: number  // Rückstellung, negative for a refund claim
+  }
+  hebesatzConfigured: boolean
+  provisionBooking: {
+    expenseAccountCode: string
+    provisionAccountCode: string
+  }
+  metadata: {
+    calculationDate: string
+    savedKstReport: boolean
+  }
+}
+
+// Umsatzsteuererklärung: annual line next to the sum of the saved UStVAs
+export interface UstComparisonField {
+  key: string
+  fieldNumber?: number
+  taxFieldNumber?: number | null
+  name: string
+  description?: string
+  annualValue: number | null
+  annualBaseValue?: number | null
+  filedValue: number | null
+  filedBaseValue?: number | null
+  difference: number | null
+  baseDifference?: number | null
+}
+
+// UStVA line whose recalculated value differs from the saved one
+export interface UstChangedField {
+  key: string
+  fieldNumber?: number
+  name: string
+  filedValue: number | null
+  currentValue: number | null
+  filedBaseValue?: number | null
+  currentBaseValue?: number | null
+}
+
+// Journal entry posted after the UStVA of its period was saved
+export interface UstLateEntry {
+  journalEntryId: number
+  bookingDate: string
+  postedAt: string
+  voucherNumber: string | null
+  description: string
+}
+
+export interface UstPeriod {
+  label: string
+  startDate: string
+  endDate: string
+  taxReportId: number | null
+  status: 'draft' | 'submitted' | 'accepted' | 'missing'
+  savedAt: string | null
+  filedNetVatLiability: number | null
+  currentNetVatLiability: number
+  difference: number
+  changedFields: UstChangedField[]
+  lateEntries: UstLateEntry[]
+}
+
+export interface UstData {
+  reportType: 'umsatzsteuer'
+  periodType: 'annual'
+  startDate: string
+  endDate: string
+  year: number
+  filingPeriodType: 'monthly' | 'quarterly'
+  fields: UstComparisonField[]
+  sections: Record<string, { label: string; fields: UstComparisonField[] }>
+  adjustments: {
+    sondervorauszahlung: Omit<TaxAdjustmentField, 'adjustmentSign'>
+  }
+  totals: {
+    annualTax: number
+    filedTax: number
+    difference: number
+    sondervorauszahlung: number
+    prepaymentsDue: number  // Vorauszahlungssoll
+    remainingPayment: number  // Abschlusszahlung, negative for a refund
+  }
+  periods: UstPeriod[]
+  metadata: {
+    journalEntriesCount: number
+    ustvaReportsCount: number
+    calculationDate: string
+  }
+}
+
 // Union type for all report data
-export type TaxReportData = UstvaData | KstData
+export type TaxReportData = UstvaData | ZmData | KstData | GewstData | UstData
 
 // Missing period (for missing reports detection)
 export interface MissingPeriod {
@@ -1,15 +1,8 @@
 class Account < ApplicationRecord
   include AccountingConstants
 
-  # SKR03 VAT account codes
-  VAT_ACCOUNTS = {
-    input_19: "1576",  # Abziehbare Vorsteuer 19%
-    input_7: "1571",   # Abziehbare Vorsteuer 7%
-    output_19: "1776", # Umsatzsteuer 19%
-    output_7: "1771",  # Umsatzsteuer 7%
-    reverse_charge_input_19: "1577",  # Abziehbare Vorsteuer § 13b UStG 19%
-    reverse_charge_output_19: "1787"  # Umsatzsteuer nach § 13b UStG 19%
-  }.freeze
+  # Attributes that decide where the account's balance is reported
+  REPORTING_ATTRIBUTES = %w[code account_type cid presentation_rule].freeze
 
   # Associations
   belongs_to :company
@@ -23,6 +16,16 @@ class Account < ApplicationRecord
   validates :account_type, presence: true
   validates :tax_rate, numericality: { greater_than_or_equal_to: 0 }
   validates :account_type, inclusion: { in: ACCOUNT_TYPES }
+  validate :tax_key_must_exist
+
+  # Accounts created or edited in the chart of accounts (save(context: :account_form)).
+  # Accounts added from templates or by bookings keep the chart's own codes.
+  with_options on: :account_form do
+    validate :code_must_fit_chart, if: :code_changed?
+    validate :section_must_match_account_type
+    validate :presentation_rule_must_exist
+    validate :reported_section_must_not_change, if: :persisted?
+  end
 
   # Scopes
   scope :search_by_code_or_name, ->(query) {
@@ -32,4 +35,67 @@ class Account < ApplicationRecord
   scope :for_booking, -> {
     where(account_type: %w[asset liability expense revenue])
   }
+
+  # Default BU-Schlüssel for bookings on this account
+  def tax_key
+    return if tax_key_code.blank?
+
+    TaxKey.find(tax_key_code, chart: TaxKey.chart_for(company))
+  end
+
+  # Balances in closed fiscal years are final, so the account must stay in its section
+  def reported_in_closed_year?
+    line_items.joins(journal_entry: :fiscal_year).where(fiscal_years: { closed: true }).exists?
+  end
+
+  private
+
+  def account_map
+    AccountMap.for_company(company)
+  end
+
+  def tax_key_must_exist
+    return if tax_key_code.blank? || tax_key
+
+    errors.add(:tax_key_code, "#{tax_key_code} is not a known tax key")
+  end
+
+  # Codes of the chart's templates, or free codes in the custom account ranges
+  def code_must_fit_chart
+    return if code.blank?
+    return if company&.chart_of_accounts&.account_templates&.exists?(code: code)
+    return if ChartOfAccounts.custom_range_for(code)
+
+    ranges = ChartOfAccounts::CUSTOM_ACCOUNT_RANGES.map { |name, range| "#{name} #{range.first}-#{range.last}" }
+    errors.add(:code, "must be an account of the chart or within #{ranges.join(', ')}")
+  end
+
+  def section_must_match_account_type
+    if cid.blank?
+      if code_changed? && code.present? && account_map.cid_for_code(code).nil?
+        errors.add(:cid, "must be chosen for accounts outside the chart")
+      end
+      return
+    end
+
+    section = account_map.section_for_cid(cid)
+    if section.nil?
+      errors.add(:cid, "#{cid} is not a section of the chart")
+    elsif section[:account_type] != account_type
+      errors.add(:account_type, "must be #{section[:account_type]} for the section #{section[:name]}")
+    end
+  end
+
+  def presentation_rule_must_exist
+    return if presentation_rule.blank? || PresentationRule.valid?(presentation_rule)
+
+    errors.add(:presentation_rule, "#{presentation_rule} is not a known presentation rule")
+  end
+
+  def reported_section_must_not_change
+    changed_attributes = REPORTING_ATTRIBUTES.select { |attribute| will_save_change_to_attribute?(attribute) }
+    return if changed_attributes.empty? || !reported_in_closed_year?
+
+    errors.add(:base, "Code, type and section cannot be changed after the account's balances were reported in a closed fiscal year")
+  end
 end
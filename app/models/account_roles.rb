@@ -0,0 +1,73 @@
+# Accounts with a fixed role in the bookkeeping of a chart of accounts: the
+# bank accounts, the ledger account of the bank account created on onboarding
+# and the accounts the opening balance carries the previous result forward on.
+#
+# Like TaxKey, the roles are configuration per chart; the frontend gets an
+# account's role from the server instead of checking code ranges itself.
+class AccountRoles
+  DEFINITIONS = {
+    "SKR03" => {
+      bank_accounts: "1200".."1299",
+      default_bank_account: "1200",
+      profit_carryforward: "0860",
+      loss_carryforwards: %w[0868 2868],
+      carryforward_transfer: "9805"
+    },
+    "SKR04" => {
+      bank_accounts: "1700".."1899",
+      default_bank_account: "1800",
+      profit_carryforward: "2970",
+      loss_carryforwards: %w[2978],
+      carryforward_transfer: "9805"
+    }
+  }.freeze
+
+  attr_reader :bank_accounts, :default_bank_account, :profit_carryforward, :loss_carryforwards, :carryforward_transfer
+
+  def initialize(bank_accounts:, default_bank_account:, profit_carryforward:, loss_carryforwards:, carryforward_transfer:)
+    @bank_accounts = bank_accounts
+    @default_bank_account = default_bank_account
+    @profit_carryforward = profit_carryforward
+    @loss_carryforwards = loss_carryforwards
+    @carryforward_transfer = carryforward_transfer
+  end
+
+  class << self
+    def for_chart(chart)
+      @for_chart ||= {}
+      @for_chart[chart] ||= new(**DEFINITIONS.fetch(chart) { DEFINITIONS.fetch(ChartOfAccounts::DEFAULT_NAME) })
+    end
+
+    def for_company(company)
+      for_chart(ChartOfAccounts.name_for(company))
+    end
+  end
+
+  # Personal accounts (Debitoren/Kreditoren) have five digits and never match
+  def bank_account?(code)
+    code.to_s.length == default_bank_account.length && bank_accounts.cover?(code.to_s)
+  end
+
+  # Debitoren and Kreditoren are longer than the Sachkonten
+  def personal_account?(code)
+    code.to_s.length > default_bank_account.length
+  end
+
+  # The account of a Buchungszeile that a BU key applies to: the Gegenkonto as in
+  # DATEV, unless it is a bank or personal account and Konto is not
+  def tax_key_account(account_code, counter_account_code)
+    payment_account = ->(code) { bank_account?(code) || personal_account?(code) }
+    return account_code if account_code && payment_account.(counter_account_code) && !payment_account.(account_code)
+
+    counter_account_code
+  end
+
+  def loss_carryforward?(code)
+    loss_carryforwards.include?(code)
+  end
+
+  # Role of an account as sent to the frontend, nil for accounts without one
+  def role_for(code)
+    "bank" if bank_account?(code)
+  end
+end
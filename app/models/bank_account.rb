@@ -3,6 +3,8 @@ class BankAccount < ApplicationRecord
   belongs_to :company
   belongs_to :ledger_account, class_name: "Account", optional: true
   has_many :bank_transactions, dependent: :destroy
+  has_many :bank_import_profiles, dependent: :destroy
+  has_many :bank_statement_balances, dependent: :destroy
 
   # Validations
   validates :currency, presence: true
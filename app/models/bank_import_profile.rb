@@ -0,0 +1,60 @@
+class BankImportProfile < ApplicationRecord
+  # Associations
+  belongs_to :bank_account
+
+  # Target fields a CSV column can be mapped to
+  FIELDS = %w[
+    booking_date value_date amount debit_amount credit_amount direction_indicator
+    remittance_information counterparty_name counterparty_iban
+  ].freeze
+
+  # Text fields may combine several columns (joined with a space)
+  MULTI_COLUMN_FIELDS = %w[remittance_information counterparty_name].freeze
+
+  # Sign conventions:
+  # - signed: one amount column, negative values are outflows
+  # - inverted: one amount column, positive values are outflows (e.g. credit card exports)
+  # - split_columns: separate debit (Soll) and credit (Haben) columns
+  # - indicator: unsigned amount plus a debit/credit indicator column (S/H, D/C, Debit/Credit)
+  SIGN_CONVENTIONS = %w[signed inverted split_columns indicator].freeze
+  DECIMAL_SEPARATORS = [ ",", "." ].freeze
+
+  # Validations
+  validates :name, presence: true, uniqueness: { scope: :bank_account_id }
+  validates :delimiter, presence: true
+  validates :quote_char, presence: true, length: { is: 1 }
+  validates :date_format, presence: true
+  validates :skip_lines, numericality: { only_integer: true, greater_than_or_equal_to: 0 }
+  validates :decimal_separator, inclusion: { in: DECIMAL_SEPARATORS }
+  validates :sign_convention, inclusion: { in: SIGN_CONVENTIONS }
+  validate :column_mapping_must_cover_required_fields
+
+  # Column indexes for a field (always an array, empty if unmapped)
+  def columns_for(field)
+    Array(column_mapping.to_h.stringify_keys[field.to_s]).map(&:to_i)
+  end
+
+  def mapped?(field)
+    columns_for(field).any?
+  end
+
+  private
+
+  def required_fields
+    amount_fields = case sign_convention
+    when "split_columns" then %w[debit_amount credit_amount]
+    when "indicator" then %w[amount direction_indicator]
+    else %w[amount]
+    end
+
+    [ "booking_date" ] + amount_fields
+  end
+
+  def column_mapping_must_cover_required_fields
+    unknown = column_mapping.to_h.keys.map(&:to_s) - FIELDS
+    errors.add(:column_mapping, "contains unknown fields: #{unknown.join(', ')}") if unknown.any?
+
+    missing = required_fields.reject { |field| mapped?(field) }
+    errors.add(:column_mapping, "is missing required fields: #{missing.join(', ')}") if missing.any?
+  end
+end
@@ -0,0 +1,29 @@
+class BankStatementBalance < ApplicationRecord
+  # Associations
+  belongs_to :bank_account
+
+  # Where the closing balance came from: typed in or read from an imported statement
+  SOURCES = %w[manual camt mt940].freeze
+
+  # Validations
+  validates :balance_date, presence: true, uniqueness: { scope: :bank_account_id }
+  validates :balance, presence: true, numericality: true
+  validates :source, inclusion: { in: SOURCES }
+
+  # Scopes
+  scope :ordered, -> { order(balance_date: :desc) }
+
+  # Stores the closing balances of parsed camt/MT940 statements.
+  # Balances from the bank replace earlier values for the same date.
+  def self.record_from_statements(bank_account:, statements:, source:)
+    statements.select { |statement| statement.closing_balance && statement.closing_date }.map do |statement|
+      record = bank_account.bank_statement_balances.find_or_initialize_by(balance_date: statement.closing_date)
+      record.update!(
+        balance: statement.closing_balance,
+        source: source,
+        statement_reference: statement.statement_id
+      )
+      record
+    end
+  end
+end
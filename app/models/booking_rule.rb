@@ -0,0 +1,161 @@
+class BookingRule < ApplicationRecord
+  # Associations
+  belongs_to :company
+
+  # VAT modes as offered in the booking modal
+  VAT_MODES = %w[none vat_19 vat_7 reverse_charge].freeze
+  DIRECTIONS = %w[any inflow outflow].freeze
+
+  # Placeholders available in the description template
+  TEMPLATE_PLACEHOLDERS = %w[counterparty remittance date month year amount].freeze
+
+  # Seconds a remittance pattern may take on one text; patterns are user input
+  # and could otherwise backtrack for minutes during auto-booking
+  REMITTANCE_PATTERN_TIMEOUT = 0.1
+
+  # Validations
+  validates :name, presence: true
+  validates :account_code, presence: true
+  validates :vat_mode, inclusion: { in: VAT_MODES }
+  validates :direction, inclusion: { in: DIRECTIONS }
+  validates :amount_min, :amount_max, numericality: { greater_than_or_equal_to: 0 }, allow_nil: true
+  validate :amount_range_must_be_ordered
+  validate :remittance_pattern_must_be_valid
+  validate :must_have_match_condition
+
+  # Scopes
+  scope :active, -> { where(active: true) }
+  scope :ordered, -> { order(position: :asc, id: :asc) }
+
+  # All given conditions must match. Name and IBAN comparisons ignore case and spaces,
+  # the name matches as a substring. Amount limits apply to the absolute amount.
+  def matches?(bank_transaction)
+    matches_direction?(bank_transaction.amount) &&
+      matches_amount?(bank_transaction.amount.abs) &&
+      matches_counterparty_iban?(bank_transaction.counterparty_iban) &&
+      matches_counterparty_name?(bank_transaction.counterparty_name) &&
+      matches_remittance?(bank_transaction.remittance_information)
+  end
+
+  # Parameters for JournalEntryCreator, in the format sent by the booking modal
+  def journal_entry_params(bank_transaction)
+    {
+      account_code: account_code,
+      description: description_for(bank_transaction),
+      vat_mode: vat_mode,
+      vat_split: %w[vat_19 vat_7].include?(vat_mode),
+      vat_rate: { "vat_19" => 19, "vat_7" => 7 }.fetch(vat_mode, 0)
+    }
+  end
+
+  # Fills in {counterparty}, {remittance}, {date}, {month}, {year} and {amount}
+  def description_for(bank_transaction)
+    return bank_transaction.remittance_information if description_template.blank?
+
+    date = bank_transaction.booking_date
+    values = {
+      "counterparty" => bank_transaction.counterparty_name.to_s,
+      "remittance" => bank_transaction.remittance_information.to_s,
+      "date" => date.strftime("%d.%m.%Y"),
+      "month" => date.strftime("%m/%Y"),
+      "year" => date.year.to_s,
+      "amount" => format("%.2f", bank_transaction.amount.abs).tr(".", ",")
+    }
+
+    description_template.gsub(/\{(#{TEMPLATE_PLACEHOLDERS.join('|')})\}/) { values[Regexp.last_match(1)] }.strip
+  end
+
+  # Builds an unsaved rule from a booked bank transaction: matches the same
+  # counterparty and direction, and books to the same counter account and VAT mode.
+  def self.from_bank_transaction(bank_transaction)
+    company = bank_transaction.bank_account.company
+    journal_entry = bank_transaction.line_item&.journal_entry
+    counter_items = journal_entry ? journal_entry.line_items.reject { |item| item.bank_transaction_id.present? } : []
+    tax_keys = TaxKey.for_company(company)
+    vat_codes = tax_keys.flat_map(&:vat_account_codes)
+    counter_item = counter_items.reject { |item| vat_codes.include?(item.account.code) }.max_by(&:amount)
+
+    company.booking_rules.new(
+      name: bank_transaction.counterparty_name.presence || journal_entry&.description || "New rule",
+      counterparty_iban: bank_transaction.counterparty_iban,
+      counterparty_name: bank_transaction.counterparty_iban.blank? ? bank_transaction.counterparty_name : nil,
+      direction: bank_transaction.amount.negative? ? "outflow" : "inflow",
+      account_code: counter_item&.account&.code,
+      vat_mode: vat_mode_for(counter_items.map { |item| item.account.code }, tax_keys: tax_keys),
+      description_template: journal_entry&.description
+    )
+  end
+
+  # VAT mode of the tax key whose VAT account was booked
+  def self.vat_mode_for(account_codes, tax_keys: TaxKey.all)
+    booked_keys = tax_keys.select { |tax_key| tax_key.vat_account_codes.intersect?(account_codes) }
+
+    if booked_keys.any?(&:reverse_charge?)
+      "reverse_charge"
+    elsif booked_keys.any? { |tax_key| tax_key.rate == 19 }
+      "vat_19"
+    elsif booked_keys.any? { |tax_key| tax_key.rate == 7 }
+      "vat_7"
+    else
+      "none"
+    end
+  end
+
+  private
+
+  def matches_direction?(amount)
+    case direction
+    when "inflow" then amount.positive?
+    when "outflow" then amount.negative?
+    else true
+    end
+  end
+
+  def matches_amount?(amount)
+    (amount_min.nil? || amount >= amount_min) && (amount_max.nil? || amount <= amount_max)
+  end
+
+  def matches_counterparty_iban?(iban)
+    return true if counterparty_iban.blank?
+
+    normalize_iban(iban) == normalize_iban(counterparty_iban)
+  end
+
+  def matches_counterparty_name?(name)
+    return true if counterparty_name.blank?
+
+    name.to_s.downcase.include?(counterparty_name.strip.downcase)
+  end
+
+  def matches_remittance?(text)
+    return true if remittance_pattern.blank?
+
+    Regexp.new(remittance_pattern, Regexp::IGNORECASE, timeout: REMITTANCE_PATTERN_TIMEOUT).match?(text.to_s)
+  rescue Regexp::TimeoutError
+    false
+  end
+
+  def normalize_iban(iban)
+    iban.to_s.delete(" ").upcase
+  end
+
+  def amount_range_must_be_ordered
+    return if amount_min.nil? || amount_max.nil? || amount_min <= amount_max
+
+    errors.add(:amount_max, "must be greater than or equal to the minimum amount")
+  end
+
+  def remittance_pattern_must_be_valid
+    return if remittance_pattern.blank?
+
+    Regexp.new(remittance_pattern)
+  rescue RegexpError => e
+    errors.add(:remittance_pattern, "is not a valid regular expression (#{e.message})")
+  end
+
+  def must_have_match_condition
+    return if [ counterparty_iban, counterparty_name, remittance_pattern, amount_min, amount_max ].any?(&:present?)
+
+    errors.add(:base, "At least one match condition (counterparty, remittance pattern or amount) is required")
+  end
+end
@@ -10,4 +10,57 @@ class ChartOfAccounts < ApplicationRecord
   # Common country codes for German accounting
   COUNTRY_CODES = %w[DE AT CH].freeze
   validates :country_code, inclusion: { in: COUNTRY_CODES }
+
+  # Charts with account data in contrib/ (seeded by accounting:seed_chart)
+  SUPPORTED_NAMES = %w[SKR03 SKR04].freeze
+  DEFAULT_NAME = "SKR03".freeze
+
+  # Code ranges for accounts a company adds itself, the same in SKR03 and SKR04.
+  # The 9xxx Sachkonten are reserved for Vortrags- and statistische Konten.
+  CUSTOM_ACCOUNT_RANGES = {
+    "Sachkonten" => "0001".."8999",
+    "Debitoren" => "10000".."69999",
+    "Kreditoren" => "70000".."99999"
+  }.freeze
+
+  # Kontenklassen: the first digit of a Sachkonto
+  ACCOUNT_CLASSES = {
+    "SKR03" => {
+      "0" => "Anlage- und Kapitalkonten", "1" => "Finanz- und Privatkonten", "2" => "Abgrenzungskonten",
+      "3" => "Wareneingangs- und Bestandskonten", "4" => "Betriebliche Aufwendungen", "5" => "Frei", "6" => "Frei",
+      "7" => "Bestände an Erzeugnissen", "8" => "Erlöskonten", "9" => "Vortrags- und statistische Konten"
+    },
+    "SKR04" => {
+      "0" => "Anlagevermögen", "1" => "Umlaufvermögen", "2" => "Eigenkapital", "3" => "Fremdkapital",
+      "4" => "Betriebliche Erträge", "5" => "Betriebliche Aufwendungen", "6" => "Betriebliche Aufwendungen",
+      "7" => "Weitere Erträge und Aufwendungen", "8" => "Frei", "9" => "Vortrags- und statistische Konten"
+    }
+  }.freeze
+
+  # Companies without a chart of accounts use SKR03
+  def self.name_for(company)
+    company&.chart_of_accounts&.name.presence || DEFAULT_NAME
+  end
+
+  # Name of the custom account range the code falls in, nil outside all ranges
+  def self.custom_range_for(code)
+    code = code.to_s
+    return unless code.match?(/\A\d+\z/)
+
+    CUSTOM_ACCOUNT_RANGES.find { |_name, range| code.length == range.first.length && range.cover?(code) }&.first
+  end
+
+  # Kontenklasse of a Sachkonto ("4"), or the personal account range ("Debitoren")
+  # @return [Array(String, String)] Key and name of the class
+  def self.account_class_for(chart_name, code)
+    code = code.to_s
+    if code.length > 4
+      range_name = custom_range_for(code) || "Personenkonten"
+      return [ range_name, range_name ]
+    end
+
+    digit = code.rjust(4, "0")[0]
+    classes = ACCOUNT_CLASSES.fetch(chart_name) { ACCOUNT_CLASSES.fetch(DEFAULT_NAME) }
+    [ digit, "Klasse #{digit} – #{classes[digit]}" ]
+  end
 end
@@ -7,12 +7,17 @@ class Company < ApplicationRecord
   has_many :accounts, dependent: :destroy
   has_many :account_usages, dependent: :destroy
   has_many :bank_accounts, dependent: :destroy
+  has_many :booking_rules, dependent: :destroy
   has_many :documents, dependent: :destroy
   has_many :journal_entries, dependent: :destroy
+  has_many :recurring_entry_templates, dependent: :destroy
   has_many :tax_reports, dependent: :destroy
+  has_many :voucher_number_ranges, dependent: :destroy
 
   # Validations
   validates :name, presence: true
+  # Municipal Gewerbesteuer-Hebesatz in percent (§ 16 GewStG), used by GewstService
+  validates :gewerbesteuer_hebesatz, numericality: { only_integer: true, greater_than_or_equal_to: GewstService::MIN_HEBESATZ }, allow_nil: true
 
   # Returns dates for the fiscal year start and end dates (for given year).
   # Currently only supports calendar years.
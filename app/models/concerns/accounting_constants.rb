@@ -3,7 +3,7 @@ module AccountingConstants
   # asset, liability, equity, revenue, expense
   ACCOUNT_TYPES = %w[asset liability equity revenue expense].freeze
 
-  # SKR03 closing accounts (9000-series)
+  # Closing accounts (9000-series, the same in SKR03 and SKR04)
   # Used for Eröffnungsbilanzkonto (EBK) and Schlussbilanzkonto (SBK)
   CLOSING_ACCOUNTS = {
     ebk_sbk: "9000",               # Saldenvorträge, Sachkonten
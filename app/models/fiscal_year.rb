@@ -46,6 +46,11 @@ class FiscalYear < ApplicationRecord
     closing_balance_posted_at.present?
   end
 
+  # Bookings on or before the lock date are refused (Festschreibung by JournalEntryBatchPoster)
+  def locked_on?(date)
+    locked_until.present? && date.present? && date <= locked_until
+  end
+
   def workflow_state
     return "closed" if closed?
     return "closing_posted" if closing_balance_posted?
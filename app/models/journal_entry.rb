@@ -3,16 +3,28 @@ class JournalEntry < ApplicationRecord
   belongs_to :company
   belongs_to :fiscal_year
   belongs_to :document, optional: true
+  belongs_to :reversal_of, class_name: "JournalEntry", optional: true
+  belongs_to :voucher_number_range, optional: true
+  belongs_to :recurring_entry_template, optional: true
+  has_one :reversal, class_name: "JournalEntry", foreign_key: :reversal_of_id, inverse_of: :reversal_of
   has_many :line_items, dependent: :destroy
 
+  # USt-IdNr. of the customer for the Zusammenfassende Meldung, e.g. "ATU12345678"
+  VAT_ID_FORMAT = /\A[A-Z]{2}[0-9A-Z+*]{2,12}\z/
+  normalizes :counterparty_vat_id, with: ->(vat_id) { vat_id.gsub(/[\s.\-]/, "").upcase.presence }
+
   # Validations
   validates :booking_date, presence: true
   validates :description, presence: true
+  validates :counterparty_vat_id, format: { with: VAT_ID_FORMAT, message: "is not a valid USt-IdNr." }, allow_nil: true
   validate :line_items_must_balance
   validate :fiscal_year_must_be_open, on: :create
+  validate :voucher_number_range_must_belong_to_company
+  validate :booking_date_must_not_be_locked, if: -> { entry_type == "normal" && (new_record? || will_save_change_to_booking_date?) }
 
   # Callbacks
   before_validation :set_default_sequence, on: :create
+  before_save :assign_voucher_number, if: -> { will_save_change_to_posted_at? && posted_at_in_database.nil? && posted_at.present? }
   before_destroy :ensure_not_posted
   before_destroy :ensure_fiscal_year_open
   before_destroy :reset_linked_bank_transactions
@@ -36,6 +48,15 @@ class JournalEntry < ApplicationRecord
     update(posted_at: Time.current)
   end
 
+  # Storno entry created by JournalEntryReverser
+  def reversal?
+    reversal_of_id.present?
+  end
+
+  def reversed?
+    reversal.present?
+  end
+
   private
 
   def line_items_must_balance
@@ -69,12 +90,43 @@ class JournalEntry < ApplicationRecord
     end
   end
 
+  def voucher_number_range_must_belong_to_company
+    if voucher_number_range && voucher_number_range.company_id != company_id
+      errors.add(:voucher_number_range, "must belong to the same company")
+    end
+  end
+
+  def booking_date_must_not_be_locked
+    if fiscal_year&.locked_on?(booking_date)
+      errors.add(:booking_date, "falls into the locked period (up to #{fiscal_year.locked_until})")
+    end
+  end
+
   def reset_linked_bank_transactions
     line_items.each do |line_item|
       line_item.bank_transaction&.reset_to_pending!
     end
   end
 
+  # Belegnummer from the entry's range, or for normal entries from the
+  # company's default range for bank or manual bookings. Numbers that
+  # already exist (e.g. Belegfeld 1 from a DATEV import) are kept.
+  def assign_voucher_number
+    return if voucher_number.present?
+
+    range = voucher_number_range
+    range ||= company.voucher_number_ranges.find_by(default_for: voucher_source) if entry_type == "normal"
+    return unless range
+
+    self.voucher_number_range = range
+    self.voucher_counter = range.next_counter!(fiscal_year)
+    self.voucher_number = range.format_number(voucher_counter, fiscal_year)
+  end
+
+  def voucher_source
+    line_items.any? { |line_item| line_item.bank_transaction_id.present? } ? "bank" : "manual"
+  end
+
   def set_default_sequence
     return if sequence.present?
 
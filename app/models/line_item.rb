@@ -7,6 +7,7 @@ class LineItem < ApplicationRecord
   # Validations
   validates :amount, presence: true, numericality: { greater_than: 0 }
   validates :direction, presence: true, inclusion: { in: %w[debit credit] }
+  validate :tax_key_must_exist
 
   # Callbacks
   before_save :ensure_journal_entry_not_posted
@@ -14,8 +15,21 @@ class LineItem < ApplicationRecord
   # Directions for double-entry bookkeeping
   DIRECTIONS = %w[debit credit].freeze
 
+  # BU-Schlüssel of the VAT split this line belongs to
+  def tax_key
+    return if tax_key_code.blank?
+
+    TaxKey.find(tax_key_code, chart: TaxKey.chart_for(journal_entry&.company))
+  end
+
   private
 
+  def tax_key_must_exist
+    return if tax_key_code.blank? || tax_key
+
+    errors.add(:tax_key_code, "#{tax_key_code} is not a known tax key")
+  end
+
   def ensure_journal_entry_not_posted
     if journal_entry&.posted?
       errors.add(:base, "Cannot modify line items of a posted journal entry (GoBD compliance)")
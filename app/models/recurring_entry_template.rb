@@ -0,0 +1,124 @@
+class RecurringEntryTemplate < ApplicationRecord
+  # Associations
+  belongs_to :company
+  has_many :journal_entries, dependent: :nullify
+
+  # Months between two occurrences
+  FREQUENCIES = { "monthly" => 1, "quarterly" => 3, "yearly" => 12 }.freeze
+  AMOUNT_TYPES = %w[fixed formula].freeze
+
+  # Variables available in amount formulas, besides balance(<account code>)
+  FORMULA_VARIABLES = %w[period month quarter year days].freeze
+
+  # Placeholders available in the description
+  DESCRIPTION_PLACEHOLDERS = %w[month quarter year].freeze
+
+  # Validations
+  validates :name, presence: true
+  validates :description, presence: true
+  validates :frequency, inclusion: { in: FREQUENCIES.keys }
+  validates :day_of_month, inclusion: { in: 1..31 }
+  validates :start_date, presence: true
+  validate :end_date_after_start_date
+  validate :lines_must_be_valid
+
+  # Scopes
+  scope :active, -> { where(active: true) }
+  scope :ordered, -> { order(name: :asc, id: :asc) }
+
+  # Scheduled dates from the start date up to the given date (and the end date).
+  # A day of month beyond the end of a month falls on its last day.
+  def occurrences_until(date)
+    last_date = [ date, end_date ].compact.min
+    return [] if start_date.blank? || last_date < start_date
+
+    dates = []
+    month = start_date.beginning_of_month
+    while month <= last_date
+      occurrence = month.change(day: [ day_of_month, month.end_of_month.day ].min)
+      dates << occurrence if occurrence.between?(start_date, last_date)
+      month = month.next_month(FREQUENCIES.fetch(frequency))
+    end
+    dates
+  end
+
+  # Scheduled dates up to the given date that have no generated entry yet
+  def due_dates(as_of)
+    return [] unless active?
+
+    occurrences_until(as_of) - journal_entries.where.not(recurring_date: nil).pluck(:recurring_date)
+  end
+
+  def next_date(after: Date.current)
+    occurrences_until(after.next_year(1)).find { |date| date > after }
+  end
+
+  # Fills in {month} (03/2026), {quarter} (Q1/2026) and {year}
+  def description_for(date)
+    values = {
+      "month" => date.strftime("%m/%Y"),
+      "quarter" => "Q#{(date.month - 1) / 3 + 1}/#{date.year}",
+      "year" => date.year.to_s
+    }
+
+    description.gsub(/\{(#{DESCRIPTION_PLACEHOLDERS.join('|')})\}/) { values[Regexp.last_match(1)] }
+  end
+
+  # Formula variables for the scheduled date; period counts the occurrences from 1
+  def formula_variables(date)
+    {
+      "period" => occurrences_until(date).size,
+      "month" => date.month,
+      "quarter" => (date.month - 1) / 3 + 1,
+      "year" => date.year,
+      "days" => date.end_of_month.day
+    }
+  end
+
+  private
+
+  def end_date_after_start_date
+    return if end_date.blank? || start_date.blank?
+
+    if end_date < start_date
+      errors.add(:end_date, "must be after the start date")
+    end
+  end
+
+  def lines_must_be_valid
+    unless lines.is_a?(Array) && lines.size >= 2
+      errors.add(:lines, "must contain at least two line items")
+      return
+    end
+
+    lines.each.with_index(1) do |line, number|
+      errors.add(:lines, "#{number}: account is missing") if line["account_code"].blank?
+      errors.add(:lines, "#{number}: direction must be debit or credit") unless LineItem::DIRECTIONS.include?(line["direction"])
+
+      case line["amount_type"]
+      when "fixed"
+        errors.add(:lines, "#{number}: amount must be positive") unless line["amount"].to_d.positive?
+      when "formula"
+        formula_error = formula_error(line["formula"])
+        errors.add(:lines, "#{number}: #{formula_error}") if formula_error
+      else
+        errors.add(:lines, "#{number}: amount type must be fixed or formula")
+      end
+    end
+
+    if lines.all? { |line| line["amount_type"] == "fixed" }
+      debits = lines.select { |line| line["direction"] == "debit" }.sum { |line| line["amount"].to_d }
+      credits = lines.select { |line| line["direction"] == "credit" }.sum { |line| line["amount"].to_d }
+      errors.add(:lines, "debits must equal credits") if debits != credits
+    end
+  end
+
+  # Checks the syntax with sample values; the real values are only known when generating
+  def formula_error(formula)
+    variables = FORMULA_VARIABLES.index_with(1)
+    FormulaEvaluator.new(formula, variables: variables, balance: ->(_code) { 1 }).evaluate
+    nil
+  rescue FormulaEvaluator::Error => e
+    e.message == "Division by zero" ? nil : e.message
+  end
+end
@@ -0,0 +1,133 @@
+# BU-Schlüssel (tax key): the rate of a VAT booking, the account that takes
+# the tax and the UStVA Kennziffern for its tax base and tax amount.
+#
+# Keys are configuration per chart of accounts, so a new rate or special case
+# only needs a new entry in DEFINITIONS. Line items reference their key by
+# code (line_items.tax_key_code).
+class TaxKey
+  KINDS = %i[input output reverse_charge].freeze
+  DEFAULT_CHART = ChartOfAccounts::DEFAULT_NAME
+
+  # kind :input books Vorsteuer, :output Umsatzsteuer. :reverse_charge (§13b UStG,
+  # innergemeinschaftlicher Erwerb) books the input VAT on vat_account_code,
+  # reported under input_tax_field, and the output VAT owed by the recipient on
+  # reverse_charge_account_code, reported under tax_field.
+  DEFINITIONS = {
+    "SKR03" => [
+      { code: "2", name: "Umsatzsteuer 7%", kind: :output, rate: 7, vat_account_code: "1771", base_field: 86, tax_field: 86 },
+      { code: "3", name: "Umsatzsteuer 19%", kind: :output, rate: 19, vat_account_code: "1776", base_field: 81, tax_field: 81 },
+      { code: "8", name: "Vorsteuer 7%", kind: :input, rate: 7, vat_account_code: "1571", tax_field: 66 },
+      { code: "9", name: "Vorsteuer 19%", kind: :input, rate: 19, vat_account_code: "1576", tax_field: 66 },
+      {
+        code: "94", name: "§13b UStG 19%", kind: :reverse_charge, rate: 19,
+        vat_account_code: "1577", reverse_charge_account_code: "1787", base_field: 46, tax_field: 47, input_tax_field: 67
+      },
+      {
+        code: "18", name: "Innergemeinschaftlicher Erwerb 7%", kind: :reverse_charge, rate: 7,
+        vat_account_code: "1572", reverse_charge_account_code: "1772", base_field: 93, tax_field: 93, input_tax_field: 61
+      },
+      {
+        code: "19", name: "Innergemeinschaftlicher Erwerb 19%", kind: :reverse_charge, rate: 19,
+        vat_account_code: "1574", reverse_charge_account_code: "1774", base_field: 89, tax_field: 89, input_tax_field: 61
+      }
+    ],
+    "SKR04" => [
+      { code: "2", name: "Umsatzsteuer 7%", kind: :output, rate: 7, vat_account_code: "3801", base_field: 86, tax_field: 86 },
+      { code: "3", name: "Umsatzsteuer 19%", kind: :output, rate: 19, vat_account_code: "3806", base_field: 81, tax_field: 81 },
+      { code: "8", name: "Vorsteuer 7%", kind: :input, rate: 7, vat_account_code: "1401", tax_field: 66 },
+      { code: "9", name: "Vorsteuer 19%", kind: :input, rate: 19, vat_account_code: "1406", tax_field: 66 },
+      {
+        code: "94", name: "§13b UStG 19%", kind: :reverse_charge, rate: 19,
+        vat_account_code: "1407", reverse_charge_account_code: "3837", base_field: 46, tax_field: 47, input_tax_field: 67
+      },
+      {
+        code: "18", name: "Innergemeinschaftlicher Erwerb 7%", kind: :reverse_charge, rate: 7,
+        vat_account_code: "1402", reverse_charge_account_code: "3802", base_field: 93, tax_field: 93, input_tax_field: 61
+      },
+      {
+        code: "19", name: "Innergemeinschaftlicher Erwerb 19%", kind: :reverse_charge, rate: 19,
+        vat_account_code: "1404", reverse_charge_account_code: "3804", base_field: 89, tax_field: 89, input_tax_field: 61
+      }
+    ]
+  }.freeze
+
+  attr_reader :code, :name, :kind, :rate, :vat_account_code, :reverse_charge_account_code,
+    :base_field, :tax_field, :input_tax_field
+
+  def initialize(code:, name:, kind:, rate:, vat_account_code:, reverse_charge_account_code: nil,
+    base_field: nil, tax_field: nil, input_tax_field: nil)
+    @code = code
+    @name = name
+    @kind = kind
+    @rate = rate
+    @vat_account_code = vat_account_code
+    @reverse_charge_account_code = reverse_charge_account_code
+    @base_field = base_field
+    @tax_field = tax_field
+    @input_tax_field = input_tax_field
+  end
+
+  class << self
+    def all(chart: DEFAULT_CHART)
+      @all ||= {}
+      @all[chart] ||= DEFINITIONS.fetch(chart) { DEFINITIONS.fetch(DEFAULT_CHART) }.map { |definition| new(**definition) }.freeze
+    end
+
+    def for_company(company)
+      all(chart: chart_for(company))
+    end
+
+    def chart_for(company)
+      ChartOfAccounts.name_for(company)
+    end
+
+    def find(code, chart: DEFAULT_CHART)
+      all(chart: chart).find { |tax_key| tax_key.code == code.to_s }
+    end
+
+    # The key booking VAT to the given account (either side of §13b)
+    def for_vat_account(account_code, chart: DEFAULT_CHART)
+      all(chart: chart).find { |tax_key| tax_key.vat_account_codes.include?(account_code) }
+    end
+
+    def matching(kind, rate, chart: DEFAULT_CHART)
+      all(chart: chart).find { |tax_key| tax_key.kind == kind && tax_key.rate == rate }
+    end
+
+    def vat_account_codes(chart: DEFAULT_CHART)
+      all(chart: chart).flat_map(&:vat_account_codes).uniq
+    end
+  end
+
+  def input?
+    kind == :input
+  end
+
+  def output?
+    kind == :output
+  end
+
+  def reverse_charge?
+    kind == :reverse_charge
+  end
+
+  def vat_account_codes
+    [ vat_account_code, reverse_charge_account_code ].compact
+  end
+
+  # VAT accounts whose balance is reported under the given Kennziffer
+  def vat_account_codes_for_field(field_number)
+    if reverse_charge?
+      codes = []
+      codes << reverse_charge_account_code if tax_field == field_number
+      codes << vat_account_code if input_tax_field == field_number
+      codes
+    else
+      tax_field == field_number ? [ vat_account_code ] : []
+    end
+  end
+
+  def label
+    "#{code} – #{name}"
+  end
+end
@@ -0,0 +1,42 @@
+class VoucherNumberRange < ApplicationRecord
+  # Associations
+  belongs_to :company
+  has_many :journal_entries, dependent: :restrict_with_error
+
+  # Ranges used for posted entries that were not assigned a range explicitly
+  DEFAULT_FOR = %w[manual bank].freeze
+
+  # Validations
+  validates :name, presence: true
+  validates :pattern, presence: true
+  validates :default_for, inclusion: { in: DEFAULT_FOR }, allow_nil: true
+  validates :default_for, uniqueness: { scope: :company_id }, allow_nil: true
+  validate :pattern_must_have_single_counter
+
+  # Scopes
+  scope :ordered, -> { order(name: :asc, id: :asc) }
+
+  # "ER-{YYYY}-#####" becomes "ER-2026-00042". {YYYY} is the fiscal year,
+  # the # block the zero-padded counter; without # the counter is appended.
+  def format_number(counter, fiscal_year)
+    number = pattern.gsub("{YYYY}", fiscal_year.year.to_s)
+    return "#{number}#{counter}" unless number.include?("#")
+
+    number.sub(/#+/) { |block| counter.to_s.rjust(block.length, "0") }
+  end
+
+  # Next counter within the fiscal year. Locks the range, so concurrent
+  # postings wait for each other and the numbers stay gapless.
+  def next_counter!(fiscal_year)
+    lock!
+    (journal_entries.where(fiscal_year: fiscal_year).maximum(:voucher_counter) || 0) + 1
+  end
+
+  private
+
+  def pattern_must_have_single_counter
+    if pattern.present? && pattern.scan(/#+/).size > 1
+      errors.add(:pattern, "may contain only one block of #")
+    end
+  end
+end
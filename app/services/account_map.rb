@@ -1,5 +1,6 @@
 # Service to map accounts to GuV report sections and balance sheet semantic categories.
 # Provides centralized configuration for account categorization according to § 275 Abs. 2 HGB.
+# Each chart of accounts has its own map (AccountMap.for_company); class-level calls use SKR03.
 class AccountMap
   # Define GuV report sections according to § 275 Abs. 2 HGB (Gesamtkostenverfahren)
   GUV_SECTIONS = {
@@ -103,339 +104,390 @@ class AccountMap
     :sonstige_steuern
   ].freeze
 
+  # Section mapping files per chart of accounts (see contrib/README.md)
+  MAPPING_FILES = {
+    "SKR03" => { balance_sheet: "bilanz-sections-mapping.json", guv: "guv-sections-mapping.json" },
+    "SKR04" => { balance_sheet: "skr04-bilanz-sections-mapping.json", guv: "skr04-guv-sections-mapping.json" }
+  }.freeze
+
   class << self
-    # Load balance sheet structure from JSON file
-    # @return [Hash] Raw JSON structure from bilanz-sections-mapping.json
-    def load_balance_sheet_structure
-      @balance_sheet_structure ||= begin
-        path = Rails.root.join("contrib", "bilanz-sections-mapping.json")
-        JSON.parse(File.read(path), symbolize_names: true)
-      end
+    # The map of a chart of accounts; unknown charts use the SKR03 map
+    def for_chart(chart)
+      chart = ChartOfAccounts::DEFAULT_NAME unless MAPPING_FILES.key?(chart)
+      @maps ||= {}
+      @maps[chart] ||= new(chart)
     end
 
-    # Get nested balance sheet categories (dynamically loaded from JSON)
-    # @return [Hash] Transformed nested structure compatible with existing code
-    def nested_balance_sheet_categories
-      @nested_categories ||= transform_json_to_nested_structure(load_balance_sheet_structure)
+    def for_company(company)
+      for_chart(ChartOfAccounts.name_for(company))
     end
 
-    # Load GuV structure from JSON file
-    # @return [Hash] Raw JSON structure from guv-sections-mapping.json
-    def load_guv_structure
-      @guv_structure ||= begin
-        path = Rails.root.join("contrib", "guv-sections-mapping.json")
-        JSON.parse(File.read(path), symbolize_names: true)
-      end
+    # Class-level calls use the SKR03 map
+    def default
+      for_chart(ChartOfAccounts::DEFAULT_NAME)
     end
+  end
 
-    # Transform GuV JSON to internal format (flatten children to top-level)
-    # @param json_data [Hash] Raw JSON data with GuV sections
-    # @return [Hash] Transformed structure with flat sections
-    def transform_guv_structure(json_data)
-      sections = {}
-
-      json_data.each do |name, data|
-        if data[:children]
-          # Flatten children sections (e.g., Materialaufwand 5a and 5b)
-          data[:children].each do |child|
-            child_key = guv_name_to_key(child[:name])
-            sections[child_key] = {
-              title: child[:name],
-              accounts: child[:codes] || [],
-              rsid: child[:rsid],
-              section_type: determine_section_type(child[:name])
-            }
-          end
-        else
-          # Regular section
-          key = guv_name_to_key(name)
-          sections[key] = {
-            title: name.to_s,
-            accounts: data[:codes] || [],
-            rsid: data[:rsid],
-            section_type: determine_section_type(name.to_s)
+  attr_reader :chart
+
+  def initialize(chart)
+    @chart = chart
+  end
+
+  # Load balance sheet structure from JSON file
+  # @return [Hash] Raw JSON structure from the chart's bilanz-sections-mapping.json
+  def load_balance_sheet_structure
+    @balance_sheet_structure ||= begin
+      path = Rails.root.join("contrib", MAPPING_FILES.fetch(chart)[:balance_sheet])
+      JSON.parse(File.read(path), symbolize_names: true)
+    end
+  end
+
+  # Get nested balance sheet categories (dynamically loaded from JSON)
+  # @return [Hash] Transformed nested structure compatible with existing code
+  def nested_balance_sheet_categories
+    @nested_categories ||= transform_json_to_nested_structure(load_balance_sheet_structure)
+  end
+
+  # Load GuV structure from JSON file
+  # @return [Hash] Raw JSON structure from the chart's guv-sections-mapping.json
+  def load_guv_structure
+    @guv_structure ||= begin
+      path = Rails.root.join("contrib", MAPPING_FILES.fetch(chart)[:guv])
+      JSON.parse(File.read(path), symbolize_names: true)
+    end
+  end
+
+  # Transform GuV JSON to internal format (flatten children to top-level)
+  # @param json_data [Hash] Raw JSON data with GuV sections
+  # @return [Hash] Transformed structure with flat sections
+  def transform_guv_structure(json_data)
+    sections = {}
+
+    json_data.each do |name, data|
+      if data[:children]
+        # Flatten children sections (e.g., Materialaufwand 5a and 5b)
+        data[:children].each do |child|
+          child_key = guv_name_to_key(child[:name])
+          sections[child_key] = {
+            title: child[:name],
+            accounts: child[:codes] || [],
+            rsid: child[:rsid],
+            section_type: determine_section_type(child[:name])
           }
         end
-      end
-
-      sections
-    end
-
-    # Get GuV sections (dynamically loaded from JSON)
-    # @return [Hash] Transformed GuV sections, replaces GUV_SECTIONS constant
-    def guv_sections
-      @guv_sections ||= transform_guv_structure(load_guv_structure)
-    end
-
-    # Get GuV sections in correct order (§ 275 Abs. 2 HGB)
-    # @return [Hash] Ordered hash of GuV sections
-    def guv_sections_ordered
-      order = [
-        :umsatzerloese,
-        :bestandsveraenderungen,
-        :aktivierte_eigenleistungen,
-        :sonstige_betriebliche_ertraege,
-        :materialaufwand_roh_hilfs_betriebsstoffe,
-        :materialaufwand_bezogene_leistungen,
-        :personalaufwand_loehne_gehaelter,
-        :personalaufwand_soziale_abgaben,
-        :abschreibungen_anlagevermoegen,
-        :abschreibungen_umlaufvermoegen,
-        :sonstige_betriebliche_aufwendungen,
-        :ertraege_beteiligungen,
-        :ertraege_wertpapiere,
-        :sonstige_zinsen_ertraege,
-        :abschreibungen_finanzanlagen,
-        :zinsen_aufwendungen,
-        :steuern_einkommen_ertrag,
-        :sonstige_steuern
-      ]
-
-      order.map { |key| [ key, guv_sections[key] ] }.to_h.compact
-    end
-
-    # Get revenue sections (replaces REVENUE_SECTIONS constant)
-    # @return [Array<Symbol>] Array of revenue section identifiers
-    def revenue_sections
-      @revenue_sections ||= guv_sections.select { |k, v|
-        v[:section_type] == :revenue
-      }.keys
-    end
-
-    # Get expense sections (replaces EXPENSE_SECTIONS constant)
-    # @return [Array<Symbol>] Array of expense section identifiers
-    def expense_sections
-      @expense_sections ||= guv_sections.select { |k, v|
-        v[:section_type] == :expense
-      }.keys
-    end
-
-    # Get the human-readable title for a GuV report section
-    # @param section_id [Symbol] The section identifier (e.g., :umsatzerloese)
-    # @return [String] The section title
-    # @raise [ArgumentError] if section_id is unknown
-    def section_title(section_id)
-      validate_guv_section!(section_id)
-      guv_sections[section_id][:title]
-    end
-
-    # Get the full list of account codes for a GuV report section (expands ranges)
-    # @param section_id [Symbol] The section identifier
-    # @return [Array<String>] Array of account codes
-    # @raise [ArgumentError] if section_id is unknown
-    def account_codes(section_id)
-      validate_guv_section!(section_id)
-      expand_account_ranges(guv_sections[section_id][:accounts])
-    end
-
-    # Filter accounts list to only include those matching the given report section
-    # @param account_list [Array<Hash>] List of account hashes with :code key
-    # @param section_id [Symbol] The section identifier
-    # @return [Array<Hash>] Filtered list of accounts
-    # @raise [ArgumentError] if section_id is unknown
-    def find_accounts(account_list, section_id)
-      validate_guv_section!(section_id)
-      section_codes = account_codes(section_id)
-
-      # If section has no configured accounts, return empty array
-      return [] if section_codes.empty?
-
-      # Filter accounts whose code matches the section
-      account_list.select do |account|
-        section_codes.include?(account[:code])
+      else
+        # Regular section
+        key = guv_name_to_key(name)
+        sections[key] = {
+          title: name.to_s,
+          accounts: data[:codes] || [],
+          rsid: data[:rsid],
+          section_type: determine_section_type(name.to_s)
+        }
       end
     end
 
-    # Get nested category structure for a top-level category
-    # @param category_id [Symbol] The top-level category (:anlagevermoegen, :umlaufvermoegen, etc.)
-    # @return [Hash] Nested structure with name, codes, children
-    # @raise [ArgumentError] if category_id is not a valid top-level category
-    def nested_category_structure(category_id)
-      validate_nested_category!(category_id)
+    sections
+  end
 
-      # Search in aktiva
-      if nested_balance_sheet_categories[:aktiva].key?(category_id)
-        return nested_balance_sheet_categories[:aktiva][category_id]
-      end
+  # Get GuV sections (dynamically loaded from JSON)
+  # @return [Hash] Transformed GuV sections, replaces GUV_SECTIONS constant
+  def guv_sections
+    @guv_sections ||= transform_guv_structure(load_guv_structure)
+  end
 
-      # Search in passiva
-      if nested_balance_sheet_categories[:passiva].key?(category_id)
-        return nested_balance_sheet_categories[:passiva][category_id]
-      end
+  # Get GuV sections in correct order (§ 275 Abs. 2 HGB)
+  # @return [Hash] Ordered hash of GuV sections
+  def guv_sections_ordered
+    order = [
+      :umsatzerloese,
+      :bestandsveraenderungen,
+      :aktivierte_eigenleistungen,
+      :sonstige_betriebliche_ertraege,
+      :materialaufwand_roh_hilfs_betriebsstoffe,
+      :materialaufwand_bezogene_leistungen,
+      :personalaufwand_loehne_gehaelter,
+      :personalaufwand_soziale_abgaben,
+      :abschreibungen_anlagevermoegen,
+      :abschreibungen_umlaufvermoegen,
+      :sonstige_betriebliche_aufwendungen,
+      :ertraege_beteiligungen,
+      :ertraege_wertpapiere,
+      :sonstige_zinsen_ertraege,
+      :abschreibungen_finanzanlagen,
+      :zinsen_aufwendungen,
+      :steuern_einkommen_ertrag,
+      :sonstige_steuern
+    ]
+
+    order.map { |key| [ key, guv_sections[key] ] }.to_h.compact
+  end
 
-      raise ArgumentError, "Category #{category_id} not found in nested structure"
-    end
+  # Get revenue sections (replaces REVENUE_SECTIONS constant)
+  # @return [Array<Symbol>] Array of revenue section identifiers
+  def revenue_sections
+    @revenue_sections ||= guv_sections.select { |k, v|
+      v[:section_type] == :revenue
+    }.keys
+  end
+
+  # Get expense sections (replaces EXPENSE_SECTIONS constant)
+  # @return [Array<Symbol>] Array of expense section identifiers
+  def expense_sections
+    @expense_sections ||= guv_sections.select { |k, v|
+      v[:section_type] == :expense
+    }.keys
+  end
+
+  # Get the human-readable title for a GuV report section
+  # @param section_id [Symbol] The section identifier (e.g., :umsatzerloese)
+  # @return [String] The section title
+  # @raise [ArgumentError] if section_id is unknown
+  def section_title(section_id)
+    validate_guv_section!(section_id)
+    guv_sections[section_id][:title]
+  end
 
-    # Get the official German name for any category (works with nested categories)
-    # @param category_id [Symbol] Any category identifier
-    # @return [String, nil] The German name or nil if not found
-    def category_name(category_id)
-      # Search nested structure
-      found = find_in_nested_structure(category_id)
-      found ? found[:name] : nil
+  # Get the full list of account codes for a GuV report section (expands ranges)
+  # @param section_id [Symbol] The section identifier
+  # @return [Array<String>] Array of account codes
+  # @raise [ArgumentError] if section_id is unknown
+  def account_codes(section_id)
+    validate_guv_section!(section_id)
+    expand_account_ranges(guv_sections[section_id][:accounts])
+  end
+
+  # Filter accounts list to only include those matching the given report section
+  # @param account_list [Array<Hash>] List of account hashes with :code key
+  # @param section_id [Symbol] The section identifier
+  # @return [Array<Hash>] Filtered list of accounts
+  # @raise [ArgumentError] if section_id is unknown
+  def find_accounts(account_list, section_id)
+    validate_guv_section!(section_id)
+    section_codes = account_codes(section_id)
+
+    # Accounts with an assigned section (:cid) are placed by it instead of by code
+    account_list.select do |account|
+      account[:cid] ? account[:cid] == "guv.#{section_id}" : section_codes.include?(account[:code])
     end
+  end
 
-    # Get all account codes for a category (works with nested categories, flattens all children)
-    # @param category_id [Symbol] Any category identifier
-    # @return [Array<String>] Array of account codes
-    def nested_account_codes(category_id)
-      found = find_in_nested_structure(category_id)
-      return [] unless found
+  # Get nested category structure for a top-level category
+  # @param category_id [Symbol] The top-level category (:anlagevermoegen, :umlaufvermoegen, etc.)
+  # @return [Hash] Nested structure with name, codes, children
+  # @raise [ArgumentError] if category_id is not a valid top-level category
+  def nested_category_structure(category_id)
+    validate_nested_category!(category_id)
 
-      collect_all_codes(found)
+    # Search in aktiva
+    if nested_balance_sheet_categories[:aktiva].key?(category_id)
+      return nested_balance_sheet_categories[:aktiva][category_id]
     end
 
-    # Build a BalanceSheetSection tree for a top-level category
-    # @param account_list [Array<Hash>] List of account hashes with :code, :name, :balance keys
-    # @param category_id [Symbol] The top-level category identifier
-    # @return [BalanceSheetSection] The root section with nested children
-    def build_nested_section(account_list, category_id)
-      structure = nested_category_structure(category_id)
-      build_section_recursive(account_list, category_id, structure, level: 1)
+    # Search in passiva
+    if nested_balance_sheet_categories[:passiva].key?(category_id)
+      return nested_balance_sheet_categories[:passiva][category_id]
     end
 
-    # Determine account type (asset, liability, equity, expense, revenue) for a given account code.
-    # The account type is derived from the account's Semantic Category.
-    # @param account_code [String] The account code (e.g., "0750", "4000")
-    # @return [String, nil] The account type or nil if not found in any category
-    def account_type_for_code(account_code)
-      # 1. Check if special handling applies (deferred - always returns nil for now)
-      special_type = check_special_category_handling(account_code)
-      return special_type if special_type
+    raise ArgumentError, "Category #{category_id} not found in nested structure"
+  end
 
-      # 2. Check balance sheet categories (nested structure)
-      balance_result = find_account_in_nested_structure(account_code)
-      if balance_result
-        return account_type_from_balance_position(
-          balance_result[:side],
-          balance_result[:top_level_category]
-        )
-      end
+  # Get the official German name for any category (works with nested categories)
+  # @param category_id [Symbol] Any category identifier
+  # @return [String, nil] The German name or nil if not found
+  def category_name(category_id)
+    # Search nested structure
+    found = find_in_nested_structure(category_id)
+    found ? found[:name] : nil
+  end
 
-      # 3. Check GuV sections
-      guv_section = find_guv_section_for_account(account_code)
-      if guv_section
-        return revenue_sections.include?(guv_section) ? "revenue" : "expense"
-      end
+  # Get all account codes for a category (works with nested categories, flattens all children)
+  # @param category_id [Symbol] Any category identifier
+  # @return [Array<String>] Array of account codes
+  def nested_account_codes(category_id)
+    found = find_in_nested_structure(category_id)
+    return [] unless found
 
-      # 4. Not found in any category
-      nil
+    collect_all_codes(found)
+  end
+
+  # Build a BalanceSheetSection tree for a top-level category
+  # @param account_list [Array<Hash>] List of account hashes with :code, :name, :balance keys
+  # @param category_id [Symbol] The top-level category identifier
+  # @return [BalanceSheetSection] The root section with nested children
+  def build_nested_section(account_list, category_id)
+    structure = nested_category_structure(category_id)
+    build_section_recursive(account_list, category_id, structure, level: 1)
+  end
+
+  # Determine account type (asset, liability, equity, expense, revenue) for a given account code.
+  # The account type is derived from the account's Semantic Category.
+  # @param account_code [String] The account code (e.g., "0750", "4000")
+  # @return [String, nil] The account type or nil if not found in any category
+  def account_type_for_code(account_code)
+    # 1. Check if special handling applies (deferred - always returns nil for now)
+    special_type = check_special_category_handling(account_code)
+    return special_type if special_type
+
+    # 2. Check balance sheet categories (nested structure)
+    balance_result = find_account_in_nested_structure(account_code)
+    if balance_result
+      return account_type_from_balance_position(
+        balance_result[:side],
+        balance_result[:top_level_category]
+      )
     end
 
-    # Get the hierarchical category ID (cid) for an account code.
-    # The cid acts as the logical identity and the default Report Section ID (RSID).
-    # @param account_code [String] The account code (e.g., "0750", "1400")
-    # @return [String, nil] The full cid path (e.g., "b.aktiva.anlagevermoegen.sachanlagen") or nil
-    def cid_for_code(account_code)
-      # Search balance sheet (aktiva and passiva)
-      [ :aktiva, :passiva ].each do |side|
-        nested_balance_sheet_categories[side].each_value do |top_data|
-          result = find_cid_in_category(account_code, top_data)
-          return result if result
-        end
-      end
+    # 3. Check GuV sections
+    guv_section = find_guv_section_for_account(account_code)
+    if guv_section
+      return revenue_sections.include?(guv_section) ? "revenue" : "expense"
+    end
 
-      # Search GuV
-      guv_section = find_guv_section_for_account(account_code)
-      return "guv.#{guv_section}" if guv_section
+    # 4. Not found in any category
+    nil
+  end
 
-      nil
+  # Get the hierarchical category ID (cid) for an account code.
+  # The cid acts as the logical identity and the default Report Section ID (RSID).
+  # @param account_code [String] The account code (e.g., "0750", "1400")
+  # @return [String, nil] The full cid path (e.g., "b.aktiva.anlagevermoegen.sachanlagen") or nil
+  def cid_for_code(account_code)
+    # Search balance sheet (aktiva and passiva)
+    [ :aktiva, :passiva ].each do |side|
+      nested_balance_sheet_categories[side].each_value do |top_data|
+        result = find_cid_in_category(account_code, top_data)
+        return result if result
+      end
     end
 
-    private
+    # Search GuV
+    guv_section = find_guv_section_for_account(account_code)
+    return "guv.#{guv_section}" if guv_section
 
-    # Recursively search for account code and return full cid path (using the rsid field)
-    # @param account_code [String] The account code to search for
-    # @param category_data [Hash] Category data with :codes, :children and :rsid
-    # @param cid_path [String] (Not used anymore, kept for signature consistency if needed)
-    # @return [String, nil] Full cid path if found, nil otherwise
-    def find_cid_in_category(account_code, category_data, cid_path = nil)
-      # Check codes at this level
-      codes = expand_account_ranges(category_data[:codes] || [])
-      return category_data[:rsid] if codes.include?(account_code)
+    nil
+  end
 
-      # Recursively check children
-      if category_data[:children]
-        category_data[:children].each_value do |child_data|
-          result = find_cid_in_category(account_code, child_data)
-          return result if result
+  # Sections an account can be assigned to (accounts.cid), in report order.
+  # GuV sections without accounts in the chart are left out, the GuV skips them.
+  # @return [Array<Hash>] Sections with :cid, :name and the :account_type they imply
+  def assignable_sections
+    @assignable_sections ||= begin
+      balance_sheet = [ :aktiva, :passiva ].flat_map do |side|
+        nested_balance_sheet_categories[side].flat_map do |top_key, top_data|
+          assignable_balance_sheet_sections(top_data, account_type_from_balance_position(side, top_key))
         end
       end
 
-      nil
+      guv = guv_sections_ordered.reject { |_key, data| data[:accounts].empty? }.map do |key, data|
+        { cid: "guv.#{key}", name: data[:title], account_type: data[:section_type] == :revenue ? "revenue" : "expense" }
+      end
+
+      balance_sheet + guv
     end
+  end
 
-    # Transform JSON structure to nested hash format
-    # @param json_data [Hash] Raw JSON data with :aktiva and :passiva keys
-    # @return [Hash] Transformed structure compatible with existing code
-    def transform_json_to_nested_structure(json_data)
-      {
-        aktiva: transform_section_hash(json_data[:aktiva]),
-        passiva: transform_section_hash(json_data[:passiva])
-      }
+  # @param cid [String] A cid as returned by cid_for_code
+  # @return [Hash, nil] The assignable section or nil if the chart has none with this cid
+  def section_for_cid(cid)
+    assignable_sections.find { |section| section[:cid] == cid }
+  end
+
+  private
+
+  # Nodes of a balance sheet category that have an RSID, with their parents in the name
+  def assignable_balance_sheet_sections(category_data, account_type, parent_names = [])
+    names = parent_names + [ category_data[:name] ]
+    own = category_data[:rsid] ? [ { cid: category_data[:rsid], name: names.join(" › "), account_type: account_type } ] : []
+
+    children = (category_data[:children] || {}).values.flat_map do |child_data|
+      assignable_balance_sheet_sections(child_data, account_type, names)
     end
 
-    # Transform a section hash (aktiva or passiva)
-    # @param section_data [Hash] Section data from JSON
-    # @return [Hash] Transformed section with category keys
-    def transform_section_hash(section_data)
-      result = {}
-      section_data.each do |name, data|
-        key = name_to_key(name)
-        result[key] = transform_category(name, data)
+    own + children
+  end
+
+  # Recursively search for account code and return full cid path (using the rsid field)
+  # @param account_code [String] The account code to search for
+  # @param category_data [Hash] Category data with :codes, :children and :rsid
+  # @param cid_path [String] (Not used anymore, kept for signature consistency if needed)
+  # @return [String, nil] Full cid path if found, nil otherwise
+  def find_cid_in_category(account_code, category_data, cid_path = nil)
+    # Check codes at this level
+    codes = expand_account_ranges(category_data[:codes] || [])
+    return category_data[:rsid] if codes.include?(account_code)
+
+    # Recursively check children
+    if category_data[:children]
+      category_data[:children].each_value do |child_data|
+        result = find_cid_in_category(account_code, child_data)
+        return result if result
       end
-      result
-    end
-
-    # Transform a single category from JSON format to internal format
-    # @param name [String, Symbol] Category name
-    # @param data [Hash] Category data with :codes, :items, :children
-    # @return [Hash] Transformed category with :name, :codes, :children
-    def transform_category(name, data)
-      # Convert to string if it's a symbol (from JSON.parse with symbolize_names: true)
-      name_str = name.to_s
-
-      # Ensure codes is always an array (handle empty strings from JSON)
-      codes = data[:codes]
-      codes = [] unless codes.is_a?(Array)
-
-      category = {
-        name: name_str,
-        codes: codes,
-        children: {},
-        rsid: data[:rsid] # Preserve the RSID from JSON
-      }
-
-      # Handle 'items' array (used for top-level categories like Anlagevermögen)
-      if data[:items]
-        data[:items].each do |item|
-          # Some items have only children without a name (e.g., Rückstellungen)
-          if item[:name]
-            item_key = name_to_key(item[:name])
-            category[:children][item_key] = {
-              name: item[:name],
-              codes: ensure_codes_array(item[:codes]),
-              children: {},
-              rsid: item[:rsid]
-            }
+    end
 
-            # Handle 'children' within items
-            if item[:children]
-              item[:children].each do |child|
-                child_key = name_to_key(child[:name])
-                category[:children][item_key][:children][child_key] = {
-                  name: child[:name],
-                  codes: ensure_codes_array(child[:codes]),
-                  children: {},
-                  rsid: child[:rsid]
-                }
-              end
-            end
-          elsif item[:children]
-            # Item has no name, add children directly to category
+    nil
+  end
+
+  # Transform JSON structure to nested hash format
+  # @param json_data [Hash] Raw JSON data with :aktiva and :passiva keys
+  # @return [Hash] Transformed structure compatible with existing code
+  def transform_json_to_nested_structure(json_data)
+    {
+      aktiva: transform_section_hash(json_data[:aktiva]),
+      passiva: transform_section_hash(json_data[:passiva])
+    }
+  end
+
+  # Transform a section hash (aktiva or passiva)
+  # @param section_data [Hash] Section data from JSON
+  # @return [Hash] Transformed section with category keys
+  def transform_section_hash(section_data)
+    result = {}
+    section_data.each do |name, data|
+      key = name_to_key(name)
+      result[key] = transform_category(name, data)
+    end
+    result
+  end
+
+  # Transform a single category from JSON format to internal format
+  # @param name [String, Symbol] Category name
+  # @param data [Hash] Category data with :codes, :items, :children
+  # @return [Hash] Transformed category with :name, :codes, :children
+  def transform_category(name, data)
+    # Convert to string if it's a symbol (from JSON.parse with symbolize_names: true)
+    name_str = name.to_s
+
+    # Ensure codes is always an array (handle empty strings from JSON)
+    codes = data[:codes]
+    codes = [] unless codes.is_a?(Array)
+
+    category = {
+      name: name_str,
+      codes: codes,
+      children: {},
+      rsid: data[:rsid] # Preserve the RSID from JSON
+    }
+
+    # Handle 'items' array (used for top-level categories like Anlagevermögen)
+    if data[:items]
+      data[:items].each do |item|
+        # Some items have only children without a name (e.g., Rückstellungen)
+        if item[:name]
+          item_key = name_to_key(item[:name])
+          category[:children][item_key] = {
+            name: item[:name],
+            codes: ensure_codes_array(item[:codes]),
+            children: {},
+            rsid: item[:rsid]
+          }
+
+          # Handle 'children' within items
+          if item[:children]
             item[:children].each do |child|
               child_key = name_to_key(child[:name])
-              category[:children][child_key] = {
+              category[:children][item_key][:children][child_key] = {
                 name: child[:name],
                 codes: ensure_codes_array(child[:codes]),
                 children: {},
@@ -443,330 +495,347 @@ class AccountMap
               }
             end
           end
+        elsif item[:children]
+          # Item has no name, add children directly to category
+          item[:children].each do |child|
+            child_key = name_to_key(child[:name])
+            category[:children][child_key] = {
+              name: child[:name],
+              codes: ensure_codes_array(child[:codes]),
+              children: {},
+              rsid: child[:rsid]
+            }
+          end
         end
       end
-
-      # Handle direct 'children' (used for categories like Rückstellungen)
-      if data[:children] && data[:items].nil?
-        # Wrap in a single item to match the nested structure
-        data[:children].each do |child|
-          child_key = name_to_key(child[:name])
-          category[:children][child_key] = {
-            name: child[:name],
-            codes: ensure_codes_array(child[:codes]),
-            children: {},
-            rsid: child[:rsid]
-          }
-        end
-      end
-
-      category
-    end
-
-    # Convert German name to symbol key
-    # @param name [String, Symbol] German category name
-    # @return [Symbol] Key for the category
-    def name_to_key(name)
-      # Convert to string if it's a symbol
-      name_str = name.to_s
-
-      # Normalize the name to create a consistent key
-      key = name_str.downcase
-        .gsub(/ä/, "ae")
-        .gsub(/ö/, "oe")
-        .gsub(/ü/, "ue")
-        .gsub(/ß/, "ss")
-        .gsub(/[^a-z0-9]+/, "_")
-        .gsub(/^_+|_+$/, "")
-        .to_sym
-
-      # Handle special cases for known keys
-      case name_str
-      when "Anlagevermögen" then :anlagevermoegen
-      when "Umlaufvermögen" then :umlaufvermoegen
-      when "Rechnungsabgrenzungsposten" then :rechnungsabgrenzungsposten
-      when "Aktive latente Steuern" then :aktive_latente_steuern
-      when "Aktiver Unterschiedsbetrag aus der Vermögensverrechnung" then :aktiver_unterschiedsbetrag
-      when "Eigenkapital" then :eigenkapital
-      when "Rückstellungen" then :rueckstellungen
-      when "Verbindlichkeiten" then :verbindlichkeiten
-      when "Passive latente Steuern" then :passive_latente_steuern
-      when "Immaterielle Vermögensgegenstände" then :immaterielle_vermogensgegenstaende
-      when "Sachanlagen" then :sachanlagen
-      when "Finanzanlagen" then :finanzanlagen
-      when "Vorräte" then :vorraete
-      when "Forderungen und sonstige Vermögensgegenstände" then :forderungen_sonstige_vermogensgegenstaende
-      when "Wertpapiere" then :wertpapiere_umlaufvermoegen
-      when "Kassenbestand, Bundesbankguthaben, Guthaben bei Kreditinstituten und Schecks" then :liquide_mittel
-      when "Gezeichnetes Kapital" then :gezeichnetes_kapital
-      when "Kapitalrücklage" then :kapitalruecklage
-      when "Gewinnrücklagen" then :gewinnruecklagen
-      when "Gewinnvortrag/Verlustvortrag" then :gewinnvortrag_verlustvortrag
-      else
-        key
-      end
     end
 
-    # Validate that the section_id exists in guv_sections
-    def validate_guv_section!(section_id)
-      unless guv_sections.key?(section_id)
-        raise ArgumentError, "Unknown GuV section: #{section_id}. Valid sections: #{guv_sections.keys.join(', ')}"
+    # Handle direct 'children' (used for categories like Rückstellungen)
+    if data[:children] && data[:items].nil?
+      # Wrap in a single item to match the nested structure
+      data[:children].each do |child|
+        child_key = name_to_key(child[:name])
+        category[:children][child_key] = {
+          name: child[:name],
+          codes: ensure_codes_array(child[:codes]),
+          children: {},
+          rsid: child[:rsid]
+        }
       end
     end
 
-    # Expand account ranges into individual account codes
-    # @param account_specs [Array<String>] Array of individual codes or ranges (e.g., ["4000", "5000-5999"])
-    # @return [Array<String>] Array of individual account codes
-    def expand_account_ranges(account_specs)
-      result = []
+    category
+  end
+
+  # Convert German name to symbol key
+  # @param name [String, Symbol] German category name
+  # @return [Symbol] Key for the category
+  def name_to_key(name)
+    # Convert to string if it's a symbol
+    name_str = name.to_s
+
+    # Normalize the name to create a consistent key
+    key = name_str.downcase
+      .gsub(/ä/, "ae")
+      .gsub(/ö/, "oe")
+      .gsub(/ü/, "ue")
+      .gsub(/ß/, "ss")
+      .gsub(/[^a-z0-9]+/, "_")
+      .gsub(/^_+|_+$/, "")
+      .to_sym
+
+    # Handle special cases for known keys
+    case name_str
+    when "Anlagevermögen" then :anlagevermoegen
+    when "Umlaufvermögen" then :umlaufvermoegen
+    when "Rechnungsabgrenzungsposten" then :rechnungsabgrenzungsposten
+    when "Aktive latente Steuern" then :aktive_latente_steuern
+    when "Aktiver Unterschiedsbetrag aus der Vermögensverrechnung" then :aktiver_unterschiedsbetrag
+    when "Eigenkapital" then :eigenkapital
+    when "Rückstellungen" then :rueckstellungen
+    when "Verbindlichkeiten" then :verbindlichkeiten
+    when "Passive latente Steuern" then :passive_latente_steuern
+    when "Immaterielle Vermögensgegenstände" then :immaterielle_vermogensgegenstaende
+    when "Sachanlagen" then :sachanlagen
+    when "Finanzanlagen" then :finanzanlagen
+    when "Vorräte" then :vorraete
+    when "Forderungen und sonstige Vermögensgegenstände" then :forderungen_sonstige_vermogensgegenstaende
+    when "Wertpapiere" then :wertpapiere_umlaufvermoegen
+    when "Kassenbestand, Bundesbankguthaben, Guthaben bei Kreditinstituten und Schecks" then :liquide_mittel
+    when "Gezeichnetes Kapital" then :gezeichnetes_kapital
+    when "Kapitalrücklage" then :kapitalruecklage
+    when "Gewinnrücklagen" then :gewinnruecklagen
+    when "Gewinnvortrag/Verlustvortrag" then :gewinnvortrag_verlustvortrag
+    else
+      key
+    end
+  end
 
-      account_specs.each do |spec|
-        if spec.include?("-")
-          # It's a range like "4000-4999"
-          start_code, end_code = spec.split("-")
-          start_num = start_code.to_i
-          end_num = end_code.to_i
+  # Validate that the section_id exists in guv_sections
+  def validate_guv_section!(section_id)
+    unless guv_sections.key?(section_id)
+      raise ArgumentError, "Unknown GuV section: #{section_id}. Valid sections: #{guv_sections.keys.join(', ')}"
+    end
+  end
 
-          (start_num..end_num).each do |num|
-            result << num.to_s.rjust(start_code.length, "0")
-          end
-        else
-          # It's an individual account code
-          result << spec
+  # Expand account ranges into individual account codes
+  # @param account_specs [Array<String>] Array of individual codes or ranges (e.g., ["4000", "5000-5999"])
+  # @return [Array<String>] Array of individual account codes
+  def expand_account_ranges(account_specs)
+    result = []
+
+    account_specs.each do |spec|
+      if spec.include?("-")
+        # It's a range like "4000-4999"
+        start_code, end_code = spec.split("-")
+        start_num = start_code.to_i
+        end_num = end_code.to_i
+
+        (start_num..end_num).each do |num|
+          result << num.to_s.rjust(start_code.length, "0")
         end
+      else
+        # It's an individual account code
+        result << spec
       end
+    end
+
+    result.uniq.sort
+  end
 
-      result.uniq.sort
+  # Validate that category exists in nested structure
+  def validate_nested_category!(category_id)
+    valid_aktiva = nested_balance_sheet_categories[:aktiva].keys
+    valid_passiva = nested_balance_sheet_categories[:passiva].keys
+    valid_categories = valid_aktiva + valid_passiva
+
+    unless valid_categories.include?(category_id)
+      raise ArgumentError, "Unknown nested category: #{category_id}. Valid categories: #{valid_categories.join(', ')}"
     end
+  end
 
-    # Validate that category exists in nested structure
-    def validate_nested_category!(category_id)
-      valid_aktiva = nested_balance_sheet_categories[:aktiva].keys
-      valid_passiva = nested_balance_sheet_categories[:passiva].keys
-      valid_categories = valid_aktiva + valid_passiva
+  # Find a category in the nested structure (recursive search)
+  def find_in_nested_structure(category_id)
+    # Search aktiva
+    nested_balance_sheet_categories[:aktiva].each do |key, data|
+      found = search_category_recursive(key, data, category_id)
+      return found if found
+    end
 
-      unless valid_categories.include?(category_id)
-        raise ArgumentError, "Unknown nested category: #{category_id}. Valid categories: #{valid_categories.join(', ')}"
-      end
+    # Search passiva
+    nested_balance_sheet_categories[:passiva].each do |key, data|
+      found = search_category_recursive(key, data, category_id)
+      return found if found
     end
 
-    # Find a category in the nested structure (recursive search)
-    def find_in_nested_structure(category_id)
-      # Search aktiva
-      nested_balance_sheet_categories[:aktiva].each do |key, data|
-        found = search_category_recursive(key, data, category_id)
-        return found if found
-      end
+    nil
+  end
 
-      # Search passiva
-      nested_balance_sheet_categories[:passiva].each do |key, data|
-        found = search_category_recursive(key, data, category_id)
+  def search_category_recursive(current_key, current_data, target_key)
+    return current_data if current_key == target_key
+
+    if current_data[:children]
+      current_data[:children].each do |child_key, child_data|
+        found = search_category_recursive(child_key, child_data, target_key)
         return found if found
       end
-
-      nil
     end
 
-    def search_category_recursive(current_key, current_data, target_key)
-      return current_data if current_key == target_key
+    nil
+  end
 
-      if current_data[:children]
-        current_data[:children].each do |child_key, child_data|
-          found = search_category_recursive(child_key, child_data, target_key)
-          return found if found
-        end
-      end
+  # Collect all codes from a structure and its children
+  def collect_all_codes(structure)
+    codes = structure[:codes] || []
 
-      nil
+    if structure[:children]
+      structure[:children].each_value do |child_data|
+        codes.concat(collect_all_codes(child_data))
+      end
     end
 
-    # Collect all codes from a structure and its children
-    def collect_all_codes(structure)
-      codes = structure[:codes] || []
+    expand_account_ranges(codes)
+  end
 
-      if structure[:children]
-        structure[:children].each_value do |child_data|
-          codes.concat(collect_all_codes(child_data))
-        end
+  # Recursively build BalanceSheetSection tree
+  def build_section_recursive(account_list, section_key, structure, level:)
+    # Get codes for this level only (not children)
+    own_codes = expand_account_ranges(structure[:codes] || [])
+
+    # Filter accounts that belong to this level; accounts with an assigned
+    # section (:rsid) are placed by it instead of by code
+    belongs_here = ->(account) { account[:rsid] ? account[:rsid] == structure[:rsid] : own_codes.include?(account[:code]) }
+    own_accounts = account_list.select(&belongs_here)
+
+    # Create section
+    section = BalanceSheetSection.new(
+      section_key: section_key,
+      section_name: structure[:name],
+      level: level,
+      accounts: own_accounts
+    )
+
+    # Filter out accounts already matched at this level before passing to children
+    # This ensures each account appears at only one nesting level (shallowest match wins)
+    remaining_accounts = account_list.reject(&belongs_here)
+
+    # Recursively build children with filtered list
+    if structure[:children]
+      structure[:children].each do |child_key, child_data|
+        child_section = build_section_recursive(
+          remaining_accounts,
+          child_key,
+          child_data,
+          level: level + 1
+        )
+        section.add_child(child_section) unless child_section.empty?
       end
-
-      expand_account_ranges(codes)
     end
 
-    # Recursively build BalanceSheetSection tree
-    def build_section_recursive(account_list, section_key, structure, level:)
-      # Get codes for this level only (not children)
-      own_codes = expand_account_ranges(structure[:codes] || [])
-
-      # Filter accounts that belong to this level
-      own_accounts = account_list.select { |account| own_codes.include?(account[:code]) }
+    section
+  end
 
-      # Create section
-      section = BalanceSheetSection.new(
-        section_key: section_key,
-        section_name: structure[:name],
-        level: level,
-        accounts: own_accounts
-      )
+  # Check if account requires special category handling (stub for future implementation)
+  # @param account_code [String] The account code
+  # @return [String, nil] Account type if special handling applies, nil otherwise
+  def check_special_category_handling(account_code)
+    # TODO: Implement special handling for:
+    # - Rechnungsabgrenzungsposten (ARAP/PRAP)
+    # - Latente Steuern (aktiv/passiv)
+    # - Sonderposten mit Rücklageanteil
+    # - Aktiver Unterschiedsbetrag aus Vermögensverrechnung
+    nil
+  end
 
-      # Filter out accounts already matched at this level before passing to children
-      # This ensures each account appears at only one nesting level (shallowest match wins)
-      remaining_accounts = account_list.reject { |account| own_codes.include?(account[:code]) }
-
-      # Recursively build children with filtered list
-      if structure[:children]
-        structure[:children].each do |child_key, child_data|
-          child_section = build_section_recursive(
-            remaining_accounts,
-            child_key,
-            child_data,
-            level: level + 1
-          )
-          section.add_child(child_section) unless child_section.empty?
-        end
+  # Find account in nested balance sheet structure
+  # @param account_code [String] The account code to search for
+  # @return [Hash, nil] Hash with :side and :top_level_category, or nil if not found
+  def find_account_in_nested_structure(account_code)
+    # Search aktiva
+    nested_balance_sheet_categories[:aktiva].each do |top_key, top_data|
+      if account_in_category?(account_code, top_data)
+        return { side: :aktiva, top_level_category: top_key }
       end
+    end
 
-      section
-    end
-
-    # Check if account requires special category handling (stub for future implementation)
-    # @param account_code [String] The account code
-    # @return [String, nil] Account type if special handling applies, nil otherwise
-    def check_special_category_handling(account_code)
-      # TODO: Implement special handling for:
-      # - Rechnungsabgrenzungsposten (ARAP/PRAP)
-      # - Latente Steuern (aktiv/passiv)
-      # - Sonderposten mit Rücklageanteil
-      # - Aktiver Unterschiedsbetrag aus Vermögensverrechnung
-      nil
-    end
-
-    # Find account in nested balance sheet structure
-    # @param account_code [String] The account code to search for
-    # @return [Hash, nil] Hash with :side and :top_level_category, or nil if not found
-    def find_account_in_nested_structure(account_code)
-      # Search aktiva
-      nested_balance_sheet_categories[:aktiva].each do |top_key, top_data|
-        if account_in_category?(account_code, top_data)
-          return { side: :aktiva, top_level_category: top_key }
-        end
+    # Search passiva
+    nested_balance_sheet_categories[:passiva].each do |top_key, top_data|
+      if account_in_category?(account_code, top_data)
+        return { side: :passiva, top_level_category: top_key }
       end
+    end
 
-      # Search passiva
-      nested_balance_sheet_categories[:passiva].each do |top_key, top_data|
-        if account_in_category?(account_code, top_data)
-          return { side: :passiva, top_level_category: top_key }
-        end
-      end
+    nil
+  end
 
-      nil
+  # Check if account code exists in a category (recursively checks children)
+  # @param account_code [String] The account code to search for
+  # @param category_data [Hash] Category data with :codes and :children
+  # @return [Boolean] True if account found in this category or its children
+  def account_in_category?(account_code, category_data)
+    # Check codes at this level
+    codes = expand_account_ranges(category_data[:codes] || [])
+    return true if codes.include?(account_code)
+
+    # Recursively check children
+    if category_data[:children]
+      category_data[:children].each_value do |child_data|
+        return true if account_in_category?(account_code, child_data)
+      end
     end
 
-    # Check if account code exists in a category (recursively checks children)
-    # @param account_code [String] The account code to search for
-    # @param category_data [Hash] Category data with :codes and :children
-    # @return [Boolean] True if account found in this category or its children
-    def account_in_category?(account_code, category_data)
-      # Check codes at this level
-      codes = expand_account_ranges(category_data[:codes] || [])
-      return true if codes.include?(account_code)
+    false
+  end
 
-      # Recursively check children
-      if category_data[:children]
-        category_data[:children].each_value do |child_data|
-          return true if account_in_category?(account_code, child_data)
-        end
+  # Determine account type from balance sheet position
+  # @param side [Symbol] :aktiva or :passiva
+  # @param top_level_category [Symbol] The top-level category key
+  # @return [String] The account type ("asset", "liability", or "equity")
+  def account_type_from_balance_position(side, top_level_category)
+    case side
+    when :aktiva
+      "asset"
+    when :passiva
+      case top_level_category
+      when :eigenkapital
+        "equity"
+      when :rueckstellungen, :verbindlichkeiten
+        "liability"
+      else
+        "liability"  # Conservative default for passiva
       end
+    end
+  end
 
-      false
-    end
-
-    # Determine account type from balance sheet position
-    # @param side [Symbol] :aktiva or :passiva
-    # @param top_level_category [Symbol] The top-level category key
-    # @return [String] The account type ("asset", "liability", or "equity")
-    def account_type_from_balance_position(side, top_level_category)
-      case side
-      when :aktiva
-        "asset"
-      when :passiva
-        case top_level_category
-        when :eigenkapital
-          "equity"
-        when :rueckstellungen, :verbindlichkeiten
-          "liability"
-        else
-          "liability"  # Conservative default for passiva
-        end
-      end
+  # Find which GuV section an account belongs to
+  # @param account_code [String] The account code
+  # @return [Symbol, nil] The GuV section identifier or nil if not found
+  def find_guv_section_for_account(account_code)
+    guv_sections.each do |section_id, section_data|
+      codes = expand_account_ranges(section_data[:accounts])
+      return section_id if codes.include?(account_code)
     end
+    nil
+  end
 
-    # Find which GuV section an account belongs to
-    # @param account_code [String] The account code
-    # @return [Symbol, nil] The GuV section identifier or nil if not found
-    def find_guv_section_for_account(account_code)
-      guv_sections.each do |section_id, section_data|
-        codes = expand_account_ranges(section_data[:accounts])
-        return section_id if codes.include?(account_code)
-      end
-      nil
-    end
-
-    # Ensure codes is always an array (handles nil, empty strings, etc.)
-    # @param codes [Object] Value that should be an array of codes
-    # @return [Array] Array of codes (empty if input was invalid)
-    def ensure_codes_array(codes)
-      codes.is_a?(Array) ? codes : []
-    end
-
-    # Map German GuV section names to symbol keys (for backward compatibility)
-    # @param name [String, Symbol] German section name from JSON
-    # @return [Symbol] Key for the section
-    def guv_name_to_key(name)
-      case name.to_s
-      when "Umsatzerlöse" then :umsatzerloese
-      when /Bestand/ then :bestandsveraenderungen
-      when /aktivierte Eigenleistungen/ then :aktivierte_eigenleistungen
-      when /betriebliche Erträge/ then :sonstige_betriebliche_ertraege
-      when /Roh-, Hilfs/ then :materialaufwand_roh_hilfs_betriebsstoffe
-      when /bezogene Leistungen/ then :materialaufwand_bezogene_leistungen
-      when /Löhne/ then :personalaufwand_loehne_gehaelter
-      when /soziale Abgaben/ then :personalaufwand_soziale_abgaben
-      when /auf immaterielle/ then :abschreibungen_anlagevermoegen
-      when /des Umlaufvermögens/ then :abschreibungen_umlaufvermoegen
-      when /betriebliche Aufwendungen/ then :sonstige_betriebliche_aufwendungen
-      when /Beteiligungen/ then :ertraege_beteiligungen
-      when /Wertpapieren/ then :ertraege_wertpapiere
-      when /sonstige Zinsen und ähnliche Erträge/ then :sonstige_zinsen_ertraege
-      when /auf Finanzanlagen/ then :abschreibungen_finanzanlagen
-      when /Zinsen und ähnliche Aufwendungen/ then :zinsen_aufwendungen
-      when /Einkommen und vom Ertrag/ then :steuern_einkommen_ertrag
-      when /sonstige Steuern/ then :sonstige_steuern
-      when /nach Steuern/ then :ergebnis_nach_steuern
-      when /Jahres/ then :jahresueberschuss_jahresfehlbetrag
-      else
-        # Fallback: normalize German name to symbol
-        name.to_s.downcase
-          .gsub(/ä/, "ae").gsub(/ö/, "oe").gsub(/ü/, "ue").gsub(/ß/, "ss")
-          .gsub(/[^a-z0-9]+/, "_").gsub(/^_+|_+$/, "").to_sym
-      end
+  # Ensure codes is always an array (handles nil, empty strings, etc.)
+  # @param codes [Object] Value that should be an array of codes
+  # @return [Array] Array of codes (empty if input was invalid)
+  def ensure_codes_array(codes)
+    codes.is_a?(Array) ? codes : []
+  end
+
+  # Map German GuV section names to symbol keys (for backward compatibility)
+  # @param name [String, Symbol] German section name from JSON
+  # @return [Symbol] Key for the section
+  def guv_name_to_key(name)
+    case name.to_s
+    when "Umsatzerlöse" then :umsatzerloese
+    when /Bestand/ then :bestandsveraenderungen
+    when /aktivierte Eigenleistungen/ then :aktivierte_eigenleistungen
+    when /betriebliche Erträge/ then :sonstige_betriebliche_ertraege
+    when /Roh-, Hilfs/ then :materialaufwand_roh_hilfs_betriebsstoffe
+    when /bezogene Leistungen/ then :materialaufwand_bezogene_leistungen
+    when /Löhne/ then :personalaufwand_loehne_gehaelter
+    when /soziale Abgaben/ then :personalaufwand_soziale_abgaben
+    when /auf immaterielle/ then :abschreibungen_anlagevermoegen
+    when /des Umlaufvermögens/ then :abschreibungen_umlaufvermoegen
+    when /betriebliche Aufwendungen/ then :sonstige_betriebliche_aufwendungen
+    when /Beteiligungen/ then :ertraege_beteiligungen
+    when /Wertpapieren/ then :ertraege_wertpapiere
+    when /sonstige Zinsen und ähnliche Erträge/ then :sonstige_zinsen_ertraege
+    when /auf Finanzanlagen/ then :abschreibungen_finanzanlagen
+    when /Zinsen und ähnliche Aufwendungen/ then :zinsen_aufwendungen
+    when /Einkommen und vom Ertrag/ then :steuern_einkommen_ertrag
+    when /sonstige Steuern/ then :sonstige_steuern
+    when /nach Steuern/ then :ergebnis_nach_steuern
+    when /Jahres/ then :jahresueberschuss_jahresfehlbetrag
+    else
+      # Fallback: normalize German name to symbol
+      name.to_s.downcase
+        .gsub(/ä/, "ae").gsub(/ö/, "oe").gsub(/ü/, "ue").gsub(/ß/, "ss")
+        .gsub(/[^a-z0-9]+/, "_").gsub(/^_+|_+$/, "").to_sym
     end
+  end
 
-    # Determine if a GuV section is revenue, expense, or other
-    # @param name [String, Symbol] Section name
-    # @return [Symbol] :revenue, :expense, or :other
-    def determine_section_type(name)
-      case name.to_s
-      when /Umsatzerlöse/, /Bestand/, /Eigenleistungen/, /Erträge/
-        :revenue
-      when /Materialaufwand/, /Personalaufwand/, /Abschreibungen/,
-           /Aufwendungen/, /Zinsen und ähnliche Aufwendungen/, /Steuern/,
-           /Löhne/, /soziale Abgaben/, /Roh-, Hilfs/, /bezogene Leistungen/,
-           /auf immaterielle/, /des Umlaufvermögens/
-        :expense
-      else
-        :other
-      end
+  # Determine if a GuV section is revenue, expense, or other
+  # @param name [String, Symbol] Section name
+  # @return [Symbol] :revenue, :expense, or :other
+  def determine_section_type(name)
+    case name.to_s
+    when /Umsatzerlöse/, /Bestand/, /Eigenleistungen/, /Erträge/
+      :revenue
+    when /Materialaufwand/, /Personalaufwand/, /Abschreibungen/,
+         /Aufwendungen/, /Zinsen und ähnliche Aufwendungen/, /Steuern/,
+         /Löhne/, /soziale Abgaben/, /Roh-, Hilfs/, /bezogene Leistungen/,
+         /auf immaterielle/, /des Umlaufvermögens/
+      :expense
+    else
+      :other
     end
   end
+
+  class << self
+    delegate(*AccountMap.public_instance_methods(false), to: :default)
+  end
 end
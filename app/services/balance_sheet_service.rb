@@ -1,9 +1,12 @@
 class BalanceSheetService
   Result = Struct.new(:success?, :data, :errors, keyword_init: true)
 
-  def initialize(company:, fiscal_year:, only_posted: true, force: false)
+  # @param compare_previous_year [Boolean] Add the previous year's figures (see PreviousYearComparison)
+  def initialize(company:, fiscal_year:, only_posted: true, force: false, compare_previous_year: false)
     @company = company
     @fiscal_year = fiscal_year
+    @force = force
+    @compare_previous_year = compare_previous_year
     @only_posted = only_posted
     @only_posted = false if !Rails.env.test? && !FeatureFlag.only_posted_enabled?
   end
@@ -13,9 +16,9 @@ class BalanceSheetService
     return failure("Fiscal year is required") unless @fiscal_year
 
     # If fiscal year is closed, try to load stored balance sheet
-    if @fiscal_year.closed? && !force
+    if @fiscal_year.closed? && !@force
       stored_sheet = load_stored_balance_sheet
-      return Result.new(success?: true, data: stored_sheet, errors: []) if stored_sheet
+      return Result.new(success?: true, data: with_previous_year(stored_sheet), errors: []) if stored_sheet
     end
 
     # Otherwise calculate on-the-fly
@@ -32,7 +35,7 @@ class BalanceSheetService
     # Build balance sheet structure
     data = build_balance_sheet_data(grouped_accounts, net_income, guv_data)
 
-    Result.new(success?: true, data: data, errors: [])
+    Result.new(success?: true, data: with_previous_year(data), errors: [])
   rescue StandardError => e
     Result.new(success?: false, data: nil, errors: [ e.message ])
   end
@@ -56,18 +59,19 @@ class BalanceSheetService
         "accounts.name",
         "accounts.account_type",
         "accounts.presentation_rule",
+        "accounts.cid",
         "SUM(CASE WHEN line_items.direction = 'debit' THEN line_items.amount ELSE 0 END) as total_debit",
         "SUM(CASE WHEN line_items.direction = 'credit' THEN line_items.amount ELSE 0 END) as total_credit"
       )
-      .group("accounts.id", "accounts.code", "accounts.name", "accounts.account_type", "accounts.presentation_rule")
+      .group("accounts.id", "accounts.code", "accounts.name", "accounts.account_type", "accounts.presentation_rule", "accounts.cid")
 
     # Apply presentation rules to determine balance and position
     results.map do |account|
       total_debit = account.total_debit.to_f
       total_credit = account.total_credit.to_f
 
-      # Get semantic cid for this account from AccountMap
-      semantic_cid = AccountMap.cid_for_code(account.code)
+      # Get semantic cid for this account: the assigned section or AccountMap's by code
+      semantic_cid = account.cid.presence || account_map.cid_for_code(account.code)
 
       # Determine presentation rule (from DB or infer from account type)
       rule = account.presentation_rule&.to_sym || infer_presentation_rule(account.account_type)
@@ -77,14 +81,14 @@ class BalanceSheetService
 
       next nil unless position # Skip P&L accounts and zero balances
 
-      # FIXME: This code snippet was added to fix the issue that Verlustvortrag (0868) was added to Eigenkapital
+      # FIXME: This code snippet was added to fix the issue that Verlustvortrag (0868/2978) was added to Eigenkapital
       # on balance sheet. It should be subtracted instead.
       # TODO: it needs to be checked if this works too if there is a Gewinnvortrag instead. And it needs to be checked
       # if there is a better place to put this logic- somewhere were it is centrally controlled whether the sum is
       # added or substracted from the balance sheet calculation
       if account.account_type == "equity" && position[:rsid] == "b.passiva.eigenkapital.gewinnvortragverlustvortrag"
        # Check if this is a loss account based on name or code
-       if account.name.include?("Verlustvortrag") || account.code.in?([ "0868", "2868" ])
+       if account.name.include?("Verlustvortrag") || account_roles.loss_carryforward?(account.code)
          position = position.merge(
            balance: -position[:balance],  # Make it negative
            original_balance: position[:balance]  # Keep original for display
@@ -100,11 +104,20 @@ class BalanceSheetService
         type: account.account_type,
         balance: position[:balance],
         resolved_rsid: position[:rsid],
-        side: position[:side]
+        side: position[:side],
+        assigned_section: account.cid.present?
       }
     end.compact.reject { |a| a[:code].start_with?("9") } # Filter 9000-series closing accounts
   end
 
+  def account_map
+    @account_map ||= AccountMap.for_company(@company)
+  end
+
+  def account_roles
+    @account_roles ||= AccountRoles.for_company(@company)
+  end
+
   def infer_presentation_rule(account_type)
     PresentationRule.infer_from_type(account_type)
   end
@@ -129,7 +142,7 @@ class BalanceSheetService
     passiva_accounts = account_balances.select { |a| a[:side] == :passiva }
 
     # Get all top-level categories from AccountMap
-    categories = AccountMap.nested_balance_sheet_categories
+    categories = account_map.nested_balance_sheet_categories
 
     aktiva_sections = {}
     passiva_sections = {}
@@ -164,11 +177,13 @@ class BalanceSheetService
 
     # Delegate to AccountMap for the nested structure, but with pre-filtered accounts
     # We transform accounts back to the format AccountMap expects
+    # (accounts with an assigned section are placed by their rsid)
     account_balances_for_map = matching_accounts.map do |a|
-      { code: a[:code], name: a[:name], type: a[:type], balance: a[:balance] }
+      account = { code: a[:code], name: a[:name], type: a[:type], balance: a[:balance] }
+      a[:assigned_section] ? account.merge(rsid: a[:resolved_rsid]) : account
     end
 
-    AccountMap.build_nested_section(account_balances_for_map, category_key)
+    account_map.build_nested_section(account_balances_for_map, category_key)
   end
 
   def build_balance_sheet_data(grouped_sections, net_income, guv_data = nil)
@@ -236,6 +251,19 @@ class BalanceSheetService
     result
   end
 
+  # Stored closing balance sheet of the previous fiscal year, otherwise calculated
+  def with_previous_year(data)
+    return data unless @compare_previous_year
+
+    previous_fiscal_year = @company.fiscal_years.find_by(year: @fiscal_year.year - 1)
+    return data unless previous_fiscal_year
+
+    previous_result = BalanceSheetService.new(company: @company, fiscal_year: previous_fiscal_year, only_posted: @only_posted).call
+    return data unless previous_result.success?
+
+    PreviousYearComparison.new(current: data, previous: previous_result.data, previous_fiscal_year: previous_fiscal_year).call
+  end
+
   def failure(message)
     Result.new(success?: false, data: nil, errors: [ message ])
   end
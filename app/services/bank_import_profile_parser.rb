@@ -0,0 +1,117 @@
+require "csv"
+
+# Parses bank CSV exports using a saved BankImportProfile (column mapping, delimiter,
+# preamble lines, date and number format, sign convention). Used for exports the
+# auto-detecting TransactionCsvParser cannot handle, e.g. Sparkasse, DKB, ING or Qonto.
+class BankImportProfileParser
+  class ParseError < StandardError; end
+
+  ParseResult = TransactionCsvParser::ParseResult
+
+  # Indicator values that mark an outflow for the 'indicator' sign convention
+  DEBIT_INDICATORS = %w[s soll d db dr debit debit_card belastung lastschrift -].freeze
+
+  def initialize(csv_data, profile)
+    @csv_data = csv_data
+    @profile = profile
+  end
+
+  def parse
+    data_rows.filter_map.with_index do |row, index|
+      # Skip empty rows and footer lines (e.g. closing balance) without a booking date
+      next if row.all?(&:blank?) || value(row, "booking_date").blank?
+
+      parse_row(row)
+    rescue ArgumentError, Date::Error => e
+      raise ParseError, "Row #{index + 1}: #{e.message}"
+    end
+  end
+
+  # Raw rows after skipping the preamble, including the header row.
+  # Used by the interactive column mapper to show the sample.
+  def sample_rows(limit = 6)
+    rows.first(limit)
+  end
+
+  private
+
+  def rows
+    return [] if @csv_data.blank?
+
+    content = @csv_data.gsub("\r\n", "\n").lines.drop(@profile.skip_lines).join
+    CSV.parse(
+      content,
+      col_sep: delimiter,
+      quote_char: @profile.quote_char.presence || "\"",
+      liberal_parsing: true
+    ).map { |row| row.map { |value| value&.strip } }
+  rescue CSV::MalformedCSVError => e
+    raise ParseError, "Malformed CSV: #{e.message}"
+  end
+
+  def data_rows
+    @profile.has_header ? rows.drop(1) : rows
+  end
+
+  def delimiter
+    @profile.delimiter == "\\t" ? "\t" : @profile.delimiter
+  end
+
+  def parse_row(row)
+    ParseResult.new(
+      booking_date: parse_date(value(row, "booking_date")),
+      value_date: parse_date(value(row, "value_date")),
+      amount: amount_for(row),
+      remittance_information: value(row, "remittance_information"),
+      counterparty_name: value(row, "counterparty_name"),
+      counterparty_iban: value(row, "counterparty_iban")&.delete(" ")
+    )
+  end
+
+  def amount_for(row)
+    case @profile.sign_convention
+    when "split_columns"
+      # Debit columns are often exported as positive numbers, credit columns always are
+      debit = parse_amount(value(row, "debit_amount"))
+      credit = parse_amount(value(row, "credit_amount"))
+      (credit || 0).abs - (debit || 0).abs
+    when "indicator"
+      amount = parse_amount(value(row, "amount")) || 0
+      indicator = value(row, "direction_indicator").to_s.downcase
+      DEBIT_INDICATORS.include?(indicator) ? -amount.abs : amount.abs
+    when "inverted"
+      -(parse_amount(value(row, "amount")) || 0)
+    else
+      parse_amount(value(row, "amount")) || 0
+    end
+  end
+
+  def value(row, field)
+    values = @profile.columns_for(field).filter_map { |index| row[index].presence }
+    return nil if values.empty?
+
+    BankImportProfile::MULTI_COLUMN_FIELDS.include?(field) ? values.join(" ") : values.first
+  end
+
+  def parse_date(str)
+    return nil if str.blank?
+
+    Date.strptime(str, @profile.date_format)
+  end
+
+  def parse_amount(str)
+    return nil if str.blank?
+
+    normalized = str.gsub(/[^\d,.\-+]/, "")
+    normalized = if @profile.decimal_separator == ","
+      normalized.delete(".").tr(",", ".")
+    else
+      normalized.delete(",")
+    end
+
+    # Trailing minus sign, e.g. "119,50-"
+    normalized = "-#{normalized.delete('-')}" if normalized.end_with?("-")
+
+    BigDecimal(normalized)
+  end
+end
@@ -0,0 +1,128 @@
+# Compares the ledger account behind a bank account with the recorded
+# statement closing balances and lists what explains a difference.
+class BankReconciliationService
+  Row = Struct.new(
+    :statement_balance, :ledger_balance, :difference,
+    :pending_transactions, :mismatched_transactions, :unlinked_line_items, :reconcilable_count,
+    keyword_init: true
+  ) do
+    def matched?
+      difference.zero?
+    end
+  end
+
+  # A booked bank transaction whose ledger booking does not mirror it on the statement date
+  Mismatch = Struct.new(:bank_transaction, :line_item, :reason, keyword_init: true)
+
+  def initialize(bank_account:)
+    @bank_account = bank_account
+  end
+
+  def call
+    statement_balances = @bank_account.bank_statement_balances.ordered.to_a
+    # Loaded once and shared by all rows instead of once per statement
+    @booked_transactions = booked_transactions_until(statement_balances.first.balance_date) if statement_balances.any?
+    statement_balances.map { |statement_balance| row_for(statement_balance) }
+  end
+
+  def row_for(statement_balance)
+    date = statement_balance.balance_date
+    ledger_balance = ledger_balance_on(date)
+
+    Row.new(
+      statement_balance: statement_balance,
+      ledger_balance: ledger_balance,
+      difference: (statement_balance.balance - ledger_balance).round(2),
+      pending_transactions: pending_transactions_until(date),
+      mismatched_transactions: mismatched_transactions_for(date),
+      unlinked_line_items: unlinked_line_items_until(date),
+      reconcilable_count: @bank_account.bank_transactions.booked.where(booking_date: ..date).count
+    )
+  end
+
+  # Debit balance of the ledger account on the given date. Earlier years
+  # come in through the opening entry (EBK) of the fiscal year, the closing
+  # entry (SBK) is left out so the balance on the last day is not zeroed.
+  def ledger_balance_on(date)
+    return 0.to_d unless ledger_account
+
+    items = ledger_line_items_until(date)
+    debits = items.where(direction: "debit").sum(:amount)
+    credits = items.where(direction: "credit").sum(:amount)
+    debits - credits
+  end
+
+  private
+
+  def ledger_account
+    @bank_account.ledger_account
+  end
+
+  def ledger_line_items_until(date)
+    items = LineItem.joins(:journal_entry)
+      .where(account_id: ledger_account.id)
+      .where(journal_entries: { company_id: @bank_account.company_id, booking_date: ..date })
+      .where.not(journal_entries: { entry_type: "closing" })
+
+    fiscal_year = @bank_account.company.fiscal_years.for_date(date).first
+    fiscal_year ? items.where(journal_entries: { fiscal_year_id: fiscal_year.id }) : items
+  end
+
+  def pending_transactions_until(date)
+    @bank_account.bank_transactions.pending.where(booking_date: ..date).order(:booking_date, :id).to_a
+  end
+
+  # Ledger lines on the bank account that belong to no bank transaction (manual bookings)
+  def unlinked_line_items_until(date)
+    return [] unless ledger_account
+
+    ledger_line_items_until(date)
+      .where(bank_transaction_id: nil)
+      .where.not(journal_entries: { entry_type: "opening" })
+      .includes(:journal_entry)
+      .order("journal_entries.booking_date ASC", "line_items.id ASC")
+      .to_a
+  end
+
+  def mismatched_transactions_for(date)
+    (@booked_transactions || booked_transactions_until(date))
+      .filter_map { |bank_transaction| mismatch_for(bank_transaction, date) }
+  end
+
+  # Booked bank transactions on the statement or in the ledger up to the date; later ones cannot mismatch
+  def booked_transactions_until(date)
+    @bank_account.bank_transactions
+      .where.not(status: "pending")
+      .left_joins(line_item: :journal_entry)
+      .where("bank_transactions.booking_date <= :date OR journal_entries.booking_date <= :date", date: date)
+      .includes(line_item: [ :journal_entry, :account ])
+      .order(:booking_date, :id)
+      .to_a
+  end
+
+  def mismatch_for(bank_transaction, date)
+    line_item = bank_transaction.line_item
+    on_statement = bank_transaction.booking_date <= date
+
+    if line_item.nil?
+      return on_statement ? Mismatch.new(bank_transaction: bank_transaction, reason: "Marked as booked without a journal entry") : nil
+    end
+
+    in_ledger = line_item.journal_entry.booking_date <= date
+    return unless on_statement || in_ledger
+
+    reason = if on_statement != in_ledger
+      "Booked on #{line_item.journal_entry.booking_date}, on the other side of the statement date"
+    elsif line_item.account_id != ledger_account&.id
+      "Booked on account #{line_item.account.code} instead of the bank ledger account"
+    elsif signed_amount(line_item) != bank_transaction.amount
+      "Booked amount #{format('%.2f', signed_amount(line_item))} differs from the bank amount"
+    end
+
+    Mismatch.new(bank_transaction: bank_transaction, line_item: line_item, reason: reason) if reason
+  end
+
+  def signed_amount(line_item)
+    line_item.direction == "debit" ? line_item.amount : -line_item.amount
+  end
+end
@@ -0,0 +1,31 @@
+# Marks the booked bank transactions up to a statement date as reconciled,
+# but only when the ledger balance matches the statement closing balance.
+class BankStatementReconciler
+  Result = Struct.new(:success?, :reconciled_count, :errors, keyword_init: true)
+
+  def initialize(statement_balance:)
+    @statement_balance = statement_balance
+    @bank_account = statement_balance.bank_account
+  end
+
+  def call
+    return failure("Bank account has no linked ledger account") unless @bank_account.ledger_account
+
+    row = BankReconciliationService.new(bank_account: @bank_account).row_for(@statement_balance)
+    unless row.matched?
+      return failure("Ledger balance differs from the statement balance by #{format('%.2f', row.difference)}")
+    end
+
+    reconciled_count = @bank_account.bank_transactions.booked
+      .where(booking_date: ..@statement_balance.balance_date)
+      .update_all(status: "reconciled", updated_at: Time.current)
+
+    Result.new(success?: true, reconciled_count: reconciled_count, errors: [])
+  end
+
+  private
+
+  def failure(message)
+    Result.new(success?: false, reconciled_count: 0, errors: [ message ])
+  end
+end
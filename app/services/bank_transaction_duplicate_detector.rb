@@ -0,0 +1,141 @@
+# Compares parsed statement rows with the bank account's existing transactions
+# before an import. Each row is classified as:
+# - new: no matching transaction
+# - exact_duplicate: same remote transaction id, or same booking date, amount,
+#   counterparty and remittance text
+# - probable_duplicate: same booking date, amount and counterparty with similar
+#   remittance text (e.g. truncated or differently formatted by another export)
+#
+# Every existing transaction is matched at most once, so legitimately repeated
+# rows (two identical card payments on one day) are only flagged as often as
+# they already exist.
+class BankTransactionDuplicateDetector
+  Match = Struct.new(:status, :bank_transaction, :reference_match, keyword_init: true) do
+    def new?
+      status == "new"
+    end
+
+    def duplicate?
+      !new?
+    end
+  end
+
+  # Minimum word overlap (Dice coefficient) for remittance texts and counterparty names
+  SIMILARITY_THRESHOLD = 0.5
+
+  def initialize(bank_account:, transactions:)
+    @bank_account = bank_account
+    @transactions = transactions
+  end
+
+  # Returns one Match per parsed row, in the same order
+  def detect
+    load_candidates
+    claimed_ids = Set.new
+
+    @transactions.map do |tx_data|
+      match = match_for(tx_data, claimed_ids)
+      claimed_ids << match.bank_transaction.id if match.bank_transaction
+      match
+    end
+  end
+
+  private
+
+  def load_candidates
+    dates = @transactions.filter_map(&:booking_date)
+    remote_ids = @transactions.filter_map { |tx_data| remote_transaction_id(tx_data) }
+
+    scope = @bank_account.bank_transactions
+    by_date = dates.any? ? scope.where(booking_date: dates.min..dates.max).to_a : []
+    by_remote_id = remote_ids.any? ? scope.where(remote_transaction_id: remote_ids).to_a : []
+
+    @candidates_by_key = by_date.group_by { |bank_transaction| match_key(bank_transaction) }
+    @candidates_by_remote_id = by_remote_id.index_by(&:remote_transaction_id)
+  end
+
+  def match_for(tx_data, claimed_ids)
+    remote_id = remote_transaction_id(tx_data)
+    if remote_id && (existing = @candidates_by_remote_id[remote_id])
+      return Match.new(status: "exact_duplicate", bank_transaction: existing, reference_match: true)
+    end
+
+    candidates = (@candidates_by_key[match_key(tx_data)] || []).reject do |bank_transaction|
+      claimed_ids.include?(bank_transaction.id) || different_references?(bank_transaction, remote_id)
+    end
+
+    exact = candidates.find { |bank_transaction| exact_match?(bank_transaction, tx_data) }
+    return Match.new(status: "exact_duplicate", bank_transaction: exact, reference_match: false) if exact
+
+    probable = candidates
+      .select { |bank_transaction| probable_match?(bank_transaction, tx_data) }
+      .max_by { |bank_transaction| similarity(bank_transaction.remittance_information, tx_data.remittance_information) }
+    return Match.new(status: "probable_duplicate", bank_transaction: probable, reference_match: false) if probable
+
+    Match.new(status: "new", bank_transaction: nil, reference_match: false)
+  end
+
+  def match_key(record)
+    [ record.booking_date, record.amount.to_d.round(2) ]
+  end
+
+  # Two transactions carrying different bank references are never the same booking
+  def different_references?(bank_transaction, remote_id)
+    remote_id.present? && bank_transaction.remote_transaction_id.present? &&
+      bank_transaction.remote_transaction_id != remote_id
+  end
+
+  def exact_match?(bank_transaction, tx_data)
+    normalize(bank_transaction.counterparty_name) == normalize(tx_data.counterparty_name) &&
+      normalize(bank_transaction.remittance_information) == normalize(tx_data.remittance_information) &&
+      !different_ibans?(bank_transaction.counterparty_iban, tx_data.counterparty_iban)
+  end
+
+  def probable_match?(bank_transaction, tx_data)
+    same_counterparty?(bank_transaction, tx_data) &&
+      similar_text?(bank_transaction.remittance_information, tx_data.remittance_information)
+  end
+
+  def same_counterparty?(bank_transaction, tx_data)
+    existing_iban = normalize_iban(bank_transaction.counterparty_iban)
+    imported_iban = normalize_iban(tx_data.counterparty_iban)
+    return existing_iban == imported_iban if existing_iban && imported_iban
+
+    similar_text?(bank_transaction.counterparty_name, tx_data.counterparty_name)
+  end
+
+  def different_ibans?(a, b)
+    a = normalize_iban(a)
+    b = normalize_iban(b)
+    a.present? && b.present? && a != b
+  end
+
+  # Missing text on either side does not count against a match,
+  # since not every export format contains every field
+  def similar_text?(a, b)
+    a.blank? || b.blank? || similarity(a, b) >= SIMILARITY_THRESHOLD
+  end
+
+  def similarity(a, b)
+    a = normalize(a)
+    b = normalize(b)
+    return 0.0 if a.empty? || b.empty?
+    return 1.0 if " #{a} ".include?(" #{b} ") || " #{b} ".include?(" #{a} ")
+
+    words_a = a.split.to_set
+    words_b = b.split.to_set
+    2.0 * (words_a & words_b).size / (words_a.size + words_b.size)
+  end
+
+  def normalize(text)
+    text.to_s.downcase.gsub(/[^[:alnum:]]+/, " ").squish
+  end
+
+  def normalize_iban(iban)
+    iban.to_s.delete(" ").upcase.presence
+  end
+
+  def remote_transaction_id(tx_data)
+    tx_data.respond_to?(:remote_transaction_id) ? tx_data.remote_transaction_id.presence : nil
+  end
+end
@@ -0,0 +1,80 @@
+# Creates bank transactions from parsed statement rows (CSV, camt) for a bank account.
+# Rows with a remote transaction id that already exists are skipped, so
+# re-importing overlapping statements does not create duplicates. Rows the user
+# chose to skip in the preview (see BankTransactionDuplicateDetector) are passed
+# as skip_indexes.
+class BankTransactionImporter
+  Result = Struct.new(:success?, :imported_count, :skipped_count, :errors, keyword_init: true)
+
+  # Optional parser fields that are kept in the transaction's import metadata
+  METADATA_FIELDS = %i[end_to_end_id transaction_code posting_text].freeze
+
+  def initialize(bank_account:, transactions:, origin:, skip_indexes: [])
+    @bank_account = bank_account
+    @transactions = transactions
+    @origin = origin
+    @skip_indexes = skip_indexes.map(&:to_i).to_set
+  end
+
+  def call
+    import_timestamp = Time.current.iso8601
+    existing_ids = existing_remote_ids
+    imported_count = 0
+    skipped_count = 0
+
+    ActiveRecord::Base.transaction do
+      @transactions.each_with_index do |tx_data, index|
+        remote_id = remote_transaction_id(tx_data)
+
+        if @skip_indexes.include?(index) || (remote_id && existing_ids.include?(remote_id))
+          skipped_count += 1
+          next
+        end
+
+        @bank_account.bank_transactions.create!(
+          booking_date: tx_data.booking_date,
+          value_date: tx_data.value_date,
+          amount: tx_data.amount,
+          currency: @bank_account.currency,
+          remittance_information: tx_data.remittance_information,
+          counterparty_name: tx_data.counterparty_name,
+          counterparty_iban: tx_data.counterparty_iban,
+          remote_transaction_id: remote_id,
+          status: "pending",
+          config: {
+            import: import_config(tx_data, import_timestamp)
+          }
+        )
+        existing_ids << remote_id if remote_id
+        imported_count += 1
+      end
+    end
+
+    Result.new(success?: true, imported_count: imported_count, skipped_count: skipped_count, errors: [])
+  rescue ActiveRecord::RecordInvalid, ActiveRecord::RecordNotUnique => e
+    Result.new(success?: false, imported_count: 0, skipped_count: 0, errors: [ e.message ])
+  end
+
+  private
+
+  # Remote transaction ids of the parsed rows that already exist on the bank account
+  def existing_remote_ids
+    ids = @transactions.filter_map { |tx_data| remote_transaction_id(tx_data) }
+    return Set.new if ids.empty?
+
+    @bank_account.bank_transactions.where(remote_transaction_id: ids).pluck(:remote_transaction_id).to_set
+  end
+
+  def remote_transaction_id(tx_data)
+    tx_data.respond_to?(:remote_transaction_id) ? tx_data.remote_transaction_id.presence : nil
+  end
+
+  def import_config(tx_data, import_timestamp)
+    config = { ts: import_timestamp, origin: @origin }
+    METADATA_FIELDS.each do |field|
+      value = tx_data.respond_to?(field) ? tx_data.public_send(field) : nil
+      config[field] = value if value.present?
+    end
+    config
+  end
+end
@@ -0,0 +1,49 @@
+# Books pending bank transactions of a bank account with the company's active
+# booking rules. The first matching rule (by position) wins. Entries are created
+# as drafts via JournalEntryCreator, so they can still be reviewed and deleted.
+class BookingRuleApplier
+  Result = Struct.new(:success?, :booked_count, :unmatched_count, :errors, keyword_init: true)
+
+  def initialize(company:, bank_account:)
+    @company = company
+    @bank_account = bank_account
+  end
+
+  def call
+    rules = @company.booking_rules.active.ordered.to_a
+    return failure("No active booking rules") if rules.empty?
+
+    booked_count = 0
+    unmatched_count = 0
+    errors = []
+
+    @bank_account.bank_transactions.pending.order(:booking_date, :id).each do |bank_transaction|
+      rule = rules.find { |r| r.matches?(bank_transaction) }
+
+      unless rule
+        unmatched_count += 1
+        next
+      end
+
+      result = JournalEntryCreator.new(
+        company: @company,
+        bank_transaction: bank_transaction,
+        params: rule.journal_entry_params(bank_transaction)
+      ).call
+
+      if result.success?
+        booked_count += 1
+      else
+        errors << "#{bank_transaction.booking_date.strftime('%d.%m.%Y')} #{bank_transaction.counterparty_name} (#{rule.name}): #{result.errors.join(', ')}"
+      end
+    end
+
+    Result.new(success?: true, booked_count: booked_count, unmatched_count: unmatched_count, errors: errors)
+  end
+
+  private
+
+  def failure(message)
+    Result.new(success?: false, booked_count: 0, unmatched_count: 0, errors: [ message ])
+  end
+end
@@ -0,0 +1,142 @@
+# Parses ISO 20022 camt.053 (end-of-day statement) and camt.052 (intraday report)
+# XML files into bank transactions and statement balances.
+# Namespaces are stripped, so all common message versions (.001.02 - .001.08) are supported.
+class CamtStatementParser
+  class ParseError < StandardError; end
+
+  ParseResult = Struct.new(
+    :booking_date, :value_date, :amount, :remittance_information, :counterparty_name,
+    :counterparty_iban, :remote_transaction_id, :end_to_end_id, keyword_init: true
+  )
+
+  Statement = Struct.new(
+    :statement_id, :iban, :currency, :from_date, :to_date,
+    :opening_balance, :opening_date, :closing_balance, :closing_date, keyword_init: true
+  )
+
+  # Balance type codes for opening (OPBD = opening booked, PRCD = previously closed booked)
+  # and closing (CLBD = closing booked) balances
+  OPENING_BALANCE_CODES = %w[OPBD PRCD].freeze
+  CLOSING_BALANCE_CODES = %w[CLBD].freeze
+
+  attr_reader :statements
+
+  def initialize(xml_data)
+    @xml_data = xml_data
+    @statements = []
+  end
+
+  def self.camt?(data)
+    data.present? && data.lstrip.start_with?("<") && data.match?(/camt\.05[23]|BkToCstmr(Stmt|AcctRpt)/)
+  end
+
+  def parse
+    return [] if @xml_data.blank?
+
+    doc = Nokogiri::XML(@xml_data) { |config| config.strict }
+    doc.remove_namespaces!
+
+    statement_nodes = doc.xpath("//BkToCstmrStmt/Stmt | //BkToCstmrAcctRpt/Rpt")
+    raise ParseError, "No camt.052/camt.053 statement found in file" if statement_nodes.empty?
+
+    statement_nodes.flat_map do |statement_node|
+      statement = parse_statement(statement_node)
+      @statements << statement
+      statement_node.xpath("Ntry").filter_map { |entry| parse_entry(entry, statement) }
+    end
+  rescue Nokogiri::XML::SyntaxError => e
+    raise ParseError, "Invalid XML: #{e.message}"
+  end
+
+  private
+
+  def parse_statement(node)
+    opening = find_balance(node, OPENING_BALANCE_CODES)
+    closing = find_balance(node, CLOSING_BALANCE_CODES)
+
+    Statement.new(
+      statement_id: text(node, "Id"),
+      iban: text(node, "Acct/Id/IBAN"),
+      currency: text(node, "Acct/Ccy"),
+      from_date: parse_date(text(node, "FrToDt/FrDtTm")),
+      to_date: parse_date(text(node, "FrToDt/ToDtTm")),
+      opening_balance: opening&.dig(:amount),
+      opening_date: opening&.dig(:date),
+      closing_balance: closing&.dig(:amount),
+      closing_date: closing&.dig(:date)
+    )
+  end
+
+  def find_balance(node, codes)
+    balance = node.xpath("Bal").find do |bal|
+      codes.include?(text(bal, "Tp/CdOrPrtry/Cd"))
+    end
+    return nil unless balance
+
+    {
+      amount: signed_amount(balance),
+      date: parse_date(text(balance, "Dt/Dt") || text(balance, "Dt/DtTm"))
+    }
+  end
+
+  def parse_entry(entry, statement)
+    # Only booked entries are imported; camt.052 reports may contain pending ones
+    status = text(entry, "Sts/Cd") || text(entry, "Sts")
+    return nil if status.present? && status != "BOOK"
+
+    details = entry.at_xpath("NtryDtls/TxDtls")
+    credit = text(entry, "CdtDbtInd") == "CRDT"
+
+    # The counterparty is the debtor for incoming and the creditor for outgoing payments
+    party = credit ? "Dbtr" : "Cdtr"
+
+    ParseResult.new(
+      booking_date: parse_date(text(entry, "BookgDt/Dt") || text(entry, "BookgDt/DtTm")),
+      value_date: parse_date(text(entry, "ValDt/Dt") || text(entry, "ValDt/DtTm")),
+      amount: signed_amount(entry),
+      remittance_information: remittance_information(entry, details),
+      counterparty_name: details && (text(details, "RltdPties/#{party}/Nm") || text(details, "RltdPties/#{party}/Pty/Nm")),
+      counterparty_iban: details && text(details, "RltdPties/#{party}Acct/Id/IBAN"),
+      remote_transaction_id: entry_reference(entry, details, statement),
+      end_to_end_id: details && end_to_end_id(details)
+    )
+  end
+
+  def remittance_information(entry, details)
+    unstructured = details ? details.xpath("RmtInf/Ustrd").map { |node| node.text.strip }.join(" ") : ""
+    unstructured.presence || text(entry, "AddtlNtryInf")
+  end
+
+  # Entry reference used for deduplication: the account servicer reference of the
+  # entry or the transaction details. NtryRef is often only a sequence number
+  # within the statement ("1", "2", ...), so it is only used with the statement id.
+  def entry_reference(entry, details, statement)
+    entry_ref = text(entry, "NtryRef")
+
+    text(entry, "AcctSvcrRef") ||
+      (details && text(details, "Refs/AcctSvcrRef")) ||
+      (entry_ref && statement.statement_id && "#{statement.statement_id}/#{entry_ref}")
+  end
+
+  def end_to_end_id(details)
+    value = text(details, "Refs/EndToEndId")
+    value == "NOTPROVIDED" ? nil : value
+  end
+
+  def signed_amount(node)
+    amount = text(node, "Amt").to_d
+    text(node, "CdtDbtInd") == "DBIT" ? -amount : amount
+  end
+
+  def parse_date(str)
+    return nil if str.blank?
+
+    Date.parse(str)
+  rescue ArgumentError
+    nil
+  end
+
+  def text(node, path)
+    node.at_xpath(path)&.text&.strip.presence
+  end
+end
@@ -0,0 +1,265 @@
+# Imports a DATEV EXTF Buchungsstapel as journal entries, e.g. the bookings of
+# the years before a company moved to BilanzBlitz.
+#
+# Rows sharing Belegfeld 1 and Belegdatum form one journal entry (batch).
+# Gross amounts with a BU key are expanded into net and VAT lines, accounts
+# missing in the company are created from the chart's account templates.
+# With dry_run: true nothing is written and the preview lists what would
+# block the import (unmapped accounts, unbalanced batches, unknown BU keys,
+# invalid USt-IdNrn.). The "EU-Mitgliedstaat u. UStID" of a batch's rows is kept
+# as the customer USt-IdNr. for the Zusammenfassende Meldung.
+class DatevBookingImporter
+  Result = Struct.new(:success?, :preview, :journal_entries_count, :errors, keyword_init: true)
+
+  Preview = Struct.new(
+    :year, :from_date, :to_date, :row_count, :batch_count, :existing_entry_count,
+    :accounts_to_create, :unmapped_accounts, :unbalanced_batches, :unsupported_tax_keys, :invalid_vat_ids, :date_errors,
+    keyword_init: true
+  ) do
+    def importable?
+      existing_entry_count.zero? &&
+        [ unmapped_accounts, unbalanced_batches, unsupported_tax_keys, invalid_vat_ids, date_errors ].all?(&:empty?)
+    end
+  end
+
+  Batch = Struct.new(:document_field, :booking_date, :rows, :lines, keyword_init: true) do
+    def debit_total
+      lines.select { |line| line.direction == "debit" }.sum(&:amount)
+    end
+
+    def credit_total
+      lines.select { |line| line.direction == "credit" }.sum(&:amount)
+    end
+
+    def balanced?
+      debit_total == credit_total
+    end
+
+    def vat_id
+      JournalEntry.normalize_value_for(:counterparty_vat_id, rows.filter_map(&:vat_id).first)
+    end
+  end
+
+  def initialize(company:, data:, post_entries: true)
+    @company = company
+    @data = data
+    @post_entries = post_entries
+  end
+
+  def call(dry_run: true)
+    parser = DatevBuchungsstapelParser.new(@data)
+    @rows = parser.parse
+    @header = parser.header
+    return failure("The file contains no bookings") if @rows.empty?
+
+    @unsupported_tax_keys = Hash.new { |hash, key| hash[key] = [] }
+    @batches = build_batches
+    preview = build_preview
+
+    return Result.new(success?: true, preview: preview, journal_entries_count: 0, errors: []) if dry_run
+    return Result.new(success?: false, preview: preview, journal_entries_count: 0, errors: blocking_errors(preview)) unless preview.importable?
+
+    import!
+    Result.new(success?: true, preview: preview, journal_entries_count: @batches.size, errors: [])
+  rescue DatevBuchungsstapelParser::ParseError => e
+    failure(e.message)
+  rescue ActiveRecord::RecordInvalid => e
+    failure(e.message)
+  end
+
+  private
+
+  # Rows without Belegfeld 1 are booked as entries of their own
+  def build_batches
+    @rows.group_by { |row| row.document_field ? [ row.document_field, row.document_date ] : [ :row, row.line_number ] }
+      .map do |_key, rows|
+        Batch.new(
+          document_field: rows.first.document_field,
+          booking_date: rows.first.document_date,
+          rows: rows,
+          lines: rows.flat_map { |row| lines_for(row) }
+        )
+      end
+  end
+
+  # "S" books the amount to the debit of Konto, "H" to its credit; the
+  # Gegenkonto takes the other side. A missing account leaves its side open.
+  # The BU key splits on the side of the account it applies to, so "H" rows on
+  # expense or revenue accounts book refunds and credit notes.
+  def lines_for(row)
+    amount = row.amount.abs
+    debit_first = (row.debit_credit == "S") == row.amount.positive?
+    account_code = normalize_code(row.account_code)
+    counter_code = normalize_code(row.counter_account_code)
+    debit_code, credit_code = debit_first ? [ account_code, counter_code ] : [ counter_code, account_code ]
+
+    TaxKeySplitter.new(tax_key_for(row)).lines(
+      debit_code: debit_code, credit_code: credit_code, amount: amount, description: row.text,
+      keyed_code: account_roles.tax_key_account(account_code, counter_code)
+    )
+  end
+
+  def account_roles
+    @account_roles ||= AccountRoles.for_company(@company)
+  end
+
+  def tax_key_for(row)
+    return if row.bu_key.blank?
+
+    tax_key = TaxKey.find(row.bu_key, chart: TaxKey.chart_for(@company))
+    @unsupported_tax_keys[row.bu_key] << row.line_number unless tax_key
+    tax_key
+  end
+
+  # DATEV drops leading zeros (800 for 0800); Personenkonten are longer than the Sachkontenlänge
+  def normalize_code(code)
+    return if code.blank?
+
+    code.length < @header.account_length ? code.rjust(@header.account_length, "0") : code
+  end
+
+  def build_preview
+    codes = @batches.flat_map { |batch| batch.lines.map(&:account_code) }.uniq.sort
+    existing_codes = @company.accounts.where(code: codes).pluck(:code)
+    templates = account_templates_for(codes - existing_codes)
+
+    Preview.new(
+      year: fiscal_year_start.year,
+      from_date: @header.from_date,
+      to_date: @header.to_date,
+      row_count: @rows.size,
+      batch_count: @batches.size,
+      existing_entry_count: existing_entry_count,
+      accounts_to_create: templates.map { |template| { code: template.code, name: template.name } },
+      unmapped_accounts: (codes - existing_codes - templates.map(&:code)).map do |code|
+        { code: code, line_numbers: line_numbers_for_code(code) }
+      end,
+      unbalanced_batches: @batches.reject(&:balanced?).map do |batch|
+        {
+          document_field: batch.document_field,
+          booking_date: batch.booking_date,
+          debit_total: batch.debit_total,
+          credit_total: batch.credit_total,
+          line_numbers: batch.rows.map(&:line_number)
+        }
+      end,
+      unsupported_tax_keys: @unsupported_tax_keys.map { |key, line_numbers| { key: key, line_numbers: line_numbers } },
+      invalid_vat_ids: invalid_vat_ids,
+      date_errors: date_errors
+    )
+  end
+
+  def account_templates_for(codes)
+    return [] if codes.empty? || @company.chart_of_accounts.nil?
+
+    @company.chart_of_accounts.account_templates.where(code: codes).by_code.to_a
+  end
+
+  def invalid_vat_ids
+    @batches.select { |batch| batch.vat_id && !batch.vat_id.match?(JournalEntry::VAT_ID_FORMAT) }
+      .map { |batch| { vat_id: batch.vat_id, line_numbers: batch.rows.map(&:line_number) } }
+  end
+
+  def line_numbers_for_code(code)
+    @rows.select { |row| [ row.account_code, row.counter_account_code ].map { |c| normalize_code(c) }.include?(code) }
+      .map(&:line_number)
+  end
+
+  def fiscal_year_start
+    @header.fiscal_year_start
+  end
+
+  def fiscal_year_range
+    return fiscal_year.start_date..fiscal_year.end_date if fiscal_year
+
+    start_date, end_date = @company.default_start_end_date(fiscal_year_start.year)
+    start_date..end_date
+  end
+
+  def fiscal_year
+    @fiscal_year ||= @company.fiscal_years.for_date(fiscal_year_start).first
+  end
+
+  # Only empty years are imported, so running the import twice cannot double the bookings
+  def existing_entry_count
+    fiscal_year ? fiscal_year.journal_entries.normal.count : 0
+  end
+
+  def date_errors
+    errors = []
+    errors << "Fiscal year #{fiscal_year.year} is closed" if fiscal_year&.closed?
+
+    outside = @rows.reject { |row| fiscal_year_range.cover?(row.document_date) }
+    if outside.any?
+      errors << "Belegdatum outside the fiscal year #{fiscal_year_range.first} - #{fiscal_year_range.last} (lines #{outside.map(&:line_number).join(', ')})"
+    end
+    errors
+  end
+
+  def blocking_errors(preview)
+    errors = []
+    errors << "Fiscal year #{preview.year} already contains #{preview.existing_entry_count} journal entries" if preview.existing_entry_count.positive?
+    errors << "Unmapped accounts: #{preview.unmapped_accounts.map { |account| account[:code] }.join(', ')}" if preview.unmapped_accounts.any?
+    errors << "#{preview.unbalanced_batches.size} unbalanced batches" if preview.unbalanced_batches.any?
+    errors << "Unsupported BU keys: #{preview.unsupported_tax_keys.map { |key| key[:key] }.join(', ')}" if preview.unsupported_tax_keys.any?
+    errors << "Invalid USt-IdNrn.: #{preview.invalid_vat_ids.map { |vat_id| vat_id[:vat_id] }.join(', ')}" if preview.invalid_vat_ids.any?
+    errors + preview.date_errors
+  end
+
+  def import!
+    ActiveRecord::Base.transaction do
+      year = fiscal_year || create_fiscal_year
+      accounts = accounts_by_code
+
+      @batches.each do |batch|
+        journal_entry = JournalEntry.new(
+          company: @company,
+          fiscal_year: year,
+          booking_date: batch.booking_date,
+          description: batch_description(batch),
+          voucher_number: batch.document_field,
+          counterparty_vat_id: batch.vat_id
+        )
+
+        batch.lines.each do |entry_line|
+          journal_entry.line_items.build(
+            account: accounts.fetch(entry_line.account_code),
+            amount: entry_line.amount,
+            direction: entry_line.direction,
+            description: entry_line.description,
+            tax_key_code: entry_line.tax_key_code
+          )
+        end
+
+        # Line items of a posted entry cannot be saved, so posting comes last;
+        # an entry that cannot be posted rolls back the whole import
+        journal_entry.save!
+        raise ActiveRecord::RecordInvalid, journal_entry if @post_entries && !journal_entry.post!
+      end
+    end
+  end
+
+  def create_fiscal_year
+    start_date, end_date = @company.default_start_end_date(fiscal_year_start.year)
+    @fiscal_year = @company.fiscal_years.create!(year: fiscal_year_start.year, start_date: start_date, end_date: end_date, closed: false)
+  end
+
+  def accounts_by_code
+    codes = @batches.flat_map { |batch| batch.lines.map(&:account_code) }.uniq
+    accounts = @company.accounts.where(code: codes).index_by(&:code)
+
+    account_templates_for(codes - accounts.keys).each do |template|
+      accounts[template.code] = template.add_to_company(@company)
+    end
+    accounts
+  end
+
+  def batch_description(batch)
+    text = batch.rows.filter_map(&:text).first
+    [ batch.document_field, text ].compact.join(" ").presence || "DATEV import"
+  end
+
+  def failure(message)
+    Result.new(success?: false, preview: nil, journal_entries_count: 0, errors: [ message ])
+  end
+end
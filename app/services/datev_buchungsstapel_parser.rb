@@ -0,0 +1,137 @@
+require "csv"
+
+# Parses DATEV EXTF Buchungsstapel files (format category 21), as written by
+# DatevExportService or DATEV Kanzlei-Rechnungswesen. Columns are located by
+# their header names, so the short and the full 120+ column layout both work.
+class DatevBuchungsstapelParser
+  class ParseError < StandardError; end
+
+  Header = Struct.new(:fiscal_year_start, :from_date, :to_date, :account_length, :description, keyword_init: true)
+
+  Row = Struct.new(
+    :line_number, :amount, :debit_credit, :account_code, :counter_account_code, :bu_key,
+    :document_date, :document_field, :text, :vat_id, keyword_init: true
+  )
+
+  COLUMNS = {
+    amount: "Umsatz (ohne Soll/Haben-Kz)",
+    debit_credit: "Soll/Haben-Kennzeichen",
+    account_code: "Konto",
+    counter_account_code: "Gegenkonto (ohne BU-Schlüssel)",
+    bu_key: "BU-Schlüssel",
+    document_date: "Belegdatum",
+    document_field: "Belegfeld 1",
+    text: "Buchungstext",
+    # Older format versions name it "EU-Land u. UStID"
+    vat_id: [ "EU-Mitgliedstaat u. UStID (Bestimmung)", "EU-Land u. UStID (Bestimmung)", "EU-Land u. UStID" ]
+  }.freeze
+
+  REQUIRED_COLUMNS = %i[amount debit_credit account_code counter_account_code document_date].freeze
+
+  attr_reader :header
+
+  def initialize(data)
+    @data = data
+  end
+
+  def parse
+    raise ParseError, "File is empty" if @data.blank?
+
+    header_row, column_row, *data_rows = rows
+    @header = parse_header(header_row)
+    indexes = column_indexes(column_row)
+
+    data_rows.each_with_index.filter_map do |row, index|
+      next if row.all?(&:blank?)
+
+      parse_row(row, indexes, index + 3)
+    end
+  end
+
+  private
+
+  def rows
+    CSV.parse(utf8_data, col_sep: ";", liberal_parsing: true).map { |row| row.map { |value| value&.strip } }
+  rescue CSV::MalformedCSVError => e
+    raise ParseError, "Malformed DATEV file: #{e.message}"
+  end
+
+  # DATEV writes Windows-1252; files saved by other tools are usually UTF-8 already
+  def utf8_data
+    data = @data.dup.force_encoding("UTF-8")
+    data = @data.dup.force_encoding("Windows-1252").encode("UTF-8") unless data.valid_encoding?
+    data.delete_prefix("\uFEFF")
+  end
+
+  # EXTF header: 1 Kennzeichen, 3 Formatkategorie, 13 WJ-Beginn, 14 Sachkontenlänge,
+  # 15/16 Datum vom/bis, 17 Bezeichnung
+  def parse_header(row)
+    raise ParseError, "Not a DATEV EXTF file" unless row && %w[EXTF DTVF].include?(row[0])
+    raise ParseError, "Not a Buchungsstapel (format category #{row[2]})" unless row[2] == "21"
+
+    Header.new(
+      fiscal_year_start: parse_full_date(row[12], "WJ-Beginn"),
+      from_date: parse_full_date(row[14], "Datum vom"),
+      to_date: parse_full_date(row[15], "Datum bis"),
+      account_length: row[13].to_i.nonzero? || 4,
+      description: row[16]
+    )
+  end
+
+  def column_indexes(row)
+    raise ParseError, "Column header row is missing" unless row
+
+    indexes = COLUMNS.transform_values { |names| Array(names).filter_map { |name| row.index(name) }.first }
+    missing = REQUIRED_COLUMNS.select { |key| indexes[key].nil? }
+    raise ParseError, "Missing columns: #{missing.map { |key| COLUMNS[key] }.join(', ')}" if missing.any?
+
+    indexes
+  end
+
+  def parse_row(row, indexes, line_number)
+    value = ->(key) { indexes[key] && row[indexes[key]].presence }
+
+    debit_credit = value.call(:debit_credit).to_s.upcase
+    raise ParseError, "Line #{line_number}: invalid Soll/Haben-Kennzeichen '#{debit_credit}'" unless %w[S H].include?(debit_credit)
+
+    Row.new(
+      line_number: line_number,
+      amount: parse_amount(value.call(:amount), line_number),
+      debit_credit: debit_credit,
+      account_code: value.call(:account_code),
+      counter_account_code: value.call(:counter_account_code),
+      bu_key: value.call(:bu_key),
+      document_date: parse_document_date(value.call(:document_date), line_number),
+      document_field: value.call(:document_field),
+      text: value.call(:text),
+      vat_id: value.call(:vat_id)
+    )
+  end
+
+  def parse_amount(str, line_number)
+    raise ParseError, "Line #{line_number}: amount is missing" if str.blank?
+
+    BigDecimal(str.delete(".").tr(",", "."))
+  rescue ArgumentError
+    raise ParseError, "Line #{line_number}: invalid amount '#{str}'"
+  end
+
+  # Belegdatum is DDMM (or DMM without the leading zero); the year comes from the header
+  def parse_document_date(str, line_number)
+    digits = str.to_s.rjust(4, "0")
+    raise ParseError, "Line #{line_number}: invalid Belegdatum '#{str}'" unless digits.match?(/\A\d{4}\z/)
+
+    year = @header.from_date.year
+    date = Date.new(year, digits[2, 2].to_i, digits[0, 2].to_i)
+    # Fiscal years not starting in January run into the next calendar year
+    date < @header.from_date ? date.next_year : date
+  rescue Date::Error
+    raise ParseError, "Line #{line_number}: invalid Belegdatum '#{str}'"
+  end
+
+  def parse_full_date(str, field)
+    Date.strptime(str.to_s, "%Y%m%d")
+  rescue Date::Error
+    raise ParseError, "Invalid #{field} '#{str}' in EXTF header"
+  end
+end
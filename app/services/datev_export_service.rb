@@ -0,0 +1,258 @@
+# Exports journal entries as DATEV EXTF files (format version 700):
+# a "Buchungsstapel" with the bookings and the matching "Kontenbeschriftungen".
+#
+# VAT splits recognized by VatPatternDetector are written as one gross row
+# with the tax key (BU-Schlüssel), so DATEV books the VAT itself. All other
+# entries are split into debit/credit pairs; their lines with a tax key are
+# written gross with the key as well.
+class DatevExportService
+  Result = Struct.new(:success?, :bookings_csv, :accounts_csv, :row_count, :errors, keyword_init: true)
+  Row = Struct.new(:amount, :debit_account, :credit_account, :bu_key, :date, :document_field, :text, keyword_init: true)
+  # Unquoted field value (dates and timestamps with leading zeros)
+  RawField = Struct.new(:value)
+
+  BOOKING_COLUMNS = [
+    "Umsatz (ohne Soll/Haben-Kz)", "Soll/Haben-Kennzeichen", "WKZ Umsatz", "Kurs", "Basis-Umsatz",
+    "WKZ Basis-Umsatz", "Konto", "Gegenkonto (ohne BU-Schlüssel)", "BU-Schlüssel", "Belegdatum",
+    "Belegfeld 1", "Belegfeld 2", "Skonto", "Buchungstext"
+  ].freeze
+
+  ACCOUNT_COLUMNS = [ "Konto", "Kontenbeschriftung", "Sprach-ID", "Kontenbeschriftung lang" ].freeze
+
+  ACCOUNT_LENGTH = 4
+  TEXT_LENGTH = 60
+  DOCUMENT_FIELD_LENGTH = 36
+
+  def initialize(company:, fiscal_year:, from: nil, to: nil, posted_only: true, consultant_number: nil, client_number: nil)
+    @company = company
+    @fiscal_year = fiscal_year
+    @from = from || fiscal_year.start_date
+    @to = to || fiscal_year.end_date
+    @posted_only = posted_only
+    @consultant_number = consultant_number.to_s.strip
+    @client_number = client_number.to_s.strip
+    @created_at = Time.current
+  end
+
+  def call
+    return failure("Start date must be before end date") if @from > @to
+    unless @from.between?(@fiscal_year.start_date, @fiscal_year.end_date) && @to.between?(@fiscal_year.start_date, @fiscal_year.end_date)
+      return failure("The date range must lie within fiscal year #{@fiscal_year.year}")
+    end
+
+    rows = journal_entries.flat_map { |journal_entry| rows_for(journal_entry) }
+
+    Result.new(
+      success?: true,
+      bookings_csv: encode(bookings_lines(rows)),
+      accounts_csv: encode(accounts_lines(rows)),
+      row_count: rows.size,
+      errors: []
+    )
+  end
+
+  private
+
+  # Opening and closing entries are left out, the tax advisor carries balances forward in DATEV
+  def journal_entries
+    scope = @company.journal_entries
+      .normal
+      .where(fiscal_year: @fiscal_year, booking_date: @from..@to)
+      .includes(:document, line_items: :account)
+      .ordered
+    @posted_only ? scope.posted : scope
+  end
+
+  def rows_for(journal_entry)
+    pattern = VatPatternDetector.new(journal_entry.line_items, tax_keys: tax_keys, account_roles: account_roles).detect
+    pattern ? [ gross_row(journal_entry, pattern) ] : paired_rows(journal_entry)
+  end
+
+  # One gross row against the bank account; the BU key makes DATEV split off the VAT
+  def gross_row(journal_entry, pattern)
+    main_account = pattern.main_line.account
+    bank_account = pattern.bank_line.account
+    debit, credit = pattern.main_line.direction == "debit" ? [ main_account, bank_account ] : [ bank_account, main_account ]
+
+    Row.new(
+      amount: pattern.gross_amount,
+      debit_account: debit,
+      credit_account: credit,
+      bu_key: pattern.tax_key.code,
+      date: journal_entry.booking_date,
+      document_field: document_field(journal_entry),
+      text: pattern.main_line.description.presence || journal_entry.description
+    )
+  end
+
+  def tax_keys
+    @tax_keys ||= TaxKey.for_company(@company)
+  end
+
+  def account_roles
+    @account_roles ||= AccountRoles.for_company(@company)
+  end
+
+  # Pairs debit and credit lines in order; a line larger than its counterpart
+  # is split over several rows (e.g. one bank line against several expenses)
+  def paired_rows(journal_entry)
+    amounts = export_amounts(journal_entry.line_items.to_a)
+    debits = amounts.select { |li, _amount| li.direction == "debit" }
+    credits = amounts.select { |li, _amount| li.direction == "credit" }
+    rows = []
+
+    while debits.any? && credits.any?
+      debit_line, debit_rest = debits.first
+      credit_line, credit_rest = credits.first
+      amount = [ debit_rest, credit_rest ].min
+
+      rows << Row.new(
+        amount: amount,
+        debit_account: debit_line.account,
+        credit_account: credit_line.account,
+        bu_key: [ debit_line, credit_line ].filter_map { |li| tax_key_of(li)&.code }.first,
+        date: journal_entry.booking_date,
+        document_field: document_field(journal_entry),
+        text: row_text(journal_entry, debit_line, credit_line)
+      )
+
+      debits.first[1] -= amount
+      credits.first[1] -= amount
+      debits.shift if debits.first[1].zero?
+      credits.shift if credits.first[1].zero?
+    end
+
+    rows
+  end
+
+  # Lines and the amounts they are exported with. DATEV books the VAT of a BU
+  # key itself, so the VAT lines of a key are left out and their amount is
+  # added to the key's lines on the same side (§13b keys have net amounts).
+  def export_amounts(line_items)
+    amounts = line_items.map { |li| [ li, li.amount ] }
+    keyed_lines = line_items.select { |li| tax_key_of(li) }
+
+    keyed_lines.group_by { |li| [ li.tax_key_code, li.direction ] }.each do |(code, direction), net_lines|
+      tax_key = tax_key_of(net_lines.first)
+      vat_lines = line_items.select do |li|
+        li.tax_key_code == code && tax_key.vat_account_codes.include?(li.account.code) &&
+          (tax_key.reverse_charge? || li.direction == direction)
+      end
+      amounts.reject! { |li, _amount| vat_lines.include?(li) }
+      next if tax_key.reverse_charge?
+
+      distribute_vat(amounts, net_lines, vat_lines.sum(&:amount))
+    end
+
+    amounts
+  end
+
+  # Splits the VAT over the lines by their net amount, the last line takes the rounding difference
+  def distribute_vat(amounts, net_lines, vat_total)
+    net_total = net_lines.sum(&:amount)
+    return if net_total.zero?
+
+    remaining = vat_total
+    net_lines.each_with_index do |net_line, index|
+      vat = index == net_lines.size - 1 ? remaining : (vat_total * net_line.amount / net_total).round(2)
+      remaining -= vat
+      amounts.find { |li, _amount| li == net_line }[1] += vat
+    end
+  end
+
+  # Tax key of a net line; the VAT lines of a key are booked by DATEV and carry none in the export
+  def tax_key_of(line_item)
+    tax_key = tax_keys.find { |key| key.code == line_item.tax_key_code }
+    tax_key unless tax_key.nil? || tax_key.vat_account_codes.include?(line_item.account.code)
+  end
+
+  # The line on the counter side (not the bank) usually carries the split description
+  def row_text(journal_entry, debit_line, credit_line)
+    counter_line = debit_line.bank_transaction_id.present? ? credit_line : debit_line
+    counter_line.description.presence || journal_entry.description
+  end
+
+  # Belegnummer of the posted entry, else the linked document's number
+  def document_field(journal_entry)
+    journal_entry.voucher_number.presence || journal_entry.document&.document_number.presence || journal_entry.id.to_s
+  end
+
+  def bookings_lines(rows)
+    [
+      header_line(category: 21, format_name: "Buchungsstapel", format_version: 13, extra: booking_header_fields),
+      datev_line(BOOKING_COLUMNS),
+      *rows.map { |row| datev_line(booking_values(row)) }
+    ]
+  end
+
+  # Each row is booked as debit (S) on Konto against Gegenkonto
+  def booking_values(row)
+    [
+      row.amount, "S", "EUR", nil, nil, nil,
+      account_number(row.debit_account), account_number(row.credit_account), row.bu_key,
+      RawField.new(row.date.strftime("%d%m")), row.document_field.to_s.first(DOCUMENT_FIELD_LENGTH), nil, nil,
+      row.text.to_s.first(TEXT_LENGTH)
+    ]
+  end
+
+  def accounts_lines(rows)
+    accounts = rows.flat_map { |row| [ row.debit_account, row.credit_account ] }.uniq.sort_by(&:code)
+
+    [
+      header_line(category: 20, format_name: "Kontenbeschriftungen", format_version: 3, extra: []),
+      datev_line(ACCOUNT_COLUMNS),
+      *accounts.map { |account| datev_line([ account_number(account), account.name.first(40), "de-DE", account.name.first(300) ]) }
+    ]
+  end
+
+  # EXTF header record; fields 15-31 only apply to the Buchungsstapel
+  def header_line(category:, format_name:, format_version:, extra:)
+    datev_line([
+      "EXTF", 700, category, format_name, format_version, RawField.new(@created_at.strftime("%Y%m%d%H%M%S%L")),
+      nil, "RE", nil, nil, integer_or_nil(@consultant_number), integer_or_nil(@client_number),
+      RawField.new(@fiscal_year.start_date.strftime("%Y%m%d")), ACCOUNT_LENGTH, *extra
+    ])
+  end
+
+  def booking_header_fields
+    [
+      RawField.new(@from.strftime("%Y%m%d")), RawField.new(@to.strftime("%Y%m%d")), "Buchungen #{@fiscal_year.year}".first(30), nil,
+      1, 0, 0, "EUR", nil, nil, nil, nil, chart_number, nil, nil, nil, nil
+    ]
+  end
+
+  # Sachkontenrahmen of the Buchungsstapel: "03" for SKR03, "04" for SKR04
+  def chart_number
+    ChartOfAccounts.name_for(@company).delete_prefix("SKR")
+  end
+
+  def account_number(account)
+    account.code.to_i
+  end
+
+  def integer_or_nil(value)
+    value.present? ? value.to_i : nil
+  end
+
+  # Text fields are quoted, amounts use a decimal comma, other numbers are written as they are
+  def datev_line(values)
+    values.map do |value|
+      case value
+      when nil then ""
+      when String then "\"#{value.gsub('"', '""')}\""
+      when RawField then value.value
+      when BigDecimal, Float then format("%.2f", value).tr(".", ",")
+      else value.to_s
+      end
+    end.join(";")
+  end
+
+  # DATEV expects Windows-1252 encoded files with CRLF line endings
+  def encode(lines)
+    (lines.join("\r\n") + "\r\n").encode("Windows-1252", invalid: :replace, undef: :replace, replace: "?")
+  end
+
+  def failure(message)
+    Result.new(success?: false, bookings_csv: nil, accounts_csv: nil, row_count: 0, errors: [ message ])
+  end
+end
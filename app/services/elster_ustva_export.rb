@@ -0,0 +1,215 @@
+# Writes a saved UStVA (TaxReport of type "ustva") as ELSTER-XML
+# (Datenart UStVA, Anmeldungssteuern) that can be uploaded or handed to ERiC.
+# Transmission, signing and encryption are left to ERiC.
+#
+# The export is blocked when company master data is missing: the Steuernummer
+# in the 13-digit ELSTER format (its first four digits are the
+# Bundesfinanzamtsnummer) and an address with street, PLZ and Ort. The file is
+# checked against config/schemas/elster_ustva.xsd before it is returned.
+class ElsterUstvaExport
+  Result = Struct.new(:success?, :xml, :filename, :errors, keyword_init: true)
+
+  ELSTER_NAMESPACE = "http://www.elster.de/elsterxml/schema/v11".freeze
+  SCHEMA_PATH = Rails.root.join("config/schemas/elster_ustva.xsd")
+  PRODUCT_NAME = "BilanzBlitz".freeze
+  PRODUCT_VERSION = "1.0".freeze
+
+  # Public Hersteller-ID of ELSTER for tests; files written with it carry the
+  # Testmerker, so the tax office does not process them
+  TEST_HERSTELLER_ID = "74931".freeze
+  TESTMERKER = "700000004".freeze
+
+  # Kennziffern the form calculates the tax for from the full-euro tax base
+  FORM_TAX_RATES = { 81 => 19, 86 => 7, 89 => 19, 93 => 7 }.freeze
+
+  def initialize(tax_report:, hersteller_id: ENV.fetch("ELSTER_HERSTELLER_ID", TEST_HERSTELLER_ID))
+    @tax_report = tax_report
+    @company = tax_report.company
+    @data = (tax_report.generated_data || {}).deep_symbolize_keys
+    @hersteller_id = hersteller_id.to_s
+    @created_at = Time.current
+  end
+
+  def call
+    errors = validate_report + validate_master_data
+    return failure(errors) if errors.any?
+
+    xml = build_xml
+    schema_errors = validate_schema(xml)
+    return failure(schema_errors.map { |error| "XML does not match the ELSTER schema: #{error}" }) if schema_errors.any?
+
+    Result.new(success?: true, xml: xml, filename: filename, errors: [])
+  end
+
+  # Kennziffer => amount as written to the file: tax bases in full euros
+  # (Integer), taxes with cents (BigDecimal), empty fields left out
+  def kennziffern
+    amounts = {}
+
+    @data.fetch(:fields, []).each do |field|
+      if !field[:base_value].nil?
+        amounts[field[:field_number].to_i] = euros(field[:base_value])
+        amounts[field[:tax_field_number].to_i] = cents(field[:value]) if field[:tax_field_number] && !field[:value].nil?
+      elsif !field[:value].nil?
+        amounts[field[:field_number].to_i] = cents(field[:value])
+      end
+    end
+
+    amounts = amounts.reject { |_field_number, amount| amount.zero? }
+    amounts[83] = net_vat_liability(amounts)
+    amounts.sort.to_h
+  end
+
+  private
+
+  def validate_report
+    errors = []
+    errors << "Only UStVA reports can be exported to ELSTER" unless @tax_report.report_type == "ustva"
+    errors << "ELSTER expects a monthly or quarterly UStVA period" unless zeitraum
+    if @data[:fields].blank? || @data[:fields].none? { |field| field.key?(:tax_field_number) }
+      errors << "The report was saved before the complete UStVA form, please generate and save it again"
+    end
+    errors
+  end
+
+  def validate_master_data
+    errors = []
+
+    if @company.tax_number.blank?
+      errors << "The company's tax number (Steuernummer) is missing"
+    elsif !steuernummer.match?(/\A\d{13}\z/)
+      errors << "The company's tax number must be given in the 13-digit ELSTER format (e.g. 9198011310010)"
+    end
+
+    if @company.address.blank?
+      errors << "The company's address is missing"
+    elsif !address
+      errors << "The company's address needs a street and a postal code with city (e.g. Musterstraße 1, 10115 Berlin)"
+    end
+
+    errors
+  end
+
+  def validate_schema(xml)
+    document = Nokogiri::XML(xml)
+    document.remove_namespaces!
+    schema.validate(document).map(&:message)
+  end
+
+  def schema
+    @schema ||= Nokogiri::XML::Schema(File.read(SCHEMA_PATH))
+  end
+
+  def build_xml
+    Nokogiri::XML::Builder.new(encoding: "UTF-8") do |xml|
+      xml.Elster(xmlns: ELSTER_NAMESPACE) do
+        xml.TransferHeader(version: "11") do
+          xml.Verfahren "ElsterAnmeldung"
+          xml.DatenArt "UStVA"
+          xml.Vorgang "send-Auth"
+          xml.Testmerker TESTMERKER if @hersteller_id == TEST_HERSTELLER_ID
+          xml.HerstellerID @hersteller_id
+          xml.DatenLieferant [ @company.name, address[:street], "#{address[:postal_code]} #{address[:city]}" ].join(", ").truncate(256)
+          xml.Datei do
+            xml.Verschluesselung "CMSEncryptedData"
+            xml.Kompression "GZIP"
+            xml.TransportSchluessel
+          end
+        end
+        xml.DatenTeil do
+          xml.Nutzdatenblock do
+            xml.NutzdatenHeader(version: "11") do
+              xml.NutzdatenTicket @tax_report.id.to_s
+              xml.Empfaenger(steuernummer.first(4), id: "F")
+              xml.Hersteller do
+                xml.ProduktName PRODUCT_NAME
+                xml.ProduktVersion PRODUCT_VERSION
+              end
+            end
+            xml.Nutzdaten do
+              build_anmeldungssteuern(xml)
+            end
+          end
+        end
+      end
+    end.to_xml
+  end
+
+  def build_anmeldungssteuern(xml)
+    year = @tax_report.start_date.year
+
+    xml.Anmeldungssteuern(xmlns: "http://finkonsens.de/elster/elsteranmeldung/ustva/v#{year}", art: "UStVA", version: "#{year}01") do
+      xml.DatenLieferant do
+        xml.Name @company.name.truncate(256)
+        xml.Strasse address[:street]
+        xml.PLZ address[:postal_code]
+        xml.Ort address[:city]
+      end
+      xml.Erstellungsdatum @created_at.strftime("%Y%m%d")
+      xml.Steuerfall do
+        xml.Umsatzsteuervoranmeldung do
+          xml.Jahr year.to_s
+          xml.Zeitraum zeitraum
+          xml.Steuernummer steuernummer
+          kennziffern.each do |field_number, amount|
+            xml.send("Kz#{field_number}", amount.is_a?(Integer) ? amount.to_s : format("%.2f", amount))
+          end
+        end
+      end
+    end
+  end
+
+  # Kz 83 the way ELSTER calculates it: the tax of 81/86/89/93 from the
+  # full-euro tax base, plus the other taxes, minus the input VAT
+  def net_vat_liability(amounts)
+    input_vat_fields = TaxFormFieldMap.ustva_fields_by_section[:input_vat].values.map { |field| field[:field_number] }
+
+    amounts.sum(BigDecimal(0)) do |field_number, amount|
+      next BigDecimal(amount) * FORM_TAX_RATES[field_number] / 100 if FORM_TAX_RATES.key?(field_number)
+      next 0 if amount.is_a?(Integer)
+
+      input_vat_fields.include?(field_number) ? -amount : amount
+    end.round(2)
+  end
+
+  # Monthly: 01-12, quarterly: 41-44
+  def zeitraum
+    case @tax_report.period_type
+    when "monthly" then format("%02d", @tax_report.start_date.month)
+    when "quarterly" then (40 + @tax_report.quarter).to_s
+    end
+  end
+
+  def steuernummer
+    @company.tax_number.to_s.gsub(/[\s\/]/, "")
+  end
+
+  # Street, PLZ and Ort from the free-text address (lines or comma separated)
+  def address
+    return @address if defined?(@address)
+
+    parts = @company.address.to_s.split(/[\n,]/).map(&:strip).reject(&:blank?)
+    index = parts.index { |part| part.match?(/\A(D-)?\d{5}\s+\S/) }
+    @address = if index&.positive?
+      postal_code, city = parts[index].delete_prefix("D-").split(/\s+/, 2)
+      { street: parts[index - 1], postal_code: postal_code, city: city }
+    end
+  end
+
+  # Tax bases are reported in full euros (cents are dropped)
+  def euros(value)
+    BigDecimal(value.to_s).truncate.to_i
+  end
+
+  def cents(value)
+    BigDecimal(value.to_s).round(2)
+  end
+
+  def filename
+    "UStVA_#{@tax_report.start_date.year}_#{zeitraum}.xml"
+  end
+
+  def failure(errors)
+    Result.new(success?: false, xml: nil, filename: nil, errors: errors)
+  end
+end
@@ -0,0 +1,153 @@
+# Books the rows of the journal's fast entry grid (DATEV Buchungszeile):
+# Umsatz, S/H, Konto, Gegenkonto, BU-Schlüssel, Datum, Beleg and Text.
+#
+# Each row becomes one draft journal entry. "S" books the amount to the debit
+# of Konto and the credit of Gegenkonto, "H" the other way round; a BU key
+# splits the gross amount into net and VAT lines on the side of the account it
+# applies to, the one that is not the bank (see TaxKeySplitter). Beleg
+# is kept as the voucher number, the optional USt-IdNr. as the customer's
+# VAT ID for the Zusammenfassende Meldung.
+#
+# Saving is atomic: a problem in any row blocks all of them, so the grid can
+# be corrected and saved again without creating duplicates.
+class FastEntryBooker
+  Result = Struct.new(:success?, :items, :journal_entries, :errors, keyword_init: true)
+  Row = Struct.new(:amount, :debit_credit, :account_code, :counter_account_code, :bu_key,
+    :booking_date, :document_field, :text, :vat_id, keyword_init: true)
+  Item = Struct.new(:row, :lines, :problems, keyword_init: true) do
+    def valid?
+      problems.empty?
+    end
+  end
+
+  def initialize(company:, rows:)
+    @company = company
+    @rows = rows.map { |row| build_row(row) }
+  end
+
+  def call(dry_run: true)
+    return failure("No bookings entered") if @rows.empty?
+
+    items = @rows.map { |row| build_item(row) }
+    return Result.new(success?: true, items: items, journal_entries: [], errors: []) if dry_run
+
+    invalid = items.reject(&:valid?)
+    if invalid.any?
+      return Result.new(success?: false, items: items, journal_entries: [], errors: [ "#{invalid.size} rows cannot be booked" ])
+    end
+
+    Result.new(success?: true, items: items, journal_entries: book!(items), errors: [])
+  rescue ActiveRecord::RecordInvalid => e
+    failure(e.message)
+  end
+
+  private
+
+  def build_row(params)
+    Row.new(
+      amount: params[:amount].to_s.presence&.to_d,
+      debit_credit: params[:debit_credit].to_s.upcase,
+      account_code: params[:account_code].to_s.strip.presence,
+      counter_account_code: params[:counter_account_code].to_s.strip.presence,
+      bu_key: params[:bu_key].to_s.strip.presence,
+      booking_date: parse_date(params[:booking_date]),
+      document_field: params[:document_field].to_s.strip.presence,
+      text: params[:text].to_s.strip.presence,
+      vat_id: JournalEntry.normalize_value_for(:counterparty_vat_id, params[:vat_id].to_s)
+    )
+  end
+
+  def parse_date(value)
+    value.is_a?(Date) ? value : Date.iso8601(value.to_s)
+  rescue Date::Error
+    nil
+  end
+
+  def build_item(row)
+    problems = row_problems(row)
+    return Item.new(row: row, lines: [], problems: problems) if problems.any?
+
+    debit_code, credit_code = row.debit_credit == "S" ? [ row.account_code, row.counter_account_code ] : [ row.counter_account_code, row.account_code ]
+    keyed_code = AccountRoles.for_company(@company).tax_key_account(row.account_code, row.counter_account_code)
+    lines = TaxKeySplitter.new(tax_key(row.bu_key))
+      .lines(debit_code: debit_code, credit_code: credit_code, amount: row.amount.round(2), description: row.text, keyed_code: keyed_code)
+
+    unknown = lines.map(&:account_code).uniq - known_account_codes
+    problems << "Unknown accounts: #{unknown.join(', ')}" if unknown.any?
+
+    Item.new(row: row, lines: lines, problems: problems)
+  end
+
+  def row_problems(row)
+    problems = []
+    problems << "Umsatz must be positive" unless row.amount&.positive?
+    problems << "S/H must be S or H" unless %w[S H].include?(row.debit_credit)
+    problems << "Konto is missing" if row.account_code.nil?
+    problems << "Gegenkonto is missing" if row.counter_account_code.nil?
+    problems << "Konto and Gegenkonto must differ" if row.account_code && row.account_code == row.counter_account_code
+    problems << "Unknown BU-Schlüssel #{row.bu_key}" if row.bu_key && !tax_key(row.bu_key)
+    problems << "Text is missing" if row.text.nil?
+    problems << "USt-IdNr. #{row.vat_id} is invalid" if row.vat_id && !row.vat_id.match?(JournalEntry::VAT_ID_FORMAT)
+    problems.concat(date_problems(row.booking_date))
+  end
+
+  def date_problems(date)
+    return [ "Datum is missing or invalid" ] if date.nil?
+
+    fiscal_year = @company.fiscal_years.for_date(date).first
+    return [ "Fiscal year #{fiscal_year.year} is closed" ] if fiscal_year&.closed?
+    return [ "Datum falls into the locked period (up to #{fiscal_year.locked_until})" ] if fiscal_year&.locked_on?(date)
+
+    []
+  end
+
+  def tax_key(code)
+    code && TaxKey.find(code, chart: TaxKey.chart_for(@company))
+  end
+
+  # Accounts of the company plus those that are created from the chart's templates on first use
+  def known_account_codes
+    @known_account_codes ||= @company.accounts.pluck(:code) +
+      (@company.chart_of_accounts&.account_templates&.pluck(:code) || [])
+  end
+
+  def book!(items)
+    ActiveRecord::Base.transaction do
+      items.map do |item|
+        row = item.row
+        journal_entry = JournalEntry.new(
+          company: @company,
+          fiscal_year: FiscalYear.current_for(company: @company, date: row.booking_date),
+          booking_date: row.booking_date,
+          description: row.text,
+          voucher_number: row.document_field,
+          counterparty_vat_id: row.vat_id
+        )
+
+        item.lines.each do |entry_line|
+          journal_entry.line_items.build(
+            account: account_for(entry_line.account_code),
+            amount: entry_line.amount,
+            direction: entry_line.direction,
+            description: entry_line.description,
+            tax_key_code: entry_line.tax_key_code
+          )
+        end
+
+        journal_entry.save!
+        journal_entry.line_items.map(&:account).uniq.each { |account| AccountUsage.record_usage(company: @company, account: account) }
+        journal_entry
+      end
+    end
+  end
+
+  def account_for(code)
+    @accounts ||= {}
+    @accounts[code] ||= @company.accounts.find_by(code: code) ||
+      @company.chart_of_accounts.account_templates.find_by!(code: code).add_to_company(@company)
+  end
+
+  def failure(message)
+    Result.new(success?: false, items: [], journal_entries: [], errors: [ message ])
+  end
+end
@@ -175,7 +175,7 @@ class FiscalYearImporter
     sections = {}
 
     # Get top-level categories for this side from AccountMap
-    categories = AccountMap.nested_balance_sheet_categories[side]
+    categories = account_map.nested_balance_sheet_categories[side]
 
     categories.each do |category_key, _category_structure|
       # Get flat accounts for this category from imported data
@@ -194,10 +194,10 @@ class FiscalYearImporter
       end
 
       # Build nested section structure using AccountMap
-      section = AccountMap.build_nested_section(account_list, category_key)
+      section = account_map.build_nested_section(account_list, category_key)
       section_hash = section.to_h
 
-      # AccountMap filters out accounts not in SKR03 mapping
+      # AccountMap filters out accounts not in the chart's mapping
       # For imported data, we need to preserve all accounts, so add any missing ones
       section_account_codes = collect_account_codes(section_hash)
       missing_accounts = account_list.reject { |acc| section_account_codes.include?(acc[:code]) }
@@ -218,6 +218,10 @@ class FiscalYearImporter
   end
 
   # Collect all account codes from a section hash (including children)
+  def account_map
+    @account_map ||= AccountMap.for_company(@company)
+  end
+
   def collect_account_codes(section_hash)
     codes = (section_hash[:accounts] || []).map { |acc| acc[:code] }
 
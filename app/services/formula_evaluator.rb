@@ -0,0 +1,155 @@
+# Evaluates the amount formulas of recurring entry templates, e.g.
+# "12000 / 36" or "round(balance(0650) * 0.045 / 12, 2)".
+#
+# Supports numbers (with decimal point), + - * / and parentheses, the
+# variables passed in, round(x[, digits]), min(a, b, ...), max(a, b, ...)
+# and balance(<account code>). The account code is taken literally, so
+# leading zeros are kept; the lookup itself is done by the caller.
+class FormulaEvaluator
+  class Error < StandardError; end
+
+  FUNCTIONS = %w[round min max balance].freeze
+  TOKEN = /\s*(?:(\d+(?:\.\d+)?)|([a-z_][a-z0-9_]*)|(\S))/i
+
+  def initialize(expression, variables: {}, balance: nil)
+    @expression = expression.to_s
+    @variables = variables.transform_keys(&:to_s)
+    @balance = balance
+  end
+
+  def evaluate
+    @tokens = tokenize
+    raise Error, "Formula is empty" if @tokens.empty?
+
+    @position = 0
+    value = parse_expression
+    raise Error, "Unexpected '#{peek[1]}'" if peek
+
+    value
+  end
+
+  private
+
+  def tokenize
+    @expression.scan(TOKEN).filter_map do |number, name, symbol|
+      if number
+        [ :number, number ]
+      elsif name
+        [ :name, name.downcase ]
+      elsif symbol
+        raise Error, "Invalid character '#{symbol}'" unless "+-*/(),".include?(symbol)
+
+        [ :symbol, symbol ]
+      end
+    end
+  end
+
+  def peek
+    @tokens[@position]
+  end
+
+  def next_token
+    token = @tokens[@position]
+    raise Error, "Unexpected end of formula" unless token
+
+    @position += 1
+    token
+  end
+
+  def accept(symbol)
+    return false unless peek == [ :symbol, symbol ]
+
+    @position += 1
+    true
+  end
+
+  def expect(symbol)
+    raise Error, "Expected '#{symbol}'" unless accept(symbol)
+  end
+
+  def parse_expression
+    value = parse_term
+    loop do
+      if accept("+")
+        value += parse_term
+      elsif accept("-")
+        value -= parse_term
+      else
+        return value
+      end
+    end
+  end
+
+  def parse_term
+    value = parse_factor
+    loop do
+      if accept("*")
+        value *= parse_factor
+      elsif accept("/")
+        divisor = parse_factor
+        raise Error, "Division by zero" if divisor.zero?
+
+        value /= divisor
+      else
+        return value
+      end
+    end
+  end
+
+  def parse_factor
+    return -parse_factor if accept("-")
+    return parse_factor if accept("+")
+
+    if accept("(")
+      value = parse_expression
+      expect(")")
+      return value
+    end
+
+    type, text = next_token
+    case type
+    when :number
+      BigDecimal(text)
+    when :name
+      FUNCTIONS.include?(text) && peek == [ :symbol, "(" ] ? call_function(text) : variable(text)
+    else
+      raise Error, "Unexpected '#{text}'"
+    end
+  end
+
+  def variable(name)
+    raise Error, "Unknown variable '#{name}'" unless @variables.key?(name)
+
+    BigDecimal(@variables[name].to_s)
+  end
+
+  def call_function(name)
+    expect("(")
+    return account_balance if name == "balance"
+
+    arguments = [ parse_expression ]
+    arguments << parse_expression while accept(",")
+    expect(")")
+
+    case name
+    when "round"
+      raise Error, "round takes one or two arguments" if arguments.size > 2
+
+      arguments[0].round((arguments[1] || 2).to_i)
+    when "min"
+      arguments.min
+    when "max"
+      arguments.max
+    end
+  end
+
+  def account_balance
+    type, code = next_token
+    raise Error, "balance needs an account code" unless type == :number && code.match?(/\A\d+\z/)
+
+    expect(")")
+    raise Error, "balance is not available here" unless @balance
+
+    BigDecimal(@balance.call(code).to_s)
+  end
+end
@@ -0,0 +1,222 @@
+# Service to calculate Gewerbesteuer (GewSt / Trade Tax)
+# Starts from the taxable income of the fiscal year's KSt report (or KstService
+# without adjustments when none is saved); the KSt Verlustvortrag is added back,
+# trade tax losses are deducted as Gewerbeverlust (§ 10a GewStG) instead.
+# Hinzurechnungen, Kürzungen, the Gewerbeverlust and the Vorauszahlungen are
+# user-provided adjustments (TaxFormFieldMap::GEWST_FIELDS). The Hebesatz is the
+# company's (adjustment :hebesatz overrides it). As the app reports corporations,
+# there is no Freibetrag on the Gewerbeertrag.
+class GewstService
+  Result = Struct.new(:success?, :data, :errors, keyword_init: true)
+
+  MESSZAHL = 0.035  # Steuermesszahl 3,5 % (§ 11 Abs. 2 GewStG)
+  HINZURECHNUNG_FREIBETRAG = 200_000.0  # § 8 Nr. 1 GewStG
+  HINZURECHNUNG_RATE = 0.25
+  MIN_HEBESATZ = 200  # § 16 Abs. 4 GewStG
+  DEFAULT_HEBESATZ = 400
+
+  # Mindestbesteuerung (§ 10a GewStG): losses are deductible up to the Sockelbetrag
+  # and above it to 60 % of the Gewerbeertrag
+  LOSS_DEDUCTION_BASE = 1_000_000.0
+  LOSS_DEDUCTION_RATE = 0.6
+
+  # Expense and provision account of the Rückstellung booking per chart
+  PROVISION_ACCOUNTS = {
+    "SKR03" => { expense_account_code: "4320", provision_account_code: "0956" },
+    "SKR04" => { expense_account_code: "7610", provision_account_code: "3035" }
+  }.freeze
+
+  def initialize(company:, fiscal_year:, adjustments: {})
+    if company.id != fiscal_year.company_id
+      raise "fiscal_year belongs to different company (#{fiscal_year.company_id}) than company the tax report is for (#{company.id})"
+    end
+    @company = company
+    @fiscal_year = fiscal_year
+    @adjustments = adjustments
+  end
+
+  def call
+    return failure("Company is required") unless @company
+    return failure("Fiscal year is required") unless @fiscal_year
+    return failure("Hebesatz must be at least #{MIN_HEBESATZ} %") if hebesatz < MIN_HEBESATZ
+
+    kst_result = load_kst_data
+    return kst_result unless kst_result.success?
+
+    @kst_data = kst_result.data
+
+    gewst_data = {
+      fiscal_year_id: @fiscal_year.id,
+      year: @fiscal_year.year,
+      base_data: build_base_data,
+      adjustments: build_adjustments,
+      calculated: build_calculated_fields,
+      hebesatz_configured: @company.gewerbesteuer_hebesatz.present?,
+      provision_booking: PROVISION_ACCOUNTS.fetch(TaxKey.chart_for(@company)) { PROVISION_ACCOUNTS.fetch("SKR03") },
+      metadata: {
+        calculation_date: Date.today.to_s,
+        saved_kst_report: @kst_data[:saved_report]
+      }
+    }
+
+    Result.new(success?: true, data: gewst_data, errors: [])
+  rescue StandardError => e
+    Result.new(success?: false, data: nil, errors: [ e.message ])
+  end
+
+  private
+
+  # Taxable income and Verlustvortrag of the saved KSt report, otherwise calculated
+  def load_kst_data
+    kst_report = @company.tax_reports.kst.where(fiscal_year: @fiscal_year).order(updated_at: :desc).first
+
+    if kst_report&.generated_data.present?
+      data = kst_report.generated_data.deep_symbolize_keys
+      return Result.new(
+        success?: true,
+        data: {
+          taxable_income: data.dig(:calculated, :taxable_income).to_f,
+          loss_carryforward: data.dig(:adjustments, :verlustvortrag, :value).to_f,
+          saved_report: true
+        },
+        errors: []
+      )
+    end
+
+    kst_result = KstService.new(company: @company, fiscal_year: @fiscal_year).call
+    return kst_result unless kst_result.success?
+
+    Result.new(
+      success?: true,
+      data: {
+        taxable_income: kst_result.data.dig(:calculated, :taxable_income),
+        loss_carryforward: kst_result.data.dig(:adjustments, :verlustvortrag, :value).to_f,
+        saved_report: false
+      },
+      errors: []
+    )
+  end
+
+  def build_base_data
+    {
+      kst_taxable_income: @kst_data[:taxable_income].round(2),
+      kst_loss_carryforward: @kst_data[:loss_carryforward].round(2),
+      profit: profit.round(2)
+    }
+  end
+
+  def build_adjustments
+    adjustments_data = {}
+
+    TaxFormFieldMap.gewst_editable_fields.each do |field_key, field_def|
+      adjustments_data[field_key] = {
+        name: field_def[:name],
+        description: field_def[:description],
+        section: field_def[:section],
+        value: adjustment_value(field_key, field_def[:default_value]).round(2),
+        editable: true
+      }
+    end
+
+    adjustments_data
+  end
+
+  def build_calculated_fields
+    hinzurechnungen = calculate_hinzurechnungen
+    kuerzungen = calculate_kuerzungen
+    income_before_loss = profit + hinzurechnungen[:total] - kuerzungen[:total]
+    loss_deduction = calculate_loss_deduction(income_before_loss)
+    trade_income = income_before_loss - loss_deduction
+    rounded_trade_income = trade_income.positive? ? (trade_income / 100).floor * 100.0 : 0.0
+    base_amount = (rounded_trade_income * MESSZAHL).round(2)
+    gewst_amount = (base_amount * hebesatz / 100).round(2)
+
+    {
+      hinzurechnungen_financing_sum: hinzurechnungen[:financing_sum].round(2),
+      hinzurechnungen_freibetrag: HINZURECHNUNG_FREIBETRAG,
+      hinzurechnungen: hinzurechnungen[:total].round(2),
+      grundbesitz_kuerzung: kuerzungen[:grundbesitz].round(2),
+      kuerzungen: kuerzungen[:total].round(2),
+      income_before_loss: income_before_loss.round(2),
+      loss_deduction: loss_deduction.round(2),
+      remaining_loss: (adjustment_value(:gewerbeverlust) - loss_deduction + [ -trade_income, 0.0 ].max).round(2),
+      trade_income: rounded_trade_income,
+      messzahl: MESSZAHL,
+      base_amount: base_amount,
+      hebesatz: hebesatz,
+      gewst_amount: gewst_amount,
+      prepayments: adjustment_value(:vorauszahlungen).round(2),
+      # Negative: Vorauszahlungen exceed the tax (Erstattungsanspruch)
+      provision: (gewst_amount - adjustment_value(:vorauszahlungen)).round(2)
+    }
+  end
+
+  # Gewinn aus Gewerbebetrieb (§ 7 GewStG)
+  def profit
+    @kst_data[:taxable_income] + @kst_data[:loss_carryforward]
+  end
+
+  # A quarter of the Finanzierungsanteile above the Freibetrag plus the other Hinzurechnungen
+  def calculate_hinzurechnungen
+    financing_sum = 0.0
+    other = 0.0
+
+    TaxFormFieldMap.gewst_fields_by_section[:hinzurechnungen].each do |field_key, field_def|
+      value = adjustment_value(field_key, field_def[:default_value])
+      if field_def[:hinzurechnung_factor]
+        financing_sum += value * field_def[:hinzurechnung_factor]
+      else
+        other += value
+      end
+    end
+
+    total = [ financing_sum - HINZURECHNUNG_FREIBETRAG, 0.0 ].max * HINZURECHNUNG_RATE + other
+    { financing_sum: financing_sum, total: total }
+  end
+
+  def calculate_kuerzungen
+    grundbesitz = 0.0
+    total = 0.0
+
+    TaxFormFieldMap.gewst_fields_by_section[:kuerzungen].each do |field_key, field_def|
+      value = adjustment_value(field_key, field_def[:default_value])
+      if field_def[:kuerzung_type] == :grundbesitz
+        grundbesitz = grundbesitz_kuerzung(value)
+        total += grundbesitz
+      else
+        total += value
+      end
+    end
+
+    { grundbesitz: grundbesitz, total: total }
+  end
+
+  # 1,2 % of 140 % of the Einheitswert, from 2025 0,11 % of the Grundsteuerwert
+  def grundbesitz_kuerzung(value)
+    @fiscal_year.year >= 2025 ? value * 0.0011 : value * 1.4 * 0.012
+  end
+
+  def calculate_loss_deduction(income_before_loss)
+    return 0.0 unless income_before_loss.positive?
+
+    deductible = if income_before_loss <= LOSS_DEDUCTION_BASE
+      income_before_loss
+    else
+      LOSS_DEDUCTION_BASE + (income_before_loss - LOSS_DEDUCTION_BASE) * LOSS_DEDUCTION_RATE
+    end
+
+    [ adjustment_value(:gewerbeverlust), deductible ].min
+  end
+
+  def hebesatz
+    @hebesatz ||= (@adjustments[:hebesatz] || @company.gewerbesteuer_hebesatz || DEFAULT_HEBESATZ).to_i
+  end
+
+  def adjustment_value(field_key, default_value = 0.0)
+    @adjustments[field_key]&.to_f || default_value
+  end
+
+  def failure(message)
+    Result.new(success?: false, data: nil, errors: [ message ])
+  end
+end
@@ -42,10 +42,11 @@ class GuVService
         "accounts.code",
         "accounts.name",
         "accounts.account_type",
+        "accounts.cid",
         "SUM(CASE WHEN line_items.direction = 'debit' THEN line_items.amount ELSE 0 END) as total_debit",
         "SUM(CASE WHEN line_items.direction = 'credit' THEN line_items.amount ELSE 0 END) as total_credit"
       )
-      .group("accounts.id", "accounts.code", "accounts.name", "accounts.account_type")
+      .group("accounts.id", "accounts.code", "accounts.name", "accounts.account_type", "accounts.cid")
 
     # Calculate net balance for each account
     results.map do |account|
@@ -60,6 +61,7 @@ class GuVService
         code: account.code,
         name: account.name,
         type: account.account_type,
+        cid: account.cid.presence,
         balance: balance
       }
     end.reject { |a| a[:balance].abs < 0.01 } # Filter near-zero balances
@@ -82,12 +84,12 @@ class GuVService
     sections = []
 
     # Iterate through all GuV sections from AccountMap in correct order (§ 275 Abs. 2 HGB)
-    AccountMap.guv_sections_ordered.each do |section_id, section_data|
+    account_map.guv_sections_ordered.each do |section_id, section_data|
       # Skip sections without accounts (parent sections or calculated fields)
       next if section_data[:accounts].empty?
 
       # Get accounts for this section
-      section_accounts = AccountMap.find_accounts(account_balances, section_id)
+      section_accounts = account_map.find_accounts(account_balances, section_id)
 
       # Determine display type based on section type
       display_type = section_data[:section_type] == :revenue ? :positive : :negative
@@ -140,6 +142,10 @@ class GuVService
     end
   end
 
+  def account_map
+    @account_map ||= AccountMap.for_company(@company)
+  end
+
   def failure(message)
     Result.new(success?: false, data: nil, errors: [ message ])
   end
@@ -0,0 +1,80 @@
+# Festschreibung by period: posts all draft entries of a fiscal year up to a
+# date in one transaction and records that date as the fiscal year's lock
+# date, so no new bookings can be made on or before it.
+#
+# call(dry_run: true) only reports the entries that would be posted and the
+# problems that would block the posting.
+class JournalEntryBatchPoster
+  Result = Struct.new(:success?, :items, :posted_count, :errors, keyword_init: true)
+  Item = Struct.new(:journal_entry, :problems, keyword_init: true) do
+    def valid?
+      problems.empty?
+    end
+  end
+
+  def initialize(fiscal_year:, up_to:)
+    @fiscal_year = fiscal_year
+    @up_to = up_to
+  end
+
+  def call(dry_run: true)
+    @up_to = Date.parse(@up_to) if @up_to.is_a?(String) && @up_to.present?
+    error = period_error
+    return failure(error) if error
+
+    items = draft_entries.map { |journal_entry| Item.new(journal_entry: journal_entry, problems: problems_for(journal_entry)) }
+    return Result.new(success?: true, items: items, posted_count: 0, errors: []) if dry_run
+
+    invalid = items.reject(&:valid?)
+    if invalid.any?
+      return Result.new(success?: false, items: items, posted_count: 0, errors: [ "#{invalid.size} entries cannot be posted" ])
+    end
+
+    post!(items)
+    Result.new(success?: true, items: items, posted_count: items.size, errors: [])
+  rescue Date::Error
+    failure("Invalid date")
+  rescue ActiveRecord::RecordInvalid => e
+    failure(e.message)
+  end
+
+  private
+
+  def period_error
+    return "Date is required" if @up_to.blank?
+    return "Fiscal year #{@fiscal_year.year} is closed" if @fiscal_year.closed?
+    return "Date must lie within fiscal year #{@fiscal_year.year}" unless @up_to.between?(@fiscal_year.start_date, @fiscal_year.end_date)
+    return "The period is already locked up to #{@fiscal_year.locked_until}" if @fiscal_year.locked_on?(@up_to)
+
+    nil
+  end
+
+  # Opening and closing entries are posted with their balance sheets
+  def draft_entries
+    @fiscal_year.journal_entries.normal.draft
+      .where(booking_date: ..@up_to)
+      .includes(line_items: :account)
+      .ordered
+      .to_a
+  end
+
+  # Model validations cover the balance check (debits = credits) and required fields
+  def problems_for(journal_entry)
+    problems = []
+    problems << "Less than two line items" if journal_entry.line_items.size < 2
+    problems += journal_entry.errors.full_messages unless journal_entry.valid?
+    problems
+  end
+
+  def post!(items)
+    ActiveRecord::Base.transaction do
+      posted_at = Time.current
+      items.each { |item| item.journal_entry.update!(posted_at: posted_at) }
+      @fiscal_year.update!(locked_until: @up_to)
+    end
+  end
+
+  def failure(message)
+    Result.new(success?: false, items: [], posted_count: 0, errors: [ message ])
+  end
+end
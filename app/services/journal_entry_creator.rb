@@ -1,27 +1,35 @@
 class JournalEntryCreator
   Result = Struct.new(:success?, :journal_entry, :errors, keyword_init: true)
+  Allocation = Struct.new(:account, :account_code, :amount, :tax_key_code, :tax_key, :description, keyword_init: true)
 
-  def initialize(company:, bank_transaction:, params:)
+  # Legacy VAT modes of booking rules, mapped to the tax key of the booking direction
+  VAT_MODE_RATES = { "vat_19" => 19, "vat_7" => 7 }.freeze
+
+  # Pass several bank_transactions to book them together (aggregated booking):
+  # each gets its own bank line item, balanced against the counter account lines
+  def initialize(company:, params:, bank_transaction: nil, bank_transactions: nil)
     @company = company
-    @bank_transaction = bank_transaction
+    @bank_transactions = Array(bank_transactions || bank_transaction)
     @params = params
   end
 
   def call
-    return failure("Bank transaction is already booked") if @bank_transaction.booked?
+    return failure("No bank transactions selected") if @bank_transactions.empty?
+    return failure("Bank transaction is already booked") unless @bank_transactions.all?(&:can_be_booked?)
     return failure("Bank transaction does not belong to this company") unless valid_company?
-    return failure("Bank account has no linked ledger account") unless bank_ledger_account
+    return failure("Bank account has no linked ledger account") unless @bank_transactions.all? { |bt| bank_ledger_account(bt) }
+    return failure("Selected bank transactions cancel each other out") if total_amount.zero?
 
     fiscal_year = find_fiscal_year
-    return failure("No open fiscal year for booking date #{@bank_transaction.booking_date}") unless fiscal_year
+    return failure("No open fiscal year for booking date #{booking_date}") unless fiscal_year
 
-    if reverse_charge?
-      return failure("Reverse charge input VAT account not found") unless reverse_charge_input_account
-      return failure("Reverse charge output VAT account not found") unless reverse_charge_output_account
-    elsif @params[:vat_split] && !vat_account
-      return failure("VAT account not found - please ensure SKR03 accounts are set up")
+    unless @bank_transactions.all? { |bt| bt.booking_date.between?(fiscal_year.start_date, fiscal_year.end_date) }
+      return failure("Bank transactions booked together must belong to the same fiscal year")
     end
 
+    allocation_error = validate_allocations
+    return failure(allocation_error) if allocation_error
+
     ActiveRecord::Base.transaction do
       @journal_entry = create_journal_entry(fiscal_year)
       create_line_items
@@ -40,116 +48,223 @@ class JournalEntryCreator
     JournalEntry.create!(
       company: @company,
       fiscal_year: fiscal_year,
-      booking_date: @bank_transaction.booking_date,
-      description: @params[:description].presence || @bank_transaction.remittance_information || "Bank transaction"
+      booking_date: booking_date,
+      description: @params[:description].presence || default_description,
+      counterparty_vat_id: @params[:counterparty_vat_id].presence
     )
   end
 
+  def default_description
+    if @bank_transactions.one?
+      @bank_transactions.first.remittance_information || "Bank transaction"
+    else
+      "Aggregated booking of #{@bank_transactions.size} bank transactions"
+    end
+  end
+
   def create_line_items
-    # Bank account line item (linked to the bank transaction)
+    # Bank account line items (one per bank transaction, linked to it)
     # For inflows (positive amount): debit the bank account (asset increases)
     # For outflows (negative amount): credit the bank account (asset decreases)
-    bank_direction = @bank_transaction.amount >= 0 ? "debit" : "credit"
-
-    LineItem.create!(
-      journal_entry: @journal_entry,
-      account: bank_ledger_account,
-      amount: @bank_transaction.amount.abs,
-      direction: bank_direction,
-      bank_transaction: @bank_transaction
-    )
+    @bank_transactions.each do |bank_transaction|
+      LineItem.create!(
+        journal_entry: @journal_entry,
+        account: bank_ledger_account(bank_transaction),
+        amount: bank_transaction.amount.abs,
+        direction: bank_transaction.amount >= 0 ? "debit" : "credit",
+        bank_transaction: bank_transaction
+      )
+    end
 
     # Counter account line items (with optional VAT split)
     create_counter_line_items
   end
 
+  # Net amount of all bank transactions; the counter lines balance this
+  def total_amount
+    @total_amount ||= @bank_transactions.sum(&:amount)
+  end
+
+  # Aggregated bookings are dated on the latest transaction (e.g. the final instalment)
+  def booking_date
+    @bank_transactions.map(&:booking_date).max
+  end
+
   def create_counter_line_items
     # Counter direction is opposite of bank direction
     # For inflows: credit the revenue/source account
     # For outflows: debit the expense/destination account
-    counter_direction = @bank_transaction.amount >= 0 ? "credit" : "debit"
-
-    if reverse_charge?
-      create_reverse_charge_line_items(counter_direction)
-    elsif @params[:vat_split] && vat_rate > 0
-      create_vat_split_line_items(counter_direction)
-    else
-      create_simple_counter_line_item(counter_direction)
+    counter_direction = total_amount >= 0 ? "credit" : "debit"
+
+    allocations.each do |allocation|
+      if allocation.tax_key&.reverse_charge?
+        create_reverse_charge_line_items(allocation, counter_direction)
+      elsif allocation.tax_key
+        create_vat_split_line_items(allocation, counter_direction)
+      else
+        create_simple_counter_line_item(allocation, counter_direction)
+      end
     end
   end
 
-  def create_vat_split_line_items(direction)
-    gross_amount = @bank_transaction.amount.abs
-    vat_rate_decimal = vat_rate / 100.0
+  def create_vat_split_line_items(allocation, direction)
+    tax_key = allocation.tax_key
+    gross_amount = allocation.amount
+    vat_rate_decimal = tax_key.rate / 100.0
     net_amount = (gross_amount / (1 + vat_rate_decimal)).round(2)
     vat_amount = (gross_amount - net_amount).round(2)
 
     # Main account (expense/revenue) with net amount
     LineItem.create!(
       journal_entry: @journal_entry,
-      account: main_account,
+      account: allocation.account,
       amount: net_amount,
-      direction: direction
+      direction: direction,
+      description: allocation.description,
+      tax_key_code: tax_key.code
     )
 
     # VAT account with VAT amount
     LineItem.create!(
       journal_entry: @journal_entry,
-      account: vat_account,
+      account: vat_account(tax_key.vat_account_code),
       amount: vat_amount,
-      direction: direction
+      direction: direction,
+      description: allocation.description,
+      tax_key_code: tax_key.code
     )
   end
 
-  def create_simple_counter_line_item(direction)
+  def create_simple_counter_line_item(allocation, direction)
     LineItem.create!(
       journal_entry: @journal_entry,
-      account: main_account,
-      amount: @bank_transaction.amount.abs,
-      direction: direction
+      account: allocation.account,
+      amount: allocation.amount,
+      direction: direction,
+      description: allocation.description
     )
   end
 
-  def create_reverse_charge_line_items(direction)
+  def create_reverse_charge_line_items(allocation, direction)
     # Reverse charge creates 3 additional line items (bank account already created):
     # 1. Main account (e.g., 4600 Werbungskosten) - full amount
-    # 2. Input VAT 1577 (Abziehbare Vorsteuer § 13b UStG 19%) - 19% of amount (debit)
-    # 3. Output VAT 1787 (Umsatzsteuer nach § 13b UStG 19%) - 19% of amount (credit)
-    gross_amount = @bank_transaction.amount.abs
-    vat_amount = (gross_amount * 0.19).round(2)
+    # 2. Input VAT of the key (SKR03 1577, Abziehbare Vorsteuer § 13b UStG) (debit)
+    # 3. Output VAT of the key (SKR03 1787, Umsatzsteuer nach § 13b UStG) (credit)
+    tax_key = allocation.tax_key
+    gross_amount = allocation.amount
+    vat_amount = (gross_amount * tax_key.rate / 100).round(2)
 
     # Main account with full amount
     LineItem.create!(
       journal_entry: @journal_entry,
-      account: main_account,
+      account: allocation.account,
       amount: gross_amount,
-      direction: direction
+      direction: direction,
+      description: allocation.description,
+      tax_key_code: tax_key.code
     )
 
     # Input VAT (debit for expenses, credit for revenues)
     LineItem.create!(
       journal_entry: @journal_entry,
-      account: reverse_charge_input_account,
+      account: vat_account(tax_key.vat_account_code),
       amount: vat_amount,
-      direction: direction
+      direction: direction,
+      description: allocation.description,
+      tax_key_code: tax_key.code
     )
 
     # Output VAT (opposite direction)
     opposite_direction = direction == "debit" ? "credit" : "debit"
     LineItem.create!(
       journal_entry: @journal_entry,
-      account: reverse_charge_output_account,
+      account: vat_account(tax_key.reverse_charge_account_code),
       amount: vat_amount,
-      direction: opposite_direction
+      direction: opposite_direction,
+      description: allocation.description,
+      tax_key_code: tax_key.code
     )
   end
 
+  # Counter account bookings: either the split lines from the modal or a
+  # single line for the full transaction amount
+  def allocations
+    @allocations ||= if split_params.any?
+      split_params.map do |split|
+        tax_key_code = split[:tax_key].presence
+        Allocation.new(
+          account: split[:account_code].present? ? find_or_create_account_by_code(split[:account_code]) : nil,
+          account_code: split[:account_code],
+          amount: split[:amount].to_d.round(2),
+          tax_key_code: tax_key_code,
+          tax_key: resolve_tax_key(tax_key_code, split[:vat_mode], VAT_MODE_RATES.fetch(split[:vat_mode], 0)),
+          description: split[:description].presence
+        )
+      end
+    else
+      tax_key_code = @params[:tax_key].presence
+      [
+        Allocation.new(
+          account: main_account,
+          account_code: @params[:account_code],
+          amount: total_amount.abs,
+          tax_key_code: tax_key_code,
+          tax_key: resolve_tax_key(tax_key_code, @params[:vat_mode], @params[:vat_split] ? vat_rate : 0),
+          description: nil
+        )
+      ]
+    end
+  end
+
+  def resolve_tax_key(code, vat_mode, rate)
+    code ? TaxKey.find(code, chart: TaxKey.chart_for(@company)) : tax_key_for_vat_mode(vat_mode, rate)
+  end
+
+  # Bookings without a tax key (booking rules, older clients) pass a VAT mode or
+  # rate: outflows use the input VAT key of the rate, inflows the output VAT key
+  def tax_key_for_vat_mode(vat_mode, rate)
+    tax_keys = TaxKey.for_company(@company)
+    return tax_keys.find(&:reverse_charge?) if vat_mode == "reverse_charge"
+    return nil unless rate.to_f > 0
+
+    kind = total_amount < 0 ? :input : :output
+    tax_keys.find { |tax_key| tax_key.kind == kind && tax_key.rate == rate.to_f }
+  end
+
+  def split_params
+    Array(@params[:splits]).map { |split| split.to_h.with_indifferent_access }
+  end
+
+  def validate_allocations
+    allocations.each do |allocation|
+      return "Account #{allocation.account_code} not found" if allocation.account.nil?
+      return "Split amounts must be greater than zero" unless allocation.amount.positive?
+
+      return "Unknown tax key #{allocation.tax_key_code}" if allocation.tax_key_code && allocation.tax_key.nil?
+
+      tax_key = allocation.tax_key
+      if tax_key&.reverse_charge?
+        return "Reverse charge input VAT account not found" unless vat_account(tax_key.vat_account_code)
+        return "Reverse charge output VAT account not found" unless vat_account(tax_key.reverse_charge_account_code)
+      elsif tax_key && !vat_account(tax_key.vat_account_code)
+        return "VAT account not found - please ensure the chart of accounts is set up"
+      end
+    end
+
+    allocated = allocations.sum(&:amount)
+    unless allocated == total_amount.abs
+      return "Split amounts (#{format('%.2f', allocated)}) do not match the transaction amount (#{format('%.2f', total_amount.abs)})"
+    end
+
+    nil
+  end
+
   def find_fiscal_year
-    FiscalYear.current_for(company: @company, date: @bank_transaction.booking_date)
+    FiscalYear.current_for(company: @company, date: booking_date)
   end
 
-  def bank_ledger_account
-    @bank_ledger_account ||= @bank_transaction.bank_account.ledger_account
+  def bank_ledger_account(bank_transaction)
+    bank_transaction.bank_account.ledger_account
   end
 
   def main_account
@@ -182,57 +297,29 @@ class JournalEntryCreator
     template.add_to_company(@company)
   end
 
-  def vat_account
-    return @vat_account if defined?(@vat_account)
+  def vat_account(code)
+    @vat_accounts ||= {}
+    return @vat_accounts[code] if @vat_accounts.key?(code)
 
-    code = vat_account_code
-    @vat_account = find_or_create_account_by_code(code)
-  end
-
-  def vat_account_code
-    is_expense = @bank_transaction.amount < 0
-
-    if is_expense
-      # Expense: use Vorsteuer (input tax)
-      vat_rate >= 19 ? Account::VAT_ACCOUNTS[:input_19] : Account::VAT_ACCOUNTS[:input_7]
-    else
-      # Revenue: use Umsatzsteuer (output tax)
-      vat_rate >= 19 ? Account::VAT_ACCOUNTS[:output_19] : Account::VAT_ACCOUNTS[:output_7]
-    end
+    @vat_accounts[code] = find_or_create_account_by_code(code)
   end
 
   def vat_rate
     @params[:vat_rate].to_f
   end
 
-  def reverse_charge?
-    @params[:vat_mode] == "reverse_charge"
-  end
-
-  def reverse_charge_input_account
-    return @reverse_charge_input_account if defined?(@reverse_charge_input_account)
-
-    code = Account::VAT_ACCOUNTS[:reverse_charge_input_19]
-    @reverse_charge_input_account = find_or_create_account_by_code(code)
-  end
-
-  def reverse_charge_output_account
-    return @reverse_charge_output_account if defined?(@reverse_charge_output_account)
-
-    code = Account::VAT_ACCOUNTS[:reverse_charge_output_19]
-    @reverse_charge_output_account = find_or_create_account_by_code(code)
-  end
-
   def update_bank_transaction_status
-    @bank_transaction.mark_as_booked!
+    @bank_transactions.each(&:mark_as_booked!)
   end
 
   def record_account_usage
-    AccountUsage.record_usage(company: @company, account: main_account)
+    allocations.map(&:account).uniq.each do |account|
+      AccountUsage.record_usage(company: @company, account: account)
+    end
   end
 
   def valid_company?
-    @bank_transaction.bank_account.company_id == @company.id
+    @bank_transactions.all? { |bt| bt.bank_account.company_id == @company.id }
   end
 
   def failure(message)
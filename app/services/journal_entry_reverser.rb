@@ -0,0 +1,74 @@
+# Corrects a posted journal entry the GoBD way: instead of changing it, a
+# Storno entry with mirrored line items is booked and linked to the original.
+#
+# Linked bank transactions stay booked on the original entry, the Storno
+# lines carry no bank transaction. The corrected booking is a new entry.
+class JournalEntryReverser
+  Result = Struct.new(:success?, :journal_entry, :errors, keyword_init: true)
+
+  def initialize(journal_entry:, booking_date:, description: nil)
+    @journal_entry = journal_entry
+    @booking_date = booking_date
+    @description = description
+  end
+
+  def call
+    return failure("Booking date is required") if @booking_date.blank?
+
+    @booking_date = Date.parse(@booking_date) if @booking_date.is_a?(String)
+
+    return failure("Only posted journal entries can be reversed, delete or edit drafts instead") unless @journal_entry.posted?
+    return failure("Opening and closing entries cannot be reversed") unless @journal_entry.entry_type == "normal"
+    return failure("A Storno entry cannot be reversed") if @journal_entry.reversal?
+    return failure("Journal entry has already been reversed") if @journal_entry.reversed?
+    return failure("Storno date cannot be before the original booking date") if @booking_date < @journal_entry.booking_date
+
+    fiscal_year = FiscalYear.current_for(company: @journal_entry.company, date: @booking_date)
+    return failure("No open fiscal year for booking date #{@booking_date}") unless fiscal_year
+
+    ActiveRecord::Base.transaction do
+      storno = build_storno(fiscal_year)
+      # Line items of a posted entry cannot be saved, so posting comes last;
+      # a Storno that cannot be posted is rolled back instead of left as a draft
+      storno.save!
+      raise ActiveRecord::RecordInvalid, storno unless storno.post!
+
+      Result.new(success?: true, journal_entry: storno, errors: [])
+    end
+  rescue Date::Error
+    failure("Invalid booking date")
+  rescue ActiveRecord::RecordInvalid => e
+    failure(e.message)
+  end
+
+  private
+
+  def build_storno(fiscal_year)
+    storno = JournalEntry.new(
+      company: @journal_entry.company,
+      fiscal_year: fiscal_year,
+      booking_date: @booking_date,
+      description: @description.presence || "Storno: #{@journal_entry.description}",
+      # Keeps the Storno of an intra-EU supply reportable in the ZM
+      counterparty_vat_id: @journal_entry.counterparty_vat_id,
+      reversal_of: @journal_entry
+    )
+
+    @journal_entry.line_items.each do |line_item|
+      storno.line_items.build(
+        account: line_item.account,
+        amount: line_item.amount,
+        direction: line_item.direction == "debit" ? "credit" : "debit",
+        description: line_item.description,
+        # The UStVA finds tax bases by tax key, so the Storno reverses them too
+        tax_key_code: line_item.tax_key_code
+      )
+    end
+
+    storno
+  end
+
+  def failure(message)
+    Result.new(success?: false, journal_entry: nil, errors: [ message ])
+  end
+end
@@ -42,7 +42,9 @@ class JournalEntryUpdater
     @journal_entry.update!(
       booking_date: @params[:booking_date],
       description: @params[:description],
-      fiscal_year: fiscal_year
+      fiscal_year: fiscal_year,
+      voucher_number_range_id: @params[:voucher_number_range_id],
+      counterparty_vat_id: @params[:counterparty_vat_id]
     )
   end
 
@@ -63,7 +65,8 @@ class JournalEntryUpdater
         account: account,
         amount: li_params[:amount],
         direction: li_params[:direction],
-        description: li_params[:description]
+        description: li_params[:description],
+        tax_key_code: li_params[:tax_key]
       )
     end
   end
@@ -28,7 +28,11 @@ class ManualJournalEntryCreator
       company: @company,
       fiscal_year: fiscal_year,
       booking_date: @params[:booking_date],
-      description: @params[:description]
+      description: @params[:description],
+      voucher_number_range_id: @params[:voucher_number_range_id],
+      counterparty_vat_id: @params[:counterparty_vat_id],
+      recurring_entry_template_id: @params[:recurring_entry_template_id],
+      recurring_date: @params[:recurring_date]
     )
   end
 
@@ -45,7 +49,8 @@ class ManualJournalEntryCreator
         account: account,
         amount: li_params[:amount],
         direction: li_params[:direction],
-        description: li_params[:description]
+        description: li_params[:description],
+        tax_key_code: li_params[:tax_key]
       )
     end
   end
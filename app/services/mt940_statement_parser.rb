@@ -0,0 +1,189 @@
+# Parses SWIFT MT940 statements (.sta files) as exported by German banks.
+# The :86: field is read in the structured ZKA/DATEV format (GVC followed by
+# ?-separated subfields) and mapped to remittance information and counterparty.
+class Mt940StatementParser
+  class ParseError < StandardError; end
+
+  ParseResult = Struct.new(
+    :booking_date, :value_date, :amount, :remittance_information, :counterparty_name,
+    :counterparty_iban, :end_to_end_id, :transaction_code, :posting_text, keyword_init: true
+  )
+
+  Statement = Struct.new(
+    :statement_id, :iban, :currency, :opening_balance, :opening_date,
+    :closing_balance, :closing_date, keyword_init: true
+  )
+
+  # :61: Statement line
+  # value date (YYMMDD), optional booking date (MMDD), debit/credit mark,
+  # optional funds code, amount, transaction type, customer reference, bank reference
+  STATEMENT_LINE = /\A(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\/\n]*)(?:\/\/([^\n]*))?/
+
+  # :60F: / :62F: Balance: debit/credit mark, date (YYMMDD), currency, amount
+  BALANCE = /\A([CD])(\d{6})([A-Z]{3})(\d+,\d*)/
+
+  # SEPA keywords used inside the Verwendungszweck subfields
+  SEPA_KEYWORDS = %w[EREF KREF MREF CRED DEBT COAM OAMT SVWZ ABWA ABWE IBAN BIC].freeze
+
+  attr_reader :statements
+
+  def initialize(data)
+    @data = data
+    @statements = []
+  end
+
+  def self.mt940?(data)
+    data.present? && data.match?(/^:20:/) && data.match?(/^:(60[FM]|61):/)
+  end
+
+  def parse
+    return [] if @data.blank?
+
+    split_statements.flat_map { |fields| parse_statement(fields) }
+  end
+
+  private
+
+  # Returns a list of statements, each a list of [tag, value] pairs
+  def split_statements
+    statements = []
+    current = []
+
+    @data.gsub("\r\n", "\n").each_line(chomp: true) do |line|
+      if line.strip.match?(/\A-\}?\z/)
+        statements << current if current.any?
+        current = []
+      elsif (match = line.match(/\A:(\d{2}[A-Z]?):(.*)\z/))
+        current << [ match[1], match[2] ]
+      elsif current.any?
+        # Continuation line of the previous field
+        tag, value = current.last
+        separator = tag == "86" ? "" : "\n"
+        current[-1] = [ tag, "#{value}#{separator}#{line}" ]
+      end
+    end
+    statements << current if current.any?
+
+    raise ParseError, "No MT940 statement found" if statements.empty?
+
+    statements
+  end
+
+  def parse_statement(fields)
+    statement = Statement.new
+    transactions = []
+
+    fields.each do |tag, value|
+      case tag
+      when "20"
+        statement.statement_id = value.strip
+      when "25"
+        statement.iban = value.strip
+      when "60F", "60M"
+        statement.opening_balance, statement.opening_date, statement.currency = parse_balance(value)
+      when "62F", "62M"
+        statement.closing_balance, statement.closing_date, = parse_balance(value)
+      when "61"
+        transactions << parse_statement_line(value)
+      when "86"
+        apply_information(transactions.last, value) if transactions.any?
+      end
+    end
+
+    @statements << statement
+    transactions
+  end
+
+  def parse_statement_line(value)
+    match = value.match(STATEMENT_LINE)
+    raise ParseError, "Invalid :61: statement line: #{value.lines.first&.strip}" unless match
+
+    value_date = parse_date(match[1])
+    booking_date = match[2] ? booking_date_near(value_date, match[2]) : value_date
+    amount = parse_amount(match[5])
+    amount = -amount if %w[D RC].include?(match[3])
+
+    ParseResult.new(
+      booking_date: booking_date,
+      value_date: value_date,
+      amount: amount
+    )
+  end
+
+  # Applies the structured :86: field (GVC + ?xx subfields) to a parsed transaction
+  def apply_information(transaction, value)
+    gvc = value[0, 3]
+    separator = value[3]
+
+    unless gvc.match?(/\A\d{3}\z/) && separator.present?
+      # Unstructured :86: content
+      transaction.remittance_information = value.strip.presence
+      return
+    end
+
+    subfields = Hash.new { |hash, key| hash[key] = [] }
+    value[4..].split(separator).each do |part|
+      next if part.length < 2
+
+      subfields[part[0, 2]] << part[2..]
+    end
+
+    purpose = (20..29).chain(60..63).flat_map { |code| subfields[code.to_s] }
+    purpose_text, sepa = parse_sepa_purpose(purpose)
+
+    transaction.transaction_code = gvc
+    transaction.posting_text = subfields["00"].join.strip.presence
+    transaction.remittance_information = (sepa["SVWZ"] || purpose_text).presence || transaction.posting_text
+    transaction.counterparty_name = subfields["32"].concat(subfields["33"]).join.strip.presence
+    transaction.counterparty_iban = subfields["31"].join.strip.presence || sepa["IBAN"]
+    transaction.end_to_end_id = sepa["EREF"] unless sepa["EREF"] == "NOTPROVIDED"
+  end
+
+  # Joins Verwendungszweck subfields and extracts SEPA keywords (EREF+, SVWZ+, ...).
+  # SEPA purpose texts are split into fixed-width chunks, so they are joined without spaces.
+  def parse_sepa_purpose(purpose)
+    keyword_pattern = /(#{SEPA_KEYWORDS.join('|')})\+/
+    sepa_style = purpose.any? { |part| part.match?(/\A#{keyword_pattern}/) }
+    text = purpose.map(&:strip).join(sepa_style ? "" : " ").strip
+    return [ text, {} ] unless sepa_style
+
+    sepa = {}
+    text.split(/(?=#{keyword_pattern})/).each do |segment|
+      keyword, content = segment.split("+", 2)
+      sepa[keyword] = content.strip if SEPA_KEYWORDS.include?(keyword) && content.present?
+    end
+
+    [ text, sepa ]
+  end
+
+  def parse_balance(value)
+    match = value.strip.match(BALANCE)
+    return [ nil, nil, nil ] unless match
+
+    amount = parse_amount(match[4])
+    amount = -amount if match[1] == "D"
+    [ amount, parse_date(match[2]), match[3] ]
+  end
+
+  # Booking dates only carry month and day; pick the year closest to the value date
+  def booking_date_near(value_date, month_day)
+    month = month_day[0, 2].to_i
+    day = month_day[2, 2].to_i
+    candidates = [ value_date.year - 1, value_date.year, value_date.year + 1 ].filter_map do |year|
+      Date.new(year, month, day)
+    rescue ArgumentError
+      nil
+    end
+    candidates.min_by { |date| (date - value_date).abs }
+  end
+
+  def parse_date(yymmdd)
+    Date.new(2000 + yymmdd[0, 2].to_i, yymmdd[2, 2].to_i, yymmdd[4, 2].to_i)
+  rescue ArgumentError
+    raise ParseError, "Invalid date: #{yymmdd}"
+  end
+
+  def parse_amount(str)
+    str.tr(",", ".").to_d
+  end
+end
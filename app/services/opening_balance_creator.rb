@@ -193,14 +193,14 @@ class OpeningBalanceCreator
       end
     end
 
-    # Handle net_income: Reclassify from 9805 to 0860 (profit) or 0868 (loss)
+    # Handle net_income: Reclassify from 9805 to the chart's Gewinnvortrag (profit) or Verlustvortrag (loss)
     net_income = @balance_data[:net_income]
     if net_income && net_income.abs >= 0.01
-      umbuchung_account = find_or_create_account("9805")
+      umbuchung_account = find_or_create_account(account_roles.carryforward_transfer)
 
       if net_income >= 0
-        # Profit: Debit 9805, Credit 0860 (Gewinnvortrag vor Verwendung)
-        gewinn_account = find_or_create_account("0860")
+        # Profit: Debit 9805, Credit Gewinnvortrag vor Verwendung (0860 in SKR03)
+        gewinn_account = find_or_create_account(account_roles.profit_carryforward)
 
         journal_entry.line_items.build(
           account: umbuchung_account,
@@ -216,8 +216,8 @@ class OpeningBalanceCreator
         )
         ebk_total_debit += net_income
       else
-        # Loss: Credit 9805, Debit 0868 (Verlustvortrag vor Verwendung)
-        verlust_account = find_or_create_account("0868")
+        # Loss: Credit 9805, Debit Verlustvortrag vor Verwendung (0868 in SKR03)
+        verlust_account = find_or_create_account(account_roles.loss_carryforwards.first)
 
         journal_entry.line_items.build(
           account: umbuchung_account,
@@ -253,6 +253,10 @@ class OpeningBalanceCreator
     end
   end
 
+  def account_roles
+    @account_roles ||= AccountRoles.for_company(@company)
+  end
+
   def find_or_create_account(code)
     # First try to find existing account
     account = @company.accounts.find_by(code: code)
@@ -0,0 +1,96 @@
+# Minimal PDF writer for tabular reports: A4 landscape pages of text lines in
+# the PDF standard fonts, so no font files or gems are needed. Table rows are
+# laid out in Courier, which has fixed-width glyphs, so columns can be aligned
+# with ljust/rjust. Text is written in WinAnsiEncoding (covers German umlauts).
+class PdfDocument
+  PAGE_WIDTH = 842 # points, A4 landscape
+  PAGE_HEIGHT = 595
+  MARGIN = 36
+  LINE_SPACING = 1.35
+
+  FONTS = {
+    regular: "Courier",
+    bold: "Courier-Bold",
+    heading: "Helvetica-Bold",
+    text: "Helvetica"
+  }.freeze
+
+  # Lines repeated below the top margin of every following page (table headers)
+  attr_writer :repeated_lines
+
+  def initialize
+    @pages = []
+    @repeated_lines = []
+    start_page
+  end
+
+  # @param font [Symbol] One of FONTS
+  def line(text = "", font: :regular, size: 8)
+    start_page(repeat: true) if @y - size * LINE_SPACING < MARGIN + 12
+    write_line(text, font, size)
+  end
+
+  # @return [String] The PDF file as binary string
+  def render
+    objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      nil, # page tree, needs the page object numbers
+      *FONTS.values.map { |name| "<< /Type /Font /Subtype /Type1 /BaseFont /#{name} /Encoding /WinAnsiEncoding >>" }
+    ]
+    font_refs = FONTS.keys.each_with_index.map { |key, index| "/#{font_resource(key)} #{index + 3} 0 R" }.join(" ")
+
+    page_numbers = @pages.each_with_index.map do |commands, index|
+      footer = text_command("Seite #{index + 1} von #{@pages.size}", :text, 7, PAGE_WIDTH - MARGIN - 60, MARGIN - 14)
+      content = (commands + [ footer ]).join("\n")
+      objects << "<< /Length #{content.bytesize} >>\nstream\n#{content}\nendstream"
+      objects << "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 #{PAGE_WIDTH} #{PAGE_HEIGHT}] " \
+        "/Resources << /Font << #{font_refs} >> >> /Contents #{objects.size} 0 R >>"
+      objects.size
+    end
+    objects[1] = "<< /Type /Pages /Kids [#{page_numbers.map { |number| "#{number} 0 R" }.join(' ')}] /Count #{@pages.size} >>"
+
+    serialize(objects)
+  end
+
+  private
+
+  def start_page(repeat: false)
+    @pages << []
+    @y = PAGE_HEIGHT - MARGIN
+    @repeated_lines.each { |text, font, size| write_line(text, font, size) } if repeat
+  end
+
+  def write_line(text, font, size)
+    @y -= size * LINE_SPACING
+    @pages.last << text_command(text, font, size, MARGIN, @y)
+  end
+
+  def text_command(text, font, size, x, y)
+    "BT /#{font_resource(font)} #{size} Tf #{x} #{y.round(2)} Td (#{escape(text)}) Tj ET"
+  end
+
+  def font_resource(font)
+    "F#{FONTS.keys.index(font) + 1}"
+  end
+
+  def escape(text)
+    text.to_s.encode("Windows-1252", invalid: :replace, undef: :replace, replace: "?")
+      .force_encoding(Encoding::BINARY)
+      .gsub(/[\\()]/n) { |char| "\\#{char}" }
+  end
+
+  def serialize(objects)
+    pdf = "%PDF-1.4\n".b
+    offsets = objects.each_with_index.map do |object, index|
+      offset = pdf.bytesize
+      pdf << "#{index + 1} 0 obj\n".b << object.b << "\nendobj\n".b
+      offset
+    end
+
+    xref_offset = pdf.bytesize
+    pdf << "xref\n0 #{objects.size + 1}\n0000000000 65535 f \n".b
+    offsets.each { |offset| pdf << format("%010d 00000 n \n", offset).b }
+    pdf << "trailer\n<< /Size #{objects.size + 1} /Root 1 0 R >>\nstartxref\n#{xref_offset}\n%%EOF\n".b
+    pdf
+  end
+end
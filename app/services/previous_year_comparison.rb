@@ -0,0 +1,96 @@
+# Adds the figures of the previous fiscal year (Vorjahreszahlen, § 265 Abs. 2 HGB)
+# to the data of BalanceSheetService.
+#
+# Sections are matched by section key (GuV: key), accounts by code. Every
+# section gets previous_total/previous_own_total (GuV: previous_subtotal), every
+# account previous_balance. Sections and accounts that only had a balance in the
+# previous year are added with a zero balance, so the Vorjahr column is complete.
+class PreviousYearComparison
+  # @param current [Hash] Balance sheet data of the fiscal year
+  # @param previous [Hash] Balance sheet data of the previous fiscal year
+  # @param previous_fiscal_year [FiscalYear]
+  def initialize(current:, previous:, previous_fiscal_year:)
+    @current = current
+    @previous = previous
+    @previous_fiscal_year = previous_fiscal_year
+  end
+
+  # @return [Hash] The current data with the previous-year figures
+  def call
+    data = @current.merge(
+      aktiva: merge_side(@current[:aktiva], @previous[:aktiva]),
+      passiva: merge_side(@current[:passiva], @previous[:passiva]),
+      previous_year: {
+        fiscal_year_id: @previous_fiscal_year.id,
+        year: @previous_fiscal_year.year,
+        stored: @previous[:stored] || false
+      }
+    )
+    data[:guv] = merge_guv(@current[:guv], @previous[:guv]) if @current[:guv]
+    data
+  end
+
+  private
+
+  def merge_side(current, previous)
+    previous ||= { sections: {}, total: 0 }
+    sections = merge_by(current[:sections].values, previous[:sections].values, :section_key) do |section, previous_section|
+      merge_section(section, previous_section)
+    end
+
+    current.merge(
+      sections: sections.index_by { |section| section[:section_key].to_sym },
+      previous_total: previous[:total]
+    )
+  end
+
+  def merge_section(section, previous)
+    section ||= previous.merge(accounts: [], own_total: 0, total: 0, account_count: 0, total_account_count: 0, children: [])
+    previous ||= {}
+    children = merge_by(section[:children] || [], previous[:children] || [], :section_key) do |child, previous_child|
+      merge_section(child, previous_child)
+    end
+
+    merged = section.merge(
+      accounts: merge_accounts(section[:accounts], previous[:accounts] || []),
+      previous_own_total: previous[:own_total] || 0,
+      previous_total: previous[:total] || 0
+    )
+    children.any? ? merged.merge(children: children) : merged.except(:children)
+  end
+
+  def merge_guv(current, previous)
+    return current unless previous
+
+    sections = merge_by(current[:sections], previous[:sections], :key) do |section, previous_section|
+      section ||= previous_section.merge(accounts: [], subtotal: 0)
+      section.merge(
+        accounts: merge_accounts(section[:accounts], previous_section&.dig(:accounts) || []),
+        previous_subtotal: previous_section&.dig(:subtotal) || 0
+      )
+    end
+
+    current.merge(sections: sections, previous_net_income: previous[:net_income])
+  end
+
+  def merge_accounts(accounts, previous_accounts)
+    merge_by(accounts, previous_accounts, :code) do |account, previous_account|
+      (account || previous_account.merge(balance: 0)).merge(previous_balance: previous_account&.dig(:balance) || 0)
+    end
+  end
+
+  # Keeps the current order; an item only in the previous year follows its predecessor there
+  def merge_by(items, previous_items, key)
+    previous_by_key = previous_items.index_by { |item| item[key].to_s }
+    merged = items.map { |item| yield(item, previous_by_key[item[key].to_s]) }
+
+    previous_items.each_with_index do |previous_item, index|
+      next if merged.any? { |item| item[key].to_s == previous_item[key].to_s }
+
+      position = index.zero? ? 0 : merged.index { |item| item[key].to_s == previous_items[index - 1][key].to_s } + 1
+      merged.insert(position, yield(nil, previous_item))
+    end
+
+    merged
+  end
+end
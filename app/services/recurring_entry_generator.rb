@@ -0,0 +1,139 @@
+# Generates draft journal entries from the company's recurring entry templates
+# for all scheduled dates up to as_of that have no entry yet. Dates in closed
+# fiscal years are skipped.
+#
+# call(dry_run: true) only computes the due entries with their amounts and the
+# problems (formula errors, unbalanced lines, locked period) that would
+# prevent them from being generated.
+class RecurringEntryGenerator
+  Result = Struct.new(:success?, :items, :journal_entries, :errors, keyword_init: true)
+  Line = Struct.new(:account_code, :direction, :amount, :description, keyword_init: true)
+  Item = Struct.new(:template, :booking_date, :description, :lines, :problems, keyword_init: true) do
+    def valid?
+      problems.empty?
+    end
+
+    def amount
+      lines.select { |line| line.direction == "debit" }.sum(&:amount)
+    end
+  end
+
+  def initialize(company:, as_of: Date.current, template_ids: nil)
+    @company = company
+    @as_of = as_of
+    @template_ids = template_ids
+  end
+
+  def call(dry_run: true)
+    items = due_items
+    return Result.new(success?: true, items: items, journal_entries: [], errors: []) if dry_run
+
+    journal_entries = []
+    errors = []
+
+    # Each entry is created on its own, so one broken template does not block the others
+    items.each do |item|
+      label = "#{item.template.name} (#{item.booking_date})"
+      if item.valid?
+        result = ManualJournalEntryCreator.new(company: @company, params: entry_params(item)).call
+        result.success? ? journal_entries << result.journal_entry : errors.concat(result.errors.map { |error| "#{label}: #{error}" })
+      else
+        errors.concat(item.problems.map { |problem| "#{label}: #{problem}" })
+      end
+    end
+
+    Result.new(success?: errors.empty?, items: items, journal_entries: journal_entries, errors: errors)
+  end
+
+  private
+
+  def due_items
+    templates = @company.recurring_entry_templates.active.ordered
+    templates = templates.where(id: @template_ids) if @template_ids
+
+    templates.flat_map do |template|
+      template.due_dates(@as_of).filter_map do |date|
+        fiscal_year = @company.fiscal_years.for_date(date).first
+        next if fiscal_year&.closed?
+
+        build_item(template, date, fiscal_year)
+      end
+    end
+  end
+
+  def build_item(template, date, fiscal_year)
+    problems = []
+    problems << "Booking date falls into the locked period (up to #{fiscal_year.locked_until})" if fiscal_year&.locked_on?(date)
+
+    variables = template.formula_variables(date)
+    lines = template.lines.each.with_index(1).filter_map do |line, number|
+      amount = line_amount(line, date, variables)
+      # Formulas may legitimately become zero, e.g. interest on a repaid loan
+      next if amount.zero?
+
+      problems << "Line #{number}: amount must not be negative" if amount.negative?
+      Line.new(account_code: line["account_code"], direction: line["direction"], amount: amount, description: line["description"].presence)
+    rescue FormulaEvaluator::Error => e
+      problems << "Line #{number}: #{e.message}"
+      nil
+    end
+
+    problems.concat(line_problems(lines)) if problems.empty?
+
+    Item.new(template: template, booking_date: date, description: template.description_for(date), lines: lines, problems: problems)
+  end
+
+  def line_amount(line, date, variables)
+    return line["amount"].to_d.round(2) if line["amount_type"] == "fixed"
+
+    balance = ->(code) { account_balance(code, date) }
+    FormulaEvaluator.new(line["formula"], variables: variables, balance: balance).evaluate.round(2)
+  end
+
+  def line_problems(lines)
+    problems = []
+    problems << "Less than two line items" if lines.size < 2
+
+    debits = lines.select { |line| line.direction == "debit" }.sum(&:amount)
+    credits = lines.select { |line| line.direction == "credit" }.sum(&:amount)
+    problems << "Debits must equal credits (Debits: #{debits}, Credits: #{credits})" if debits != credits
+
+    unknown = lines.map(&:account_code).uniq - known_account_codes
+    problems << "Unknown accounts: #{unknown.join(', ')}" if unknown.any?
+    problems
+  end
+
+  # Accounts of the company plus those that are created from the chart's templates on first use
+  def known_account_codes
+    @known_account_codes ||= @company.accounts.pluck(:code) +
+      (@company.chart_of_accounts&.account_templates&.pluck(:code) || [])
+  end
+
+  # Absolute balance of all bookings (drafts included) before the date
+  def account_balance(code, date)
+    balances = LineItem.joins(:account, :journal_entry)
+      .where(accounts: { company_id: @company.id, code: code })
+      .where(journal_entries: { booking_date: ...date })
+      .group(:direction)
+      .sum(:amount)
+
+    (balances.fetch("debit", 0) - balances.fetch("credit", 0)).abs
+  end
+
+  def entry_params(item)
+    {
+      booking_date: item.booking_date,
+      description: item.description,
+      recurring_entry_template_id: item.template.id,
+      recurring_date: item.booking_date,
+      line_items: item.lines.map { |line|
+        {
+          account_code: line.account_code,
+          amount: line.amount,
+          direction: line.direction,
+          description: line.description
+        }
+      }
+    }
+  end
+end
@@ -3,67 +3,164 @@
 # field configurations for different tax report types
 class TaxFormFieldMap
   class << self
-    # UStVA (Umsatzsteuervoranmeldung) field definitions
-    # Core fields only: output VAT, input VAT, reverse charge, net liability
+    # UStVA (Umsatzsteuervoranmeldung) field definitions in the order of the official form
+    # A field is a line of the form: field_number is the Kennziffer of the tax base
+    # (tax-only lines: of the tax), tax_field_number the Kennziffer of the tax where
+    # the form has a separate one.
+    # :tax_key fields are filled from the VAT accounts reporting under the Kennziffer
+    # (see TaxKey::DEFINITIONS and USTVA_ACCOUNTS), :tax_base fields only report the
+    # tax base, :tax_on_base fields (§13b) calculate the tax from the tax base.
     USTVA_FIELDS = {
-      # Output VAT fields (Umsatzsteuer)
+      # Steuerpflichtige Umsätze
       kz_81: {
         field_number: 81,
-        name: "Umsatzsteuer 19%",
-        description: "Umsatzsteuer aus Lieferungen und Leistungen zum Steuersatz von 19%",
-        accounts: [ Account::VAT_ACCOUNTS[:output_19] ],
-        calculation_type: :account_balance,
+        name: "Steuerpflichtige Umsätze 19%",
+        description: "Lieferungen und sonstige Leistungen zum Steuersatz von 19%",
+        calculation_type: :tax_key,
         section: :output_vat,
         display_order: 1
       },
       kz_86: {
         field_number: 86,
-        name: "Umsatzsteuer 7%",
-        description: "Umsatzsteuer aus Lieferungen und Leistungen zum Steuersatz von 7%",
-        accounts: [ Account::VAT_ACCOUNTS[:output_7] ],
-        calculation_type: :account_balance,
+        name: "Steuerpflichtige Umsätze 7%",
+        description: "Lieferungen und sonstige Leistungen zum Steuersatz von 7%",
+        calculation_type: :tax_key,
         section: :output_vat,
         display_order: 2
       },
 
-      # Input VAT fields (Vorsteuer)
-      kz_66: {
-        field_number: 66,
-        name: "Vorsteuer 19%",
-        description: "Abziehbare Vorsteuer aus Rechnungen anderer Unternehmer (19%)",
-        accounts: [ Account::VAT_ACCOUNTS[:input_19] ],
-        calculation_type: :account_balance,
-        section: :input_vat,
+      # Steuerfreie Umsätze mit Vorsteuerabzug
+      kz_41: {
+        field_number: 41,
+        name: "Innergemeinschaftliche Lieferungen",
+        description: "Innergemeinschaftliche Lieferungen an Abnehmer mit USt-IdNr. (§ 4 Nr. 1 Buchst. b UStG)",
+        calculation_type: :tax_base,
+        section: :tax_free_with_input_tax,
         display_order: 3
       },
-      kz_61: {
-        field_number: 61,
-        name: "Vorsteuer 7%",
-        description: "Abziehbare Vorsteuer aus Rechnungen anderer Unternehmer (7%)",
-        accounts: [ Account::VAT_ACCOUNTS[:input_7] ],
-        calculation_type: :account_balance,
-        section: :input_vat,
+      kz_43: {
+        field_number: 43,
+        name: "Weitere steuerfreie Umsätze mit Vorsteuerabzug",
+        description: "z.B. Ausfuhrlieferungen (§ 4 Nr. 1 Buchst. a UStG)",
+        calculation_type: :tax_base,
+        section: :tax_free_with_input_tax,
         display_order: 4
       },
 
-      # Reverse charge fields
+      # Steuerfreie Umsätze ohne Vorsteuerabzug
+      kz_48: {
+        field_number: 48,
+        name: "Steuerfreie Umsätze ohne Vorsteuerabzug",
+        description: "Umsätze nach § 4 Nr. 8 bis 29 UStG",
+        calculation_type: :tax_base,
+        section: :tax_free_without_input_tax,
+        display_order: 5
+      },
+
+      # Innergemeinschaftliche Erwerbe
+      kz_89: {
+        field_number: 89,
+        name: "Innergemeinschaftliche Erwerbe 19%",
+        description: "Steuerpflichtige innergemeinschaftliche Erwerbe zum Steuersatz von 19%",
+        calculation_type: :tax_key,
+        section: :intra_community_acquisitions,
+        display_order: 6
+      },
+      kz_93: {
+        field_number: 93,
+        name: "Innergemeinschaftliche Erwerbe 7%",
+        description: "Steuerpflichtige innergemeinschaftliche Erwerbe zum Steuersatz von 7%",
+        calculation_type: :tax_key,
+        section: :intra_community_acquisitions,
+        display_order: 7
+      },
+
+      # Leistungsempfänger als Steuerschuldner (§ 13b UStG)
       kz_46: {
         field_number: 46,
-        name: "Reverse Charge (Ausgangsumsatz)",
-        description: "Steuerschuldner ist der Leistungsempfänger (§ 13b UStG) - Ausgangsumsatz",
-        accounts: [ Account::VAT_ACCOUNTS[:reverse_charge_output_19] ],
-        calculation_type: :account_balance,
+        tax_field_number: 47,
+        name: "Sonstige Leistungen von EU-Unternehmern",
+        description: "Sonstige Leistungen eines im übrigen Gemeinschaftsgebiet ansässigen Unternehmers (§ 13b Abs. 1 UStG)",
+        calculation_type: :tax_on_base,
         section: :reverse_charge,
-        display_order: 5
+        display_order: 8
       },
-      kz_47: {
-        field_number: 47,
-        name: "Reverse Charge (Vorsteuer)",
-        description: "Abziehbare Vorsteuer bei Reverse Charge (§ 13b UStG)",
-        accounts: [ Account::VAT_ACCOUNTS[:reverse_charge_input_19] ],
-        calculation_type: :account_balance,
+      kz_84: {
+        field_number: 84,
+        tax_field_number: 85,
+        name: "Andere Leistungen",
+        description: "z.B. Bauleistungen und Leistungen ausländischer Unternehmer (§ 13b Abs. 2 Nr. 1, 2, 4 bis 12 UStG)",
+        calculation_type: :tax_on_base,
         section: :reverse_charge,
-        display_order: 6
+        display_order: 9
+      },
+
+      # Ergänzende Angaben zu Umsätzen
+      kz_21: {
+        field_number: 21,
+        name: "Nicht steuerbare sonstige Leistungen",
+        description: "Im übrigen Gemeinschaftsgebiet steuerpflichtige sonstige Leistungen (§ 18b Satz 1 Nr. 2 UStG)",
+        calculation_type: :tax_base,
+        section: :supplementary,
+        display_order: 10
+      },
+      kz_45: {
+        field_number: 45,
+        name: "Übrige nicht steuerbare Umsätze",
+        description: "Umsätze mit Leistungsort nicht im Inland",
+        calculation_type: :tax_base,
+        section: :supplementary,
+        display_order: 11
+      },
+
+      # Abziehbare Vorsteuerbeträge
+      kz_66: {
+        field_number: 66,
+        name: "Vorsteuer aus Rechnungen",
+        description: "Vorsteuerbeträge aus Rechnungen von anderen Unternehmern (§ 15 Abs. 1 Satz 1 Nr. 1 UStG)",
+        calculation_type: :tax_key,
+        section: :input_vat,
+        display_order: 12
+      },
+      kz_61: {
+        field_number: 61,
+        name: "Vorsteuer aus innergemeinschaftlichem Erwerb",
+        description: "Vorsteuerbeträge aus dem innergemeinschaftlichen Erwerb von Gegenständen (§ 15 Abs. 1 Satz 1 Nr. 3 UStG)",
+        calculation_type: :tax_key,
+        section: :input_vat,
+        display_order: 13
+      },
+      kz_62: {
+        field_number: 62,
+        name: "Einfuhrumsatzsteuer",
+        description: "Entstandene Einfuhrumsatzsteuer (§ 15 Abs. 1 Satz 1 Nr. 2 UStG)",
+        calculation_type: :tax_key,
+        section: :input_vat,
+        display_order: 14
+      },
+      kz_67: {
+        field_number: 67,
+        name: "Vorsteuer aus § 13b-Leistungen",
+        description: "Vorsteuerbeträge aus Leistungen im Sinne des § 13b UStG (§ 15 Abs. 1 Satz 1 Nr. 4 UStG)",
+        calculation_type: :tax_key,
+        section: :input_vat,
+        display_order: 15
+      },
+      kz_64: {
+        field_number: 64,
+        name: "Berichtigung des Vorsteuerabzugs",
+        description: "Berichtigung des Vorsteuerabzugs (§ 15a UStG)",
+        calculation_type: :tax_key,
+        section: :input_vat,
+        display_order: 16
+      },
+      kz_59: {
+        field_number: 59,
+        name: "Vorsteuer aus Lieferung neuer Fahrzeuge",
+        description: "Vorsteuerabzug für innergemeinschaftliche Lieferungen neuer Fahrzeuge außerhalb eines Unternehmens (§ 2a UStG)",
+        calculation_type: :tax_key,
+        section: :input_vat,
+        display_order: 17
       },
 
       # Calculated net VAT liability
@@ -74,7 +171,29 @@ class TaxFormFieldMap
         calculation_type: :formula,
         formula: :calculate_net_vat_liability,
         section: :summary,
-        display_order: 7
+        display_order: 18
+      }
+    }.freeze
+
+    # Accounts reported under a Kennziffer without a tax key, per chart of accounts.
+    # bases: revenue, acquisition and §13b expense accounts (tax base), taxes: tax accounts
+    # (tax amount), rates: tax rate of the §13b expense accounts
+    USTVA_ACCOUNTS = {
+      "SKR03" => {
+        bases: {
+          "8400" => 81, "8410" => 81, "8300" => 86, "8125" => 41, "8120" => 43, "8100" => 48, "8336" => 21, "8338" => 45,
+          "3420" => 93, "3425" => 89, "3113" => 46, "3123" => 46, "3110" => 84, "3115" => 84, "3120" => 84, "3125" => 84
+        },
+        taxes: { "1588" => 62, "1528" => 64, "1556" => 64, "1557" => 64, "1558" => 64, "1559" => 64 },
+        rates: { "3110" => 7, "3113" => 7, "3115" => 7, "3120" => 19, "3123" => 19, "3125" => 19 }
+      },
+      "SKR04" => {
+        bases: {
+          "4400" => 81, "4410" => 81, "4300" => 86, "4125" => 41, "4120" => 43, "4100" => 48, "4336" => 21, "4338" => 45,
+          "5420" => 93, "5425" => 89, "5913" => 46, "5923" => 46, "5910" => 84, "5915" => 84, "5920" => 84, "5925" => 84
+        },
+        taxes: { "1433" => 62, "1415" => 64, "1416" => 64, "1417" => 64, "1418" => 64 },
+        rates: { "5910" => 7, "5913" => 7, "5915" => 7, "5920" => 19, "5923" => 19, "5925" => 19 }
       }
     }.freeze
 
@@ -159,10 +278,117 @@ class TaxFormFieldMap
       }
     }.freeze
 
+    # Gewerbesteuer (GewSt) adjustments, all editable and entered in euros
+    # Hinzurechnungen with a hinzurechnung_factor are the Finanzierungsanteile of
+    # § 8 Nr. 1 GewStG: the factor applies first, a quarter of the sum above
+    # the Freibetrag is added. A Kürzung with :grundbesitz is entered as the
+    # Einheitswert (Grundsteuerwert from 2025) the Kürzung is calculated from.
+    GEWST_FIELDS = {
+      entgelte_fuer_schulden: {
+        name: "Entgelte für Schulden",
+        description: "Zinsen und ähnliche Entgelte (§ 8 Nr. 1 a GewStG, zu 100 %)",
+        section: :hinzurechnungen,
+        editable: true,
+        default_value: 0.0,
+        hinzurechnung_factor: 1.0,
+        display_order: 1
+      },
+      renten_und_stille_beteiligungen: {
+        name: "Renten, dauernde Lasten, stille Gesellschafter",
+        description: "Renten und dauernde Lasten, Gewinnanteile stiller Gesellschafter (§ 8 Nr. 1 b, c GewStG, zu 100 %)",
+        section: :hinzurechnungen,
+        editable: true,
+        default_value: 0.0,
+        hinzurechnung_factor: 1.0,
+        display_order: 2
+      },
+      mieten_bewegliche_wirtschaftsgueter: {
+        name: "Mieten und Leasing beweglicher Wirtschaftsgüter",
+        description: "Miet- und Pachtzinsen, Leasingraten für bewegliche Wirtschaftsgüter (§ 8 Nr. 1 d GewStG, zu 20 %)",
+        section: :hinzurechnungen,
+        editable: true,
+        default_value: 0.0,
+        hinzurechnung_factor: 0.2,
+        display_order: 3
+      },
+      mieten_unbewegliche_wirtschaftsgueter: {
+        name: "Mieten und Pachten unbeweglicher Wirtschaftsgüter",
+        description: "Miet- und Pachtzinsen für Grundstücke und Räume (§ 8 Nr. 1 e GewStG, zu 50 %)",
+        section: :hinzurechnungen,
+        editable: true,
+        default_value: 0.0,
+        hinzurechnung_factor: 0.5,
+        display_order: 4
+      },
+      lizenzen: {
+        name: "Lizenzen und Konzessionen",
+        description: "Aufwendungen für die zeitlich befristete Überlassung von Rechten (§ 8 Nr. 1 f GewStG, zu 25 %)",
+        section: :hinzurechnungen,
+        editable: true,
+        default_value: 0.0,
+        hinzurechnung_factor: 0.25,
+        display_order: 5
+      },
+      sonstige_hinzurechnungen: {
+        name: "Sonstige Hinzurechnungen",
+        description: "Weitere Hinzurechnungen ohne Freibetrag (§ 8 Nr. 4 bis 12 GewStG)",
+        section: :hinzurechnungen,
+        editable: true,
+        default_value: 0.0,
+        display_order: 6
+      },
+      grundbesitz: {
+        name: "Einheitswert / Grundsteuerwert des Grundbesitzes",
+        description: "Kürzung um 1,2 % von 140 % des Einheitswerts, ab 2025 um 0,11 % des Grundsteuerwerts (§ 9 Nr. 1 GewStG)",
+        section: :kuerzungen,
+        editable: true,
+        default_value: 0.0,
+        kuerzung_type: :grundbesitz,
+        display_order: 7
+      },
+      beteiligungsertraege: {
+        name: "Gewinne aus Beteiligungen",
+        description: "Im Gewinn enthaltene Gewinnanteile aus Beteiligungen von mindestens 15 % (§ 9 Nr. 2a, 7 GewStG)",
+        section: :kuerzungen,
+        editable: true,
+        default_value: 0.0,
+        display_order: 8
+      },
+      sonstige_kuerzungen: {
+        name: "Sonstige Kürzungen",
+        description: "Weitere Kürzungen (z.B. § 9 Nr. 3 GewStG, ausländische Betriebsstätten)",
+        section: :kuerzungen,
+        editable: true,
+        default_value: 0.0,
+        display_order: 9
+      },
+      gewerbeverlust: {
+        name: "Vortragsfähiger Gewerbeverlust",
+        description: "Gewerbeverlust aus Vorjahren, abziehbar bis 1 Mio. € und darüber zu 60 % (§ 10a GewStG)",
+        section: :verlust_und_vorauszahlungen,
+        editable: true,
+        default_value: 0.0,
+        display_order: 10
+      },
+      vorauszahlungen: {
+        name: "Geleistete Vorauszahlungen",
+        description: "Gewerbesteuer-Vorauszahlungen für das Jahr, mindern die Rückstellung",
+        section: :verlust_und_vorauszahlungen,
+        editable: true,
+        default_value: 0.0,
+        display_order: 11
+      }
+    }.freeze
+
     def ustva_fields
       USTVA_FIELDS
     end
 
+    # UStVA account mapping of the chart, SKR03 for unknown charts
+    def ustva_accounts(chart = ChartOfAccounts::DEFAULT_NAME)
+      USTVA_ACCOUNTS.fetch(chart) { USTVA_ACCOUNTS.fetch(ChartOfAccounts::DEFAULT_NAME) }
+    end
+
     # UStVA field lookup
     def ustva_field(field_key)
       validate_ustva_field!(field_key)
@@ -184,8 +410,12 @@ class TaxFormFieldMap
     def ustva_fields_by_section
       {
         output_vat: fields_for_section(USTVA_FIELDS, :output_vat),
-        input_vat: fields_for_section(USTVA_FIELDS, :input_vat),
+        tax_free_with_input_tax: fields_for_section(USTVA_FIELDS, :tax_free_with_input_tax),
+        tax_free_without_input_tax: fields_for_section(USTVA_FIELDS, :tax_free_without_input_tax),
+        intra_community_acquisitions: fields_for_section(USTVA_FIELDS, :intra_community_acquisitions),
         reverse_charge: fields_for_section(USTVA_FIELDS, :reverse_charge),
+        supplementary: fields_for_section(USTVA_FIELDS, :supplementary),
+        input_vat: fields_for_section(USTVA_FIELDS, :input_vat),
         summary: fields_for_section(USTVA_FIELDS, :summary)
       }
     end
@@ -204,12 +434,30 @@ class TaxFormFieldMap
       KST_FIELDS.select { |_key, field| field[:editable] == true }
     end
 
+    # Get GewSt fields grouped by section
+    def gewst_fields_by_section
+      {
+        hinzurechnungen: fields_for_section(GEWST_FIELDS, :hinzurechnungen),
+        kuerzungen: fields_for_section(GEWST_FIELDS, :kuerzungen),
+        verlust_und_vorauszahlungen: fields_for_section(GEWST_FIELDS, :verlust_und_vorauszahlungen)
+      }
+    end
+
+    # Get all editable GewSt fields
+    def gewst_editable_fields
+      GEWST_FIELDS.select { |_key, field| field[:editable] == true }
+    end
+
     # Section labels for UStVA
     def ustva_section_label(section_key)
       case section_key
-      when :output_vat then "Umsatzsteuer (Output VAT)"
+      when :output_vat then "Steuerpflichtige Umsätze (Taxable Supplies)"
+      when :tax_free_with_input_tax then "Steuerfreie Umsätze mit Vorsteuerabzug (Exempt Supplies)"
+      when :tax_free_without_input_tax then "Steuerfreie Umsätze ohne Vorsteuerabzug (Exempt Supplies without Input VAT)"
+      when :intra_community_acquisitions then "Innergemeinschaftliche Erwerbe (Intra-Community Acquisitions)"
+      when :reverse_charge then "Leistungsempfänger als Steuerschuldner (§ 13b UStG)"
+      when :supplementary then "Ergänzende Angaben zu Umsätzen (Supplementary Information)"
       when :input_vat then "Abziehbare Vorsteuer (Input VAT)"
-      when :reverse_charge then "Reverse Charge (§ 13b UStG)"
       when :summary then "Zusammenfassung"
       else
         raise ArgumentError, "Unknown UStVA section: #{section_key}"
@@ -227,6 +475,17 @@ class TaxFormFieldMap
       end
     end
 
+    # Section labels for GewSt
+    def gewst_section_label(section_key)
+      case section_key
+      when :hinzurechnungen then "Hinzurechnungen (§ 8 GewStG)"
+      when :kuerzungen then "Kürzungen (§ 9 GewStG)"
+      when :verlust_und_vorauszahlungen then "Gewerbeverlust und Vorauszahlungen"
+      else
+        raise ArgumentError, "Unknown GewSt section: #{section_key}"
+      end
+    end
+
     private
 
     def validate_ustva_field!(field_key)
@@ -0,0 +1,77 @@
+# Expands a booking with a tax key (BU-Schlüssel) into its journal lines, the
+# way DATEV books it: the amount is the gross amount, the net amount goes to the
+# account that carries the key and the VAT to the key's VAT account, on the same
+# side. A refund or credit note therefore reduces the VAT. Without a key the
+# booking is a plain debit/credit pair. Net and VAT lines carry the key.
+class TaxKeySplitter
+  Line = Struct.new(:account_code, :direction, :amount, :description, :tax_key_code, keyword_init: true)
+
+  def initialize(tax_key)
+    @tax_key = tax_key
+  end
+
+  # keyed_code is the account the key belongs to (see AccountRoles#tax_key_account);
+  # without it the side follows the key: input VAT on the debit, output VAT on
+  # the credit side. Lines without an account or with a zero amount are dropped.
+  def lines(debit_code:, credit_code:, amount:, description: nil, keyed_code: nil)
+    @description = description
+
+    lines = if @tax_key.nil?
+      [ line(debit_code, "debit", amount), line(credit_code, "credit", amount) ]
+    else
+      keyed_direction = keyed_direction(debit_code, credit_code, keyed_code)
+      keyed_code, other_code = keyed_direction == "debit" ? [ debit_code, credit_code ] : [ credit_code, debit_code ]
+
+      if @tax_key.reverse_charge?
+        reverse_charge_lines(keyed_code, other_code, keyed_direction, amount)
+      else
+        vat_lines(keyed_code, other_code, keyed_direction, amount)
+      end
+    end
+
+    lines.reject { |entry_line| entry_line.account_code.nil? || entry_line.amount.zero? }
+  end
+
+  private
+
+  def keyed_direction(debit_code, credit_code, keyed_code)
+    return "debit" if keyed_code && keyed_code == debit_code
+    return "credit" if keyed_code && keyed_code == credit_code
+
+    @tax_key.output? ? "credit" : "debit"
+  end
+
+  def vat_lines(keyed_code, other_code, direction, gross)
+    net = (gross * 100 / (100 + @tax_key.rate)).round(2)
+
+    [
+      keyed_line(keyed_code, direction, net),
+      keyed_line(@tax_key.vat_account_code, direction, gross - net),
+      line(other_code, opposite(direction), gross)
+    ]
+  end
+
+  # §13b UStG: the amount is the net amount, input and output VAT cancel each other out
+  def reverse_charge_lines(keyed_code, other_code, direction, amount)
+    vat = (amount * @tax_key.rate / 100).round(2)
+
+    [
+      keyed_line(keyed_code, direction, amount),
+      line(other_code, opposite(direction), amount),
+      keyed_line(@tax_key.vat_account_code, direction, vat),
+      keyed_line(@tax_key.reverse_charge_account_code, opposite(direction), vat)
+    ]
+  end
+
+  def opposite(direction)
+    direction == "debit" ? "credit" : "debit"
+  end
+
+  def line(account_code, direction, amount)
+    Line.new(account_code: account_code, direction: direction, amount: amount, description: @description)
+  end
+
+  def keyed_line(account_code, direction, amount)
+    Line.new(account_code: account_code, direction: direction, amount: amount, description: @description, tax_key_code: @tax_key.code)
+  end
+end
@@ -0,0 +1,114 @@
+# Writes the Summen- und Saldenliste of TrialBalanceService as CSV or PDF.
+#
+# Balances are shown unsigned with a Soll/Haben marker ("S"/"H") like in DATEV
+# reports; debit and credit sums are always positive.
+class TrialBalanceExport
+  COLUMNS = [
+    "Konto", "Bezeichnung", "Kontenklasse", "EB-Wert", "S/H", "Soll Periode", "Haben Periode",
+    "Soll kumuliert", "Haben kumuliert", "Saldo", "S/H"
+  ].freeze
+
+  # Widths of the PDF columns in characters (Courier)
+  PDF_WIDTHS = [ 8, 44, 15, 15, 15, 15, 15, 15 ].freeze
+
+  def initialize(company:, fiscal_year:, data:)
+    @company = company
+    @fiscal_year = fiscal_year
+    @data = data
+  end
+
+  def filename(extension)
+    "Summen_und_Saldenliste_#{@data[:from].strftime('%Y%m%d')}_#{@data[:to].strftime('%Y%m%d')}.#{extension}"
+  end
+
+  # UTF-8 with BOM so Excel detects the encoding, semicolons and decimal commas
+  def to_csv
+    lines = [ csv_line(COLUMNS) ]
+    @data[:groups].each do |group|
+      group[:accounts].each do |row|
+        lines << csv_line([ row[:code], row[:name], group[:name], *csv_amounts(row) ])
+      end
+    end
+    lines << csv_line([ nil, "Summe", nil, *csv_amounts(@data[:totals]) ])
+
+    "\uFEFF" + lines.join("\r\n") + "\r\n"
+  end
+
+  def to_pdf
+    pdf = PdfDocument.new
+    pdf.line("Summen- und Saldenliste", font: :heading, size: 14)
+    pdf.line("#{@company.name} – Zeitraum #{format_date(@data[:from])} bis #{format_date(@data[:to])} " \
+      "(Geschäftsjahr #{@fiscal_year.year})", font: :text, size: 9)
+    pdf.line
+
+    header = pdf_line([ "Konto", "Bezeichnung", "EB-Wert", "Soll Periode", "Haben Periode", "Soll kumuliert", "Haben kumuliert", "Saldo" ])
+    pdf.line(header, font: :bold)
+    pdf.repeated_lines = [ [ header, :bold, 8 ] ]
+
+    @data[:groups].each do |group|
+      pdf.line
+      pdf.line(group[:name], font: :bold)
+      group[:accounts].each { |row| pdf.line(pdf_line([ row[:code], row[:name], *pdf_amounts(row) ])) }
+      pdf.line(pdf_line([ nil, "Summe #{group[:name]}", *pdf_amounts(group[:totals]) ]), font: :bold)
+    end
+
+    pdf.line
+    pdf.line(pdf_line([ nil, "Summe", *pdf_amounts(@data[:totals]) ]), font: :bold)
+    pdf.render
+  end
+
+  private
+
+  def csv_amounts(row)
+    [
+      format_amount(row[:opening_balance].abs), side(row[:opening_balance]),
+      format_amount(row[:period_debit]), format_amount(row[:period_credit]),
+      format_amount(row[:ytd_debit]), format_amount(row[:ytd_credit]),
+      format_amount(row[:closing_balance].abs), side(row[:closing_balance])
+    ]
+  end
+
+  def pdf_amounts(row)
+    [
+      balance_with_side(row[:opening_balance]),
+      format_amount(row[:period_debit], delimiter: true), format_amount(row[:period_credit], delimiter: true),
+      format_amount(row[:ytd_debit], delimiter: true), format_amount(row[:ytd_credit], delimiter: true),
+      balance_with_side(row[:closing_balance])
+    ]
+  end
+
+  def csv_line(values)
+    values.map { |value| value.nil? ? "" : "\"#{value.to_s.gsub('"', '""')}\"" }.join(";")
+  end
+
+  # Code and name left aligned, amounts right aligned
+  def pdf_line(values)
+    values.each_with_index.map do |value, index|
+      width = PDF_WIDTHS[index]
+      text = value.to_s[0, width]
+      index < 2 ? text.ljust(width) : text.rjust(width)
+    end.join(" ")
+  end
+
+  def balance_with_side(amount)
+    return "" if amount.zero?
+
+    "#{format_amount(amount.abs, delimiter: true)} #{side(amount)}"
+  end
+
+  def side(amount)
+    return "" if amount.zero?
+
+    amount.positive? ? "S" : "H"
+  end
+
+  def format_amount(amount, delimiter: false)
+    integer, decimals = format("%.2f", amount).split(".")
+    integer = integer.reverse.scan(/\d{1,3}/).join(".").reverse if delimiter
+    "#{integer},#{decimals}"
+  end
+
+  def format_date(date)
+    date.strftime("%d.%m.%Y")
+  end
+end
@@ -0,0 +1,96 @@
+# Summen- und Saldenliste (trial balance) of a fiscal year up to the end of a period.
+#
+# For every account with bookings it reports the opening balance (EB-Wert, from
+# the opening entries), the debits and credits of the period, the debits and
+# credits from the start of the fiscal year (kumuliert) and the closing balance.
+# Accounts are grouped by Kontenklasse. Balances are signed: debit positive.
+# Closing entries are left out, they would zero every account.
+class TrialBalanceService
+  Result = Struct.new(:success?, :data, :errors, keyword_init: true)
+
+  AMOUNT_COLUMNS = %i[opening_balance period_debit period_credit ytd_debit ytd_credit closing_balance].freeze
+
+  def initialize(company:, fiscal_year:, from: nil, to: nil, only_posted: true)
+    @company = company
+    @fiscal_year = fiscal_year
+    @from = from || fiscal_year&.start_date
+    @to = to || fiscal_year&.end_date
+    @only_posted = only_posted
+    @only_posted = false if !Rails.env.test? && !FeatureFlag.only_posted_enabled?
+  end
+
+  def call
+    return failure("Company is required") unless @company
+    return failure("Fiscal year is required") unless @fiscal_year
+    return failure("Start date must be before end date") if @from > @to
+    unless @from.between?(@fiscal_year.start_date, @fiscal_year.end_date) && @to.between?(@fiscal_year.start_date, @fiscal_year.end_date)
+      return failure("The period must lie within fiscal year #{@fiscal_year.year}")
+    end
+
+    rows = account_rows
+    groups = rows.group_by { |row| row[:class_key] }.map do |class_key, class_rows|
+      { key: class_key, name: class_rows.first[:class_name], accounts: class_rows, totals: totals_for(class_rows) }
+    end
+
+    Result.new(
+      success?: true,
+      data: { from: @from, to: @to, groups: groups, totals: totals_for(rows) },
+      errors: []
+    )
+  end
+
+  private
+
+  def account_rows
+    opening = sums(line_items.where(journal_entries: { entry_type: "opening" }))
+    year_to_date = sums(line_items.where(journal_entries: { entry_type: "normal", booking_date: @fiscal_year.start_date..@to }))
+    period = sums(line_items.where(journal_entries: { entry_type: "normal", booking_date: @from..@to }))
+
+    account_ids = (opening.keys + year_to_date.keys).map(&:first).uniq
+    chart_name = ChartOfAccounts.name_for(@company)
+
+    # Sachkonten before the five-digit personal accounts
+    accounts = @company.accounts.where(id: account_ids).sort_by { |account| [ account.code.length, account.code ] }
+
+    accounts.map do |account|
+      opening_balance = opening[[ account.id, "debit" ]].to_d - opening[[ account.id, "credit" ]].to_d
+      ytd_debit = year_to_date[[ account.id, "debit" ]].to_d
+      ytd_credit = year_to_date[[ account.id, "credit" ]].to_d
+      class_key, class_name = ChartOfAccounts.account_class_for(chart_name, account.code)
+
+      {
+        id: account.id,
+        code: account.code,
+        name: account.name,
+        class_key: class_key,
+        class_name: class_name,
+        opening_balance: opening_balance,
+        period_debit: period[[ account.id, "debit" ]].to_d,
+        period_credit: period[[ account.id, "credit" ]].to_d,
+        ytd_debit: ytd_debit,
+        ytd_credit: ytd_credit,
+        closing_balance: opening_balance + ytd_debit - ytd_credit
+      }
+    end
+  end
+
+  def line_items
+    scope = LineItem.joins(:journal_entry)
+      .where(journal_entries: { company_id: @company.id, fiscal_year_id: @fiscal_year.id })
+    scope = scope.where.not(journal_entries: { posted_at: nil }) if @only_posted
+    scope
+  end
+
+  # { [account_id, direction] => amount }
+  def sums(scope)
+    scope.group(:account_id, :direction).sum(:amount)
+  end
+
+  def totals_for(rows)
+    AMOUNT_COLUMNS.index_with { |column| rows.sum(BigDecimal("0")) { |row| row[column] } }
+  end
+
+  def failure(message)
+    Result.new(success?: false, data: nil, errors: [ message ])
+  end
+end
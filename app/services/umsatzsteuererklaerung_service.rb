@@ -0,0 +1,247 @@
+# Service to calculate the annual Umsatzsteuererklärung and reconcile it with
+# the saved UStVA reports (TaxReport of type "ustva") of the year
+# The annual figures are the UStVA calculation over the whole year. Each line
+# is compared with the sum of the saved monthly or quarterly UStVAs. Per period
+# the UStVA is calculated again: differences come from bookings posted after
+# the UStVA was saved (late bookings), which are listed, or from periods
+# without a saved UStVA.
+# The Vorauszahlungssoll is the sum of the saved UStVAs plus the
+# Sondervorauszahlung (adjustment :sondervorauszahlung), as the UStVAs do not
+# deduct it (Kz 39).
+class UmsatzsteuererklaerungService
+  Result = Struct.new(:success?, :data, :errors, keyword_init: true)
+
+  # Differences below half a cent are rounding
+  TOLERANCE = 0.005
+
+  def initialize(company:, start_date:, end_date:, adjustments: {})
+    @company = company
+    @start_date = start_date
+    @end_date = end_date
+    @adjustments = adjustments
+  end
+
+  def call
+    return failure("Company is required") unless @company
+    return failure("Start date is required") unless @start_date
+    return failure("End date is required") unless @end_date
+    return failure("The Umsatzsteuererklärung covers a calendar year") unless calendar_year?
+
+    annual_result = UstvaService.new(company: @company, start_date: @start_date, end_date: @end_date).call
+    return annual_result unless annual_result.success?
+
+    periods = build_periods
+    fields = compare_fields(annual_result.data[:fields], periods)
+    filed_tax = periods.sum { |period| period[:filed_net_vat_liability] || 0.0 }.round(2)
+
+    Result.new(
+      success?: true,
+      data: {
+        period_type: "annual",
+        start_date: @start_date.to_s,
+        end_date: @end_date.to_s,
+        year: @start_date.year,
+        filing_period_type: filing_period_type,
+        fields: fields,
+        sections: build_sections(fields),
+        adjustments: build_adjustments,
+        totals: build_totals(annual_result.data[:net_vat_liability], filed_tax),
+        periods: periods.map { |period| period.except(:filed_fields) },
+        metadata: {
+          journal_entries_count: annual_result.data.dig(:metadata, :journal_entries_count),
+          ustva_reports_count: periods.count { |period| period[:tax_report_id] },
+          calculation_date: Date.today.to_s
+        }
+      },
+      errors: []
+    )
+  rescue StandardError => e
+    Result.new(success?: false, data: nil, errors: [ e.message ])
+  end
+
+  private
+
+  def calendar_year?
+    @start_date == @start_date.beginning_of_year && @end_date == @start_date.end_of_year
+  end
+
+  # Saved UStVAs of the year; monthly filers' quarterly reports are ignored
+  def ustva_reports
+    @ustva_reports ||= @company.tax_reports.ustva
+      .where(period_type: filing_period_type, start_date: @start_date..@end_date)
+      .to_a
+  end
+
+  def filing_period_type
+    @filing_period_type ||= @company.tax_reports.ustva.where(period_type: "monthly", start_date: @start_date..@end_date).exists? ? "monthly" : "quarterly"
+  end
+
+  def expected_periods
+    if filing_period_type == "monthly"
+      (1..12).map { |month| Date.new(@start_date.year, month, 1) }.map { |start| [ start, start.end_of_month ] }
+    else
+      (1..4).map { |quarter| Date.new(@start_date.year, quarter * 3 - 2, 1) }.map { |start| [ start, (start + 2.months).end_of_month ] }
+    end
+  end
+
+  # Per period the saved UStVA (a submitted or accepted one first, otherwise the latest)
+  # compared with the UStVA calculated from today's bookings
+  def build_periods
+    expected_periods.map do |period_start, period_end|
+      report = ustva_reports
+        .select { |tax_report| tax_report.start_date == period_start && tax_report.end_date == period_end }
+        .max_by { |tax_report| [ tax_report.finalized? ? 1 : 0, tax_report.created_at ] }
+      current = UstvaService.new(company: @company, start_date: period_start, end_date: period_end).call
+      raise current.errors.join(", ") unless current.success?
+
+      build_period(period_start, period_end, report, current.data)
+    end
+  end
+
+  def build_period(period_start, period_end, report, current_data)
+    saved_data = (report&.generated_data || {}).deep_symbolize_keys
+    saved_fields = (saved_data[:fields] || []).index_by { |field| field[:key].to_sym }
+    filed_net_vat_liability = report ? saved_data[:net_vat_liability].to_f.round(2) : nil
+    late_entries = report ? late_entries_for(period_start, period_end, report.created_at) : []
+
+    changed_fields = current_data[:fields].filter_map do |field|
+      saved = saved_fields[field[:key].to_sym] || {}
+      next unless differs?(field[:value], saved[:value]) || differs?(field[:base_value], saved[:base_value])
+
+      {
+        key: field[:key],
+        field_number: field[:field_number],
+        name: field[:name],
+        filed_value: saved[:value],
+        current_value: field[:value],
+        filed_base_value: saved[:base_value],
+        current_base_value: field[:base_value]
+      }
+    end
+
+    {
+      label: filing_period_type == "monthly" ? I18n.l(period_start, format: "%B %Y") : "Q#{(period_start.month - 1) / 3 + 1} #{period_start.year}",
+      start_date: period_start.to_s,
+      end_date: period_end.to_s,
+      tax_report_id: report&.id,
+      status: report ? report.status : "missing",
+      saved_at: report&.created_at&.iso8601,
+      filed_fields: saved_fields,
+      filed_net_vat_liability: filed_net_vat_liability,
+      current_net_vat_liability: current_data[:net_vat_liability],
+      difference: (current_data[:net_vat_liability] - (filed_net_vat_liability || 0.0)).round(2),
+      changed_fields: report ? changed_fields : [],
+      late_entries: late_entries
+    }
+  end
+
+  # VAT-relevant entries of the period that were posted after the UStVA was saved
+  def late_entries_for(period_start, period_end, saved_at)
+    @company.journal_entries
+      .where(booking_date: period_start..period_end)
+      .where("journal_entries.posted_at > ?", saved_at)
+      .where(id: vat_relevant_line_items.select(:journal_entry_id))
+      .order(:booking_date, :id)
+      .map do |journal_entry|
+        {
+          journal_entry_id: journal_entry.id,
+          booking_date: journal_entry.booking_date.to_s,
+          posted_at: journal_entry.posted_at.iso8601,
+          voucher_number: journal_entry.voucher_number,
+          description: journal_entry.description
+        }
+      end
+  end
+
+  # Lines with a tax key or on an account the UStVA reports
+  def vat_relevant_line_items
+    tax_keys = TaxKey.for_company(@company)
+    ustva_accounts = TaxFormFieldMap.ustva_accounts(TaxKey.chart_for(@company))
+    account_codes = tax_keys.flat_map(&:vat_account_codes) + ustva_accounts[:bases].keys + ustva_accounts[:taxes].keys
+
+    LineItem.joins(:account)
+      .where("line_items.tax_key_code IS NOT NULL OR accounts.tax_key_code IS NOT NULL OR accounts.code IN (?)", account_codes.uniq)
+  end
+
+  # Annual figures next to the sum of the saved UStVAs, line by line
+  def compare_fields(annual_fields, periods)
+    annual_fields.map do |field|
+      filed = periods.map { |period| period[:filed_fields][field[:key].to_sym] || {} }
+      filed_value = sum_or_nil(filed.map { |saved| saved[:value] }, field[:value])
+      filed_base_value = sum_or_nil(filed.map { |saved| saved[:base_value] }, field[:base_value])
+
+      field.slice(:key, :field_number, :tax_field_number, :name, :description).merge(
+        annual_value: field[:value],
+        annual_base_value: field[:base_value],
+        filed_value: filed_value,
+        filed_base_value: filed_base_value,
+        difference: difference(field[:value], filed_value),
+        base_difference: difference(field[:base_value], filed_base_value)
+      )
+    end
+  end
+
+  def build_sections(fields)
+    sections = {}
+
+    TaxFormFieldMap.ustva_fields_by_section.each do |section_key, section_fields|
+      next if section_key == :summary
+
+      sections[section_key] = {
+        label: TaxFormFieldMap.ustva_section_label(section_key),
+        fields: fields.select { |field| section_fields.key?(field[:key].to_sym) }
+      }
+    end
+
+    sections
+  end
+
+  def build_adjustments
+    {
+      sondervorauszahlung: {
+        name: "Sondervorauszahlung",
+        description: "Festgesetzte Sondervorauszahlung bei Dauerfristverlängerung (1/11 der Vorauszahlungen des Vorjahres)",
+        value: sondervorauszahlung.round(2),
+        editable: true
+      }
+    }
+  end
+
+  def build_totals(annual_tax, filed_tax)
+    prepayments_due = (filed_tax + sondervorauszahlung).round(2)
+
+    {
+      annual_tax: annual_tax,
+      filed_tax: filed_tax,
+      difference: (annual_tax - filed_tax).round(2),
+      sondervorauszahlung: sondervorauszahlung.round(2),
+      prepayments_due: prepayments_due,
+      # Positive: Abschlusszahlung, negative: Erstattung
+      remaining_payment: (annual_tax - prepayments_due).round(2)
+    }
+  end
+
+  def sondervorauszahlung
+    @adjustments[:sondervorauszahlung]&.to_f || 0.0
+  end
+
+  def sum_or_nil(values, annual_value)
+    return nil if annual_value.nil? && values.all?(&:nil?)
+
+    values.sum { |value| value.to_f }.round(2)
+  end
+
+  def difference(annual_value, filed_value)
+    return nil if annual_value.nil? && filed_value.nil?
+
+    (annual_value.to_f - filed_value.to_f).round(2)
+  end
+
+  def differs?(current_value, saved_value)
+    (current_value.to_f - saved_value.to_f).abs >= TOLERANCE
+  end
+
+  def failure(message)
+    Result.new(success?: false, data: nil, errors: [ message ])
+  end
+end
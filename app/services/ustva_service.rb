@@ -1,8 +1,15 @@
 # Service to calculate Umsatzsteuervoranmeldung (UStVA / VAT advance return)
-# Calculates VAT liabilities based on posted journal entries within a date range
+# Calculates VAT liabilities based on posted journal entries within a date range.
+# Tax amounts are the balances of the tax keys' VAT accounts and the mapped tax
+# accounts (TaxFormFieldMap::USTVA_ACCOUNTS). Tax bases are the net lines of the
+# mapped revenue and §13b accounts, otherwise of their tax key (line_items.tax_key_code,
+# falling back to the account's tax key).
 class UstvaService
   Result = Struct.new(:success?, :data, :errors, keyword_init: true)
 
+  # Sections whose tax bases are booked on the debit side (purchases)
+  PURCHASE_SECTIONS = %i[intra_community_acquisitions reverse_charge].freeze
+
   def initialize(company:, start_date:, end_date:)
     @company = company
     @start_date = start_date
@@ -17,7 +24,7 @@ class UstvaService
 
     vat_balances = calculate_vat_balances
     period_type = determine_period_type
-    fields_data = calculate_fields(vat_balances)
+    fields_data = calculate_fields(vat_balances, *calculate_tax_bases)
     sections_data = build_sections(fields_data)
     net_vat_liability = calculate_net_vat_liability(sections_data)
 
@@ -47,7 +54,7 @@ class UstvaService
     # Query all VAT account balances within the date range
     # Only include posted journal entries (GoBD compliance)
     results = @company.accounts
-      .where(code: Account::VAT_ACCOUNTS.values)
+      .where(code: tax_account_codes)
       .joins(line_items: :journal_entry)
       .where(journal_entries: { booking_date: @start_date..@end_date })
       .where.not(journal_entries: { posted_at: nil })
@@ -59,28 +66,54 @@ class UstvaService
       )
       .group("accounts.code", "accounts.name")
 
-    # Build hash of account_code => net_balance
+    # Build hash of account_code => credit balance; input VAT fields report the
+    # negated (debit) balance, so corrections reduce the field
     balances = {}
     results.each do |account|
-      # VAT amounts are always reported as positive values on UStVA
-      # Output VAT (liability): credit balance
-      # Input VAT (asset): debit balance
-      # Use absolute value to ensure positive amounts
-      net_balance = account.total_credit.to_f - account.total_debit.to_f
-      balances[account.code] = net_balance.abs
+      balances[account.code] = account.total_credit.to_f - account.total_debit.to_f
     end
 
     balances
   end
 
-  def calculate_fields(vat_balances)
+  # Credit balances of the tax base lines per base Kennziffer, and the §13b tax
+  # calculated from them; the VAT lines are excluded
+  def calculate_tax_bases
+    totals = LineItem.joins(:account, :journal_entry)
+      .where(journal_entries: { company_id: @company.id, booking_date: @start_date..@end_date })
+      .where.not(journal_entries: { posted_at: nil })
+      .where.not(accounts: { code: tax_account_codes })
+      .where("line_items.tax_key_code IS NOT NULL OR accounts.tax_key_code IS NOT NULL OR accounts.code IN (?)", ustva_accounts[:bases].keys)
+      .group("accounts.code", "line_items.tax_key_code", "accounts.tax_key_code", "line_items.direction")
+      .sum(:amount)
+
+    bases = Hash.new(0.0)
+    reverse_charge_taxes = Hash.new(0.0)
+    totals.each do |(account_code, line_tax_key_code, account_tax_key_code, direction), amount|
+      tax_key = tax_keys.find { |key| key.code == (line_tax_key_code || account_tax_key_code) }
+      field_number = ustva_accounts[:bases][account_code] || tax_key&.base_field
+      next unless field_number
+
+      amount = direction == "credit" ? amount.to_f : -amount.to_f
+      bases[field_number] += amount
+
+      rate = ustva_accounts[:rates][account_code] || (tax_key.rate if tax_key&.reverse_charge?)
+      reverse_charge_taxes[field_number] += amount * rate / 100 if rate
+    end
+
+    [ bases, reverse_charge_taxes ]
+  end
+
+  def calculate_fields(vat_balances, tax_bases, reverse_charge_taxes)
     fields = []
 
     TaxFormFieldMap.ustva_fields.each do |field_key, field_def|
       value = case field_def[:calculation_type]
-      when :account_balance
-        calculate_account_balance_field(field_def, vat_balances)
-      when :formula
+      when :tax_key
+        calculate_tax_key_field(field_def, vat_balances)
+      when :tax_on_base
+        directed(reverse_charge_taxes[field_def[:field_number]], field_def)
+      when :tax_base, :formula
         # Formula fields are calculated later (e.g., net VAT liability)
         nil
       end
@@ -88,9 +121,11 @@ class UstvaService
       fields << {
         key: field_key,
         field_number: field_def[:field_number],
+        tax_field_number: field_def[:tax_field_number],
         name: field_def[:name],
         description: field_def[:description],
         value: value,
+        base_value: base_field?(field_def) ? directed(tax_bases[field_def[:field_number]], field_def) : nil,
         editable: false
       }
     end
@@ -98,11 +133,40 @@ class UstvaService
     fields.compact_blank
   end
 
-  def calculate_account_balance_field(field_def, vat_balances)
-    # Sum balances for all accounts in this field
-    field_def[:accounts].sum do |account_code|
-      vat_balances[account_code] || 0.0
-    end.round(2)
+  def calculate_tax_key_field(field_def, vat_balances)
+    # Sum balances of the VAT accounts reported under this Kennziffer
+    account_codes = tax_keys.flat_map { |tax_key| tax_key.vat_account_codes_for_field(field_def[:field_number]) }
+    account_codes += ustva_accounts[:taxes].select { |_code, field_number| field_number == field_def[:field_number] }.keys
+
+    balance = account_codes.uniq.sum { |account_code| vat_balances[account_code] || 0.0 }
+    balance = 0.0 - balance if field_def[:section] == :input_vat
+    balance.round(2)
+  end
+
+  # Purchase tax bases and taxes are debit balances
+  def directed(credit_balance, field_def)
+    (PURCHASE_SECTIONS.include?(field_def[:section]) ? 0.0 - credit_balance : credit_balance).round(2)
+  end
+
+  # Whether a tax key or a mapped account reports its tax base under the field
+  def base_field?(field_def)
+    return true if %i[tax_base tax_on_base].include?(field_def[:calculation_type])
+    return false unless field_def[:calculation_type] == :tax_key
+
+    tax_keys.any? { |tax_key| tax_key.base_field == field_def[:field_number] } ||
+      ustva_accounts[:bases].value?(field_def[:field_number])
+  end
+
+  def tax_keys
+    @tax_keys ||= TaxKey.for_company(@company)
+  end
+
+  def ustva_accounts
+    @ustva_accounts ||= TaxFormFieldMap.ustva_accounts(TaxKey.chart_for(@company))
+  end
+
+  def tax_account_codes
+    (tax_keys.flat_map(&:vat_account_codes) + ustva_accounts[:taxes].keys).uniq
   end
 
   def build_sections(fields_data)
@@ -117,11 +181,13 @@ class UstvaService
       next if section_key == :summary
 
       subtotal = fields_in_section.sum { |f| f[:value] || 0.0 }
+      base_subtotal = fields_in_section.sum { |f| f[:base_value] || 0.0 }
 
       sections[section_key] = {
         label: TaxFormFieldMap.ustva_section_label(section_key),
         fields: fields_in_section,
-        subtotal: subtotal.round(2)
+        subtotal: subtotal.round(2),
+        base_subtotal: base_subtotal.round(2)
       }
     end
 
@@ -129,16 +195,14 @@ class UstvaService
   end
 
   def calculate_net_vat_liability(sections_data)
-    # Net VAT liability = Output VAT - Input VAT + Reverse Charge Output - Reverse Charge Input
+    # Net VAT liability = Umsatzsteuer (incl. innergemeinschaftlicher Erwerb and § 13b) - Vorsteuer
     # Positive = VAT owed to tax authority
     # Negative = VAT refund from tax authority
 
-    output_vat = sections_data.dig(:output_vat, :subtotal) || 0.0
     input_vat = sections_data.dig(:input_vat, :subtotal) || 0.0
-    reverse_charge_output = sections_data[:reverse_charge]&.dig(:fields)&.find { |f| f[:key] == :kz_46 }&.dig(:value) || 0.0
-    reverse_charge_input = sections_data[:reverse_charge]&.dig(:fields)&.find { |f| f[:key] == :kz_47 }&.dig(:value) || 0.0
+    output_vat = sections_data.except(:input_vat).values.sum { |section| section[:subtotal] }
 
-    net_liability = output_vat - input_vat + reverse_charge_output - reverse_charge_input
+    net_liability = output_vat - input_vat
     net_liability.round(2)
   end
 
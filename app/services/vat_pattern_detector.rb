@@ -0,0 +1,111 @@
+# Server-side counterpart of detectVatPattern (VatPatternDetector.ts):
+# recognizes the VAT split bookings created by JournalEntryCreator. The VAT
+# accounts and rates come from the tax keys of the chart of accounts, the bank
+# accounts from its account roles.
+class VatPatternDetector
+  Pattern = Struct.new(
+    :type, :tax_key, :main_line, :bank_line, :vat_lines, :vat_rate, :gross_amount, :net_amount, :vat_amount,
+    keyword_init: true
+  )
+
+  def initialize(line_items, tax_keys: TaxKey.all, account_roles: AccountRoles.for_chart(ChartOfAccounts::DEFAULT_NAME))
+    @line_items = line_items.to_a
+    @tax_keys = tax_keys
+    @account_roles = account_roles
+  end
+
+  # Returns a Pattern (type :vat_expense, :vat_revenue or :reverse_charge) or nil
+  def detect
+    case @line_items.size
+    when 3 then detect_vat_split(:vat_expense) || detect_vat_split(:vat_revenue)
+    when 4 then detect_reverse_charge
+    end
+  end
+
+  private
+
+  # Expense: bank (credit), expense (debit), input VAT (debit)
+  # Revenue: bank (debit), revenue (credit), output VAT (credit)
+  def detect_vat_split(type)
+    main_direction = type == :vat_expense ? "debit" : "credit"
+    kind = type == :vat_expense ? :input : :output
+    tax_keys = @tax_keys.select { |tax_key| tax_key.kind == kind }.index_by(&:vat_account_code)
+
+    bank_line = @line_items.find { |li| li.direction != main_direction && bank_line?(li) }
+    vat_line = @line_items.find { |li| li.direction == main_direction && tax_keys.key?(code_of(li)) }
+    main_line = @line_items.find { |li| li.direction == main_direction && li != vat_line && !bank_line?(li) }
+    return unless bank_line && vat_line && main_line
+
+    tax_key = tax_keys[code_of(vat_line)]
+    vat_rate = tax_key.rate
+    return unless amounts_balance?(bank_line.amount, main_line.amount, vat_line.amount)
+    return unless vat_rate_matches?(vat_line.amount, main_line.amount, vat_rate)
+
+    Pattern.new(
+      type: type,
+      tax_key: tax_key,
+      main_line: main_line,
+      bank_line: bank_line,
+      vat_lines: [ vat_line ],
+      vat_rate: vat_rate,
+      gross_amount: bank_line.amount,
+      net_amount: main_line.amount,
+      vat_amount: vat_line.amount
+    )
+  end
+
+  def detect_reverse_charge
+    @tax_keys.select(&:reverse_charge?).each do |tax_key|
+      pattern = detect_reverse_charge_for(tax_key)
+      return pattern if pattern
+    end
+    nil
+  end
+
+  # §13b UStG: bank, main account, input VAT (same direction as main)
+  # and output VAT (opposite direction) with equal amounts
+  def detect_reverse_charge_for(tax_key)
+    bank_line = @line_items.find { |li| bank_line?(li) }
+    input_line = @line_items.find { |li| code_of(li) == tax_key.vat_account_code }
+    output_line = @line_items.find { |li| code_of(li) == tax_key.reverse_charge_account_code }
+    return unless bank_line && input_line && output_line
+    return unless (input_line.amount - output_line.amount).abs <= 0.01
+
+    main_line = (@line_items - [ bank_line, input_line, output_line ]).first
+    return unless main_line
+    return unless input_line.direction == main_line.direction && output_line.direction != main_line.direction
+    return unless vat_rate_matches?(input_line.amount, main_line.amount, tax_key.rate)
+
+    Pattern.new(
+      type: :reverse_charge,
+      tax_key: tax_key,
+      main_line: main_line,
+      bank_line: bank_line,
+      vat_lines: [ input_line, output_line ],
+      vat_rate: tax_key.rate,
+      gross_amount: main_line.amount,
+      net_amount: main_line.amount,
+      vat_amount: input_line.amount
+    )
+  end
+
+  # Linked to a bank transaction or a bank account of the chart
+  def bank_line?(line_item)
+    line_item.bank_transaction_id.present? || @account_roles.bank_account?(code_of(line_item))
+  end
+
+  def code_of(line_item)
+    line_item.account.code
+  end
+
+  def amounts_balance?(gross, net, vat)
+    (gross - (net + vat)).abs <= 0.01
+  end
+
+  # Allows 0.5 percentage points for rounding
+  def vat_rate_matches?(vat_amount, net_amount, expected_rate)
+    return false if net_amount.zero?
+
+    ((vat_amount / net_amount) * 100 - expected_rate).abs <= 0.5
+  end
+end
@@ -0,0 +1,55 @@
+# Gap and duplicate check of the Belegnummern in a fiscal year (GoBD):
+# - gaps: counters missing between 1 and the highest counter of a range
+# - duplicates: voucher numbers used by more than one entry, e.g. after
+#   importing DATEV bookings that already carry a Belegfeld 1
+# - unnumbered: posted entries without a voucher number
+class VoucherNumberReport
+  RangeSummary = Struct.new(:range, :count, :first_number, :last_number, :missing_numbers, keyword_init: true)
+  Duplicate = Struct.new(:voucher_number, :journal_entries, keyword_init: true)
+  Report = Struct.new(:ranges, :duplicates, :unnumbered_entries, keyword_init: true) do
+    def clean?
+      ranges.all? { |summary| summary.missing_numbers.empty? } && duplicates.empty?
+    end
+  end
+
+  def initialize(fiscal_year:)
+    @fiscal_year = fiscal_year
+  end
+
+  def call
+    entries = @fiscal_year.journal_entries.posted.ordered.to_a
+
+    Report.new(
+      ranges: range_summaries(entries),
+      duplicates: duplicates(entries),
+      unnumbered_entries: entries.select { |entry| entry.entry_type == "normal" && entry.voucher_number.blank? }
+    )
+  end
+
+  private
+
+  def range_summaries(entries)
+    counters = entries.select(&:voucher_counter).group_by(&:voucher_number_range_id)
+
+    @fiscal_year.company.voucher_number_ranges.ordered.map do |range|
+      numbered = (counters[range.id] || []).sort_by(&:voucher_counter)
+      used = numbered.map(&:voucher_counter)
+      missing = used.any? ? (1..used.max).to_a - used : []
+
+      RangeSummary.new(
+        range: range,
+        count: numbered.size,
+        first_number: numbered.first&.voucher_number,
+        last_number: numbered.last&.voucher_number,
+        missing_numbers: missing.map { |counter| range.format_number(counter, @fiscal_year) }
+      )
+    end
+  end
+
+  def duplicates(entries)
+    entries.select { |entry| entry.voucher_number.present? }
+      .group_by(&:voucher_number)
+      .select { |_number, group| group.size > 1 }
+      .map { |number, group| Duplicate.new(voucher_number: number, journal_entries: group) }
+  end
+end
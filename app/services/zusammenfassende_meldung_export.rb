@@ -0,0 +1,55 @@
+# Writes a saved Zusammenfassende Meldung (TaxReport of type
+# "zusammenfassende_meldung") in the CSV format of the BZSt online upload:
+# one line per customer USt-IdNr. and Art der Leistung with the
+# Länderkennzeichen, the USt-IdNr. without it, the amount in full euros and
+# the Art der Leistung.
+#
+# The export is blocked while bookings of the period lack a valid customer
+# USt-IdNr., as the ZM would be incomplete.
+class ZusammenfassendeMeldungExport
+  Result = Struct.new(:success?, :csv, :filename, :errors, keyword_init: true)
+
+  HEADER = "Laenderkennzeichen,USt-IdNr.,Betrag(EUR),Art der Leistung".freeze
+
+  def initialize(tax_report:)
+    @tax_report = tax_report
+    @data = (tax_report.generated_data || {}).deep_symbolize_keys
+  end
+
+  def call
+    errors = validate_report
+    return Result.new(success?: false, csv: nil, filename: nil, errors: errors) if errors.any?
+
+    Result.new(success?: true, csv: to_csv, filename: filename, errors: [])
+  end
+
+  private
+
+  def validate_report
+    errors = []
+    errors << "Only Zusammenfassende Meldungen can be exported for the BZSt" unless @tax_report.report_type == "zusammenfassende_meldung"
+    errors << "The BZSt expects a monthly or quarterly ZM period" unless %w[monthly quarterly].include?(@tax_report.period_type)
+
+    flagged_count = @data.fetch(:flagged_entries, []).size
+    if flagged_count.positive?
+      errors << "#{flagged_count} booking(s) have no valid customer USt-IdNr., please correct them and generate the report again"
+    end
+    errors << "The report contains no intra-EU supplies or services" if @data[:rows].blank?
+    errors
+  end
+
+  # Amounts are reported in full euros (cents are dropped), corrections with a minus sign
+  def to_csv
+    lines = [ HEADER ]
+    @data[:rows].each do |row|
+      lines << [ row[:country_code], row[:vat_number], BigDecimal(row[:amount].to_s).truncate.to_i, row[:supply_type] ].join(",")
+    end
+    lines.join("\r\n") + "\r\n"
+  end
+
+  # Monthly: ZM_2025_01.csv, quarterly: ZM_2025_Q1.csv
+  def filename
+    period = @tax_report.period_type == "quarterly" ? "Q#{@tax_report.quarter}" : format("%02d", @tax_report.start_date.month)
+    "ZM_#{@tax_report.start_date.year}_#{period}.csv"
+  end
+end
@@ -0,0 +1,161 @@
+# Service to calculate the Zusammenfassende Meldung (ZM, § 18a UStG)
+# Sums the intra-EU supplies (Art "L", UStVA Kz 41) and services (Art "S",
+# Kz 21) of posted journal entries per customer USt-IdNr.
+# (journal_entries.counterparty_vat_id). Bookings count when their account is
+# mapped to the Kennziffer (TaxFormFieldMap::USTVA_ACCOUNTS) or their tax key
+# reports the base there. Bookings without a valid EU USt-IdNr. of the customer
+# are flagged, they cannot be reported.
+class ZusammenfassendeMeldungService
+  Result = Struct.new(:success?, :data, :errors, keyword_init: true)
+
+  # UStVA Kennziffer of the tax base => Art der Leistung
+  SUPPLY_TYPES = { 41 => "L", 21 => "S" }.freeze
+  SUPPLY_TYPE_LABELS = {
+    "L" => "Innergemeinschaftliche Lieferung",
+    "S" => "Sonstige Leistung (§ 3a Abs. 2 UStG)"
+  }.freeze
+
+  # Länderkennzeichen of the USt-IdNr. of the other EU member states (Greece uses "EL")
+  EU_COUNTRY_CODES = %w[
+    AT BE BG CY CZ DK EE EL ES FI FR HR HU IE IT LT LU LV MT NL PL PT RO SE SI SK XI
+  ].freeze
+
+  def initialize(company:, start_date:, end_date:)
+    @company = company
+    @start_date = start_date
+    @end_date = end_date
+  end
+
+  def call
+    return failure("Company is required") unless @company
+    return failure("Start date is required") unless @start_date
+    return failure("End date is required") unless @end_date
+    return failure("End date must be after start date") if @end_date < @start_date
+
+    bookings = load_bookings
+    reportable, flagged = bookings.partition { |booking| flag_reason(booking[:vat_id]).nil? }
+    rows = build_rows(reportable)
+
+    Result.new(
+      success?: true,
+      data: {
+        period_type: determine_period_type,
+        start_date: @start_date.to_s,
+        end_date: @end_date.to_s,
+        rows: rows,
+        totals: build_totals(rows),
+        flagged_entries: build_flagged_entries(flagged),
+        metadata: {
+          journal_entries_count: bookings.map { |booking| booking[:journal_entry_id] }.uniq.size,
+          calculation_date: Date.today.to_s
+        }
+      },
+      errors: []
+    )
+  rescue StandardError => e
+    Result.new(success?: false, data: nil, errors: [ e.message ])
+  end
+
+  private
+
+  # Credit balance of each journal entry's lines per Art der Leistung
+  def load_bookings
+    line_items = LineItem.joins(:account, :journal_entry)
+      .where(journal_entries: { company_id: @company.id, booking_date: @start_date..@end_date })
+      .where.not(journal_entries: { posted_at: nil })
+      .where("accounts.code IN (?) OR line_items.tax_key_code IN (?) OR (line_items.tax_key_code IS NULL AND accounts.tax_key_code IN (?))",
+        supply_accounts.keys, supply_tax_keys.keys, supply_tax_keys.keys)
+      .includes(:account, :journal_entry)
+
+    bookings = {}
+    line_items.each do |line_item|
+      supply_type = supply_type_for(line_item)
+      next unless supply_type
+
+      journal_entry = line_item.journal_entry
+      booking = bookings[[ journal_entry.id, supply_type ]] ||= {
+        journal_entry_id: journal_entry.id,
+        booking_date: journal_entry.booking_date,
+        voucher_number: journal_entry.voucher_number,
+        description: journal_entry.description,
+        vat_id: journal_entry.counterparty_vat_id,
+        supply_type: supply_type,
+        amount: 0.0
+      }
+      booking[:amount] += line_item.direction == "credit" ? line_item.amount.to_f : -line_item.amount.to_f
+    end
+
+    bookings.values.sort_by { |booking| [ booking[:booking_date], booking[:journal_entry_id] ] }
+  end
+
+  def supply_type_for(line_item)
+    supply_accounts[line_item.account.code] ||
+      supply_tax_keys[line_item.tax_key_code || line_item.account.tax_key_code]
+  end
+
+  def build_rows(bookings)
+    bookings.group_by { |booking| [ booking[:vat_id], booking[:supply_type] ] }.map do |(vat_id, supply_type), entries|
+      {
+        country_code: vat_id.first(2),
+        vat_number: vat_id[2..],
+        vat_id: vat_id,
+        supply_type: supply_type,
+        supply_type_label: SUPPLY_TYPE_LABELS[supply_type],
+        amount: entries.sum { |booking| booking[:amount] }.round(2),
+        entries_count: entries.size
+      }
+    end.sort_by { |row| [ row[:vat_id], row[:supply_type] ] }
+  end
+
+  def build_totals(rows)
+    totals = SUPPLY_TYPES.values.index_with { |supply_type| rows.select { |row| row[:supply_type] == supply_type }.sum { |row| row[:amount] }.round(2) }
+    { supplies: totals["L"], services: totals["S"], total: (totals["L"] + totals["S"]).round(2) }
+  end
+
+  def build_flagged_entries(bookings)
+    bookings.map do |booking|
+      booking.merge(
+        booking_date: booking[:booking_date].to_s,
+        amount: booking[:amount].round(2),
+        reason: flag_reason(booking[:vat_id])
+      )
+    end
+  end
+
+  def flag_reason(vat_id)
+    if vat_id.blank?
+      "Customer USt-IdNr. is missing"
+    elsif !EU_COUNTRY_CODES.include?(vat_id.first(2))
+      "#{vat_id} is not the USt-IdNr. of another EU member state"
+    end
+  end
+
+  # Account code => Art der Leistung
+  def supply_accounts
+    @supply_accounts ||= TaxFormFieldMap.ustva_accounts(TaxKey.chart_for(@company))[:bases]
+      .filter_map { |code, field_number| [ code, SUPPLY_TYPES[field_number] ] if SUPPLY_TYPES.key?(field_number) }
+      .to_h
+  end
+
+  # Tax key code => Art der Leistung
+  def supply_tax_keys
+    @supply_tax_keys ||= TaxKey.for_company(@company)
+      .filter_map { |tax_key| [ tax_key.code, SUPPLY_TYPES[tax_key.base_field] ] if SUPPLY_TYPES.key?(tax_key.base_field) }
+      .to_h
+  end
+
+  def determine_period_type
+    days = (@end_date - @start_date).to_i + 1
+
+    case days
+    when 28..31 then "monthly"
+    when 89..92 then "quarterly"
+    when 365..366 then "annual"
+    else "custom"
+    end
+  end
+
+  def failure(message)
+    Result.new(success?: false, data: nil, errors: [ message ])
+  end
+end
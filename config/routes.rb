@@ -23,6 +23,7 @@ Rails.application.routes.draw do
   # Reports
   namespace :reports do
     get "balance_sheet", to: "balance_sheets#index"
+    get "trial_balance", to: "trial_balances#index"
   end
 
   # Tax Reports
@@ -31,6 +32,10 @@ Rails.application.routes.draw do
       post :generate
       get :missing_reports
     end
+    member do
+      get :elster_xml
+      get :bzst_csv
+    end
   end
 
   # Fiscal Years
@@ -38,6 +43,9 @@ Rails.application.routes.draw do
     collection do
       get :import_form
       post :import_create
+      get :datev_import_form
+      post :datev_import_preview
+      post :datev_import_create
     end
     member do
       post :post_opening_balance
@@ -50,7 +58,7 @@ Rails.application.routes.draw do
   resources :opening_balances, only: [ :new, :create ]
 
   # Accounts API (for account search)
-  resources :accounts, only: [ :index, :show ] do
+  resources :accounts, only: [ :index, :show, :create, :update ] do
     collection do
       get :recent
     end
@@ -60,7 +68,22 @@ Rails.application.routes.draw do
   end
 
   # Journal Entries
-  resources :journal_entries, only: [ :index, :show, :create, :update, :destroy ]
+  resources :journal_entries, only: [ :index, :show, :create, :update, :destroy ] do
+    collection do
+      get :posting_preview
+      post :post_period
+      post :fast_entry
+    end
+    member do
+      post :reverse
+    end
+  end
+
+  # DATEV EXTF export
+  resource :datev_export, only: [] do
+    get :bookings
+    get :accounts
+  end
 
   # Documents
   resources :documents, only: [ :index, :create, :update, :destroy ]
@@ -70,9 +93,37 @@ Rails.application.routes.draw do
     member do
       post :import_preview
       post :import
+      post :import_camt_preview
+      post :import_camt
+      post :import_sample
+      post :apply_booking_rules
+      get :reconciliation
+    end
+    resources :import_profiles, only: [ :create, :update, :destroy ], controller: "bank_import_profiles"
+    resources :statement_balances, only: [ :create, :destroy ], controller: "bank_statement_balances" do
+      member do
+        post :reconcile
+      end
     end
   end
 
+  # Booking Rules (auto-booking of bank transactions)
+  resources :booking_rules, only: [ :index, :create, :update, :destroy ] do
+    collection do
+      get :from_bank_transaction
+    end
+  end
+
+  # Recurring journal entries (depreciation, accruals, rent, loan interest)
+  resources :recurring_entry_templates, only: [ :index, :create, :update, :destroy ] do
+    collection do
+      post :generate
+    end
+  end
+
+  # Voucher number ranges (Belegnummernkreise) and their gap report
+  resources :voucher_number_ranges, only: [ :index, :create, :update, :destroy ]
+
   get "inertia-example", to: "inertia_example#index"
   # Define your application routes per the DSL in https://guides.rubyonrails.org/routing.html
 
@@ -0,0 +1,54 @@
+#!/usr/bin/env ruby
+# frozen_string_literal: true
+
+# Generates skr04-bilanz-sections-mapping.json and skr04-guv-sections-mapping.json
+# Uses the section structure of the SKR03 mapping files and fills in the SKR04
+# account codes by the cid column of skr04-accounts.csv.
+#
+# Run from the project root: ruby contrib/generate_skr04_section_mappings.rb
+
+require "json"
+
+def codes_by_cid(csv_path)
+  result = Hash.new { |hash, key| hash[key] = [] }
+
+  File.readlines(csv_path, encoding: "UTF-8").each do |line|
+    next if line.start_with?("#") || line.strip.empty?
+
+    code, _flags, _range, cid, _rule, _description = line.strip.split(";", 6)
+    result[cid] << code unless cid.to_s.empty?
+  end
+
+  result
+end
+
+# Replaces the codes of each node with the SKR04 codes of its rsid
+def fill_codes(node, codes, used_rsids)
+  case node
+  when Hash
+    node.delete("skr03_classification")
+    if node.key?("rsid") && node["rsid"]
+      node["codes"] = codes.fetch(node["rsid"], [])
+      used_rsids << node["rsid"]
+    end
+    node.each_value { |value| fill_codes(value, codes, used_rsids) }
+  when Array
+    node.each { |value| fill_codes(value, codes, used_rsids) }
+  end
+end
+
+codes = codes_by_cid("contrib/skr04-accounts.csv")
+used_rsids = []
+
+{
+  "contrib/bilanz-sections-mapping.json" => "contrib/skr04-bilanz-sections-mapping.json",
+  "contrib/guv-sections-mapping.json" => "contrib/skr04-guv-sections-mapping.json"
+}.each do |source, target|
+  structure = JSON.parse(File.read(source, encoding: "UTF-8"))
+  fill_codes(structure, codes, used_rsids)
+  File.write(target, JSON.pretty_generate(structure) + "\n")
+  puts "Wrote #{target}"
+end
+
+unknown = codes.keys - used_rsids
+abort "Unknown cids in skr04-accounts.csv: #{unknown.join(', ')}" if unknown.any?
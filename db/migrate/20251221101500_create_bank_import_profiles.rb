@@ -0,0 +1,19 @@
+class CreateBankImportProfiles < ActiveRecord::Migration[8.1]
+  def change
+    create_table :bank_import_profiles do |t|
+      t.references :bank_account, null: false, foreign_key: true
+      t.string :name, null: false
+      t.integer :skip_lines, null: false, default: 0
+      t.boolean :has_header, null: false, default: true
+      t.string :delimiter, null: false, default: ";"
+      t.string :quote_char, null: false, default: "\""
+      t.string :date_format, null: false, default: "%d.%m.%Y"
+      t.string :decimal_separator, null: false, default: ","
+      t.string :sign_convention, null: false, default: "signed" # 'signed', 'inverted', 'split_columns', 'indicator'
+      t.jsonb :column_mapping, null: false, default: {}          # field name => column index
+      t.timestamps
+
+      t.index [ :bank_account_id, :name ], unique: true
+    end
+  end
+end
@@ -0,0 +1,27 @@
+class CreateBookingRules < ActiveRecord::Migration[8.1]
+  def change
+    create_table :booking_rules do |t|
+      t.references :company, null: false, foreign_key: true
+      t.string :name, null: false
+      t.integer :position, null: false, default: 0 # lower positions are tried first
+      t.boolean :active, null: false, default: true
+
+      # Match conditions (all given conditions must match)
+      t.string :counterparty_iban
+      t.string :counterparty_name
+      t.string :remittance_pattern # regular expression, case-insensitive
+      t.decimal :amount_min, precision: 13, scale: 2
+      t.decimal :amount_max, precision: 13, scale: 2
+      t.string :direction, null: false, default: "any" # 'any', 'inflow', 'outflow'
+
+      # Booking proposal
+      t.string :account_code, null: false
+      t.string :vat_mode, null: false, default: "none" # 'none', 'vat_19', 'vat_7', 'reverse_charge'
+      t.string :description_template
+
+      t.timestamps
+
+      t.index [ :company_id, :position ]
+    end
+  end
+end
@@ -0,0 +1,14 @@
+class CreateBankStatementBalances < ActiveRecord::Migration[8.1]
+  def change
+    create_table :bank_statement_balances do |t|
+      t.references :bank_account, null: false, foreign_key: true
+      t.date :balance_date, null: false
+      t.decimal :balance, precision: 13, scale: 2, null: false
+      t.string :source, null: false, default: "manual" # 'manual', 'camt', 'mt940'
+      t.string :statement_reference
+      t.timestamps
+
+      t.index [ :bank_account_id, :balance_date ], unique: true
+    end
+  end
+end
@@ -0,0 +1,6 @@
+class AddReversalOfToJournalEntries < ActiveRecord::Migration[8.1]
+  def change
+    # A Storno entry points to the posted entry it reverses; each entry can be reversed once
+    add_reference :journal_entries, :reversal_of, foreign_key: { to_table: :journal_entries }, index: { unique: true }
+  end
+end
@@ -0,0 +1,6 @@
+class AddLockedUntilToFiscalYears < ActiveRecord::Migration[8.1]
+  def change
+    # Festschreibung: entries up to this date are posted, new bookings are refused
+    add_column :fiscal_years, :locked_until, :date
+  end
+end
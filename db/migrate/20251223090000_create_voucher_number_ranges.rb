@@ -0,0 +1,20 @@
+class CreateVoucherNumberRanges < ActiveRecord::Migration[8.1]
+  def change
+    # Belegnummernkreise, e.g. "ER-{YYYY}-#####" for incoming invoices
+    create_table :voucher_number_ranges do |t|
+      t.references :company, null: false, foreign_key: true
+      t.string :name, null: false
+      t.string :pattern, null: false
+      t.string :default_for
+      t.timestamps
+    end
+    add_index :voucher_number_ranges, [ :company_id, :default_for ], unique: true, where: "default_for IS NOT NULL"
+
+    # The number is assigned when the entry is posted; the counter is gapless per range and fiscal year
+    add_reference :journal_entries, :voucher_number_range, foreign_key: true
+    add_column :journal_entries, :voucher_number, :string
+    add_column :journal_entries, :voucher_counter, :integer
+    add_index :journal_entries, [ :company_id, :voucher_number ]
+    add_index :journal_entries, [ :voucher_number_range_id, :fiscal_year_id, :voucher_counter ], unique: true, name: "index_journal_entries_on_voucher_range_year_counter"
+  end
+end
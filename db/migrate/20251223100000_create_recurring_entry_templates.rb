@@ -0,0 +1,23 @@
+class CreateRecurringEntryTemplates < ActiveRecord::Migration[8.1]
+  def change
+    # Recurring bookings like depreciation, accruals, rent or loan interest.
+    # lines: [{ account_code, direction, amount_type, amount, formula, description }]
+    create_table :recurring_entry_templates do |t|
+      t.references :company, null: false, foreign_key: true
+      t.string :name, null: false
+      t.string :description, null: false
+      t.string :frequency, null: false, default: "monthly"
+      t.integer :day_of_month, null: false, default: 1
+      t.date :start_date, null: false
+      t.date :end_date
+      t.boolean :active, null: false, default: true
+      t.jsonb :lines, null: false, default: []
+      t.timestamps
+    end
+
+    # Drafts generated from a template remember the scheduled date, so each date is generated once
+    add_reference :journal_entries, :recurring_entry_template, foreign_key: true
+    add_column :journal_entries, :recurring_date, :date
+    add_index :journal_entries, [ :recurring_entry_template_id, :recurring_date ], unique: true, name: "index_journal_entries_on_recurring_template_and_date"
+  end
+end
@@ -0,0 +1,58 @@
+class AddTaxKeyCodeToLineItems < ActiveRecord::Migration[8.1]
+  # SKR03 VAT accounts and their BU-Schlüssel as configured in TaxKey at the time of this migration
+  VAT_ACCOUNT_KEYS = { "1571" => "8", "1576" => "9", "1771" => "2", "1776" => "3", "1577" => "94", "1787" => "94" }.freeze
+  REVERSE_CHARGE_OUTPUT_ACCOUNT = "1787".freeze
+
+  def up
+    # BU-Schlüssel of the VAT split the line belongs to (net and VAT lines)
+    add_column :line_items, :tax_key_code, :string
+    add_index :line_items, :tax_key_code
+
+    backfill_vat_lines
+    backfill_net_lines
+  end
+
+  def down
+    remove_index :line_items, :tax_key_code
+    remove_column :line_items, :tax_key_code
+  end
+
+  private
+
+  def backfill_vat_lines
+    VAT_ACCOUNT_KEYS.each do |account_code, tax_key_code|
+      execute <<~SQL
+        UPDATE line_items SET tax_key_code = #{quote(tax_key_code)}
+        FROM accounts
+        WHERE accounts.id = line_items.account_id AND accounts.code = #{quote(account_code)}
+      SQL
+    end
+  end
+
+  # The net line is the non-bank line on the same side as the (input) VAT line,
+  # in entries with a single tax key
+  def backfill_net_lines
+    execute <<~SQL
+      UPDATE line_items AS net SET tax_key_code = vat.tax_key_code
+      FROM line_items AS vat, accounts AS vat_account, accounts AS net_account
+      WHERE vat.journal_entry_id = net.journal_entry_id
+        AND vat.id <> net.id
+        AND vat_account.id = vat.account_id
+        AND vat_account.code <> #{quote(REVERSE_CHARGE_OUTPUT_ACCOUNT)}
+        AND vat.tax_key_code IS NOT NULL
+        AND net.tax_key_code IS NULL
+        AND net.direction = vat.direction
+        AND net.bank_transaction_id IS NULL
+        AND net_account.id = net.account_id
+        AND net_account.code NOT BETWEEN '1200' AND '1299'
+        AND (
+          SELECT COUNT(DISTINCT keyed.tax_key_code) FROM line_items AS keyed
+          WHERE keyed.journal_entry_id = net.journal_entry_id AND keyed.tax_key_code IS NOT NULL
+        ) = 1
+    SQL
+  end
+
+  def quote(value)
+    connection.quote(value)
+  end
+end
@@ -0,0 +1,8 @@
+class AddCidAndTaxKeyCodeToAccounts < ActiveRecord::Migration[8.1]
+  def change
+    # Section chosen for the account; nil places it by its code (AccountMap)
+    add_column :accounts, :cid, :string
+    # Default BU-Schlüssel suggested when booking on the account
+    add_column :accounts, :tax_key_code, :string
+  end
+end
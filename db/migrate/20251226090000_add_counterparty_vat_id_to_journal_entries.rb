@@ -0,0 +1,6 @@
+class AddCounterpartyVatIdToJournalEntries < ActiveRecord::Migration[8.1]
+  def change
+    # USt-IdNr. of the customer, reported in the Zusammenfassende Meldung
+    add_column :journal_entries, :counterparty_vat_id, :string
+  end
+end
@@ -0,0 +1,6 @@
+class AddGewerbesteuerHebesatzToCompanies < ActiveRecord::Migration[8.1]
+  def change
+    # Municipal Hebesatz in percent, e.g. 400
+    add_column :companies, :gewerbesteuer_hebesatz, :integer
+  end
+end
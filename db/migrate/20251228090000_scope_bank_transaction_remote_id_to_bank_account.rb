@@ -0,0 +1,8 @@
+class ScopeBankTransactionRemoteIdToBankAccount < ActiveRecord::Migration[8.1]
+  def change
+    # Remote transaction ids are only unique per bank account
+    remove_index :bank_transactions, :remote_transaction_id, name: "index_bank_transactions_on_remote_id", unique: true
+    add_index :bank_transactions, [ :bank_account_id, :remote_transaction_id ], unique: true,
+      name: "index_bank_transactions_on_bank_account_and_remote_id"
+  end
+end
@@ -10,7 +10,7 @@
 #
 # It's strongly recommended that you check this file into your version control system.
 
-ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
+ActiveRecord::Schema[8.1].define(version: 2025_12_28_090000) do
   # These are extensions that must be enabled in order to support this database
   enable_extension "pg_catalog.plpgsql"
 
@@ -48,12 +48,14 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
 
   create_table "accounts", force: :cascade do |t|
     t.string "account_type", null: false
+    t.string "cid"
     t.string "code", null: false
     t.bigint "company_id", null: false
     t.datetime "created_at", null: false
     t.boolean "is_system_account", default: false
     t.string "name", null: false
     t.string "presentation_rule"
+    t.string "tax_key_code"
     t.decimal "tax_rate", precision: 5, scale: 2, default: "0.0"
     t.datetime "updated_at", null: false
     t.index ["company_id", "code"], name: "index_accounts_on_company_id_and_code", unique: true
@@ -116,6 +118,35 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
     t.index ["ledger_account_id"], name: "index_bank_accounts_on_ledger_account_id"
   end
 
+  create_table "bank_import_profiles", force: :cascade do |t|
+    t.bigint "bank_account_id", null: false
+    t.jsonb "column_mapping", default: {}, null: false
+    t.datetime "created_at", null: false
+    t.string "date_format", default: "%d.%m.%Y", null: false
+    t.string "decimal_separator", default: ",", null: false
+    t.string "delimiter", default: ";", null: false
+    t.boolean "has_header", default: true, null: false
+    t.string "name", null: false
+    t.string "quote_char", default: "\"", null: false
+    t.string "sign_convention", default: "signed", null: false
+    t.integer "skip_lines", default: 0, null: false
+    t.datetime "updated_at", null: false
+    t.index ["bank_account_id", "name"], name: "index_bank_import_profiles_on_bank_account_id_and_name", unique: true
+    t.index ["bank_account_id"], name: "index_bank_import_profiles_on_bank_account_id"
+  end
+
+  create_table "bank_statement_balances", force: :cascade do |t|
+    t.decimal "balance", precision: 13, scale: 2, null: false
+    t.date "balance_date", null: false
+    t.bigint "bank_account_id", null: false
+    t.datetime "created_at", null: false
+    t.string "source", default: "manual", null: false
+    t.string "statement_reference"
+    t.datetime "updated_at", null: false
+    t.index ["bank_account_id", "balance_date"], name: "index_bank_statement_balances_on_bank_account_id_and_balance_date", unique: true
+    t.index ["bank_account_id"], name: "index_bank_statement_balances_on_bank_account_id"
+  end
+
   create_table "bank_transactions", force: :cascade do |t|
     t.decimal "amount", precision: 13, scale: 2, null: false
     t.bigint "bank_account_id", null: false
@@ -130,8 +161,28 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
     t.string "status", default: "pending"
     t.datetime "updated_at", null: false
     t.date "value_date"
+    t.index ["bank_account_id", "remote_transaction_id"], name: "index_bank_transactions_on_bank_account_and_remote_id", unique: true
     t.index ["bank_account_id"], name: "index_bank_transactions_on_bank_account_id"
-    t.index ["remote_transaction_id"], name: "index_bank_transactions_on_remote_id", unique: true
+  end
+
+  create_table "booking_rules", force: :cascade do |t|
+    t.string "account_code", null: false
+    t.boolean "active", default: true, null: false
+    t.decimal "amount_max", precision: 13, scale: 2
+    t.decimal "amount_min", precision: 13, scale: 2
+    t.bigint "company_id", null: false
+    t.string "counterparty_iban"
+    t.string "counterparty_name"
+    t.datetime "created_at", null: false
+    t.string "description_template"
+    t.string "direction", default: "any", null: false
+    t.string "name", null: false
+    t.integer "position", default: 0, null: false
+    t.string "remittance_pattern"
+    t.datetime "updated_at", null: false
+    t.string "vat_mode", default: "none", null: false
+    t.index ["company_id", "position"], name: "index_booking_rules_on_company_id_and_position"
+    t.index ["company_id"], name: "index_booking_rules_on_company_id"
   end
 
   create_table "chart_of_accounts", force: :cascade do |t|
@@ -149,6 +200,7 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
     t.bigint "chart_of_accounts_id"
     t.string "commercial_register_number"
     t.datetime "created_at", null: false
+    t.integer "gewerbesteuer_hebesatz"
     t.string "name", null: false
     t.string "tax_number"
     t.datetime "updated_at", null: false
@@ -190,6 +242,7 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
     t.bigint "company_id", null: false
     t.datetime "created_at", null: false
     t.date "end_date", null: false
+    t.date "locked_until"
     t.datetime "opening_balance_posted_at"
     t.date "start_date", null: false
     t.datetime "updated_at", null: false
@@ -203,18 +256,31 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
   create_table "journal_entries", force: :cascade do |t|
     t.date "booking_date", null: false
     t.bigint "company_id", null: false
+    t.string "counterparty_vat_id"
     t.datetime "created_at", null: false
     t.string "description", null: false
     t.bigint "document_id"
     t.string "entry_type", default: "normal", null: false
     t.bigint "fiscal_year_id", null: false
     t.datetime "posted_at"
+    t.date "recurring_date"
+    t.bigint "recurring_entry_template_id"
+    t.bigint "reversal_of_id"
     t.integer "sequence"
     t.datetime "updated_at", null: false
+    t.integer "voucher_counter"
+    t.string "voucher_number"
+    t.bigint "voucher_number_range_id"
+    t.index ["company_id", "voucher_number"], name: "index_journal_entries_on_company_id_and_voucher_number"
     t.index ["company_id"], name: "index_journal_entries_on_company_id"
     t.index ["document_id"], name: "index_journal_entries_on_document_id"
     t.index ["fiscal_year_id", "booking_date", "sequence"], name: "idx_on_fiscal_year_id_booking_date_sequence_d969771c87"
     t.index ["fiscal_year_id"], name: "index_journal_entries_on_fiscal_year_id"
+    t.index ["recurring_entry_template_id", "recurring_date"], name: "index_journal_entries_on_recurring_template_and_date", unique: true
+    t.index ["recurring_entry_template_id"], name: "index_journal_entries_on_recurring_entry_template_id"
+    t.index ["reversal_of_id"], name: "index_journal_entries_on_reversal_of_id", unique: true
+    t.index ["voucher_number_range_id", "fiscal_year_id", "voucher_counter"], name: "index_journal_entries_on_voucher_range_year_counter", unique: true
+    t.index ["voucher_number_range_id"], name: "index_journal_entries_on_voucher_number_range_id"
   end
 
   create_table "line_items", force: :cascade do |t|
@@ -225,10 +291,27 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
     t.text "description"
     t.string "direction", null: false
     t.bigint "journal_entry_id", null: false
+    t.string "tax_key_code"
     t.datetime "updated_at", null: false
     t.index ["account_id"], name: "index_line_items_on_account_id"
     t.index ["bank_transaction_id"], name: "index_line_items_on_bank_transaction_id"
     t.index ["journal_entry_id"], name: "index_line_items_on_journal_entry_id"
+    t.index ["tax_key_code"], name: "index_line_items_on_tax_key_code"
+  end
+
+  create_table "recurring_entry_templates", force: :cascade do |t|
+    t.boolean "active", default: true, null: false
+    t.bigint "company_id", null: false
+    t.datetime "created_at", null: false
+    t.integer "day_of_month", default: 1, null: false
+    t.string "description", null: false
+    t.date "end_date"
+    t.string "frequency", default: "monthly", null: false
+    t.jsonb "lines", default: [], null: false
+    t.string "name", null: false
+    t.date "start_date", null: false
+    t.datetime "updated_at", null: false
+    t.index ["company_id"], name: "index_recurring_entry_templates_on_company_id"
   end
 
   create_table "tax_reports", force: :cascade do |t|
@@ -267,6 +350,17 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
     t.index ["reset_password_token"], name: "index_users_on_reset_password_token", unique: true
   end
 
+  create_table "voucher_number_ranges", force: :cascade do |t|
+    t.bigint "company_id", null: false
+    t.datetime "created_at", null: false
+    t.string "default_for"
+    t.string "name", null: false
+    t.string "pattern", null: false
+    t.datetime "updated_at", null: false
+    t.index ["company_id", "default_for"], name: "index_voucher_number_ranges_on_company_id_and_default_for", unique: true, where: "(default_for IS NOT NULL)"
+    t.index ["company_id"], name: "index_voucher_number_ranges_on_company_id"
+  end
+
   add_foreign_key "account_templates", "chart_of_accounts", column: "chart_of_accounts_id"
   add_foreign_key "account_usages", "accounts"
   add_foreign_key "account_usages", "companies"
@@ -276,7 +370,10 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
   add_foreign_key "balance_sheets", "fiscal_years"
   add_foreign_key "bank_accounts", "accounts", column: "ledger_account_id"
   add_foreign_key "bank_accounts", "companies"
+  add_foreign_key "bank_import_profiles", "bank_accounts"
+  add_foreign_key "bank_statement_balances", "bank_accounts"
   add_foreign_key "bank_transactions", "bank_accounts"
+  add_foreign_key "booking_rules", "companies"
   add_foreign_key "companies", "chart_of_accounts", column: "chart_of_accounts_id"
   add_foreign_key "company_memberships", "companies"
   add_foreign_key "company_memberships", "users"
@@ -285,9 +382,14 @@ ActiveRecord::Schema[8.1].define(version: 2025_12_20_235805) do
   add_foreign_key "journal_entries", "companies"
   add_foreign_key "journal_entries", "documents"
   add_foreign_key "journal_entries", "fiscal_years"
+  add_foreign_key "journal_entries", "journal_entries", column: "reversal_of_id"
+  add_foreign_key "journal_entries", "recurring_entry_templates"
+  add_foreign_key "journal_entries", "voucher_number_ranges"
   add_foreign_key "line_items", "accounts"
   add_foreign_key "line_items", "bank_transactions"
   add_foreign_key "line_items", "journal_entries"
+  add_foreign_key "recurring_entry_templates", "companies"
   add_foreign_key "tax_reports", "companies"
   add_foreign_key "tax_reports", "fiscal_years"
+  add_foreign_key "voucher_number_ranges", "companies"
 end
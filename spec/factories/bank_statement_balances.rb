@@ -0,0 +1,8 @@
+FactoryBot.define do
+  factory :bank_statement_balance do
+    bank_account
+    balance_date { Date.current }
+    balance { 1000.00 }
+    source { "manual" }
+  end
+end
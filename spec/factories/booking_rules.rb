@@ -0,0 +1,11 @@
+FactoryBot.define do
+  factory :booking_rule do
+    company
+    name { "Office rent" }
+    counterparty_iban { "DE89370400440532013000" }
+    direction { "any" }
+    account_code { "4210" }
+    vat_mode { "none" }
+    active { true }
+  end
+end
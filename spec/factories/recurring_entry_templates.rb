@@ -0,0 +1,17 @@
+FactoryBot.define do
+  factory :recurring_entry_template do
+    company
+    name { "Office rent" }
+    description { "Miete {month}" }
+    frequency { "monthly" }
+    day_of_month { 1 }
+    start_date { Date.new(2026, 1, 1) }
+    active { true }
+    lines do
+      [
+        { "account_code" => "4210", "direction" => "debit", "amount_type" => "fixed", "amount" => 1200 },
+        { "account_code" => "1200", "direction" => "credit", "amount_type" => "fixed", "amount" => 1200 }
+      ]
+    end
+  end
+end
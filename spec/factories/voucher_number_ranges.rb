@@ -0,0 +1,8 @@
+FactoryBot.define do
+  factory :voucher_number_range do
+    company
+    name { "Incoming invoices" }
+    pattern { "ER-{YYYY}-#####" }
+    default_for { nil }
+  end
+end
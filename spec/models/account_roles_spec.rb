@@ -0,0 +1,48 @@
+require 'rails_helper'
+
+RSpec.describe AccountRoles do
+  describe '.for_company' do
+    it 'falls back to SKR03 for companies without a chart of accounts' do
+      roles = described_class.for_company(create(:company))
+
+      expect(roles.default_bank_account).to eq('1200')
+      expect(roles.profit_carryforward).to eq('0860')
+    end
+
+    it 'uses the SKR04 accounts for SKR04 companies' do
+      chart = ChartOfAccounts.find_or_create_by!(name: 'SKR04', country_code: 'DE')
+      roles = described_class.for_company(create(:company, chart_of_accounts: chart))
+
+      expect(roles.default_bank_account).to eq('1800')
+      expect(roles.profit_carryforward).to eq('2970')
+      expect(roles.loss_carryforward?('2978')).to be true
+    end
+  end
+
+  describe '#role_for' do
+    let(:roles) { described_class.for_chart('SKR04') }
+
+    it 'marks the bank accounts of the chart' do
+      expect(roles.role_for('1800')).to eq('bank')
+      expect(roles.role_for('1200')).to be_nil
+    end
+
+    it 'ignores personal accounts in the bank range' do
+      expect(roles.role_for('18000')).to be_nil
+    end
+  end
+
+  describe '#tax_key_account' do
+    let(:roles) { described_class.for_chart('SKR03') }
+
+    it 'applies the key to the Gegenkonto' do
+      expect(roles.tax_key_account('1200', '8400')).to eq('8400')
+      expect(roles.tax_key_account('10000', '8400')).to eq('8400')
+    end
+
+    it 'applies the key to Konto when the Gegenkonto is a bank or personal account' do
+      expect(roles.tax_key_account('4930', '1200')).to eq('4930')
+      expect(roles.tax_key_account('4930', '70000')).to eq('4930')
+    end
+  end
+end
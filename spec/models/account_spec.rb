@@ -0,0 +1,75 @@
+require 'rails_helper'
+
+RSpec.describe Account do
+  let(:company) { create(:company) }
+
+  describe 'account form checks' do
+    it 'accepts a custom code in the Sachkonten range with a section of matching type' do
+      account = build(:account, company: company, code: '4986', name: 'Software', account_type: 'expense',
+        cid: 'guv.sonstige_betriebliche_aufwendungen')
+
+      expect(account.save(context: :account_form)).to be true
+    end
+
+    it 'rejects codes outside the custom account ranges' do
+      account = build(:account, company: company, code: '9123', name: 'Statistik', account_type: 'expense',
+        cid: 'guv.sonstige_betriebliche_aufwendungen')
+
+      expect(account.save(context: :account_form)).to be false
+      expect(account.errors[:code].first).to include('Sachkonten 0001-8999')
+    end
+
+    it 'requires a section for codes the chart does not map' do
+      account = build(:account, company: company, code: '4986', name: 'Software', account_type: 'expense')
+
+      expect(account.save(context: :account_form)).to be false
+      expect(account.errors[:cid]).to be_present
+    end
+
+    it 'requires the account type of the section' do
+      account = build(:account, company: company, code: '4986', name: 'Software', account_type: 'revenue',
+        cid: 'guv.sonstige_betriebliche_aufwendungen')
+
+      expect(account.save(context: :account_form)).to be false
+      expect(account.errors[:account_type].first).to include('expense')
+    end
+
+    it 'skips the checks outside the form' do
+      account = build(:account, company: company, code: '9000', name: 'Saldenvorträge', account_type: 'equity')
+
+      expect(account.save).to be true
+    end
+  end
+
+  describe 'sections of reported accounts' do
+    let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+    let(:account) { create(:account, :expense, company: company, code: '4930') }
+    let(:bank) { create(:account, :asset, company: company) }
+
+    before do
+      entry = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 6, 1))
+      create(:line_item, journal_entry: entry, account: account, amount: 50, direction: 'debit')
+      create(:line_item, journal_entry: entry, account: bank, amount: 50, direction: 'credit')
+      fiscal_year.update!(closed: true)
+    end
+
+    it 'cannot be changed once a closed year was reported' do
+      account.cid = 'guv.sonstige_steuern'
+
+      expect(account.save(context: :account_form)).to be false
+      expect(account.errors[:base].first).to include('closed fiscal year')
+    end
+
+    it 'keeps the name and default tax key editable' do
+      account.assign_attributes(name: 'Bürobedarf', tax_key_code: '9', tax_rate: 19)
+
+      expect(account.save(context: :account_form)).to be true
+    end
+  end
+
+  it 'rejects unknown default tax keys' do
+    account = build(:account, company: company, tax_key_code: '77')
+
+    expect(account).not_to be_valid
+  end
+end
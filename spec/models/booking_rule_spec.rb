@@ -0,0 +1,71 @@
+require 'rails_helper'
+
+RSpec.describe BookingRule, type: :model do
+  let(:company) { create(:company) }
+  let(:bank_transaction) do
+    build(:bank_transaction,
+      booking_date: Date.new(2025, 3, 3),
+      amount: -1200.00,
+      counterparty_name: 'Immobilien Müller GmbH',
+      counterparty_iban: 'DE89370400440532013000',
+      remittance_information: 'Miete Maerz 2025 Buero')
+  end
+
+  def build_rule(**attributes)
+    build(:booking_rule, company: company, **attributes)
+  end
+
+  describe 'validations' do
+    it 'requires at least one match condition' do
+      rule = build_rule(counterparty_iban: nil)
+      expect(rule).not_to be_valid
+      expect(rule.errors[:base]).to be_present
+    end
+
+    it 'rejects invalid regular expressions' do
+      expect(build_rule(remittance_pattern: 'Miete (')).not_to be_valid
+    end
+
+    it 'rejects a minimum amount above the maximum' do
+      expect(build_rule(amount_min: 100, amount_max: 50)).not_to be_valid
+    end
+  end
+
+  describe '#matches?' do
+    it 'matches the IBAN ignoring spaces and case' do
+      expect(build_rule(counterparty_iban: 'de89 3704 0044 0532 0130 00').matches?(bank_transaction)).to be true
+    end
+
+    it 'requires all given conditions to match' do
+      rule = build_rule(remittance_pattern: 'miete\s+\w+ \d{4}', amount_min: 1000, amount_max: 1500, direction: 'outflow')
+      expect(rule.matches?(bank_transaction)).to be true
+
+      rule.direction = 'inflow'
+      expect(rule.matches?(bank_transaction)).to be false
+    end
+
+    it 'does not match when the remittance pattern times out' do
+      bank_transaction.remittance_information = "#{'a' * 40}!"
+      rule = build_rule(remittance_pattern: '^(a+)+\\1$')
+
+      expect(rule.matches?(bank_transaction)).to be false
+    end
+
+    it 'matches the counterparty name as substring' do
+      rule = build_rule(counterparty_iban: nil, counterparty_name: 'immobilien müller')
+      expect(rule.matches?(bank_transaction)).to be true
+    end
+  end
+
+  describe '#journal_entry_params' do
+    it 'fills the description template and sets VAT parameters' do
+      rule = build_rule(vat_mode: 'vat_19', description_template: 'Miete {month} {counterparty}')
+
+      params = rule.journal_entry_params(bank_transaction)
+      expect(params[:description]).to eq('Miete 03/2025 Immobilien Müller GmbH')
+      expect(params[:vat_split]).to be true
+      expect(params[:vat_rate]).to eq(19)
+      expect(params[:account_code]).to eq(rule.account_code)
+    end
+  end
+end
@@ -0,0 +1,29 @@
+require 'rails_helper'
+
+RSpec.describe ChartOfAccounts do
+  describe 'account templates in contrib/' do
+    def template_codes(chart)
+      File.readlines(Rails.root.join("contrib", "#{chart.downcase}-accounts.csv"), encoding: "UTF-8")
+        .reject { |line| line.start_with?("#") || line.strip.empty? }
+        .map { |line| line.split(";", 2).first }
+    end
+
+    # Accounts the configuration per chart books on or reports
+    def referenced_codes(chart)
+      roles = AccountRoles.for_chart(chart)
+      ustva_accounts = TaxFormFieldMap.ustva_accounts(chart)
+
+      TaxKey.vat_account_codes(chart: chart) +
+        ustva_accounts[:bases].keys + ustva_accounts[:taxes].keys +
+        GewstService::PROVISION_ACCOUNTS.fetch(chart).values +
+        [ roles.default_bank_account, roles.profit_carryforward, roles.carryforward_transfer ] + roles.loss_carryforwards +
+        AccountingConstants::CLOSING_ACCOUNTS.values
+    end
+
+    ChartOfAccounts::SUPPORTED_NAMES.each do |chart|
+      it "has a #{chart} template for every account referenced by the #{chart} configuration" do
+        expect(referenced_codes(chart).uniq - template_codes(chart)).to be_empty
+      end
+    end
+  end
+end
@@ -11,6 +11,11 @@ RSpec.describe Company, type: :model do
       company = build(:company, name: nil)
       expect(company).not_to be_valid
     end
+
+    it "requires a Gewerbesteuer-Hebesatz of at least 200 %" do
+      expect(build(:company, gewerbesteuer_hebesatz: 199)).not_to be_valid
+      expect(build(:company, gewerbesteuer_hebesatz: 200)).to be_valid
+    end
   end
 
   describe "associations" do
@@ -19,6 +24,7 @@ RSpec.describe Company, type: :model do
     it { should have_many(:fiscal_years).dependent(:destroy) }
     it { should have_many(:accounts).dependent(:destroy) }
     it { should have_many(:bank_accounts).dependent(:destroy) }
+    it { should have_many(:booking_rules).dependent(:destroy) }
     it { should have_many(:documents).dependent(:destroy) }
     it { should have_many(:journal_entries).dependent(:destroy) }
     it { should have_many(:tax_reports).dependent(:destroy) }
@@ -0,0 +1,47 @@
+require 'rails_helper'
+
+RSpec.describe RecurringEntryTemplate, type: :model do
+  let(:company) { create(:company) }
+
+  describe '#occurrences_until' do
+    it 'falls on the last day of shorter months' do
+      template = build(:recurring_entry_template, day_of_month: 31, start_date: Date.new(2026, 1, 15))
+
+      expect(template.occurrences_until(Date.new(2026, 3, 31))).to eq(
+        [ Date.new(2026, 1, 31), Date.new(2026, 2, 28), Date.new(2026, 3, 31) ]
+      )
+    end
+
+    it 'repeats quarterly from the start month and stops at the end date' do
+      template = build(:recurring_entry_template, frequency: 'quarterly', day_of_month: 15,
+        start_date: Date.new(2026, 2, 1), end_date: Date.new(2026, 9, 30))
+
+      expect(template.occurrences_until(Date.new(2027, 6, 30))).to eq(
+        [ Date.new(2026, 2, 15), Date.new(2026, 5, 15), Date.new(2026, 8, 15) ]
+      )
+    end
+  end
+
+  it 'fills in the description placeholders' do
+    template = build(:recurring_entry_template, description: 'AfA {quarter} ({month})')
+    expect(template.description_for(Date.new(2026, 5, 31))).to eq('AfA Q2/2026 (05/2026)')
+  end
+
+  describe 'validations' do
+    it 'requires balanced fixed amounts' do
+      template = build(:recurring_entry_template, company: company)
+      template.lines[1]['amount'] = 1000
+
+      expect(template).not_to be_valid
+      expect(template.errors[:lines]).to include('debits must equal credits')
+    end
+
+    it 'checks the formula syntax' do
+      template = build(:recurring_entry_template, company: company)
+      template.lines[0].merge!('amount_type' => 'formula', 'formula' => 'balance(0650) *')
+
+      expect(template).not_to be_valid
+      expect(template.errors[:lines].first).to start_with('1:')
+    end
+  end
+end
@@ -0,0 +1,71 @@
+require 'rails_helper'
+
+RSpec.describe TaxKey do
+  describe '.find' do
+    it 'returns the key of the chart by code' do
+      tax_key = described_class.find('9')
+
+      expect(tax_key).to have_attributes(kind: :input, rate: 19, vat_account_code: '1576', tax_field: 66)
+      expect(tax_key.label).to eq('9 – Vorsteuer 19%')
+    end
+
+    it 'returns nil for an unknown code' do
+      expect(described_class.find('77')).to be_nil
+    end
+  end
+
+  describe '.for_company' do
+    it 'falls back to SKR03 for companies without a chart of accounts' do
+      company = create(:company)
+
+      expect(described_class.for_company(company)).to eq(described_class.all(chart: 'SKR03'))
+    end
+
+    it 'uses the SKR04 VAT accounts for SKR04 companies' do
+      chart = ChartOfAccounts.find_or_create_by!(name: 'SKR04', country_code: 'DE')
+      company = create(:company, chart_of_accounts: chart)
+
+      tax_keys = described_class.for_company(company).index_by(&:code)
+      expect(tax_keys['3'].vat_account_code).to eq('3806')
+      expect(tax_keys['9'].vat_account_code).to eq('1406')
+      expect(tax_keys['94'].vat_account_codes).to eq([ '1407', '3837' ])
+      expect(tax_keys['19'].vat_account_codes).to eq([ '1404', '3804' ])
+    end
+  end
+
+  describe '.for_vat_account' do
+    it 'finds reverse charge keys by either VAT account' do
+      expect(described_class.for_vat_account('1577').code).to eq('94')
+      expect(described_class.for_vat_account('1787').code).to eq('94')
+    end
+  end
+
+  describe '#vat_account_codes_for_field' do
+    it 'reports the output VAT of a reverse charge key under its tax field and the input VAT under its input tax field' do
+      tax_key = described_class.find('94')
+
+      expect(tax_key.vat_account_codes_for_field(tax_key.tax_field)).to eq([ '1787' ])
+      expect(tax_key.vat_account_codes_for_field(tax_key.input_tax_field)).to eq([ '1577' ])
+    end
+  end
+
+  describe 'line items' do
+    let(:company) { create(:company) }
+    let(:fiscal_year) { create(:fiscal_year, company: company, year: 2026) }
+    let(:entry) { create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2026, 3, 1)) }
+    let(:expense) { create(:account, :expense, company: company, code: '4930') }
+
+    it 'accept known tax keys' do
+      line_item = build(:line_item, journal_entry: entry, account: expense, tax_key_code: '9')
+
+      expect(line_item).to be_valid
+      expect(line_item.tax_key.rate).to eq(19)
+    end
+
+    it 'reject unknown tax keys' do
+      line_item = build(:line_item, journal_entry: entry, account: expense, tax_key_code: '77')
+
+      expect(line_item).not_to be_valid
+    end
+  end
+end
@@ -0,0 +1,74 @@
+require 'rails_helper'
+
+RSpec.describe VoucherNumberRange, type: :model do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2026) }
+  let(:expense) { create(:account, :expense, company: company, code: '4930') }
+  let(:bank) { create(:account, company: company, code: '1200') }
+
+  def draft_entry(**attributes)
+    entry = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2026, 2, 1), **attributes)
+    create(:line_item, journal_entry: entry, account: expense, amount: 10, direction: 'debit')
+    create(:line_item, journal_entry: entry, account: bank, amount: 10, direction: 'credit')
+    entry
+  end
+
+  describe '#format_number' do
+    it 'fills in the fiscal year and the padded counter' do
+      range = build(:voucher_number_range, pattern: 'ER-{YYYY}-#####')
+      expect(range.format_number(42, fiscal_year)).to eq('ER-2026-00042')
+    end
+
+    it 'appends the counter when the pattern has no # block' do
+      range = build(:voucher_number_range, pattern: 'AR-')
+      expect(range.format_number(7, fiscal_year)).to eq('AR-7')
+    end
+
+    it 'rejects patterns with more than one # block' do
+      expect(build(:voucher_number_range, company: company, pattern: 'ER-##-###')).not_to be_valid
+    end
+  end
+
+  describe 'assignment on posting' do
+    let!(:range) { create(:voucher_number_range, company: company, default_for: 'manual') }
+
+    it 'numbers posted entries consecutively' do
+      first = draft_entry
+      second = draft_entry
+      second.post!
+      first.post!
+
+      expect(second.voucher_number).to eq('ER-2026-00001')
+      expect(first.voucher_number).to eq('ER-2026-00002')
+    end
+
+    it 'leaves drafts without a number' do
+      expect(draft_entry.voucher_number).to be_nil
+    end
+
+    it 'uses the range chosen on the entry' do
+      outgoing = create(:voucher_number_range, company: company, name: 'Outgoing invoices', pattern: 'AR-{YYYY}-###')
+      entry = draft_entry(voucher_number_range: outgoing)
+      entry.post!
+
+      expect(entry.voucher_number).to eq('AR-2026-001')
+    end
+
+    it 'keeps an existing voucher number' do
+      entry = draft_entry(voucher_number: 'B-17')
+      entry.post!
+
+      expect(entry.voucher_number).to eq('B-17')
+      expect(entry.voucher_counter).to be_nil
+    end
+
+    it 'restarts the counter in every fiscal year' do
+      draft_entry.post!
+      next_year = create(:fiscal_year, company: company, year: 2027)
+      entry = create(:journal_entry, company: company, fiscal_year: next_year, booking_date: Date.new(2027, 1, 5))
+      entry.post!
+
+      expect(entry.voucher_number).to eq('ER-2027-00001')
+    end
+  end
+end
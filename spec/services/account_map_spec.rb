@@ -102,6 +102,27 @@ RSpec.describe AccountMap do
         AccountMap.find_accounts(account_balances, :unknown_section)
       }.to raise_error(ArgumentError, /Unknown GuV section/)
     end
+
+    it "places accounts with an assigned section by their cid" do
+      assigned = account_balances + [ { code: "8001", name: "Custom", cid: "guv.sonstige_betriebliche_ertraege", balance: 50.0 } ]
+
+      expect(AccountMap.find_accounts(assigned, :sonstige_betriebliche_ertraege).map { |a| a[:code] }).to eq([ "8001" ])
+      expect(AccountMap.find_accounts(assigned, :umsatzerloese).map { |a| a[:code] }).not_to include("8001")
+    end
+  end
+
+  describe ".section_for_cid" do
+    it "returns balance sheet positions with the account type of their side" do
+      section = AccountMap.section_for_cid("b.passiva.verbindlichkeiten.verbindlichkeiten_aus_lieferungen_und_leistungen")
+
+      expect(section[:account_type]).to eq("liability")
+      expect(section[:name]).to start_with("Verbindlichkeiten › ")
+    end
+
+    it "returns GuV sections that have accounts in the chart" do
+      expect(AccountMap.section_for_cid("guv.umsatzerloese")[:account_type]).to eq("revenue")
+      expect(AccountMap.section_for_cid("guv.bestandsveraenderungen")).to be_nil
+    end
   end
 
   describe ".load_guv_structure" do
@@ -257,4 +278,24 @@ RSpec.describe AccountMap do
       expect(result.flattened_accounts).to be_empty
     end
   end
+  describe ".for_chart" do
+    let(:skr04) { AccountMap.for_chart("SKR04") }
+
+    it "maps SKR04 accounts to their balance sheet categories" do
+      expect(skr04.cid_for_code("1800")).to eq("b.aktiva.umlaufvermoegen.kassenbestand_bundesbankguthaben_guthaben_bei_kreditinstitut")
+      expect(skr04.account_type_for_code("2900")).to eq("equity")
+      expect(skr04.account_type_for_code("3300")).to eq("liability")
+    end
+
+    it "maps SKR04 accounts to their GuV sections" do
+      expect(skr04.account_codes(:umsatzerloese)).to include("4400")
+      expect(skr04.account_codes(:abschreibungen_anlagevermoegen)).to include("6220")
+      expect(skr04.account_type_for_code("6815")).to eq("expense")
+    end
+
+    it "keeps SKR03 as the default map" do
+      expect(AccountMap.for_chart("unknown")).to be(AccountMap.default)
+      expect(AccountMap.account_type_for_code("8400")).to eq("revenue")
+    end
+  end
 end
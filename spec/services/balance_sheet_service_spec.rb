@@ -74,6 +74,120 @@ RSpec.describe BalanceSheetService do
       end
     end
 
+    context 'with an SKR04 company' do
+      let(:chart_of_accounts) do
+        ChartOfAccounts.find_or_create_by!(name: "SKR04", country_code: "DE") do |chart|
+          chart.description = "DATEV-Kontenrahmen SKR04 (Abschlussgliederungsprinzip)"
+        end
+      end
+      let(:company) { create(:company, chart_of_accounts: chart_of_accounts) }
+
+      before do
+        bank = create(:account, company: company, code: "1800", name: "Bank", account_type: "asset")
+        car = create(:account, company: company, code: "0520", name: "Pkw", account_type: "asset")
+        capital = create(:account, company: company, code: "2900", name: "Gezeichnetes Kapital", account_type: "equity")
+        payables = create(:account, company: company, code: "3300", name: "Verbindlichkeiten aus Lieferungen und Leistungen", account_type: "liability")
+
+        je = create(:journal_entry, company: company, fiscal_year: fiscal_year)
+        create(:line_item, journal_entry: je, account: bank, amount: 25000, direction: "debit")
+        create(:line_item, journal_entry: je, account: car, amount: 20000, direction: "debit")
+        create(:line_item, journal_entry: je, account: capital, amount: 25000, direction: "credit")
+        create(:line_item, journal_entry: je, account: payables, amount: 20000, direction: "credit")
+        je.post!
+      end
+
+      it 'places the accounts by the SKR04 mapping' do
+        result = BalanceSheetService.new(company: company, fiscal_year: fiscal_year).call
+
+        expect(result.success?).to be true
+        aktiva = result.data[:aktiva][:sections]
+        passiva = result.data[:passiva][:sections]
+
+        expect(extract_all_codes_from_section(aktiva[:anlagevermoegen])).to eq([ "0520" ])
+        expect(extract_all_codes_from_section(aktiva[:umlaufvermoegen])).to eq([ "1800" ])
+        expect(extract_all_codes_from_section(passiva[:eigenkapital])).to include("2900")
+        expect(extract_all_codes_from_section(passiva[:verbindlichkeiten])).to eq([ "3300" ])
+      end
+    end
+
+    context 'with an account assigned to a section' do
+      before do
+        bank = create(:account, company: company, code: "1200", name: "Bank", account_type: "asset")
+        loan = create(:account, company: company, code: "0631", name: "Darlehen Gesellschafter", account_type: "liability",
+          cid: "b.passiva.verbindlichkeiten.sonstige_verbindlichkeiten_davon_aus_steuern_davon_im_rahmen")
+
+        je = create(:journal_entry, company: company, fiscal_year: fiscal_year)
+        create(:line_item, journal_entry: je, account: bank, amount: 5000, direction: "debit")
+        create(:line_item, journal_entry: je, account: loan, amount: 5000, direction: "credit")
+        je.post!
+      end
+
+      it 'places the account in its section instead of by code' do
+        result = BalanceSheetService.new(company: company, fiscal_year: fiscal_year).call
+
+        verbindlichkeiten = result.data[:passiva][:sections][:verbindlichkeiten]
+        sonstige = verbindlichkeiten[:children].find { |child| child[:section_name].start_with?("sonstige Verbindlichkeiten") }
+        expect(sonstige[:accounts].map { |a| a[:code] }).to eq([ "0631" ])
+      end
+    end
+
+    context 'with a previous fiscal year' do
+      let(:previous_fiscal_year) { create(:fiscal_year, company: company, year: 2023) }
+      let(:bank) { create(:account, company: company, code: "1200", name: "Bank", account_type: "asset") }
+      let(:cash) { create(:account, company: company, code: "1000", name: "Kasse", account_type: "asset") }
+      let(:equity) { create(:account, company: company, code: "0800", name: "Gezeichnetes Kapital", account_type: "equity") }
+
+      def book(fiscal_year, debit, credit, amount)
+        je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: fiscal_year.start_date)
+        create(:line_item, journal_entry: je, account: debit, amount: amount, direction: "debit")
+        create(:line_item, journal_entry: je, account: credit, amount: amount, direction: "credit")
+        je.post!
+      end
+
+      def find_account(sections, code)
+        sections.each do |section|
+          account = section[:accounts].find { |a| a[:code] == code } || find_account(section[:children] || [], code)
+          return account if account
+        end
+        nil
+      end
+
+      before do
+        book(previous_fiscal_year, bank, equity, 3000)
+        book(previous_fiscal_year, cash, equity, 200)
+        book(fiscal_year, bank, equity, 5000)
+      end
+
+      it 'adds the previous year figures to sections and accounts' do
+        result = BalanceSheetService.new(company: company, fiscal_year: fiscal_year, compare_previous_year: true).call
+
+        aktiva = result.data[:aktiva]
+        expect(result.data[:previous_year][:year]).to eq(2023)
+        expect(aktiva[:previous_total]).to eq(3200)
+        expect(find_account(aktiva[:sections].values, "1200").values_at(:balance, :previous_balance)).to eq([ 5000, 3000 ])
+        # Only booked in the previous year
+        expect(find_account(aktiva[:sections].values, "1000").values_at(:balance, :previous_balance)).to eq([ 0, 200 ])
+      end
+
+      it 'uses the stored closing balance sheet of a closed previous year' do
+        stored_data = BalanceSheetService.new(company: company, fiscal_year: previous_fiscal_year).call.data
+        create(:balance_sheet, :closing, :posted, fiscal_year: previous_fiscal_year, data: stored_data)
+        book(previous_fiscal_year, bank, equity, 100)
+        previous_fiscal_year.update!(closed: true, closed_at: Time.current)
+
+        result = BalanceSheetService.new(company: company, fiscal_year: fiscal_year, compare_previous_year: true).call
+
+        expect(result.data[:previous_year][:stored]).to be true
+        expect(result.data[:aktiva][:previous_total]).to eq(3200)
+      end
+
+      it 'leaves the previous year out unless asked for' do
+        result = BalanceSheetService.new(company: company, fiscal_year: fiscal_year).call
+
+        expect(result.data).not_to have_key(:previous_year)
+      end
+    end
+
     context 'with no journal entries' do
       it 'returns empty balance sheet without errors' do
         result = BalanceSheetService.new(company: company, fiscal_year: fiscal_year).call
@@ -0,0 +1,105 @@
+require 'rails_helper'
+
+RSpec.describe BankImportProfileParser do
+  def build_profile(**attributes)
+    BankImportProfile.new({
+      name: 'Test',
+      skip_lines: 0,
+      has_header: true,
+      delimiter: ';',
+      quote_char: '"',
+      date_format: '%d.%m.%Y',
+      decimal_separator: ',',
+      sign_convention: 'signed'
+    }.merge(attributes))
+  end
+
+  describe '#parse' do
+    it 'skips preamble lines and reads split debit/credit columns' do
+      csv = <<~CSV
+        "Kontonummer:";"DE89370400440532013000"
+        "Kontostand vom 30.06.2024:";"1.380,50 EUR"
+
+        "Buchungstag";"Wertstellung";"Empfänger";"Verwendungszweck";"Soll";"Haben"
+        "12.06.2024";"13.06.2024";"Office Supplies GmbH";"Invoice 2024-118";"119,50";""
+        "20.06.2024";"20.06.2024";"Customer AG";"Order 12345";"";"1.500,00"
+      CSV
+      profile = build_profile(
+        skip_lines: 3,
+        sign_convention: 'split_columns',
+        column_mapping: {
+          'booking_date' => 0, 'value_date' => 1, 'counterparty_name' => [ 2 ],
+          'remittance_information' => [ 3 ], 'debit_amount' => 4, 'credit_amount' => 5
+        }
+      )
+
+      results = described_class.new(csv, profile).parse
+
+      expect(results.length).to eq(2)
+      expect(results[0].booking_date).to eq(Date.new(2024, 6, 12))
+      expect(results[0].value_date).to eq(Date.new(2024, 6, 13))
+      expect(results[0].amount).to eq(-119.50)
+      expect(results[0].counterparty_name).to eq('Office Supplies GmbH')
+      expect(results[1].amount).to eq(1500.0)
+    end
+
+    it 'applies a debit/credit indicator column' do
+      csv = <<~CSV
+        date,amount,side,name,reference
+        2024-06-12,119.50,debit,Office Supplies GmbH,Invoice 2024-118
+        2024-06-20,"1,500.00",credit,Customer AG,Order 12345
+      CSV
+      profile = build_profile(
+        delimiter: ',',
+        date_format: '%Y-%m-%d',
+        decimal_separator: '.',
+        sign_convention: 'indicator',
+        column_mapping: {
+          'booking_date' => 0, 'amount' => 1, 'direction_indicator' => 2,
+          'counterparty_name' => [ 3 ], 'remittance_information' => [ 4 ]
+        }
+      )
+
+      results = described_class.new(csv, profile).parse
+
+      expect(results.map(&:amount)).to eq([ -119.50, 1500.0 ])
+    end
+
+    it 'inverts amounts and joins multiple description columns' do
+      csv = "12.06.2024;49,99;Amazon;Order 302-1\n15.06.2024;-49,99;Amazon;Refund 302-1\n"
+      profile = build_profile(
+        has_header: false,
+        sign_convention: 'inverted',
+        column_mapping: { 'booking_date' => 0, 'amount' => 1, 'remittance_information' => [ 2, 3 ] }
+      )
+
+      results = described_class.new(csv, profile).parse
+
+      expect(results.map(&:amount)).to eq([ -49.99, 49.99 ])
+      expect(results[0].remittance_information).to eq('Amazon Order 302-1')
+    end
+
+    it 'skips footer rows without a booking date' do
+      csv = "Datum;Betrag\n12.06.2024;-10,00\n;1.380,50\n"
+      profile = build_profile(column_mapping: { 'booking_date' => 0, 'amount' => 1 })
+
+      expect(described_class.new(csv, profile).parse.length).to eq(1)
+    end
+
+    it 'raises a parse error for dates not matching the profile format' do
+      csv = "Datum;Betrag\n2024-06-12;-10,00\n"
+      profile = build_profile(column_mapping: { 'booking_date' => 0, 'amount' => 1 })
+
+      expect { described_class.new(csv, profile).parse }.to raise_error(BankImportProfileParser::ParseError, /Row 1/)
+    end
+  end
+
+  describe '#sample_rows' do
+    it 'returns raw rows after the preamble' do
+      csv = "Export\nDatum;Betrag\n12.06.2024;-10,00\n"
+      rows = described_class.new(csv, build_profile(skip_lines: 1)).sample_rows
+
+      expect(rows).to eq([ [ 'Datum', 'Betrag' ], [ '12.06.2024', '-10,00' ] ])
+    end
+  end
+end
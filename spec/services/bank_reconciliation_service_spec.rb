@@ -0,0 +1,59 @@
+require 'rails_helper'
+
+RSpec.describe BankReconciliationService do
+  let(:company) { create(:company) }
+  let(:bank_account) { create(:bank_account, company: company) }
+  let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+  let!(:revenue_account) { create(:account, :revenue, company: company, code: '8400', name: 'Erlöse') }
+
+  let!(:payment) do
+    create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 3), amount: 250.00)
+  end
+  let!(:unbooked) do
+    create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 20), amount: 100.00)
+  end
+  let!(:statement_balance) do
+    create(:bank_statement_balance, bank_account: bank_account, balance_date: Date.new(2025, 3, 31), balance: 350.00)
+  end
+
+  before do
+    JournalEntryCreator.new(company: company, bank_transaction: payment, params: { account_code: '8400' }).call
+  end
+
+  it 'reports the difference and the unbooked transaction explaining it' do
+    row = described_class.new(bank_account: bank_account).call.first
+
+    expect(row.ledger_balance).to eq(250.00)
+    expect(row.difference).to eq(100.00)
+    expect(row).not_to be_matched
+    expect(row.pending_transactions).to eq([ unbooked ])
+    expect(row.mismatched_transactions).to be_empty
+    expect(row.reconcilable_count).to eq(1)
+  end
+
+  it 'lists a booking dated across a statement date only for that statement' do
+    late = create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 28), amount: 40.00)
+    JournalEntryCreator.new(company: company, bank_transaction: late, params: { account_code: '8400' }).call
+    late.line_item.journal_entry.update_column(:booking_date, Date.new(2025, 4, 2))
+    create(:bank_statement_balance, bank_account: bank_account, balance_date: Date.new(2025, 4, 30), balance: 390.00)
+
+    april, march = described_class.new(bank_account: bank_account).call
+
+    expect(march.mismatched_transactions.map(&:bank_transaction)).to eq([ late ])
+    expect(march.mismatched_transactions.first.reason).to eq('Booked on 2025-04-02, on the other side of the statement date')
+    expect(april.mismatched_transactions).to be_empty
+  end
+
+  it 'only reconciles once the balances match' do
+    result = BankStatementReconciler.new(statement_balance: statement_balance).call
+    expect(result).not_to be_success
+    expect(payment.reload.status).to eq('booked')
+
+    JournalEntryCreator.new(company: company, bank_transaction: unbooked, params: { account_code: '8400' }).call
+
+    result = BankStatementReconciler.new(statement_balance: statement_balance).call
+    expect(result).to be_success
+    expect(result.reconciled_count).to eq(2)
+    expect(payment.reload.status).to eq('reconciled')
+  end
+end
@@ -0,0 +1,82 @@
+require 'rails_helper'
+
+RSpec.describe BankTransactionDuplicateDetector do
+  let(:bank_account) { create(:bank_account) }
+  let!(:existing) do
+    create(:bank_transaction,
+      bank_account: bank_account,
+      booking_date: Date.new(2024, 6, 12),
+      amount: -119.50,
+      remittance_information: 'Invoice 2024-118 Customer 42',
+      counterparty_name: 'Office Supplies GmbH',
+      counterparty_iban: 'DE02120300000000202051',
+      remote_transaction_id: nil)
+  end
+
+  def row(**attributes)
+    TransactionCsvParser::ParseResult.new({
+      booking_date: Date.new(2024, 6, 12),
+      amount: -119.50,
+      remittance_information: 'Invoice 2024-118 Customer 42',
+      counterparty_name: 'Office Supplies GmbH',
+      counterparty_iban: nil
+    }.merge(attributes))
+  end
+
+  def detect(*rows)
+    described_class.new(bank_account: bank_account, transactions: rows).detect
+  end
+
+  it 'flags rows with the same date, amount, counterparty and text as exact duplicates' do
+    match = detect(row(remittance_information: 'INVOICE 2024-118, Customer 42')).first
+
+    expect(match.status).to eq('exact_duplicate')
+    expect(match.bank_transaction).to eq(existing)
+  end
+
+  it 'flags rows with similar remittance text as probable duplicates' do
+    match = detect(row(remittance_information: 'Invoice 2024-118', counterparty_name: 'OFFICE SUPPLIES GMBH Berlin')).first
+
+    expect(match.status).to eq('probable_duplicate')
+    expect(match.bank_transaction).to eq(existing)
+  end
+
+  it 'treats rows with a different amount, date or counterparty as new' do
+    matches = detect(
+      row(amount: -119.51),
+      row(booking_date: Date.new(2024, 6, 13)),
+      row(counterparty_name: 'Someone Else', remittance_information: 'Refund')
+    )
+
+    expect(matches.map(&:status)).to all(eq('new'))
+  end
+
+  it 'matches each existing transaction only once' do
+    matches = detect(row, row)
+
+    expect(matches.map(&:status)).to eq(%w[exact_duplicate new])
+  end
+
+  it 'detects already imported bank references' do
+    create(:bank_transaction, bank_account: bank_account, remote_transaction_id: 'REF-0001')
+    reference_row = CamtStatementParser::ParseResult.new(
+      booking_date: Date.new(2024, 7, 1), amount: 10, remote_transaction_id: 'REF-0001'
+    )
+
+    match = detect(reference_row).first
+
+    expect(match.status).to eq('exact_duplicate')
+    expect(match.reference_match).to be true
+  end
+
+  it 'does not match transactions with different bank references' do
+    existing.update!(remote_transaction_id: 'REF-A')
+    reference_row = CamtStatementParser::ParseResult.new(
+      booking_date: existing.booking_date, amount: existing.amount,
+      remittance_information: existing.remittance_information,
+      counterparty_name: existing.counterparty_name, remote_transaction_id: 'REF-B'
+    )
+
+    expect(detect(reference_row).first.status).to eq('new')
+  end
+end
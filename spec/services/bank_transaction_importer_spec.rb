@@ -0,0 +1,70 @@
+require 'rails_helper'
+
+RSpec.describe BankTransactionImporter do
+  let(:bank_account) { create(:bank_account) }
+
+  def camt(statement_id, entries)
+    entries_xml = entries.map do |ntry_ref, amount|
+      <<~NTRY
+        <Ntry>
+          <NtryRef>#{ntry_ref}</NtryRef>
+          <Amt Ccy="EUR">#{amount}</Amt>
+          <CdtDbtInd>CRDT</CdtDbtInd>
+          <Sts>BOOK</Sts>
+          <BookgDt><Dt>2024-06-12</Dt></BookgDt>
+          <AddtlNtryInf>GUTSCHRIFT</AddtlNtryInf>
+        </Ntry>
+      NTRY
+    end
+
+    <<~XML
+      <?xml version="1.0" encoding="UTF-8"?>
+      <Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+        <BkToCstmrStmt>
+          <Stmt>
+            <Id>#{statement_id}</Id>
+            <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+            #{entries_xml.join}
+          </Stmt>
+        </BkToCstmrStmt>
+      </Document>
+    XML
+  end
+
+  def import(xml, account = bank_account)
+    transactions = CamtStatementParser.new(xml).parse
+    described_class.new(bank_account: account, transactions: transactions, origin: "camt").call
+  end
+
+  it 'skips all rows when the same camt file is imported again' do
+    xml = camt("STMT-2024-06", [ [ "1", "100.00" ], [ "2", "200.00" ] ])
+    import(xml)
+
+    result = import(xml)
+
+    expect(result.success?).to be true
+    expect(result.imported_count).to eq(0)
+    expect(result.skipped_count).to eq(2)
+    expect(bank_account.bank_transactions.count).to eq(2)
+  end
+
+  it 'imports statements that reuse the same entry references' do
+    import(camt("STMT-2024-06", [ [ "1", "100.00" ], [ "2", "200.00" ] ]))
+
+    result = import(camt("STMT-2024-07", [ [ "1", "300.00" ], [ "2", "400.00" ] ]))
+
+    expect(result.imported_count).to eq(2)
+    expect(bank_account.bank_transactions.order(:amount).pluck(:amount)).to eq([ 100, 200, 300, 400 ])
+  end
+
+  it 'imports the same remote transaction id on another bank account' do
+    xml = camt("STMT-2024-06", [ [ "1", "100.00" ] ])
+    import(xml)
+    other_account = create(:bank_account, company: bank_account.company)
+
+    result = import(xml, other_account)
+
+    expect(result.success?).to be true
+    expect(result.imported_count).to eq(1)
+  end
+end
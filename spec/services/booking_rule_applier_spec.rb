@@ -0,0 +1,44 @@
+require 'rails_helper'
+
+RSpec.describe BookingRuleApplier do
+  let(:company) { create(:company) }
+  let(:bank_account) { create(:bank_account, company: company) }
+  let!(:rent_account) { create(:account, :expense, company: company, code: '4210', name: 'Miete') }
+  let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+
+  let!(:rent) do
+    create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 3),
+      amount: -1200.00, counterparty_iban: 'DE89370400440532013000', remittance_information: 'Miete Maerz')
+  end
+  let!(:other) do
+    create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 5),
+      amount: -49.99, counterparty_iban: 'DE44500105175407324931')
+  end
+
+  before do
+    create(:booking_rule, company: company, description_template: 'Miete {month}')
+  end
+
+  it 'books matching pending transactions as draft journal entries' do
+    result = described_class.new(company: company, bank_account: bank_account).call
+
+    expect(result).to be_success
+    expect(result.booked_count).to eq(1)
+    expect(result.unmatched_count).to eq(1)
+
+    expect(rent.reload).to be_booked
+    expect(other.reload.status).to eq('pending')
+
+    journal_entry = rent.line_item.journal_entry
+    expect(journal_entry.description).to eq('Miete 03/2025')
+    expect(journal_entry).not_to be_posted
+    expect(journal_entry.line_items.map { |item| item.account.code }).to include('4210')
+  end
+
+  it 'ignores inactive rules' do
+    company.booking_rules.update_all(active: false)
+
+    result = described_class.new(company: company, bank_account: bank_account).call
+    expect(result).not_to be_success
+  end
+end
@@ -0,0 +1,158 @@
+require 'rails_helper'
+
+RSpec.describe CamtStatementParser do
+  let(:camt053) do
+    <<~XML
+      <?xml version="1.0" encoding="UTF-8"?>
+      <Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+        <BkToCstmrStmt>
+          <GrpHdr><MsgId>MSG-1</MsgId><CreDtTm>2024-06-30T18:00:00</CreDtTm></GrpHdr>
+          <Stmt>
+            <Id>STMT-2024-06</Id>
+            <FrToDt><FrDtTm>2024-06-01T00:00:00</FrDtTm><ToDtTm>2024-06-30T23:59:59</ToDtTm></FrToDt>
+            <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+            <Bal>
+              <Tp><CdOrPrtry><Cd>PRCD</Cd></CdOrPrtry></Tp>
+              <Amt Ccy="EUR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+              <Dt><Dt>2024-05-31</Dt></Dt>
+            </Bal>
+            <Bal>
+              <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+              <Amt Ccy="EUR">1380.50</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+              <Dt><Dt>2024-06-30</Dt></Dt>
+            </Bal>
+            <Ntry>
+              <NtryRef>REF-0001</NtryRef>
+              <Amt Ccy="EUR">119.50</Amt>
+              <CdtDbtInd>DBIT</CdtDbtInd>
+              <Sts>BOOK</Sts>
+              <BookgDt><Dt>2024-06-12</Dt></BookgDt>
+              <ValDt><Dt>2024-06-13</Dt></ValDt>
+              <NtryDtls><TxDtls>
+                <Refs><EndToEndId>E2E-4711</EndToEndId></Refs>
+                <RltdPties>
+                  <Cdtr><Nm>Office Supplies GmbH</Nm></Cdtr>
+                  <CdtrAcct><Id><IBAN>DE02120300000000202051</IBAN></Id></CdtrAcct>
+                </RltdPties>
+                <RmtInf><Ustrd>Invoice 2024-118</Ustrd><Ustrd>Customer 42</Ustrd></RmtInf>
+              </TxDtls></NtryDtls>
+            </Ntry>
+            <Ntry>
+              <Amt Ccy="EUR">500.00</Amt>
+              <CdtDbtInd>CRDT</CdtDbtInd>
+              <Sts>BOOK</Sts>
+              <BookgDt><Dt>2024-06-20</Dt></BookgDt>
+              <AcctSvcrRef>SVC-9999</AcctSvcrRef>
+              <NtryDtls><TxDtls>
+                <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+                <RltdPties>
+                  <Dbtr><Nm>Customer AG</Nm></Dbtr>
+                  <DbtrAcct><Id><IBAN>DE44500105175407324931</IBAN></Id></DbtrAcct>
+                </RltdPties>
+              </TxDtls></NtryDtls>
+              <AddtlNtryInf>GUTSCHRIFT</AddtlNtryInf>
+            </Ntry>
+          </Stmt>
+        </BkToCstmrStmt>
+      </Document>
+    XML
+  end
+
+  describe '#parse' do
+    it 'parses booked entries with signed amounts' do
+      results = described_class.new(camt053).parse
+
+      expect(results.length).to eq(2)
+      expect(results[0].amount).to eq(-119.50)
+      expect(results[0].booking_date).to eq(Date.new(2024, 6, 12))
+      expect(results[0].value_date).to eq(Date.new(2024, 6, 13))
+      expect(results[1].amount).to eq(500.0)
+    end
+
+    it 'reads counterparty from creditor for debits and debtor for credits' do
+      results = described_class.new(camt053).parse
+
+      expect(results[0].counterparty_name).to eq('Office Supplies GmbH')
+      expect(results[0].counterparty_iban).to eq('DE02120300000000202051')
+      expect(results[1].counterparty_name).to eq('Customer AG')
+      expect(results[1].counterparty_iban).to eq('DE44500105175407324931')
+    end
+
+    it 'joins unstructured remittance information and falls back to additional entry info' do
+      results = described_class.new(camt053).parse
+
+      expect(results[0].remittance_information).to eq('Invoice 2024-118 Customer 42')
+      expect(results[1].remittance_information).to eq('GUTSCHRIFT')
+    end
+
+    it 'uses the account servicer reference as remote transaction id' do
+      results = described_class.new(camt053).parse
+
+      expect(results[1].remote_transaction_id).to eq('SVC-9999')
+    end
+
+    it 'combines the entry reference with the statement id when there is no account servicer reference' do
+      results = described_class.new(camt053).parse
+
+      expect(results[0].remote_transaction_id).to eq('STMT-2024-06/REF-0001')
+    end
+
+    it 'prefers the account servicer reference of the transaction details over the entry reference' do
+      xml = camt053.sub('<Refs><EndToEndId>E2E-4711</EndToEndId></Refs>',
+        '<Refs><AcctSvcrRef>TX-SVC-1</AcctSvcrRef><EndToEndId>E2E-4711</EndToEndId></Refs>')
+
+      expect(described_class.new(xml).parse[0].remote_transaction_id).to eq('TX-SVC-1')
+    end
+
+    it 'ignores NOTPROVIDED end-to-end ids' do
+      results = described_class.new(camt053).parse
+
+      expect(results[0].end_to_end_id).to eq('E2E-4711')
+      expect(results[1].end_to_end_id).to be_nil
+    end
+
+    it 'collects opening and closing balances per statement' do
+      parser = described_class.new(camt053)
+      parser.parse
+
+      statement = parser.statements.first
+      expect(statement.iban).to eq('DE89370400440532013000')
+      expect(statement.opening_balance).to eq(1000.0)
+      expect(statement.opening_date).to eq(Date.new(2024, 5, 31))
+      expect(statement.closing_balance).to eq(1380.50)
+      expect(statement.closing_date).to eq(Date.new(2024, 6, 30))
+    end
+
+    it 'skips pending entries from camt.052 reports' do
+      camt052 = camt053
+        .gsub('BkToCstmrStmt', 'BkToCstmrAcctRpt')
+        .gsub('<Stmt>', '<Rpt>').gsub('</Stmt>', '</Rpt>')
+        .sub('<Sts>BOOK</Sts>', '<Sts>PDNG</Sts>')
+
+      results = described_class.new(camt052).parse
+
+      expect(results.length).to eq(1)
+      expect(results[0].remote_transaction_id).to eq('SVC-9999')
+    end
+
+    it 'returns empty array for blank input' do
+      expect(described_class.new('').parse).to eq([])
+      expect(described_class.new(nil).parse).to eq([])
+    end
+
+    it 'raises a parse error for invalid XML' do
+      expect { described_class.new('<Document><Stmt>').parse }.to raise_error(CamtStatementParser::ParseError)
+    end
+
+    it 'raises a parse error for XML without statements' do
+      expect { described_class.new('<Document></Document>').parse }.to raise_error(CamtStatementParser::ParseError)
+    end
+  end
+
+  describe '.camt?' do
+    it 'detects camt documents' do
+      expect(described_class.camt?(camt053)).to be true
+      expect(described_class.camt?("Datum;Betrag\n12.06.2024;-1,00")).to be false
+    end
+  end
+end
@@ -0,0 +1,152 @@
+require 'rails_helper'
+
+RSpec.describe DatevBookingImporter do
+  let(:chart_of_accounts) do
+    ChartOfAccounts.find_or_create_by!(name: "SKR03", country_code: "DE") do |chart|
+      chart.description = "Standard Kontenrahmen 03"
+    end
+  end
+
+  let(:company) { create(:company, chart_of_accounts: chart_of_accounts) }
+
+  before do
+    create(:account, company: company, code: '1200', name: 'Bank', account_type: 'asset')
+    create(:account, :expense, company: company, code: '4930', name: 'Bürobedarf')
+    { '1576' => [ 'Abziehbare Vorsteuer 19 %', 'asset' ], '1776' => [ 'Umsatzsteuer 19 %', 'liability' ],
+      '8400' => [ 'Erlöse 19 % USt', 'revenue' ] }.each do |code, (name, type)|
+      chart_of_accounts.account_templates.find_or_create_by!(code: code) do |template|
+        template.name = name
+        template.account_type = type
+      end
+    end
+  end
+
+  def datev_file(*rows, extra_columns: [])
+    header = '"EXTF";700;21;"Buchungsstapel";13;20250101120000000;;"RE";;;1001;42;20240101;4;20240101;20241231;"Buchungen 2024";;1;0;0;"EUR"'
+    columns = (DatevExportService::BOOKING_COLUMNS + extra_columns).map { |column| "\"#{column}\"" }.join(';')
+    ([ header, columns ] + rows).join("\r\n").encode('Windows-1252')
+  end
+
+  let(:data) do
+    datev_file(
+      '119,00;"S";"EUR";;;;4930;1200;"9";1503;"RE-1";;;"Papier"',
+      '238,00;"H";"EUR";;;;8400;1200;"3";2003;"AR-7";;;"Beratung"'
+    )
+  end
+
+  describe 'dry run' do
+    it 'previews the import without writing anything' do
+      result = described_class.new(company: company, data: data).call(dry_run: true)
+
+      expect(result).to be_success
+      expect(result.preview.year).to eq(2024)
+      expect(result.preview.batch_count).to eq(2)
+      expect(result.preview.accounts_to_create.map { |account| account[:code] }).to eq(%w[1576 1776 8400])
+      expect(result.preview).to be_importable
+      expect(company.journal_entries.count).to eq(0)
+      expect(company.accounts.where(code: '8400')).not_to exist
+    end
+
+    it 'lists accounts without template as unmapped' do
+      result = described_class.new(company: company, data: datev_file('50,00;"S";"EUR";;;;4711;1200;;0104;"B-1";;;"Unbekannt"')).call
+
+      expect(result.preview.unmapped_accounts).to eq([ { code: '4711', line_numbers: [ 3 ] } ])
+      expect(result.preview).not_to be_importable
+    end
+
+    it 'lists invalid USt-IdNrn.' do
+      file = datev_file('100,00;"H";"EUR";;;;8400;1200;;0104;"AR-1";;;"Lieferung";"A-123"', extra_columns: [ 'EU-Mitgliedstaat u. UStID (Bestimmung)' ])
+      result = described_class.new(company: company, data: file).call
+
+      expect(result.preview.invalid_vat_ids).to eq([ { vat_id: 'A123', line_numbers: [ 3 ] } ])
+      expect(result.preview).not_to be_importable
+    end
+
+    it 'lists batches whose rows do not balance' do
+      result = described_class.new(company: company, data: datev_file('80,00;"S";"EUR";;;;4930;;;0104;"B-2";;;"Ohne Gegenkonto"')).call
+
+      batch = result.preview.unbalanced_batches.first
+      expect(batch).to include(document_field: 'B-2', debit_total: 80, credit_total: 0)
+      expect(result.preview).not_to be_importable
+    end
+  end
+
+  describe 'import' do
+    it 'expands gross amounts with BU key into net and VAT lines' do
+      result = described_class.new(company: company, data: data).call(dry_run: false)
+
+      expect(result).to be_success
+      expect(result.journal_entries_count).to eq(2)
+
+      purchase = company.journal_entries.find_by(booking_date: Date.new(2024, 3, 15))
+      lines = purchase.line_items.map { |li| [ li.account.code, li.direction, li.amount ] }
+      expect(lines).to contain_exactly([ '4930', 'debit', 100 ], [ '1576', 'debit', 19 ], [ '1200', 'credit', 119 ])
+      expect(purchase).to be_posted
+
+      sale = company.journal_entries.find_by(booking_date: Date.new(2024, 3, 20))
+      lines = sale.line_items.map { |li| [ li.account.code, li.direction, li.amount ] }
+      expect(lines).to contain_exactly([ '1200', 'debit', 238 ], [ '8400', 'credit', 200 ], [ '1776', 'credit', 38 ])
+    end
+
+    it 'books keyed H rows on expense accounts as refunds and S rows on revenue accounts as credit notes' do
+      file = datev_file(
+        '119,00;"H";"EUR";;;;4930;1200;"9";1503;"RE-1";;;"Erstattung Papier"',
+        '238,00;"S";"EUR";;;;8400;1200;"3";2003;"GS-7";;;"Gutschrift Beratung"'
+      )
+      described_class.new(company: company, data: file).call(dry_run: false)
+
+      refund = company.journal_entries.find_by(voucher_number: 'RE-1')
+      expect(refund.line_items.map { |li| [ li.account.code, li.direction, li.amount ] }).to contain_exactly(
+        [ '1200', 'debit', 119 ], [ '4930', 'credit', 100 ], [ '1576', 'credit', 19 ]
+      )
+
+      credit_note = company.journal_entries.find_by(voucher_number: 'GS-7')
+      expect(credit_note.line_items.map { |li| [ li.account.code, li.direction, li.amount ] }).to contain_exactly(
+        [ '8400', 'debit', 200 ], [ '1776', 'debit', 38 ], [ '1200', 'credit', 238 ]
+      )
+    end
+
+    it 'keeps the EU-Mitgliedstaat u. UStID as customer USt-IdNr.' do
+      file = datev_file('100,00;"H";"EUR";;;;8400;1200;;0104;"AR-1";;;"Lieferung";"ATU 123 456 78"', extra_columns: [ 'EU-Mitgliedstaat u. UStID (Bestimmung)' ])
+      described_class.new(company: company, data: file).call(dry_run: false)
+
+      expect(company.journal_entries.sole.counterparty_vat_id).to eq('ATU12345678')
+    end
+
+    it 'creates the fiscal year and missing accounts from templates' do
+      described_class.new(company: company, data: data).call(dry_run: false)
+
+      expect(company.fiscal_years.find_by(year: 2024)).to be_present
+      expect(company.accounts.find_by(code: '8400').name).to eq('Erlöse 19 % USt')
+    end
+
+    it 'rolls back the import when an entry cannot be posted' do
+      allow_any_instance_of(JournalEntry).to receive(:post!) do |journal_entry|
+        journal_entry.errors.add(:base, 'Voucher number is taken')
+        false
+      end
+
+      result = described_class.new(company: company, data: data).call(dry_run: false)
+
+      expect(result).not_to be_success
+      expect(result.errors).to eq([ 'Validation failed: Voucher number is taken' ])
+      expect(company.journal_entries.count).to eq(0)
+    end
+
+    it 'refuses to import into a fiscal year that already has bookings' do
+      described_class.new(company: company, data: data).call(dry_run: false)
+      result = described_class.new(company: company, data: data).call(dry_run: false)
+
+      expect(result).not_to be_success
+      expect(result.errors.first).to include('already contains 2 journal entries')
+      expect(company.journal_entries.count).to eq(2)
+    end
+  end
+
+  it 'rejects files that are not a Buchungsstapel' do
+    result = described_class.new(company: company, data: '"EXTF";700;20;"Kontenbeschriftungen";3').call
+
+    expect(result).not_to be_success
+    expect(result.errors.first).to include('Not a Buchungsstapel')
+  end
+end
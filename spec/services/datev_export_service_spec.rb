@@ -0,0 +1,96 @@
+require 'rails_helper'
+
+RSpec.describe DatevExportService do
+  let(:company) { create(:company) }
+  let(:bank_account) { create(:bank_account, company: company) }
+  let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+  let!(:office_account) { create(:account, :expense, company: company, code: '4930', name: 'Bürobedarf') }
+  let!(:input_vat) { create(:account, :with_vat_19, company: company, account_type: 'asset') }
+
+  let(:purchase) do
+    create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 5), amount: -119.00)
+  end
+  let(:fee) do
+    create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 31), amount: -5.00)
+  end
+
+  before do
+    JournalEntryCreator.new(
+      company: company, bank_transaction: purchase,
+      params: { account_code: '4930', description: 'Papier', vat_split: true, vat_rate: 19 }
+    ).call
+    JournalEntryCreator.new(
+      company: company, bank_transaction: fee,
+      params: { account_code: '4930', description: 'Kontoführung' }
+    ).call
+    company.journal_entries.each(&:post!)
+  end
+
+  def booking_rows(csv)
+    csv.encode('UTF-8').split("\r\n").drop(2).map { |line| line.split(';') }
+  end
+
+  it 'writes an EXTF v700 Buchungsstapel header' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year, consultant_number: '1001', client_number: '42').call
+
+    header = result.bookings_csv.split("\r\n").first.split(';')
+    expect(header.first(5)).to eq([ '"EXTF"', '700', '21', '"Buchungsstapel"', '13' ])
+    expect(header[10..13]).to eq([ '1001', '42', '20250101', '4' ])
+    expect(header[26]).to eq('"03"')
+  end
+
+  it 'declares the Sachkontenrahmen of SKR04 companies' do
+    chart = ChartOfAccounts.find_or_create_by!(name: 'SKR04', country_code: 'DE')
+    skr04_company = create(:company, chart_of_accounts: chart)
+    skr04_fiscal_year = create(:fiscal_year, company: skr04_company, year: 2025)
+
+    result = described_class.new(company: skr04_company, fiscal_year: skr04_fiscal_year).call
+
+    expect(result.bookings_csv.split("\r\n").first.split(';')[26]).to eq('"04"')
+  end
+
+  it 'collapses a detected VAT split into one gross row with BU key' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year).call
+
+    expect(result).to be_success
+    rows = booking_rows(result.bookings_csv)
+    expect(rows.size).to eq(2)
+    expect(rows.first.values_at(0, 1, 6, 7, 8, 9)).to eq([ '119,00', '"S"', '4930', bank_account.ledger_account.code, '"9"', '0503' ])
+    expect(rows.map { |row| row[6] }).not_to include('1576')
+    expect(rows.last.values_at(0, 8, 13)).to eq([ '5,00', '', '"Kontoführung"' ])
+  end
+
+  it 'writes keyed lines of other entries gross with their BU key' do
+    create(:account, :expense, company: company, code: '4650', name: 'Bewirtungskosten')
+    dinner = create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 3, 20), amount: -178.50)
+    JournalEntryCreator.new(
+      company: company, bank_transaction: dinner,
+      params: { description: 'Einkauf', splits: [
+        { account_code: '4930', amount: 119.00, tax_key: '9' },
+        { account_code: '4650', amount: 59.50, tax_key: '9' }
+      ] }
+    ).call.journal_entry.post!
+
+    result = described_class.new(company: company, fiscal_year: fiscal_year).call
+
+    rows = booking_rows(result.bookings_csv).select { |row| row[9] == '2003' }
+    expect(rows.map { |row| row.values_at(0, 6, 7, 8) }).to eq([
+      [ '119,00', '4930', bank_account.ledger_account.code, '"9"' ],
+      [ '59,50', '4650', bank_account.ledger_account.code, '"9"' ]
+    ])
+  end
+
+  it 'lists the used accounts in the Kontenbeschriftungen file' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year).call
+
+    lines = result.accounts_csv.encode('UTF-8').split("\r\n")
+    expect(lines.first).to start_with('"EXTF";700;20;"Kontenbeschriftungen"')
+    expect(lines.drop(2)).to include('4930;"Bürobedarf";"de-DE";"Bürobedarf"')
+  end
+
+  it 'rejects a date range outside the fiscal year' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year, from: Date.new(2024, 12, 1), to: Date.new(2025, 1, 31)).call
+
+    expect(result).not_to be_success
+  end
+end
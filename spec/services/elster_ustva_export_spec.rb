@@ -0,0 +1,86 @@
+require 'rails_helper'
+
+RSpec.describe ElsterUstvaExport do
+  let(:company) { create(:company, name: "Acme GmbH", tax_number: "9198 0113 10010", address: "Musterstraße 1\n10115 Berlin") }
+  let(:fields) do
+    [
+      { key: "kz_81", field_number: 81, tax_field_number: nil, value: 19.1, base_value: 100.5 },
+      { key: "kz_41", field_number: 41, tax_field_number: nil, value: nil, base_value: 0.0 },
+      { key: "kz_46", field_number: 46, tax_field_number: 47, value: 190.0, base_value: 1000.0 },
+      { key: "kz_66", field_number: 66, tax_field_number: nil, value: 19.0, base_value: nil },
+      { key: "kz_67", field_number: 67, tax_field_number: nil, value: 190.0, base_value: nil },
+      { key: "kz_83", field_number: 83, tax_field_number: nil, value: nil, base_value: nil }
+    ]
+  end
+  let(:tax_report) do
+    create(:tax_report, company: company, report_type: "ustva", period_type: "monthly",
+      start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 1, 31),
+      generated_data: { report_type: "ustva", fields: fields })
+  end
+
+  subject(:export) { described_class.new(tax_report: tax_report, hersteller_id: described_class::TEST_HERSTELLER_ID) }
+
+  it 'reports tax bases in full euros and taxes with cents, leaving out empty fields' do
+    expect(export.kennziffern).to eq(
+      46 => 1000, 47 => BigDecimal("190"), 66 => BigDecimal("19"), 67 => BigDecimal("190"), 81 => 100, 83 => 0
+    )
+  end
+
+  it 'calculates Kz 83 from the full-euro tax base like ELSTER' do
+    fields[0][:base_value] = 200.99
+
+    expect(export.kennziffern[83]).to eq(BigDecimal("19.00"))
+  end
+
+  it 'writes the ELSTER-XML of the period' do
+    result = export.call
+
+    expect(result).to be_success
+    expect(result.filename).to eq("UStVA_2025_01.xml")
+
+    document = Nokogiri::XML(result.xml)
+    document.remove_namespaces!
+    expect(document.at_xpath("//Empfaenger").text).to eq("9198")
+    expect(document.at_xpath("//Testmerker").text).to eq(described_class::TESTMERKER)
+    expect(document.at_xpath("//DatenLieferant/PLZ").text).to eq("10115")
+
+    anmeldung = document.at_xpath("//Umsatzsteuervoranmeldung")
+    expect(anmeldung.at_xpath("Zeitraum").text).to eq("01")
+    expect(anmeldung.at_xpath("Steuernummer").text).to eq("9198011310010")
+    expect(anmeldung.at_xpath("Kz81").text).to eq("100")
+    expect(anmeldung.at_xpath("Kz47").text).to eq("190.00")
+    expect(anmeldung.at_xpath("Kz41")).to be_nil
+  end
+
+  it 'uses the quarter as Zeitraum 41-44' do
+    tax_report.update!(period_type: "quarterly", start_date: Date.new(2025, 4, 1), end_date: Date.new(2025, 6, 30))
+
+    document = Nokogiri::XML(export.call.xml)
+    document.remove_namespaces!
+    expect(document.at_xpath("//Zeitraum").text).to eq("42")
+  end
+
+  it 'blocks the export without tax number and address' do
+    company.update!(tax_number: nil, address: nil)
+
+    result = export.call
+
+    expect(result).not_to be_success
+    expect(result.errors).to include("The company's tax number (Steuernummer) is missing", "The company's address is missing")
+  end
+
+  it 'blocks the export with a tax number not in ELSTER format or an address without postal code' do
+    company.update!(tax_number: "21/815/08150", address: "Musterstraße 1, Berlin")
+
+    expect(export.call.errors).to contain_exactly(
+      "The company's tax number must be given in the 13-digit ELSTER format (e.g. 9198011310010)",
+      "The company's address needs a street and a postal code with city (e.g. Musterstraße 1, 10115 Berlin)"
+    )
+  end
+
+  it 'blocks reports saved before the complete UStVA form' do
+    tax_report.update!(generated_data: { report_type: "ustva", fields: [ { key: "kz_81", field_number: 81, value: 19.0, base_value: 100.0 } ] })
+
+    expect(export.call.errors).to include("The report was saved before the complete UStVA form, please generate and save it again")
+  end
+end
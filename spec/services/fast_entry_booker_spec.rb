@@ -0,0 +1,105 @@
+require 'rails_helper'
+
+RSpec.describe FastEntryBooker do
+  let(:chart_of_accounts) do
+    ChartOfAccounts.find_or_create_by!(name: "SKR03", country_code: "DE") do |chart|
+      chart.description = "Standard Kontenrahmen 03"
+    end
+  end
+
+  let(:company) { create(:company, chart_of_accounts: chart_of_accounts) }
+  let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2026) }
+
+  before do
+    create(:account, company: company, code: '1200', name: 'Bank', account_type: 'asset')
+    create(:account, :expense, company: company, code: '4930', name: 'Bürobedarf')
+    chart_of_accounts.account_templates.find_or_create_by!(code: '1576') do |template|
+      template.name = 'Abziehbare Vorsteuer 19 %'
+      template.account_type = 'asset'
+    end
+  end
+
+  def row(**attributes)
+    {
+      amount: '119.00', debit_credit: 'S', account_code: '4930', counter_account_code: '1200', bu_key: '9',
+      booking_date: '2026-03-15', document_field: 'RE-1', text: 'Papier'
+    }.merge(attributes)
+  end
+
+  it 'books each row as a draft entry with the VAT split' do
+    result = described_class.new(company: company, rows: [ row, row(amount: '50', bu_key: '', document_field: 'RE-2') ]).call(dry_run: false)
+
+    expect(result).to be_success
+    expect(result.journal_entries.size).to eq(2)
+
+    entry = result.journal_entries.first
+    expect(entry).not_to be_posted
+    expect(entry.voucher_number).to eq('RE-1')
+    expect(entry.line_items.map { |li| [ li.account.code, li.direction, li.amount ] }).to contain_exactly(
+      [ '4930', 'debit', 100 ], [ '1576', 'debit', 19 ], [ '1200', 'credit', 119 ]
+    )
+    expect(result.journal_entries.last.line_items.map(&:amount)).to eq([ 50, 50 ])
+  end
+
+  it 'books H to the credit of Konto' do
+    result = described_class.new(company: company, rows: [ row(debit_credit: 'H', bu_key: nil) ]).call(dry_run: false)
+
+    lines = result.journal_entries.first.line_items
+    expect(lines.find { |li| li.direction == 'debit' }.account.code).to eq('1200')
+    expect(lines.find { |li| li.direction == 'credit' }.account.code).to eq('4930')
+  end
+
+  it 'books an H row with an input key as refund that reduces the input VAT' do
+    result = described_class.new(company: company, rows: [ row(debit_credit: 'H') ]).call(dry_run: false)
+
+    lines = result.journal_entries.first.line_items
+    expect(lines.map { |li| [ li.account.code, li.direction, li.amount ] }).to contain_exactly(
+      [ '1200', 'debit', 119 ], [ '4930', 'credit', 100 ], [ '1576', 'credit', 19 ]
+    )
+  end
+
+  it 'books a credit note with an output key on the debit side of the revenue account' do
+    create(:account, :revenue, company: company, code: '8400', name: 'Erlöse 19 % USt')
+    chart_of_accounts.account_templates.find_or_create_by!(code: '1776') do |template|
+      template.name = 'Umsatzsteuer 19 %'
+      template.account_type = 'liability'
+    end
+
+    result = described_class.new(company: company, rows: [ row(account_code: '8400', bu_key: '3') ]).call(dry_run: false)
+
+    lines = result.journal_entries.first.line_items
+    expect(lines.map { |li| [ li.account.code, li.direction, li.amount ] }).to contain_exactly(
+      [ '8400', 'debit', 100 ], [ '1776', 'debit', 19 ], [ '1200', 'credit', 119 ]
+    )
+  end
+
+  it 'books nothing when a row has problems' do
+    rows = [ row, row(account_code: '4711'), row(bu_key: '77', text: '') ]
+    result = described_class.new(company: company, rows: rows).call(dry_run: false)
+
+    expect(result).not_to be_success
+    expect(result.errors).to eq([ '2 rows cannot be booked' ])
+    expect(result.items[1].problems).to eq([ 'Unknown accounts: 4711' ])
+    expect(result.items[2].problems).to include('Unknown BU-Schlüssel 77', 'Text is missing')
+    expect(company.journal_entries.count).to eq(0)
+  end
+
+  it 'keeps the USt-IdNr. of the customer' do
+    result = described_class.new(company: company, rows: [ row(vat_id: 'atu 123.456.78') ]).call(dry_run: false)
+
+    expect(result.journal_entries.first.counterparty_vat_id).to eq('ATU12345678')
+  end
+
+  it 'rejects an invalid USt-IdNr.' do
+    result = described_class.new(company: company, rows: [ row(vat_id: '12345') ]).call
+
+    expect(result.items.first.problems).to eq([ 'USt-IdNr. 12345 is invalid' ])
+  end
+
+  it 'rejects dates in the locked period' do
+    fiscal_year.update!(locked_until: Date.new(2026, 3, 31))
+    result = described_class.new(company: company, rows: [ row ]).call
+
+    expect(result.items.first.problems).to eq([ 'Datum falls into the locked period (up to 2026-03-31)' ])
+  end
+end
@@ -0,0 +1,30 @@
+require 'rails_helper'
+
+RSpec.describe FormulaEvaluator do
+  def evaluate(expression, **options)
+    described_class.new(expression, **options).evaluate
+  end
+
+  it 'respects operator precedence and parentheses' do
+    expect(evaluate('2 + 3 * 4')).to eq(14)
+    expect(evaluate('-(2 + 3) * 2')).to eq(-10)
+  end
+
+  it 'rounds and compares' do
+    expect(evaluate('round(12000 / 36, 2)')).to eq(BigDecimal('333.33'))
+    expect(evaluate('max(1, 2.5) + min(4, 5)')).to eq(BigDecimal('6.5'))
+  end
+
+  it 'uses variables and account balances' do
+    balance = ->(code) { code == '0650' ? 120_000 : 0 }
+    expect(evaluate('balance(0650) * 0.045 / 12', balance: balance)).to eq(450)
+    expect(evaluate('period * 100', variables: { period: 3 })).to eq(300)
+  end
+
+  it 'rejects invalid formulas' do
+    expect { evaluate('2 +') }.to raise_error(described_class::Error, /end of formula/)
+    expect { evaluate('1 / 0') }.to raise_error(described_class::Error, 'Division by zero')
+    expect { evaluate('foo * 2') }.to raise_error(described_class::Error, "Unknown variable 'foo'")
+    expect { evaluate('system("ls")') }.to raise_error(described_class::Error)
+  end
+end
@@ -0,0 +1,88 @@
+require 'rails_helper'
+
+RSpec.describe GewstService do
+  let(:company) { create(:company, gewerbesteuer_hebesatz: 410) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 12, 31)) }
+  let(:taxable_income) { 300_000.0 }
+
+  before do
+    create(:tax_report, company: company, fiscal_year: fiscal_year, report_type: "kst", period_type: "annual",
+      start_date: fiscal_year.start_date, end_date: fiscal_year.end_date,
+      generated_data: { calculated: { taxable_income: taxable_income }, adjustments: { verlustvortrag: { value: 20_000.0 } } })
+  end
+
+  def calculate(adjustments = {})
+    described_class.new(company: company, fiscal_year: fiscal_year, adjustments: adjustments).call
+  end
+
+  it 'starts from the KSt taxable income without the KSt Verlustvortrag' do
+    result = calculate
+
+    expect(result).to be_success
+    expect(result.data[:base_data]).to eq(kst_taxable_income: 300_000.0, kst_loss_carryforward: 20_000.0, profit: 320_000.0)
+    expect(result.data[:metadata][:saved_kst_report]).to be true
+    expect(result.data[:adjustments].values).to all(include(value: 0.0, editable: true))
+  end
+
+  context 'with Hinzurechnungen, Kürzungen, Gewerbeverlust and Vorauszahlungen' do
+    subject(:calculated) do
+      calculate(
+        entgelte_fuer_schulden: 250_000.0,
+        mieten_unbewegliche_wirtschaftsgueter: 100_000.0,
+        lizenzen: 40_000.0,
+        grundbesitz: 100_000.0,
+        beteiligungsertraege: 5_000.0,
+        gewerbeverlust: 40_000.0,
+        vorauszahlungen: 40_000.0
+      ).data[:calculated]
+    end
+
+    it 'adds a quarter of the Finanzierungsanteile above the Freibetrag' do
+      # 250.000 + 50 % of 100.000 + 25 % of 40.000 = 310.000, 25 % of 110.000
+      expect(calculated).to include(hinzurechnungen_financing_sum: 310_000.0, hinzurechnungen: 27_500.0)
+    end
+
+    it 'deducts 0,11 % of the Grundsteuerwert from 2025 and the other Kürzungen' do
+      expect(calculated).to include(grundbesitz_kuerzung: 110.0, kuerzungen: 5_110.0)
+    end
+
+    it 'calculates the Gewerbesteuer from the rounded Gewerbeertrag, Messzahl and Hebesatz' do
+      expect(calculated).to include(
+        income_before_loss: 342_390.0,
+        loss_deduction: 40_000.0,
+        trade_income: 302_300.0,
+        base_amount: 10_580.5,
+        hebesatz: 410,
+        gewst_amount: 43_380.05
+      )
+    end
+
+    it 'reduces the Rückstellung by the Vorauszahlungen' do
+      expect(calculated[:provision]).to eq(3_380.05)
+    end
+  end
+
+  it 'uses 1,2 % of 140 % of the Einheitswert before 2025' do
+    fiscal_year.update!(year: 2024, start_date: Date.new(2024, 1, 1), end_date: Date.new(2024, 12, 31))
+
+    expect(calculate(grundbesitz: 100_000.0).data[:calculated][:grundbesitz_kuerzung]).to eq(1_680.0)
+  end
+
+  context 'with a Gewerbeertrag above 1 Mio. €' do
+    let(:taxable_income) { 1_980_000.0 }
+
+    it 'limits the loss deduction (Mindestbesteuerung)' do
+      calculated = calculate(gewerbeverlust: 5_000_000.0).data[:calculated]
+
+      expect(calculated).to include(loss_deduction: 1_600_000.0, remaining_loss: 3_400_000.0, trade_income: 400_000.0)
+    end
+  end
+
+  it 'assumes the default Hebesatz when the company has none and rejects one below the minimum' do
+    company.update!(gewerbesteuer_hebesatz: nil)
+
+    expect(calculate.data).to include(hebesatz_configured: false)
+    expect(calculate.data[:calculated][:hebesatz]).to eq(400)
+    expect(calculate(hebesatz: 150).errors).to eq([ "Hebesatz must be at least 200 %" ])
+  end
+end
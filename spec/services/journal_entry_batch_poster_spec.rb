@@ -0,0 +1,65 @@
+require 'rails_helper'
+
+RSpec.describe JournalEntryBatchPoster do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+  let(:expense) { create(:account, :expense, company: company, code: '4930') }
+  let(:bank) { create(:account, company: company, code: '1200') }
+
+  def draft_entry(date, debit: 50, credit: 50)
+    entry = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: date)
+    create(:line_item, journal_entry: entry, account: expense, amount: debit, direction: 'debit')
+    create(:line_item, journal_entry: entry, account: bank, amount: credit, direction: 'credit')
+    entry
+  end
+
+  let!(:march) { draft_entry(Date.new(2025, 3, 5)) }
+  let!(:april) { draft_entry(Date.new(2025, 4, 10)) }
+
+  it 'previews the drafts up to the date without posting them' do
+    result = described_class.new(fiscal_year: fiscal_year, up_to: '2025-03-31').call(dry_run: true)
+
+    expect(result).to be_success
+    expect(result.items.map(&:journal_entry)).to eq([ march ])
+    expect(march.reload).not_to be_posted
+    expect(fiscal_year.reload.locked_until).to be_nil
+  end
+
+  it 'posts the drafts and records the lock date' do
+    result = described_class.new(fiscal_year: fiscal_year, up_to: '2025-03-31').call(dry_run: false)
+
+    expect(result).to be_success
+    expect(result.posted_count).to eq(1)
+    expect(march.reload).to be_posted
+    expect(april.reload).not_to be_posted
+    expect(fiscal_year.reload.locked_until).to eq(Date.new(2025, 3, 31))
+  end
+
+  it 'posts nothing when one entry is unbalanced' do
+    unbalanced = draft_entry(Date.new(2025, 4, 2))
+    unbalanced.line_items.first.update!(amount: 60)
+
+    result = described_class.new(fiscal_year: fiscal_year, up_to: '2025-04-30').call(dry_run: false)
+
+    expect(result).not_to be_success
+    expect(result.items.find { |item| item.journal_entry == unbalanced }).not_to be_valid
+    expect(march.reload).not_to be_posted
+    expect(fiscal_year.reload.locked_until).to be_nil
+  end
+
+  it 'rejects new bookings on or before the lock date' do
+    described_class.new(fiscal_year: fiscal_year, up_to: '2025-03-31').call(dry_run: false)
+
+    entry = build(:journal_entry, company: company, fiscal_year: fiscal_year.reload, booking_date: Date.new(2025, 3, 31))
+    expect(entry).not_to be_valid
+    expect(entry.errors[:booking_date].first).to include('locked period')
+  end
+
+  it 'does not move the lock date backwards' do
+    fiscal_year.update!(locked_until: Date.new(2025, 3, 31))
+    result = described_class.new(fiscal_year: fiscal_year, up_to: '2025-02-28').call
+
+    expect(result).not_to be_success
+    expect(result.errors.first).to include('already locked')
+  end
+end
@@ -5,5 +5,138 @@ RSpec.describe JournalEntryCreator do
     it "returns an error when fiscal year is closed"
     it "creates the journal entry when fiscal year is open"
     it "creates the fiscal year if it doesn't exist yet"
+
+    context "with split lines" do
+      let(:company) { create(:company) }
+      let(:bank_account) { create(:bank_account, company: company) }
+      let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+      let!(:office_account) { create(:account, :expense, company: company, code: '4930', name: 'Bürobedarf') }
+      let!(:food_account) { create(:account, :expense, company: company, code: '4650', name: 'Bewirtungskosten') }
+      let!(:input_vat_19) { create(:account, :with_vat_19, company: company, account_type: 'asset') }
+      let!(:input_vat_7) { create(:account, :with_vat_7, company: company, account_type: 'asset') }
+      let(:bank_transaction) do
+        create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 4, 2), amount: -226.00)
+      end
+
+      def create_entry(splits)
+        described_class.new(
+          company: company,
+          bank_transaction: bank_transaction,
+          params: { description: 'Einkauf', splits: splits }
+        ).call
+      end
+
+      it "books one entry with a single bank line item and per-split counter lines" do
+        result = create_entry([
+          { account_code: '4930', amount: 119.00, vat_mode: 'vat_19', description: 'Papier' },
+          { account_code: '4650', amount: 107.00, vat_mode: 'vat_7', description: 'Catering' }
+        ])
+
+        expect(result).to be_success
+        line_items = result.journal_entry.line_items
+
+        bank_line = line_items.find_by(bank_transaction: bank_transaction)
+        expect(bank_line.amount).to eq(226.00)
+        expect(bank_line.direction).to eq('credit')
+        expect(line_items.where.not(bank_transaction_id: nil).count).to eq(1)
+
+        expect(line_items.find_by(account: office_account)).to have_attributes(amount: 100.00, description: 'Papier')
+        expect(line_items.find_by(account: input_vat_19).amount).to eq(19.00)
+        expect(line_items.find_by(account: food_account)).to have_attributes(amount: 100.00, description: 'Catering')
+        expect(line_items.find_by(account: input_vat_7).amount).to eq(7.00)
+        expect(bank_transaction.reload).to be_booked
+      end
+
+      it "books splits by tax key and tags their net and VAT lines" do
+        result = create_entry([
+          { account_code: '4930', amount: 119.00, tax_key: '9' },
+          { account_code: '4650', amount: 107.00, tax_key: '8' }
+        ])
+
+        expect(result).to be_success
+        line_items = result.journal_entry.line_items
+        expect(line_items.find_by(account: office_account)).to have_attributes(amount: 100.00, tax_key_code: '9')
+        expect(line_items.find_by(account: input_vat_19)).to have_attributes(amount: 19.00, tax_key_code: '9')
+        expect(line_items.find_by(account: input_vat_7)).to have_attributes(amount: 7.00, tax_key_code: '8')
+        expect(line_items.find_by(bank_transaction: bank_transaction).tax_key_code).to be_nil
+      end
+
+      it "keeps the USt-IdNr. of the customer" do
+        result = described_class.new(
+          company: company,
+          bank_transaction: bank_transaction,
+          params: { account_code: '4930', counterparty_vat_id: 'ATU12345678' }
+        ).call
+
+        expect(result).to be_success
+        expect(result.journal_entry.counterparty_vat_id).to eq('ATU12345678')
+      end
+
+      it "fails for an unknown tax key" do
+        result = create_entry([ { account_code: '4930', amount: 226.00, tax_key: '77' } ])
+
+        expect(result).not_to be_success
+        expect(result.errors).to eq([ 'Unknown tax key 77' ])
+      end
+
+      it "fails when the split amounts do not add up to the transaction amount" do
+        result = create_entry([
+          { account_code: '4930', amount: 100.00, vat_mode: 'none' },
+          { account_code: '4650', amount: 100.00, vat_mode: 'none' }
+        ])
+
+        expect(result).not_to be_success
+        expect(result.errors.first).to include('do not match the transaction amount')
+        expect(bank_transaction.reload.status).to eq('pending')
+      end
+    end
+
+    context "with several bank transactions" do
+      let(:company) { create(:company) }
+      let(:bank_account) { create(:bank_account, company: company) }
+      let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+      let!(:receivables) { create(:account, :asset, company: company, code: '1400', name: 'Forderungen') }
+      let(:instalments) do
+        [
+          create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 5, 2), amount: 500.00),
+          create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 6, 2), amount: 500.00),
+          create(:bank_transaction, bank_account: bank_account, booking_date: Date.new(2025, 7, 1), amount: 190.00)
+        ]
+      end
+
+      it "creates one entry with a bank line item per transaction against a single counter line" do
+        result = described_class.new(
+          company: company,
+          bank_transactions: instalments,
+          params: { account_code: '1400' }
+        ).call
+
+        expect(result).to be_success
+        journal_entry = result.journal_entry
+        expect(journal_entry.booking_date).to eq(Date.new(2025, 7, 1))
+        expect(journal_entry.description).to eq('Aggregated booking of 3 bank transactions')
+
+        bank_lines = journal_entry.line_items.where.not(bank_transaction_id: nil)
+        expect(bank_lines.map(&:bank_transaction)).to match_array(instalments)
+        expect(bank_lines.map(&:direction).uniq).to eq([ 'debit' ])
+
+        counter_line = journal_entry.line_items.find_by(account: receivables)
+        expect(counter_line).to have_attributes(amount: 1190.00, direction: 'credit')
+        expect(instalments.map { |bt| bt.reload.status }.uniq).to eq([ 'booked' ])
+      end
+
+      it "refuses transactions that are already booked" do
+        instalments.first.mark_as_booked!
+
+        result = described_class.new(
+          company: company,
+          bank_transactions: instalments,
+          params: { account_code: '1400' }
+        ).call
+
+        expect(result).not_to be_success
+        expect(instalments.last.reload.status).to eq('pending')
+      end
+    end
   end
 end
@@ -0,0 +1,108 @@
+require 'rails_helper'
+
+RSpec.describe JournalEntryReverser do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025) }
+  let(:expense) { create(:account, :expense, company: company, code: '4930') }
+  let(:bank) { create(:account, company: company, code: '1200') }
+
+  let(:journal_entry) do
+    entry = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 3, 5), description: 'Papier')
+    create(:line_item, journal_entry: entry, account: expense, amount: 50, direction: 'debit', description: 'Druckerpapier')
+    create(:line_item, journal_entry: entry, account: bank, amount: 50, direction: 'credit')
+    entry.post!
+    entry
+  end
+
+  it 'books a posted Storno with mirrored line items' do
+    result = described_class.new(journal_entry: journal_entry, booking_date: '2025-04-01').call
+
+    expect(result).to be_success
+    storno = result.journal_entry
+    expect(storno).to be_posted
+    expect(storno.booking_date).to eq(Date.new(2025, 4, 1))
+    expect(storno.description).to eq('Storno: Papier')
+    expect(storno.line_items.map { |li| [ li.account.code, li.direction, li.amount, li.description ] }).to contain_exactly(
+      [ '4930', 'credit', 50, 'Druckerpapier' ], [ '1200', 'debit', 50, nil ]
+    )
+  end
+
+  it 'reverses the UStVA tax base and tax of bookings with a tax key' do
+    revenue = create(:account, company: company, code: '4000', name: 'Revenue', account_type: 'revenue')
+    vat = create(:account, company: company, code: TaxKey.find('3').vat_account_code, name: 'USt 19%', account_type: 'liability')
+    sale = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 3, 5))
+    create(:line_item, journal_entry: sale, account: bank, amount: 119, direction: 'debit')
+    create(:line_item, journal_entry: sale, account: revenue, amount: 100, direction: 'credit', tax_key_code: '3')
+    create(:line_item, journal_entry: sale, account: vat, amount: 19, direction: 'credit', tax_key_code: '3')
+    sale.post!
+
+    storno = described_class.new(journal_entry: sale, booking_date: '2025-03-20').call.journal_entry
+
+    expect(storno.line_items.map(&:tax_key_code)).to contain_exactly(nil, '3', '3')
+    ustva = UstvaService.new(company: company, start_date: Date.new(2025, 3, 1), end_date: Date.new(2025, 3, 31)).call.data
+    expect(ustva[:fields].find { |field| field[:key] == :kz_81 }).to include(base_value: 0.0, value: 0.0)
+  end
+
+  it 'keeps the customer USt-IdNr. on the Storno' do
+    journal_entry.update_column(:counterparty_vat_id, 'ATU12345678')
+
+    storno = described_class.new(journal_entry: journal_entry, booking_date: '2025-04-01').call.journal_entry
+
+    expect(storno.counterparty_vat_id).to eq('ATU12345678')
+  end
+
+  it 'links the Storno and the original entry' do
+    storno = described_class.new(journal_entry: journal_entry, booking_date: '2025-04-01').call.journal_entry
+
+    expect(storno.reversal_of).to eq(journal_entry)
+    expect(journal_entry.reload.reversal).to eq(storno)
+    expect(journal_entry).to be_reversed
+  end
+
+  it 'reverses an entry only once' do
+    described_class.new(journal_entry: journal_entry, booking_date: '2025-04-01').call
+    result = described_class.new(journal_entry: journal_entry.reload, booking_date: '2025-04-02').call
+
+    expect(result).not_to be_success
+    expect(result.errors).to include('Journal entry has already been reversed')
+  end
+
+  it 'books no Storno when it cannot be posted' do
+    journal_entry
+    allow_any_instance_of(JournalEntry).to receive(:post!) do |storno|
+      storno.errors.add(:base, 'Voucher number is taken')
+      false
+    end
+
+    result = described_class.new(journal_entry: journal_entry, booking_date: '2025-04-01').call
+
+    expect(result).not_to be_success
+    expect(result.errors).to eq([ 'Validation failed: Voucher number is taken' ])
+    expect(company.journal_entries.count).to eq(1)
+    expect(journal_entry.reload).not_to be_reversed
+  end
+
+  it 'rejects draft entries' do
+    draft = create(:journal_entry, company: company, fiscal_year: fiscal_year)
+    result = described_class.new(journal_entry: draft, booking_date: Date.current).call
+
+    expect(result).not_to be_success
+    expect(result.errors.first).to include('Only posted journal entries')
+  end
+
+  it 'rejects a Storno date before the original booking' do
+    result = described_class.new(journal_entry: journal_entry, booking_date: '2025-03-01').call
+
+    expect(result).not_to be_success
+    expect(result.errors).to include('Storno date cannot be before the original booking date')
+  end
+
+  it 'books into the next open year when the original year is closed' do
+    journal_entry
+    fiscal_year.update!(closed: true)
+    result = described_class.new(journal_entry: journal_entry, booking_date: '2026-01-10').call
+
+    expect(result).to be_success
+    expect(result.journal_entry.fiscal_year.year).to eq(2026)
+  end
+end
@@ -0,0 +1,95 @@
+require 'rails_helper'
+
+RSpec.describe Mt940StatementParser do
+  let(:mt940) do
+    <<~STA
+      :20:STARTUMSE
+      :25:37040044/0532013000
+      :28C:00001/001
+      :60F:C240531EUR1000,00
+      :61:2406120612DR119,50NMSCNONREF//BANK0001
+      :86:177?00SEPA-UEBERWEISUNG?109310?20EREF+E2E-4711?21SVWZ+Invoice 2024-118 Cus
+      ?22tomer 42?30COBADEFFXXX?31DE02120300000000202051?32Office Supplies?33 GmbH
+      :61:2406200620CR500,00NMSCNONREF
+      :86:166?00GUTSCHRIFT?20Payment for order?2112345?32Customer AG?31DE44500105175407324931
+      :62F:C240630EUR1380,50
+      -
+    STA
+  end
+
+  describe '.mt940?' do
+    it 'detects MT940 data' do
+      expect(described_class.mt940?(mt940)).to be true
+      expect(described_class.mt940?("Buchungstag;Betrag\n12.06.2024;-1,00")).to be false
+    end
+  end
+
+  describe '#parse' do
+    it 'parses statement lines with signed amounts and dates' do
+      results = described_class.new(mt940).parse
+
+      expect(results.length).to eq(2)
+      expect(results[0].amount).to eq(-119.50)
+      expect(results[0].value_date).to eq(Date.new(2024, 6, 12))
+      expect(results[0].booking_date).to eq(Date.new(2024, 6, 12))
+      expect(results[1].amount).to eq(500.0)
+    end
+
+    it 'maps SEPA purpose, counterparty name and IBAN from :86: subfields' do
+      results = described_class.new(mt940).parse
+
+      expect(results[0].remittance_information).to eq('Invoice 2024-118 Customer 42')
+      expect(results[0].counterparty_name).to eq('Office Supplies GmbH')
+      expect(results[0].counterparty_iban).to eq('DE02120300000000202051')
+      expect(results[0].end_to_end_id).to eq('E2E-4711')
+      expect(results[0].transaction_code).to eq('177')
+      expect(results[0].posting_text).to eq('SEPA-UEBERWEISUNG')
+    end
+
+    it 'joins non-SEPA purpose subfields with spaces' do
+      results = described_class.new(mt940).parse
+
+      expect(results[1].remittance_information).to eq('Payment for order 12345')
+      expect(results[1].counterparty_name).to eq('Customer AG')
+      expect(results[1].counterparty_iban).to eq('DE44500105175407324931')
+    end
+
+    it 'reads opening and closing balances' do
+      parser = described_class.new(mt940)
+      parser.parse
+
+      statement = parser.statements.first
+      expect(statement.opening_balance).to eq(1000.0)
+      expect(statement.opening_date).to eq(Date.new(2024, 5, 31))
+      expect(statement.closing_balance).to eq(1380.50)
+      expect(statement.closing_date).to eq(Date.new(2024, 6, 30))
+      expect(statement.currency).to eq('EUR')
+    end
+
+    it 'picks the booking date year across year boundaries' do
+      data = ":20:X\n:60F:C231231EUR0,00\n:61:2312310102D10,00NMSCNONREF\n:86:Fee\n-"
+
+      result = described_class.new(data).parse.first
+      expect(result.value_date).to eq(Date.new(2023, 12, 31))
+      expect(result.booking_date).to eq(Date.new(2024, 1, 2))
+      expect(result.remittance_information).to eq('Fee')
+    end
+
+    it 'treats reversals of debits as credits' do
+      data = ":20:X\n:60F:C240101EUR0,00\n:61:240105RD25,00NMSCNONREF\n-"
+
+      expect(described_class.new(data).parse.first.amount).to eq(25.0)
+    end
+
+    it 'returns empty array for blank input' do
+      expect(described_class.new('').parse).to eq([])
+      expect(described_class.new(nil).parse).to eq([])
+    end
+
+    it 'raises a parse error for malformed statement lines' do
+      data = ":20:X\n:60F:C240101EUR0,00\n:61:garbage\n-"
+
+      expect { described_class.new(data).parse }.to raise_error(Mt940StatementParser::ParseError)
+    end
+  end
+end
@@ -0,0 +1,47 @@
+require 'rails_helper'
+
+RSpec.describe PdfDocument do
+  let(:pdf) { described_class.new }
+
+  def xref_offsets(output)
+    output[/^xref\n0 \d+\n(.*?)^trailer/mn, 1].lines.drop(1).map(&:to_i)
+  end
+
+  it 'writes a PDF 1.4 file' do
+    pdf.line('Summen- und Saldenliste', font: :heading, size: 14)
+    output = pdf.render
+
+    expect(output.encoding).to eq(Encoding::BINARY)
+    expect(output).to start_with('%PDF-1.4')
+    expect(output).to end_with("%%EOF\n")
+  end
+
+  it 'points the xref table at the objects' do
+    pdf.line('Konto 1200')
+    output = pdf.render
+    offsets = xref_offsets(output)
+
+    expect(offsets.size).to eq(output[%r{/Size (\d+)}n, 1].to_i - 1)
+    offsets.each_with_index do |offset, index|
+      expect(output.byteslice(offset, 20)).to start_with("#{index + 1} 0 obj")
+    end
+    expect(output.byteslice(output[/startxref\n(\d+)/n, 1].to_i, 4)).to eq('xref')
+  end
+
+  it 'starts a new page with the repeated lines when the page is full' do
+    pdf.repeated_lines = [ [ 'Konto Bezeichnung', :bold, 8 ] ]
+    100.times { |index| pdf.line("Zeile #{index}") }
+    output = pdf.render
+
+    expect(output).to include('/Count 3')
+    expect(output.scan(%r{/Type /Page }n).size).to eq(3)
+    expect(output.scan(/\(Konto Bezeichnung\) Tj/n).size).to eq(2)
+    expect(output).to include('(Seite 3 von 3) Tj')
+  end
+
+  it 'writes umlauts in WinAnsiEncoding and escapes parentheses and backslashes' do
+    pdf.line('Bürobedarf (Büro) \\ Rückstellung')
+
+    expect(pdf.render).to include("(B\xFCrobedarf \\(B\xFCro\\) \\\\ R\xFCckstellung) Tj".b)
+  end
+end
@@ -0,0 +1,68 @@
+require 'rails_helper'
+
+RSpec.describe PreviousYearComparison do
+  let(:previous_fiscal_year) { build_stubbed(:fiscal_year, year: 2023) }
+
+  def section(key, accounts, children: nil)
+    total = accounts.sum { |a| a[:balance] } + (children || []).sum { |c| c[:total] }
+    {
+      section_key: key, section_name: key.to_s, level: 1, accounts: accounts,
+      own_total: accounts.sum { |a| a[:balance] }, total: total,
+      account_count: accounts.size, total_account_count: accounts.size, children: children
+    }.compact
+  end
+
+  def account(code, balance)
+    { code: code, name: "Konto #{code}", balance: balance }
+  end
+
+  let(:current) do
+    {
+      aktiva: { sections: { umlaufvermoegen: section(:umlaufvermoegen, [ account("1200", 500) ]) }, total: 500 },
+      passiva: { sections: { eigenkapital: section(:eigenkapital, [ account("0800", 500) ]) }, total: 500 },
+      guv: {
+        sections: [ { key: :umsatzerloese, label: "Umsatzerlöse", accounts: [ account("8400", 300) ], subtotal: 300 } ],
+        net_income: 300
+      }
+    }
+  end
+
+  let(:previous) do
+    {
+      aktiva: {
+        sections: {
+          anlagevermoegen: section(:anlagevermoegen, [ account("0100", 1000) ]),
+          umlaufvermoegen: section(:umlaufvermoegen, [ account("1000", 50), account("1200", 400) ])
+        },
+        total: 1450
+      },
+      passiva: { sections: { eigenkapital: section(:eigenkapital, [ account("0800", 1450) ]) }, total: 1450 },
+      guv: {
+        sections: [ { key: "umsatzerloese", label: "Umsatzerlöse", accounts: [ account("8400", 250) ], subtotal: 250 } ],
+        net_income: 250
+      }
+    }
+  end
+
+  subject(:data) { described_class.new(current: current, previous: previous, previous_fiscal_year: previous_fiscal_year).call }
+
+  it 'adds previous totals and balances' do
+    umlaufvermoegen = data[:aktiva][:sections][:umlaufvermoegen]
+
+    expect(data[:aktiva][:previous_total]).to eq(1450)
+    expect(umlaufvermoegen[:previous_total]).to eq(450)
+    expect(umlaufvermoegen[:accounts].map { |a| [ a[:code], a[:balance], a[:previous_balance] ] })
+      .to eq([ [ "1000", 0, 50 ], [ "1200", 500, 400 ] ])
+  end
+
+  it 'adds sections that only had balances in the previous year in their order' do
+    expect(data[:aktiva][:sections].keys).to eq(%i[anlagevermoegen umlaufvermoegen])
+    expect(data[:aktiva][:sections][:anlagevermoegen].values_at(:total, :previous_total)).to eq([ 0, 1000 ])
+  end
+
+  it 'compares the GuV sections and net income' do
+    expect(data[:guv][:sections].first[:previous_subtotal]).to eq(250)
+    expect(data[:guv][:previous_net_income]).to eq(250)
+    expect(data[:previous_year]).to eq(fiscal_year_id: previous_fiscal_year.id, year: 2023, stored: false)
+  end
+end
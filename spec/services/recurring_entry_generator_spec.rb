@@ -0,0 +1,67 @@
+require 'rails_helper'
+
+RSpec.describe RecurringEntryGenerator do
+  let(:company) { create(:company) }
+  let!(:fiscal_year) { create(:fiscal_year, company: company, year: 2026) }
+  let!(:rent) { create(:account, :expense, company: company, code: '4210') }
+  let!(:bank) { create(:account, company: company, code: '1200') }
+  let!(:template) { create(:recurring_entry_template, company: company, start_date: Date.new(2026, 1, 1)) }
+
+  def generator(as_of = Date.new(2026, 3, 15))
+    described_class.new(company: company, as_of: as_of)
+  end
+
+  it 'lists every scheduled date without an entry' do
+    items = generator.call.items
+
+    expect(items.map(&:booking_date)).to eq([ Date.new(2026, 1, 1), Date.new(2026, 2, 1), Date.new(2026, 3, 1) ])
+    expect(items.first.description).to eq('Miete 01/2026')
+    expect(items.first.amount).to eq(1200)
+    expect(JournalEntry.count).to eq(0)
+  end
+
+  it 'generates drafts linked to the template only once' do
+    result = generator.call(dry_run: false)
+
+    expect(result).to be_success
+    expect(result.journal_entries.size).to eq(3)
+    expect(result.journal_entries).to all(satisfy { |entry| !entry.posted? && entry.recurring_entry_template == template })
+    expect(template.journal_entries.count).to eq(3)
+    expect(generator.call.items).to be_empty
+  end
+
+  it 'computes formula amounts from account balances' do
+    loan = create(:account, company: company, code: '0650', account_type: 'liability')
+    interest = create(:account, :expense, company: company, code: '2110')
+    opening = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2026, 1, 1))
+    create(:line_item, journal_entry: opening, account: bank, amount: 120_000, direction: 'debit')
+    create(:line_item, journal_entry: opening, account: loan, amount: 120_000, direction: 'credit')
+
+    formula = 'round(balance(0650) * 0.045 / 12, 2)'
+    create(:recurring_entry_template, company: company, name: 'Loan interest', start_date: Date.new(2026, 1, 31), day_of_month: 31,
+      lines: [
+        { 'account_code' => interest.code, 'direction' => 'debit', 'amount_type' => 'formula', 'formula' => formula },
+        { 'account_code' => bank.code, 'direction' => 'credit', 'amount_type' => 'formula', 'formula' => formula }
+      ])
+
+    item = generator(Date.new(2026, 1, 31)).call.items.find { |i| i.template.name == 'Loan interest' }
+    expect(item).to be_valid
+    expect(item.amount).to eq(450)
+  end
+
+  it 'reports dates in the locked period as problems' do
+    fiscal_year.update!(locked_until: Date.new(2026, 1, 31))
+    result = generator.call(dry_run: false)
+
+    expect(result).not_to be_success
+    expect(result.journal_entries.map(&:booking_date)).to eq([ Date.new(2026, 2, 1), Date.new(2026, 3, 1) ])
+    expect(result.errors.first).to include('locked period')
+  end
+
+  it 'skips dates in closed fiscal years' do
+    template.update!(start_date: Date.new(2025, 12, 1))
+    create(:fiscal_year, :closed, company: company, year: 2025)
+
+    expect(generator.call.items.map(&:booking_date)).not_to include(Date.new(2025, 12, 1))
+  end
+end
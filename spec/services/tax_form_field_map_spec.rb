@@ -7,7 +7,8 @@ RSpec.describe TaxFormFieldMap do
 
       expect(fields).to be_a(Hash)
       expect(fields).to be_frozen
-      expect(fields.keys).to include(:kz_81, :kz_86, :kz_66, :kz_61, :kz_46, :kz_47, :kz_83)
+      expect(fields.keys).to include(:kz_81, :kz_86, :kz_41, :kz_43, :kz_48, :kz_89, :kz_93, :kz_46, :kz_84,
+        :kz_21, :kz_45, :kz_66, :kz_61, :kz_62, :kz_67, :kz_64, :kz_59, :kz_83)
     end
 
     it 'includes required field attributes' do
@@ -15,7 +16,7 @@ RSpec.describe TaxFormFieldMap do
 
       expect(field).to include(:field_number, :name, :description, :calculation_type, :section, :display_order)
       expect(field[:field_number]).to eq(81)
-      expect(field[:name]).to eq("Umsatzsteuer 19%")
+      expect(field[:name]).to eq("Steuerpflichtige Umsätze 19%")
       expect(field[:section]).to eq(:output_vat)
     end
   end
@@ -25,7 +26,7 @@ RSpec.describe TaxFormFieldMap do
       field = described_class.ustva_field(:kz_81)
 
       expect(field[:field_number]).to eq(81)
-      expect(field[:name]).to eq("Umsatzsteuer 19%")
+      expect(field[:name]).to eq("Steuerpflichtige Umsätze 19%")
     end
 
     it 'raises ArgumentError for an invalid field key' do
@@ -56,7 +57,7 @@ RSpec.describe TaxFormFieldMap do
 
       expect(fields).to be_an(Array)
       expect(fields.first[:display_order]).to eq(1)
-      expect(fields.last[:display_order]).to eq(7)
+      expect(fields.last[:display_order]).to eq(18)
 
       # Verify they're in ascending order
       display_orders = fields.map { |f| f[:display_order] }
@@ -72,6 +73,13 @@ RSpec.describe TaxFormFieldMap do
       expect(sections.keys).to include(:output_vat, :input_vat, :reverse_charge, :summary)
     end
 
+    it 'follows the section order of the official form' do
+      expect(described_class.ustva_fields_by_section.keys).to eq(%i[
+        output_vat tax_free_with_input_tax tax_free_without_input_tax intra_community_acquisitions
+        reverse_charge supplementary input_vat summary
+      ])
+    end
+
     it 'groups output VAT fields correctly' do
       output_vat = described_class.ustva_fields_by_section[:output_vat]
 
@@ -82,7 +90,7 @@ RSpec.describe TaxFormFieldMap do
     it 'groups input VAT fields correctly' do
       input_vat = described_class.ustva_fields_by_section[:input_vat]
 
-      expect(input_vat.keys).to include(:kz_66, :kz_61)
+      expect(input_vat.keys).to eq(%i[kz_66 kz_61 kz_62 kz_67 kz_64 kz_59])
     end
 
     it 'sorts fields within each section by display_order' do
@@ -152,7 +160,7 @@ RSpec.describe TaxFormFieldMap do
   describe '.ustva_section_label' do
     it 'returns the correct label for output_vat' do
       label = described_class.ustva_section_label(:output_vat)
-      expect(label).to eq("Umsatzsteuer (Output VAT)")
+      expect(label).to eq("Steuerpflichtige Umsätze (Taxable Supplies)")
     end
 
     it 'returns the correct label for input_vat' do
@@ -213,12 +221,48 @@ RSpec.describe TaxFormFieldMap do
   end
 
   describe 'VAT account mapping' do
-    it 'uses correct VAT account codes from Account::VAT_ACCOUNTS' do
+    it 'reports the VAT accounts of the tax keys under their Kennziffer' do
       kz_81 = described_class.ustva_field(:kz_81)
-      expect(kz_81[:accounts]).to include(Account::VAT_ACCOUNTS[:output_19])
+      expect(kz_81[:calculation_type]).to eq(:tax_key)
+      expect(TaxKey.find("3").vat_account_codes_for_field(kz_81[:field_number])).to eq([ "1776" ])
 
       kz_66 = described_class.ustva_field(:kz_66)
-      expect(kz_66[:accounts]).to include(Account::VAT_ACCOUNTS[:input_19])
+      expect(TaxKey.find("9").vat_account_codes_for_field(kz_66[:field_number])).to eq([ "1576" ])
+    end
+
+    it 'reports the § 13b tax under the tax Kennziffer of the line' do
+      kz_46 = described_class.ustva_field(:kz_46)
+
+      expect(kz_46[:tax_field_number]).to eq(47)
+      expect(TaxKey.find("94").vat_account_codes_for_field(kz_46[:tax_field_number])).to eq([ "1787" ])
+    end
+
+    it 'maps revenue and tax accounts without tax key per chart' do
+      expect(described_class.ustva_accounts("SKR03")[:bases]["8125"]).to eq(41)
+      expect(described_class.ustva_accounts("SKR04")[:bases]["4125"]).to eq(41)
+      expect(described_class.ustva_accounts("SKR03")[:taxes]["1588"]).to eq(62)
+      expect(described_class.ustva_accounts("unknown")).to eq(described_class.ustva_accounts("SKR03"))
+    end
+  end
+
+  describe '.gewst_fields_by_section' do
+    it 'groups the editable GewSt adjustments by section' do
+      sections = described_class.gewst_fields_by_section
+
+      expect(sections.keys).to eq(%i[hinzurechnungen kuerzungen verlust_und_vorauszahlungen])
+      expect(sections.values.flat_map(&:keys)).to match_array(described_class.gewst_editable_fields.keys)
+    end
+
+    it 'applies the § 8 Nr. 1 GewStG factors to the Finanzierungsanteile' do
+      factors = described_class.gewst_fields_by_section[:hinzurechnungen].transform_values { |field| field[:hinzurechnung_factor] }
+
+      expect(factors).to include(
+        entgelte_fuer_schulden: 1.0,
+        mieten_bewegliche_wirtschaftsgueter: 0.2,
+        mieten_unbewegliche_wirtschaftsgueter: 0.5,
+        lizenzen: 0.25,
+        sonstige_hinzurechnungen: nil
+      )
     end
   end
 end
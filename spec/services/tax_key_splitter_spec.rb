@@ -0,0 +1,55 @@
+require 'rails_helper'
+
+RSpec.describe TaxKeySplitter do
+  def split(key, debit_code:, credit_code:, amount:, keyed_code: nil)
+    described_class.new(key && TaxKey.find(key))
+      .lines(debit_code: debit_code, credit_code: credit_code, amount: amount.to_d, keyed_code: keyed_code)
+      .map { |line| [ line.account_code, line.direction, line.amount, line.tax_key_code ] }
+  end
+
+  it 'books a plain pair without a key' do
+    expect(split(nil, debit_code: '4930', credit_code: '1200', amount: 50)).to eq([
+      [ '4930', 'debit', 50, nil ], [ '1200', 'credit', 50, nil ]
+    ])
+  end
+
+  context 'with an input key' do
+    it 'splits a purchase on the debit side' do
+      expect(split('9', debit_code: '4930', credit_code: '1200', amount: 119, keyed_code: '4930')).to contain_exactly(
+        [ '4930', 'debit', 100, '9' ], [ '1576', 'debit', 19, '9' ], [ '1200', 'credit', 119, nil ]
+      )
+    end
+
+    it 'splits a refund on the credit side and reduces the input VAT' do
+      expect(split('9', debit_code: '1200', credit_code: '4930', amount: 119, keyed_code: '4930')).to contain_exactly(
+        [ '1200', 'debit', 119, nil ], [ '4930', 'credit', 100, '9' ], [ '1576', 'credit', 19, '9' ]
+      )
+    end
+  end
+
+  context 'with an output key' do
+    it 'splits a sale on the credit side' do
+      expect(split('3', debit_code: '1200', credit_code: '8400', amount: 119, keyed_code: '8400')).to contain_exactly(
+        [ '1200', 'debit', 119, nil ], [ '8400', 'credit', 100, '3' ], [ '1776', 'credit', 19, '3' ]
+      )
+    end
+
+    it 'splits a credit note on the debit side and reduces the output VAT' do
+      expect(split('3', debit_code: '8400', credit_code: '1200', amount: 119, keyed_code: '8400')).to contain_exactly(
+        [ '8400', 'debit', 100, '3' ], [ '1776', 'debit', 19, '3' ], [ '1200', 'credit', 119, nil ]
+      )
+    end
+  end
+
+  it 'reverses both §13b VAT lines for a credit note' do
+    expect(split('94', debit_code: '1200', credit_code: '3100', amount: 100, keyed_code: '3100')).to contain_exactly(
+      [ '3100', 'credit', 100, '94' ], [ '1200', 'debit', 100, nil ], [ '1577', 'credit', 19, '94' ], [ '1787', 'debit', 19, '94' ]
+    )
+  end
+
+  it 'falls back to the side of the key without a keyed account' do
+    expect(split('3', debit_code: '1200', credit_code: nil, amount: 119)).to contain_exactly(
+      [ '1200', 'debit', 119, nil ], [ '1776', 'credit', 19, '3' ]
+    )
+  end
+end
@@ -0,0 +1,69 @@
+require 'rails_helper'
+
+RSpec.describe TrialBalanceExport do
+  let(:company) { build(:company, name: 'Muster GmbH') }
+  let(:fiscal_year) { build(:fiscal_year, company: company, year: 2025) }
+
+  def amounts(opening_balance, period_debit, period_credit, ytd_debit, ytd_credit)
+    {
+      opening_balance: opening_balance.to_d, period_debit: period_debit.to_d, period_credit: period_credit.to_d,
+      ytd_debit: ytd_debit.to_d, ytd_credit: ytd_credit.to_d,
+      closing_balance: (opening_balance + ytd_debit - ytd_credit).to_d
+    }
+  end
+
+  let(:bank) { { code: '1200', name: 'Bank', **amounts(5000, 1234.5, 200, 2000, 300) } }
+  let(:rent) { { code: '4210', name: 'Miete; "Büro" Köln', **amounts(0, 800, 0, 800, 0) } }
+  let(:equity) { { code: '0800', name: 'Gezeichnetes Kapital', **amounts(-25000, 0, 0, 0, 0) } }
+  let(:data) do
+    {
+      from: Date.new(2025, 3, 1),
+      to: Date.new(2025, 3, 31),
+      groups: [
+        { key: 'assets', name: 'Aktiva', accounts: [ bank ], totals: amounts(5000, 1234.5, 200, 2000, 300) },
+        { key: 'equity', name: 'Eigenkapital', accounts: [ equity ], totals: amounts(-25000, 0, 0, 0, 0) },
+        { key: 'expenses', name: 'Aufwand', accounts: [ rent ], totals: amounts(0, 800, 0, 800, 0) }
+      ],
+      totals: amounts(-20000, 2034.5, 200, 2800, 300)
+    }
+  end
+
+  subject(:export) { described_class.new(company: company, fiscal_year: fiscal_year, data: data) }
+
+  it 'names the file after the period' do
+    expect(export.filename('csv')).to eq('Summen_und_Saldenliste_20250301_20250331.csv')
+  end
+
+  describe '#to_csv' do
+    let(:lines) { export.to_csv.split("\r\n") }
+
+    it 'writes the header behind a byte order mark' do
+      expect(lines.first).to eq("\uFEFF" + TrialBalanceExport::COLUMNS.map { |column| "\"#{column}\"" }.join(';'))
+    end
+
+    it 'writes unsigned amounts with decimal commas and S/H markers' do
+      expect(lines[1]).to eq('"1200";"Bank";"Aktiva";"5000,00";"S";"1234,50";"200,00";"2000,00";"300,00";"6700,00";"S"')
+      expect(lines[2]).to eq('"0800";"Gezeichnetes Kapital";"Eigenkapital";"25000,00";"H";"0,00";"0,00";"0,00";"0,00";"25000,00";"H"')
+      expect(lines.last).to eq(';"Summe";;"20000,00";"H";"2034,50";"200,00";"2800,00";"300,00";"17500,00";"H"')
+    end
+
+    it 'quotes semicolons and doubles quotes in account names' do
+      expect(lines[3]).to eq('"4210";"Miete; ""Büro"" Köln";"Aufwand";"0,00";"";"800,00";"0,00";"800,00";"0,00";"800,00";"S"')
+    end
+  end
+
+  describe '#to_pdf' do
+    let(:pdf) { export.to_pdf }
+
+    it 'writes a one page PDF with thousands separators and S/H markers' do
+      expect(pdf).to start_with('%PDF-1.4')
+      expect(pdf).to include('/Count 1')
+      expect(pdf).to include('25.000,00 H')
+      expect(pdf).to include('1.234,50')
+    end
+
+    it 'writes the company and the period in WinAnsiEncoding' do
+      expect(pdf).to include("(Muster GmbH \x96 Zeitraum 01.03.2025 bis 31.03.2025 \\(Gesch\xE4ftsjahr 2025\\)) Tj".b)
+    end
+  end
+end
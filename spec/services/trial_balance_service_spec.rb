@@ -0,0 +1,59 @@
+require 'rails_helper'
+
+RSpec.describe TrialBalanceService do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 12, 31)) }
+  let!(:bank_account) { create(:account, company: company, code: "1200", name: "Bank", account_type: "asset") }
+  let!(:capital_account) { create(:account, company: company, code: "0800", name: "Gezeichnetes Kapital", account_type: "equity") }
+  let!(:revenue_account) { create(:account, company: company, code: "8400", name: "Erlöse 19% USt", account_type: "revenue") }
+
+  def book(debit:, credit:, amount:, booking_date:, entry_type: "normal")
+    je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: booking_date, entry_type: entry_type)
+    create(:line_item, journal_entry: je, account: debit, amount: amount, direction: "debit")
+    create(:line_item, journal_entry: je, account: credit, amount: amount, direction: "credit")
+    je.post!
+  end
+
+  before do
+    book(debit: bank_account, credit: capital_account, amount: 25000, booking_date: Date.new(2025, 1, 1), entry_type: "opening")
+    book(debit: bank_account, credit: revenue_account, amount: 1000, booking_date: Date.new(2025, 1, 15))
+    book(debit: bank_account, credit: revenue_account, amount: 500, booking_date: Date.new(2025, 2, 10))
+  end
+
+  def row_for(result, code)
+    result.data[:groups].flat_map { |group| group[:accounts] }.find { |row| row[:code] == code }
+  end
+
+  it 'reports opening balance, period and year-to-date sums and closing balance' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year, from: Date.new(2025, 2, 1), to: Date.new(2025, 2, 28)).call
+
+    expect(result).to be_success
+    bank = row_for(result, "1200")
+    expect(bank.values_at(:opening_balance, :period_debit, :period_credit, :ytd_debit, :ytd_credit, :closing_balance))
+      .to eq([ 25000, 500, 0, 1500, 0, 26500 ])
+    expect(row_for(result, "8400")[:closing_balance]).to eq(-1500)
+  end
+
+  it 'groups accounts by Kontenklasse' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year).call
+
+    expect(result.data[:groups].map { |group| group[:key] }).to eq(%w[0 1 8])
+    expect(result.data[:groups].last[:name]).to eq("Klasse 8 – Erlöskonten")
+    expect(result.data[:totals][:closing_balance]).to eq(0)
+  end
+
+  it 'leaves out closing entries' do
+    book(debit: revenue_account, credit: bank_account, amount: 1500, booking_date: Date.new(2025, 12, 31), entry_type: "closing")
+
+    result = described_class.new(company: company, fiscal_year: fiscal_year).call
+
+    expect(row_for(result, "8400")[:closing_balance]).to eq(-1500)
+  end
+
+  it 'rejects a period outside the fiscal year' do
+    result = described_class.new(company: company, fiscal_year: fiscal_year, from: Date.new(2024, 12, 1), to: Date.new(2025, 1, 31)).call
+
+    expect(result).not_to be_success
+    expect(result.errors).to include("The period must lie within fiscal year 2025")
+  end
+end
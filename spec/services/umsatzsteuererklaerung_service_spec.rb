@@ -0,0 +1,89 @@
+require 'rails_helper'
+
+RSpec.describe UmsatzsteuererklaerungService do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 12, 31)) }
+  let!(:bank_account) { create(:account, company: company, code: "1200", name: "Bank", account_type: "asset") }
+  let!(:revenue_account) { create(:account, company: company, code: "4000", name: "Revenue", account_type: "revenue") }
+  let!(:vat_output_19_account) { create(:account, company: company, code: TaxKey.find("3").vat_account_code, name: "USt 19%", account_type: "liability") }
+
+  def book(net, booking_date:, posted_at:)
+    je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: booking_date)
+    create(:line_item, journal_entry: je, account: bank_account, amount: (net * 1.19).round(2), direction: "debit")
+    create(:line_item, journal_entry: je, account: revenue_account, amount: net, direction: "credit", tax_key_code: "3")
+    create(:line_item, journal_entry: je, account: vat_output_19_account, amount: (net * 0.19).round(2), direction: "credit", tax_key_code: "3")
+    je.update!(posted_at: posted_at)
+    je
+  end
+
+  def save_ustva(start_date, end_date, period_type: "monthly", created_at: 1.hour.ago)
+    data = UstvaService.new(company: company, start_date: start_date, end_date: end_date).call.data
+    create(:tax_report, company: company, report_type: "ustva", period_type: period_type, start_date: start_date,
+      end_date: end_date, generated_data: data.as_json, created_at: created_at)
+  end
+
+  let(:adjustments) { {} }
+
+  subject(:data) do
+    described_class.new(company: company, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 12, 31), adjustments: adjustments).call.data
+  end
+
+  it 'requires a calendar year' do
+    result = described_class.new(company: company, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 3, 31)).call
+
+    expect(result.success?).to be false
+    expect(result.errors).to include("The Umsatzsteuererklärung covers a calendar year")
+  end
+
+  context 'with a monthly UStVA and a booking posted after it was saved' do
+    let!(:january_report) do
+      book(100.00, booking_date: Date.new(2025, 1, 15), posted_at: 2.hours.ago)
+      save_ustva(Date.new(2025, 1, 1), Date.new(2025, 1, 31))
+    end
+    let!(:late_entry) { book(50.00, booking_date: Date.new(2025, 1, 25), posted_at: Time.current) }
+
+    it 'compares the annual figures line by line with the saved UStVAs' do
+      kz_81 = data[:fields].find { |field| field[:key] == :kz_81 }
+
+      expect(data[:filing_period_type]).to eq("monthly")
+      expect(kz_81).to include(annual_base_value: 150.00, filed_base_value: 100.00, base_difference: 50.00)
+      expect(kz_81).to include(annual_value: 28.50, filed_value: 19.00, difference: 9.50)
+    end
+
+    it 'lists the late booking and the changed lines of the period' do
+      january = data[:periods].first
+
+      expect(data[:periods].size).to eq(12)
+      expect(january).to include(tax_report_id: january_report.id, filed_net_vat_liability: 19.00, current_net_vat_liability: 28.50, difference: 9.50)
+      expect(january[:late_entries].map { |entry| entry[:journal_entry_id] }).to eq([ late_entry.id ])
+      expect(january[:changed_fields].map { |field| field[:field_number] }).to eq([ 81 ])
+      expect(data[:periods].second).to include(status: "missing", difference: 0.0)
+    end
+
+    context 'with a Sondervorauszahlung' do
+      let(:adjustments) { { sondervorauszahlung: 100.00 } }
+
+      it 'adds it to the Vorauszahlungssoll' do
+        expect(data[:adjustments][:sondervorauszahlung][:value]).to eq(100.00)
+        expect(data[:totals]).to eq(
+          annual_tax: 28.50,
+          filed_tax: 19.00,
+          difference: 9.50,
+          sondervorauszahlung: 100.00,
+          prepayments_due: 119.00,
+          remaining_payment: -90.50
+        )
+      end
+    end
+  end
+
+  it 'reconciles quarterly filers against their quarters' do
+    book(100.00, booking_date: Date.new(2025, 4, 10), posted_at: 2.hours.ago)
+    save_ustva(Date.new(2025, 4, 1), Date.new(2025, 6, 30), period_type: "quarterly")
+
+    expect(data[:filing_period_type]).to eq("quarterly")
+    expect(data[:periods].map { |period| period[:label] }).to eq([ "Q1 2025", "Q2 2025", "Q3 2025", "Q4 2025" ])
+    expect(data[:periods].second).to include(difference: 0.0, late_entries: [], changed_fields: [])
+    expect(data[:totals][:difference]).to eq(0.0)
+  end
+end
@@ -68,21 +68,21 @@ RSpec.describe UstvaService do
       let!(:bank_account) { create(:account, company: company, code: "1200", name: "Bank", account_type: "asset") }
       let!(:revenue_account) { create(:account, company: company, code: "4000", name: "Revenue", account_type: "revenue") }
       let!(:expense_account) { create(:account, company: company, code: "6000", name: "Expense", account_type: "expense") }
-      let!(:vat_output_19_account) { create(:account, company: company, code: Account::VAT_ACCOUNTS[:output_19], name: "USt 19%", account_type: "liability") }
-      let!(:vat_input_19_account) { create(:account, company: company, code: Account::VAT_ACCOUNTS[:input_19], name: "Vorsteuer 19%", account_type: "asset") }
+      let!(:vat_output_19_account) { create(:account, company: company, code: TaxKey.find("3").vat_account_code, name: "USt 19%", account_type: "liability") }
+      let!(:vat_input_19_account) { create(:account, company: company, code: TaxKey.find("9").vat_account_code, name: "Vorsteuer 19%", account_type: "asset") }
 
       before do
         # Create a posted journal entry with output VAT (revenue transaction)
         je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 1, 15))
         create(:line_item, journal_entry: je, account: bank_account, amount: 119.00, direction: "debit")
-        create(:line_item, journal_entry: je, account: revenue_account, amount: 100.00, direction: "credit")
-        create(:line_item, journal_entry: je, account: vat_output_19_account, amount: 19.00, direction: "credit")
+        create(:line_item, journal_entry: je, account: revenue_account, amount: 100.00, direction: "credit", tax_key_code: "3")
+        create(:line_item, journal_entry: je, account: vat_output_19_account, amount: 19.00, direction: "credit", tax_key_code: "3")
         je.update!(posted_at: Time.current)
 
         # Create a posted journal entry with input VAT (expense transaction)
         je2 = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 1, 20))
-        create(:line_item, journal_entry: je2, account: expense_account, amount: 100.00, direction: "debit")
-        create(:line_item, journal_entry: je2, account: vat_input_19_account, amount: 19.00, direction: "debit")
+        create(:line_item, journal_entry: je2, account: expense_account, amount: 100.00, direction: "debit", tax_key_code: "9")
+        create(:line_item, journal_entry: je2, account: vat_input_19_account, amount: 19.00, direction: "debit", tax_key_code: "9")
         create(:line_item, journal_entry: je2, account: bank_account, amount: 119.00, direction: "credit")
         je2.update!(posted_at: Time.current)
       end
@@ -102,6 +102,18 @@ RSpec.describe UstvaService do
         expect(input_vat_field[:value]).to eq(19.00)
       end
 
+      it 'reports the tax base of keyed bookings' do
+        service = described_class.new(company: company, start_date: start_date, end_date: end_date)
+        result = service.call
+
+        output_vat_field = result.data[:fields].find { |f| f[:key] == :kz_81 }
+        expect(output_vat_field[:base_value]).to eq(100.00)
+
+        # Input VAT keys have no base Kennziffer
+        input_vat_field = result.data[:fields].find { |f| f[:key] == :kz_66 }
+        expect(input_vat_field[:base_value]).to be_nil
+      end
+
       it 'calculates net VAT liability correctly' do
         service = described_class.new(company: company, start_date: start_date, end_date: end_date)
         result = service.call
@@ -118,6 +130,17 @@ RSpec.describe UstvaService do
         expect(result.data[:sections][:output_vat]).to include(:label, :fields, :subtotal)
       end
 
+      it 'orders the sections like the official form' do
+        service = described_class.new(company: company, start_date: start_date, end_date: end_date)
+        result = service.call
+
+        expect(result.data[:sections].keys).to eq(%i[
+          output_vat tax_free_with_input_tax tax_free_without_input_tax intra_community_acquisitions
+          reverse_charge supplementary input_vat
+        ])
+        expect(result.data[:sections][:output_vat][:base_subtotal]).to eq(100.00)
+      end
+
       it 'calculates section subtotals correctly' do
         service = described_class.new(company: company, start_date: start_date, end_date: end_date)
         result = service.call
@@ -162,6 +185,51 @@ RSpec.describe UstvaService do
       end
     end
 
+    context 'with tax-free revenue, intra-community acquisitions and § 13b services' do
+      let!(:bank_account) { create(:account, company: company, code: "1200", name: "Bank", account_type: "asset") }
+      let!(:ig_delivery_account) { create(:account, company: company, code: "8125", name: "Steuerfreie ig. Lieferungen", account_type: "revenue") }
+      let!(:goods_account) { create(:account, company: company, code: "3425", name: "Innergem. Erwerb 19%", account_type: "expense") }
+      let!(:construction_account) { create(:account, company: company, code: "3120", name: "Bauleistungen 19%", account_type: "expense") }
+      let!(:vat_accounts) do
+        %w[1574 1774 1577 1787].map { |code| create(:account, company: company, code: code, name: "USt/VSt #{code}", account_type: "liability") }
+      end
+
+      def book(lines)
+        je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 1, 10))
+        lines.each do |code, direction, amount, tax_key_code|
+          create(:line_item, journal_entry: je, account: company.accounts.find_by!(code: code), amount: amount, direction: direction, tax_key_code: tax_key_code)
+        end
+        je.update!(posted_at: Time.current)
+      end
+
+      before do
+        book([ [ "1200", "debit", 500.00 ], [ "8125", "credit", 500.00 ] ])
+        book([ [ "3425", "debit", 200.00, "19" ], [ "1574", "debit", 38.00, "19" ], [ "1774", "credit", 38.00, "19" ], [ "1200", "credit", 200.00 ] ])
+        book([ [ "3120", "debit", 1000.00, "94" ], [ "1577", "debit", 190.00, "94" ], [ "1787", "credit", 190.00, "94" ], [ "1200", "credit", 1000.00 ] ])
+      end
+
+      let(:fields) { described_class.new(company: company, start_date: start_date, end_date: end_date).call.data[:fields].index_by { |f| f[:key] } }
+
+      it 'reports the tax base of tax-free revenue accounts' do
+        expect(fields[:kz_41]).to include(base_value: 500.00, value: nil)
+      end
+
+      it 'reports intra-community acquisitions with their output and input VAT' do
+        expect(fields[:kz_89]).to include(base_value: 200.00, value: 38.00)
+        expect(fields[:kz_61][:value]).to eq(38.00)
+      end
+
+      it 'reports § 13b services of mapped accounts under Kz 84/85 and their input VAT under Kz 67' do
+        expect(fields[:kz_84]).to include(base_value: 1000.00, value: 190.00, tax_field_number: 85)
+        expect(fields[:kz_46]).to include(base_value: 0.0, value: 0.0)
+        expect(fields[:kz_67][:value]).to eq(190.00)
+      end
+
+      it 'offsets the tax owed by the recipient against the input VAT' do
+        expect(described_class.new(company: company, start_date: start_date, end_date: end_date).call.data[:net_vat_liability]).to eq(0.0)
+      end
+    end
+
     context 'period type determination' do
       it 'detects monthly period (28-31 days)' do
         service = described_class.new(company: company, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 1, 31))
@@ -194,7 +262,7 @@ RSpec.describe UstvaService do
 
     context 'with positive net VAT liability' do
       let!(:revenue_account) { create(:account, company: company, code: "4000", name: "Revenue", account_type: "revenue") }
-      let!(:vat_output_19_account) { create(:account, company: company, code: Account::VAT_ACCOUNTS[:output_19], name: "USt 19%", account_type: "liability") }
+      let!(:vat_output_19_account) { create(:account, company: company, code: TaxKey.find("3").vat_account_code, name: "USt 19%", account_type: "liability") }
 
       before do
         je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 1, 15))
@@ -213,7 +281,7 @@ RSpec.describe UstvaService do
 
     context 'with negative net VAT liability' do
       let!(:expense_account) { create(:account, company: company, code: "6000", name: "Expense", account_type: "expense") }
-      let!(:vat_input_19_account) { create(:account, company: company, code: Account::VAT_ACCOUNTS[:input_19], name: "Vorsteuer 19%", account_type: "asset") }
+      let!(:vat_input_19_account) { create(:account, company: company, code: TaxKey.find("9").vat_account_code, name: "Vorsteuer 19%", account_type: "asset") }
 
       before do
         je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 1, 15))
@@ -0,0 +1,50 @@
+require 'rails_helper'
+
+RSpec.describe VoucherNumberReport do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2026) }
+  let!(:range) { create(:voucher_number_range, company: company, default_for: 'manual') }
+
+  def posted_entry(**attributes)
+    entry = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2026, 3, 1), **attributes)
+    entry.post!
+    entry
+  end
+
+  it 'reports a clean sequence' do
+    2.times { posted_entry }
+    report = described_class.new(fiscal_year: fiscal_year).call
+
+    expect(report).to be_clean
+    summary = report.ranges.first
+    expect(summary.count).to eq(2)
+    expect(summary.first_number).to eq('ER-2026-00001')
+    expect(summary.last_number).to eq('ER-2026-00002')
+  end
+
+  it 'lists missing numbers' do
+    posted_entry
+    posted_entry.update_column(:voucher_counter, 3)
+    report = described_class.new(fiscal_year: fiscal_year).call
+
+    expect(report).not_to be_clean
+    expect(report.ranges.first.missing_numbers).to eq([ 'ER-2026-00002' ])
+  end
+
+  it 'lists duplicate voucher numbers' do
+    first = posted_entry(voucher_number: 'B-1')
+    second = posted_entry(voucher_number: 'B-1')
+    report = described_class.new(fiscal_year: fiscal_year).call
+
+    expect(report.duplicates.map(&:voucher_number)).to eq([ 'B-1' ])
+    expect(report.duplicates.first.journal_entries).to contain_exactly(first, second)
+  end
+
+  it 'lists posted entries without a number' do
+    range.update!(default_for: nil)
+    entry = posted_entry
+    report = described_class.new(fiscal_year: fiscal_year).call
+
+    expect(report.unnumbered_entries).to eq([ entry ])
+  end
+end
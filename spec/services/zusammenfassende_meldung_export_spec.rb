@@ -0,0 +1,38 @@
+require 'rails_helper'
+
+RSpec.describe ZusammenfassendeMeldungExport do
+  let(:company) { create(:company) }
+  let(:generated_data) do
+    {
+      report_type: "zusammenfassende_meldung",
+      rows: [
+        { country_code: "AT", vat_number: "U12345678", vat_id: "ATU12345678", supply_type: "L", amount: 1250.99 },
+        { country_code: "FR", vat_number: "12345678901", vat_id: "FR12345678901", supply_type: "S", amount: -300.0 }
+      ],
+      flagged_entries: []
+    }
+  end
+  let(:tax_report) do
+    create(:tax_report, company: company, report_type: "zusammenfassende_meldung", period_type: "quarterly",
+      start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 3, 31), generated_data: generated_data)
+  end
+
+  subject(:result) { described_class.new(tax_report: tax_report).call }
+
+  it 'writes one line per USt-IdNr. and Art der Leistung in full euros' do
+    expect(result).to be_success
+    expect(result.filename).to eq("ZM_2025_Q1.csv")
+    expect(result.csv.split("\r\n")).to eq([
+      "Laenderkennzeichen,USt-IdNr.,Betrag(EUR),Art der Leistung",
+      "AT,U12345678,1250,L",
+      "FR,12345678901,-300,S"
+    ])
+  end
+
+  it 'blocks the export while bookings lack a valid customer USt-IdNr.' do
+    generated_data[:flagged_entries] = [ { journal_entry_id: 1, reason: "Customer USt-IdNr. is missing" } ]
+
+    expect(result).not_to be_success
+    expect(result.errors).to eq([ "1 booking(s) have no valid customer USt-IdNr., please correct them and generate the report again" ])
+  end
+end
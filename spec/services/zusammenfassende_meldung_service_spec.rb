@@ -0,0 +1,52 @@
+require 'rails_helper'
+
+RSpec.describe ZusammenfassendeMeldungService do
+  let(:company) { create(:company) }
+  let(:fiscal_year) { create(:fiscal_year, company: company, year: 2025, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 12, 31)) }
+  let!(:bank_account) { create(:account, company: company, code: "1200", name: "Bank", account_type: "asset") }
+  let!(:delivery_account) { create(:account, company: company, code: "8125", name: "Steuerfreie ig. Lieferungen", account_type: "revenue") }
+  let!(:service_account) { create(:account, company: company, code: "8336", name: "Sonstige Leistungen EU", account_type: "revenue") }
+
+  def book(account_code, amount, vat_id, booking_date: Date.new(2025, 2, 10), direction: "credit")
+    je = create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: booking_date, counterparty_vat_id: vat_id)
+    create(:line_item, journal_entry: je, account: bank_account, amount: amount, direction: direction == "credit" ? "debit" : "credit")
+    create(:line_item, journal_entry: je, account: company.accounts.find_by!(code: account_code), amount: amount, direction: direction)
+    je.update!(posted_at: Time.current)
+    je
+  end
+
+  subject(:data) { described_class.new(company: company, start_date: Date.new(2025, 1, 1), end_date: Date.new(2025, 3, 31)).call.data }
+
+  it 'sums supplies and services per customer USt-IdNr.' do
+    book("8125", 1000.00, "ATU12345678")
+    book("8125", 250.50, "at u123 456 78")
+    book("8336", 400.00, "ATU12345678")
+    book("8125", 300.00, "FR12345678901", direction: "debit")
+
+    expect(data[:period_type]).to eq("quarterly")
+    expect(data[:rows].map { |row| row.values_at(:country_code, :vat_number, :supply_type, :amount, :entries_count) }).to eq([
+      [ "AT", "U12345678", "L", 1250.50, 2 ],
+      [ "AT", "U12345678", "S", 400.00, 1 ],
+      [ "FR", "12345678901", "L", -300.00, 1 ]
+    ])
+    expect(data[:totals]).to eq(supplies: 950.50, services: 400.00, total: 1350.50)
+  end
+
+  it 'flags bookings without a USt-IdNr. of another EU member state' do
+    missing = book("8125", 500.00, nil)
+    book("8336", 200.00, "DE123456789")
+
+    expect(data[:rows]).to be_empty
+    expect(data[:flagged_entries].map { |entry| entry.values_at(:journal_entry_id, :supply_type, :amount, :reason) }.first)
+      .to eq([ missing.id, "L", 500.00, "Customer USt-IdNr. is missing" ])
+    expect(data[:flagged_entries].last[:reason]).to eq("DE123456789 is not the USt-IdNr. of another EU member state")
+  end
+
+  it 'ignores bookings outside the period and drafts' do
+    book("8125", 500.00, "ATU12345678", booking_date: Date.new(2025, 4, 1))
+    create(:journal_entry, company: company, fiscal_year: fiscal_year, booking_date: Date.new(2025, 2, 1), counterparty_vat_id: "ATU12345678")
+
+    expect(data[:rows]).to be_empty
+    expect(data[:metadata][:journal_entries_count]).to eq(0)
+  end
+end